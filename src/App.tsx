@@ -1,12 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { SplashScreen } from './components/SplashScreen';
 import { LoginScreen } from './components/LoginScreen';
 import { LocationPermissionScreen } from './components/LocationPermissionScreen';
+import { AcceptInviteScreen } from './components/AcceptInviteScreen';
+import { ResetPasswordScreen } from './components/ResetPasswordScreen';
+import { MfaScreen } from './components/MfaScreen';
 import { MainApp } from './components/MainApp';
 import { AdminPanel } from './components/AdminPanel';
 import { Toaster } from 'sonner@2.0.3';
 import { authService, User } from './services/authService';
-import { fuelService, FuelEntry as BackendFuelEntry } from './services/fuelService';
+import { passkeyService } from './services/passkeyService';
+import { mfaService, MfaStep } from './services/mfaService';
+import { fuelService, FuelEntry as BackendFuelEntry, CreateFuelEntryData, EntryStatus, EntryStatusChange, FlagReason, FuelEntryQuery, FuelEntryRevision, FuelPurpose, FuelType, ReviewDecision, UpdateFuelEntryData, VehicleCategory } from './services/fuelService';
+import { offlineQueueService, OutboxItem, OutboxStatus } from './services/offlineQueueService';
+import { adminService } from './services/adminService';
+import { organizationService, OrganizationSettings } from './services/organizationService';
+import { rooftopService, Rooftop } from './services/rooftopService';
+import { chargebackService, ChargebackSettings } from './services/chargebackService';
+import { isDemoMode } from './utils/supabase/demo-config';
+import { can, canOpenAdminPanel } from './utils/permissions';
 import { toast } from 'sonner@2.0.3';
 
 // Legacy interface for compatibility with existing components
@@ -19,8 +31,14 @@ export interface FuelEntry {
   mileage: number;
   fuelAmount: number;
   fuelCost: number;
+  pricePerGallon?: number;
+  stationName?: string;
   timestamp: Date;
   notes?: string;
+  fuelType?: FuelType;
+  purpose?: FuelPurpose | null;
+  vehicleCategory?: VehicleCategory | null;
+  roNumber?: string | null;
   location?: {
     latitude: number;
     longitude: number;
@@ -29,13 +47,89 @@ export interface FuelEntry {
   receiptPhoto: string;
   vinPhoto?: string;
   submittedAt: Date;
+  voided?: boolean;
+  voidReason?: string;
+  revisions?: FuelEntryRevision[];
+  // How many revisions the server has stored, which may be more than have been loaded
+  revisionCount?: number;
+  flagReasons?: FlagReason[];
+  status?: EntryStatus;
+  statusHistory?: EntryStatusChange[];
+  syncStatus?: OutboxStatus;
+  syncError?: string;
 }
 
+// Fields a porter or admin can correct after submission
+export type FuelEntryChanges = Partial<Pick<FuelEntry, 'stockNumber' | 'vin' | 'mileage' | 'fuelAmount' | 'fuelCost' | 'notes'>>;
+
+const BACKEND_FIELD_NAMES: Record<keyof FuelEntryChanges, keyof UpdateFuelEntryData> = {
+  stockNumber: 'stock_number',
+  vin: 'vin',
+  mileage: 'odometer',
+  fuelAmount: 'gallons',
+  fuelCost: 'total_amount',
+  notes: 'notes'
+};
+
+// Convert a backend entry to the legacy format used by the UI
+const toLegacyEntry = (entry: BackendFuelEntry, userName: string): FuelEntry => ({
+  id: entry.id,
+  userId: entry.user_id,
+  userName,
+  stockNumber: entry.stock_number,
+  vin: entry.vin,
+  mileage: entry.odometer,
+  fuelAmount: entry.gallons,
+  fuelCost: entry.total_amount,
+  pricePerGallon: entry.price_per_gallon,
+  stationName: entry.station_name,
+  timestamp: new Date(entry.timestamp),
+  notes: entry.notes,
+  // Entries from before the fuel type picker say 'Regular'
+  fuelType: entry.fuel_type?.toLowerCase() as FuelType,
+  purpose: entry.purpose,
+  vehicleCategory: entry.vehicle_category,
+  roNumber: entry.ro_number,
+  location: {
+    latitude: entry.latitude || 0,
+    longitude: entry.longitude || 0,
+    address: entry.location
+  },
+  receiptPhoto: entry.receipt_photo || '',
+  vinPhoto: entry.vin_photo,
+  submittedAt: new Date(entry.created_at),
+  voided: entry.voided,
+  voidReason: entry.void_reason,
+  revisionCount: entry.revision_count,
+  flagReasons: entry.flag_reasons,
+  status: entry.status,
+  statusHistory: entry.status_history
+});
+
+// Convert an unsent outbox item to the legacy format used by the UI
+const toOutboxEntry = (item: OutboxItem): FuelEntry => ({
+  ...toLegacyEntry({ ...item.data, id: item.id, user_id: item.user_id, created_at: item.created_at }, item.user_name),
+  syncStatus: item.status,
+  syncError: item.last_error
+});
+
+const REVIEW_MESSAGES: Record<ReviewDecision, string> = {
+  approved: 'Fuel entry approved',
+  rejected: 'Fuel entry rejected',
+  needs_info: 'Asked the porter for more information'
+};
+
 export default function App() {
-  const [currentScreen, setCurrentScreen] = useState<'splash' | 'login' | 'location-permission' | 'main' | 'admin'>('splash');
+  const [currentScreen, setCurrentScreen] = useState<'splash' | 'login' | 'accept-invite' | 'reset-password' | 'mfa' | 'location-permission' | 'main' | 'admin'>('splash');
+  const [mfaStep, setMfaStep] = useState<MfaStep | null>(null);
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [resetToken, setResetToken] = useState<string | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [users, setUsers] = useState<User[]>([]);
+  const [rooftop, setRooftop] = useState<Rooftop | null>(null);
+  const [chargebackSettings, setChargebackSettings] = useState<ChargebackSettings | null>(null);
+  const [organization, setOrganization] = useState<OrganizationSettings>(organizationService.current);
   const [isLoading, setIsLoading] = useState(true);
   const [isGuestMode, setIsGuestMode] = useState(false);
   const [locationPermissionGranted, setLocationPermissionGranted] = useState<boolean | null>(null);
@@ -52,6 +146,9 @@ export default function App() {
       fuelCost: 42.85,
       timestamp: new Date('2024-12-20T10:30:00'),
       notes: 'Regular fill-up at Shell station',
+      fuelType: 'regular',
+      purpose: 'delivery',
+      vehicleCategory: 'new',
       location: {
         latitude: 41.8781,
         longitude: -87.6298,
@@ -70,6 +167,9 @@ export default function App() {
       fuelCost: 28.15,
       timestamp: new Date('2024-12-19T14:15:00'),
       notes: 'Customer vehicle, VIN from photo',
+      fuelType: 'regular',
+      purpose: 'service',
+      vehicleCategory: 'service_customer',
       location: {
         latitude: 41.8825,
         longitude: -87.6235,
@@ -81,15 +181,195 @@ export default function App() {
     }
   ]);
 
+  // Branding and sign-up domains; the defaults show until they arrive
+  useEffect(() => {
+    organizationService.getSettings().then(result => {
+      if ('settings' in result) {
+        setOrganization(result.settings);
+      }
+    });
+  }, []);
+
+  // Restore the user's unsent entries from the offline outbox and follow their progress.
+  // Other users' entries stay in the outbox on a shared device but never show up here.
+  const outboxUserId = currentUser?.id ?? null;
+  useEffect(() => {
+    let cancelled = false;
+    const isOutboxEntry = (entry: FuelEntry) => entry.id.startsWith('local-');
+
+    if (!outboxUserId) {
+      setFuelEntries(prev => prev.filter(e => !isOutboxEntry(e)));
+      return;
+    }
+
+    offlineQueueService.getItems(outboxUserId).then(items => {
+      if (cancelled) return;
+      const outboxEntries = items.map(toOutboxEntry);
+      setFuelEntries(prev => [...outboxEntries, ...prev.filter(e => !isOutboxEntry(e))]);
+    });
+
+    // The only place outbox entries are added to or replaced in the list
+    const unsubscribe = offlineQueueService.subscribe((item, syncedEntry) => {
+      if (item.user_id !== outboxUserId) return;
+      const updatedEntry = syncedEntry ? toLegacyEntry(syncedEntry, item.user_name) : toOutboxEntry(item);
+      setFuelEntries(prev => prev.some(e => e.id === item.id)
+        ? prev.map(e => e.id === item.id ? updatedEntry : e)
+        : [updatedEntry, ...prev]
+      );
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [outboxUserId]);
+
+  // Send the user's queued entries whenever we have a real session
+  useEffect(() => {
+    if (!accessToken || isGuestMode || !outboxUserId) return;
+
+    offlineQueueService.startSync(accessToken, outboxUserId);
+    return () => offlineQueueService.stopSync();
+  }, [accessToken, isGuestMode, outboxUserId]);
+
+  // The signed-in user's rooftop, for the entry form's stock number format
+  useEffect(() => {
+    const rooftopId = currentUser?.rooftop_id;
+    if (!accessToken || isGuestMode || isDemoMode || !rooftopId) {
+      setRooftop(null);
+      return;
+    }
+
+    rooftopService.getRooftops(accessToken).then(result => {
+      if ('rooftops' in result) {
+        setRooftop(result.rooftops.find(r => r.id === rooftopId) ?? null);
+      }
+    });
+  }, [accessToken, isGuestMode, currentUser?.rooftop_id]);
+
+  // The RO number format, so the entry form can check repair-order numbers before submitting
+  useEffect(() => {
+    if (!accessToken || isGuestMode || isDemoMode) {
+      setChargebackSettings(null);
+      return;
+    }
+
+    chargebackService.getSettings(accessToken).then(result => {
+      if ('settings' in result) {
+        setChargebackSettings(result.settings);
+      }
+    });
+  }, [accessToken, isGuestMode]);
+
+  // Refresh the user list each time the admin panel opens
+  useEffect(() => {
+    if (currentScreen !== 'admin' || !accessToken || isGuestMode || isDemoMode || !can(currentUser, 'users.view')) return;
+
+    adminService.getAllUsers(accessToken).then(result => {
+      if ('users' in result) {
+        setUsers(result.users);
+      }
+    });
+  }, [currentScreen, accessToken, isGuestMode, currentUser]);
+
+  // Offer to move entries saved in guest mode onto the signed-in account
+  const offerGuestEntryClaim = async (user: User) => {
+    const guestItems = await offlineQueueService.getGuestItems();
+    if (guestItems.length === 0) return;
+
+    toast(`${guestItems.length} guest ${guestItems.length === 1 ? 'entry is' : 'entries are'} saved on this device`, {
+      description: 'Add them to your account to sync them',
+      duration: 10000,
+      action: {
+        label: 'Claim',
+        onClick: async () => {
+          const claimed = await offlineQueueService.claimGuestEntries(user);
+          toast.success(`${claimed} ${claimed === 1 ? 'entry' : 'entries'} added to your account`);
+        }
+      }
+    });
+  };
+
+  // After a password sign-in, suggest a passkey to users who don't have one on any device yet
+  const offerPasskeySetup = async (token: string) => {
+    if (!(await passkeyService.isAvailable())) return;
+
+    const result = await passkeyService.getPasskeys(token);
+    if (!('passkeys' in result) || result.passkeys.length > 0) return;
+
+    toast('Sign in faster next time', {
+      description: 'Use Face ID, Touch ID or your device PIN instead of your password',
+      duration: 10000,
+      action: {
+        label: 'Set up',
+        onClick: async () => {
+          const registered = await passkeyService.register(token);
+          if ('error' in registered) {
+            toast.error(registered.error);
+          } else {
+            toast.success(`Passkey added for ${registered.passkey.name}`);
+          }
+        }
+      }
+    });
+  };
+
+  // Signed in with a password or passkey. Returns false when a second factor is needed first,
+  // in which case the MFA screen takes over and finishes the sign-in.
+  const startSession = async (user: User, token: string, welcome: string): Promise<boolean> => {
+    setCurrentUser(user);
+    setAccessToken(token);
+
+    const step = await mfaService.getSignInStep(token);
+    if (step) {
+      setMfaStep(step);
+      setCurrentScreen('mfa');
+      return false;
+    }
+
+    setCurrentScreen('location-permission');
+    toast.success(welcome);
+    return true;
+  };
+
+  const handleMfaVerified = () => {
+    setMfaStep(null);
+    setCurrentScreen('location-permission');
+    if (currentUser) {
+      toast.success(`Welcome back, ${currentUser.name}!`);
+      offerGuestEntryClaim(currentUser);
+    }
+  };
+
   // Initialize app and auto-login in demo mode
   useEffect(() => {
     const initializeApp = async () => {
+      // Invite and password reset links open their set-password screen instead of signing anyone in
+      const params = new URLSearchParams(window.location.search);
+      const invite = params.get('invite');
+      const reset = params.get('reset');
+      if (invite || reset) {
+        window.history.replaceState(null, '', window.location.pathname);
+        if (invite) {
+          setInviteToken(invite);
+          setCurrentScreen('accept-invite');
+        } else {
+          setResetToken(reset);
+          setCurrentScreen('reset-password');
+        }
+        setIsLoading(false);
+        return;
+      }
+
       try {
         const session = await authService.getSession();
         if (session) {
           setCurrentUser(session.user);
           setAccessToken(session.token);
-          setCurrentScreen('main');
+          // A reload keeps the verified second factor for the tab; a new tab asks again
+          const step = await mfaService.getSignInStep(session.token);
+          setMfaStep(step);
+          setCurrentScreen(step ? 'mfa' : 'main');
           setIsLoading(false);
         } else {
           // Auto-login as porter user - no credentials needed!
@@ -167,6 +447,7 @@ export default function App() {
           console.log('Setting screen to location permission...');
           setCurrentScreen('location-permission');
           toast.success(`Welcome back, ${mockUser.name}! (Test Mode)`);
+          offerGuestEntryClaim(mockUser);
         }, 100);
         
         console.log('Login successful, returning true');
@@ -181,10 +462,10 @@ export default function App() {
         return false;
       }
 
-      setCurrentUser(result.user);
-      setAccessToken(result.token);
-      setCurrentScreen('location-permission');
-      toast.success(`Welcome back, ${result.user.name}!`);
+      if (await startSession(result.user, result.token, `Welcome back, ${result.user.name}!`)) {
+        offerGuestEntryClaim(result.user);
+        offerPasskeySetup(result.token);
+      }
       return true;
     } catch (error) {
       console.error('Login error:', error);
@@ -193,11 +474,29 @@ export default function App() {
     }
   };
 
+  const handlePasskeyLogin = async (email?: string): Promise<boolean> => {
+    const result = await passkeyService.signIn(email);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return false;
+    }
+
+    if (await startSession(result.user, result.token, `Welcome back, ${result.user.name}!`)) {
+      offerGuestEntryClaim(result.user);
+    }
+    return true;
+  };
+
   const handleLogout = async () => {
     try {
+      // Nothing more goes out with this session; the next user's entries sync under their own
+      offlineQueueService.stopSync();
       if (!isGuestMode) {
         await authService.signOut();
       }
+      mfaService.clearToken();
+      setMfaStep(null);
       setCurrentUser(null);
       setAccessToken(null);
       setIsGuestMode(false);
@@ -229,96 +528,321 @@ export default function App() {
     }
   };
 
-  const handleSubmitFuelEntry = async (entryData: Omit<FuelEntry, 'id' | 'userId' | 'userName' | 'submittedAt'>) => {
-    if (!currentUser) return;
+  const handleInviteAccepted = async (email: string, password: string) => {
+    setInviteToken(null);
+    const result = await authService.signIn(email, password);
 
-    // Guest mode - store locally
-    if (isGuestMode || !accessToken) {
-      const newEntry: FuelEntry = {
-        id: `guest-${Date.now()}`,
-        userId: currentUser.id,
-        userName: currentUser.name,
-        stockNumber: entryData.stockNumber,
-        vin: entryData.vin,
-        mileage: entryData.mileage,
-        fuelAmount: entryData.fuelAmount,
-        fuelCost: entryData.fuelCost,
-        timestamp: entryData.timestamp,
-        notes: entryData.notes,
-        location: entryData.location,
-        receiptPhoto: entryData.receiptPhoto,
-        vinPhoto: entryData.vinPhoto,
-        submittedAt: new Date()
-      };
+    if ('error' in result) {
+      toast.error(result.error);
+      setCurrentScreen('login');
+      return;
+    }
+
+    await startSession(result.user, result.token, `Welcome to FuelTrakr, ${result.user.name}!`);
+  };
+
+  const handleRequestPasswordReset = async (email: string): Promise<boolean> => {
+    const result = await authService.requestPasswordReset(email);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return false;
+    }
 
-      setFuelEntries(prev => [newEntry, ...prev]);
-      toast.success('Fuel entry saved locally! (Guest Mode)');
-      return newEntry;
+    toast.success(result.message);
+    return true;
+  };
+
+  const handlePasswordReset = async (email: string, password: string) => {
+    setResetToken(null);
+    const result = await authService.signIn(email, password);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      setCurrentScreen('login');
+      return;
     }
 
+    await startSession(result.user, result.token, `Welcome back, ${result.user.name}!`);
+  };
+
+  const handleSubmitFuelEntry = async (entryData: Omit<FuelEntry, 'id' | 'userId' | 'userName' | 'submittedAt'>) => {
+    if (!currentUser) return;
+
+    // Convert legacy format to backend format
+    const backendData: CreateFuelEntryData = {
+      stock_number: entryData.stockNumber || '',
+      vin: entryData.vin,
+      gallons: entryData.fuelAmount,
+      price_per_gallon: entryData.pricePerGallon || entryData.fuelCost / entryData.fuelAmount,
+      total_amount: entryData.fuelCost,
+      odometer: entryData.mileage,
+      fuel_type: entryData.fuelType ?? 'regular',
+      station_name: entryData.stationName,
+      location: entryData.location
+        ? entryData.location.address || `${entryData.location.latitude}, ${entryData.location.longitude}`
+        : 'Location unavailable',
+      latitude: entryData.location?.latitude,
+      longitude: entryData.location?.longitude,
+      receipt_photo: entryData.receiptPhoto,
+      vin_photo: entryData.vinPhoto,
+      notes: entryData.notes,
+      timestamp: entryData.timestamp.toISOString(),
+      purpose: entryData.purpose,
+      vehicle_category: entryData.vehicleCategory,
+      ro_number: entryData.roNumber
+    };
+
     try {
-      // Convert legacy format to backend format
-      const backendData = {
-        stock_number: entryData.stockNumber || '',
-        vin: entryData.vin,
-        gallons: entryData.fuelAmount,
-        price_per_gallon: entryData.fuelCost / entryData.fuelAmount,
-        total_amount: entryData.fuelCost,
-        odometer: entryData.mileage,
-        fuel_type: 'Regular', // Default fuel type
-        location: entryData.location?.address || `${entryData.location?.latitude}, ${entryData.location?.longitude}` || 'Unknown',
-        latitude: entryData.location?.latitude,
-        longitude: entryData.location?.longitude,
-        receipt_photo: entryData.receiptPhoto,
-        vin_photo: entryData.vinPhoto,
-        notes: entryData.notes,
-        timestamp: entryData.timestamp.toISOString()
-      };
+      // Guest mode - keep on this device until claimed by a signed-in user
+      if (isGuestMode || !accessToken) {
+        const item = await offlineQueueService.enqueue(backendData, currentUser, 'guest');
+        toast.success('Fuel entry saved on this device! (Guest Mode)');
+        return toOutboxEntry(item);
+      }
+
+      // The outbox subscriber puts the entry in the list as it's saved, sent or queued
+      const result = await offlineQueueService.submit(backendData, currentUser, accessToken);
+
+      if ('queued' in result) {
+        toast.info('No connection - entry saved and will sync automatically');
+        return toOutboxEntry(result.queued);
+      }
 
-      const result = await fuelService.createFuelEntry(backendData, accessToken);
-      
       if ('error' in result) {
         toast.error(result.error);
         return;
       }
 
-      // Convert back to legacy format for UI
-      const newEntry: FuelEntry = {
-        id: result.entry.id,
-        userId: result.entry.user_id,
-        userName: currentUser.name,
-        stockNumber: result.entry.stock_number,
-        vin: result.entry.vin,
-        mileage: result.entry.odometer,
-        fuelAmount: result.entry.gallons,
-        fuelCost: result.entry.total_amount,
-        timestamp: new Date(result.entry.timestamp),
-        notes: result.entry.notes,
-        location: {
-          latitude: result.entry.latitude || 0,
-          longitude: result.entry.longitude || 0,
-          address: result.entry.location
-        },
-        receiptPhoto: result.entry.receipt_photo || '',
-        vinPhoto: result.entry.vin_photo,
-        submittedAt: new Date(result.entry.created_at)
-      };
-
-      setFuelEntries(prev => [newEntry, ...prev]);
       toast.success('Fuel entry submitted successfully!');
-      return newEntry;
+      return toLegacyEntry(result.entry, currentUser.name);
     } catch (error) {
       console.error('Submit fuel entry error:', error);
       toast.error('Failed to submit fuel entry. Please try again.');
     }
   };
 
+  const handleRetrySync = async (entryId: string) => {
+    await offlineQueueService.retry(entryId);
+  };
+
+  const handleDiscardEntry = async (entryId: string) => {
+    await offlineQueueService.remove(entryId);
+    setFuelEntries(prev => prev.filter(e => e.id !== entryId));
+    toast.success('Unsent entry discarded');
+  };
+
+  const handleEditFuelEntry = async (entryId: string, changes: FuelEntryChanges, reason: string): Promise<boolean> => {
+    const entry = fuelEntries.find(e => e.id === entryId);
+    if (!currentUser || !entry) return false;
+
+    const backendChanges: UpdateFuelEntryData = {};
+    const diff: FuelEntryRevision['changes'] = {};
+    (Object.keys(changes) as (keyof FuelEntryChanges)[]).forEach(field => {
+      if (changes[field] === entry[field]) return;
+      const backendField = BACKEND_FIELD_NAMES[field];
+      (backendChanges as Record<string, unknown>)[backendField] = changes[field];
+      diff[backendField] = { from: entry[field] ?? null, to: changes[field] };
+    });
+
+    if (Object.keys(diff).length === 0) {
+      toast.info('No changes to save');
+      return false;
+    }
+
+    // Unsent, guest and demo entries only live on this device
+    if (entry.syncStatus || isGuestMode || !accessToken || isDemoMode) {
+      if (entry.syncStatus) {
+        await offlineQueueService.update(entryId, backendChanges);
+      }
+
+      const revision: FuelEntryRevision = {
+        revision: (entry.revisions?.length || 0) + 1,
+        action: 'edit',
+        reason,
+        changes: diff,
+        user_id: currentUser.id,
+        user_name: currentUser.name,
+        created_at: new Date().toISOString()
+      };
+
+      setFuelEntries(prev => prev.map(e => e.id === entryId
+        ? { ...e, ...changes, revisions: [...(e.revisions || []), revision] }
+        : e
+      ));
+      toast.success('Fuel entry updated');
+      return true;
+    }
+
+    const result = await fuelService.updateFuelEntry(entryId, backendChanges, reason, accessToken);
+    if ('error' in result) {
+      toast.error(result.error);
+      return false;
+    }
+
+    setFuelEntries(prev => prev.map(e => e.id === entryId
+      ? { ...toLegacyEntry(result.entry, e.userName), revisions: [...(e.revisions || []), result.revision] }
+      : e
+    ));
+    toast.success('Fuel entry updated');
+    return true;
+  };
+
+  const handleVoidFuelEntry = async (entryId: string, reason: string): Promise<boolean> => {
+    const entry = fuelEntries.find(e => e.id === entryId);
+    if (!currentUser || !entry) return false;
+
+    // An unsent entry is simply dropped from the outbox
+    if (entry.syncStatus) {
+      await handleDiscardEntry(entryId);
+      return true;
+    }
+
+    if (isGuestMode || !accessToken || isDemoMode) {
+      const revision: FuelEntryRevision = {
+        revision: (entry.revisions?.length || 0) + 1,
+        action: 'void',
+        reason,
+        changes: { voided: { from: false, to: true } },
+        user_id: currentUser.id,
+        user_name: currentUser.name,
+        created_at: new Date().toISOString()
+      };
+
+      setFuelEntries(prev => prev.map(e => e.id === entryId
+        ? { ...e, voided: true, voidReason: reason, revisions: [...(e.revisions || []), revision] }
+        : e
+      ));
+      toast.success('Fuel entry voided');
+      return true;
+    }
+
+    const result = await fuelService.voidFuelEntry(entryId, reason, accessToken);
+    if ('error' in result) {
+      toast.error(result.error);
+      return false;
+    }
+
+    setFuelEntries(prev => prev.map(e => e.id === entryId
+      ? { ...toLegacyEntry(result.entry, e.userName), revisions: [...(e.revisions || []), result.revision] }
+      : e
+    ));
+    toast.success('Fuel entry voided');
+    return true;
+  };
+
+  // Fetch an entry's stored audit trail, which includes edits made on other devices and sessions
+  const handleLoadRevisions = async (entryId: string) => {
+    if (!accessToken) return;
+
+    const result = await fuelService.getEntryRevisions(entryId, accessToken);
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setFuelEntries(prev => prev.map(e => e.id === entryId ? { ...e, revisions: result.revisions } : e));
+  };
+
+  // Fetch a page of entries from the server and merge it into state.
+  // Returns the page's entry IDs in server order so the list can show exactly that page.
+  // The list goes back to the first page whenever this changes, so it only changes with its inputs.
+  const handleLoadFuelEntries = useCallback(async (query: FuelEntryQuery, cursor?: string | null) => {
+    if (!accessToken) return null;
+
+    const result = await fuelService.getFuelEntries(accessToken, query, cursor);
+    if ('error' in result) {
+      toast.error(result.error);
+      return null;
+    }
+
+    const pageEntries = result.entries.map(entry => toLegacyEntry(
+      entry,
+      users.find(u => u.id === entry.user_id)?.name || (entry.user_id === currentUser?.id ? currentUser.name : 'Unknown')
+    ));
+
+    setFuelEntries(prev => {
+      const updated = prev.map(e => {
+        const pageEntry = pageEntries.find(p => p.id === e.id);
+        return pageEntry ? { ...pageEntry, revisions: e.revisions } : e;
+      });
+      return [...updated, ...pageEntries.filter(p => !prev.some(e => e.id === p.id))];
+    });
+
+    return { ids: pageEntries.map(entry => entry.id), nextCursor: result.nextCursor };
+  }, [accessToken, users, currentUser]);
+
+  // Record a status change on an entry that only lives on this device
+  const addLocalStatusChange = (entryId: string, status: EntryStatus, note?: string) => {
+    if (!currentUser) return;
+    const change: EntryStatusChange = {
+      status,
+      note: note || null,
+      user_id: currentUser.id,
+      user_name: currentUser.name,
+      automatic: false,
+      created_at: new Date().toISOString()
+    };
+    setFuelEntries(prev => prev.map(e => e.id === entryId
+      ? { ...e, status, statusHistory: [...(e.statusHistory || []), change] }
+      : e
+    ));
+  };
+
+  const handleReviewFuelEntry = async (entryId: string, decision: ReviewDecision, note: string): Promise<boolean> => {
+    const entry = fuelEntries.find(e => e.id === entryId);
+    if (!currentUser || !entry) return false;
+
+    if (entry.syncStatus || isGuestMode || !accessToken || isDemoMode) {
+      addLocalStatusChange(entryId, decision, note);
+      toast.success(REVIEW_MESSAGES[decision]);
+      return true;
+    }
+
+    const result = await fuelService.reviewFuelEntry(entryId, decision, note, accessToken);
+    if ('error' in result) {
+      toast.error(result.error);
+      return false;
+    }
+
+    setFuelEntries(prev => prev.map(e => e.id === entryId
+      ? { ...toLegacyEntry(result.entry, e.userName), revisions: e.revisions }
+      : e
+    ));
+    toast.success(REVIEW_MESSAGES[decision]);
+    return true;
+  };
+
+  const handleRespondToInfoRequest = async (entryId: string, response: string): Promise<boolean> => {
+    const entry = fuelEntries.find(e => e.id === entryId);
+    if (!currentUser || !entry) return false;
+
+    if (entry.syncStatus || isGuestMode || !accessToken || isDemoMode) {
+      addLocalStatusChange(entryId, 'submitted', response);
+      toast.success('Response sent');
+      return true;
+    }
+
+    const result = await fuelService.respondToInfoRequest(entryId, response, accessToken);
+    if ('error' in result) {
+      toast.error(result.error);
+      return false;
+    }
+
+    setFuelEntries(prev => prev.map(e => e.id === entryId
+      ? { ...toLegacyEntry(result.entry, e.userName), revisions: e.revisions }
+      : e
+    ));
+    toast.success('Response sent');
+    return true;
+  };
+
   const handleBackToMain = () => {
     setCurrentScreen('main');
   };
 
   const handleOpenAdmin = () => {
-    if (currentUser?.role === 'admin') {
+    if (canOpenAdminPanel(currentUser)) {
       setCurrentScreen('admin');
     }
   };
@@ -336,21 +860,105 @@ export default function App() {
     
     if (granted) {
       toast.success('Location services enabled! Ready to track fuel entries. 📍');
-    } else {
-      toast.success('App ready! Location will default to Chicago area. 📍');
     }
   };
 
   if (isLoading || currentScreen === 'splash') {
-    return <SplashScreen />;
+    return <SplashScreen organization={organization} />;
   }
 
   if (currentScreen === 'login') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-950 via-blue-950 to-slate-900">
         <LoginScreen 
+          organization={organization}
           onLogin={handleLogin} 
           onSignUp={handleSignUp} 
+          onRequestPasswordReset={handleRequestPasswordReset}
+          onPasskeyLogin={handlePasskeyLogin}
+        />
+        <Toaster 
+          theme="dark"
+          position="top-center"
+          toastOptions={{
+            style: {
+              background: 'rgba(15, 23, 42, 0.9)',
+              backdropFilter: 'blur(8px)',
+              border: '1px solid rgba(59, 130, 246, 0.2)',
+              color: 'white',
+            },
+          }}
+        />
+      </div>
+    );
+  }
+
+  if (currentScreen === 'accept-invite' && inviteToken) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-blue-950 to-slate-900">
+        <AcceptInviteScreen
+          organization={organization}
+          inviteToken={inviteToken}
+          onAccepted={handleInviteAccepted}
+          onCancel={() => {
+            setInviteToken(null);
+            setCurrentScreen('login');
+          }}
+        />
+        <Toaster 
+          theme="dark"
+          position="top-center"
+          toastOptions={{
+            style: {
+              background: 'rgba(15, 23, 42, 0.9)',
+              backdropFilter: 'blur(8px)',
+              border: '1px solid rgba(59, 130, 246, 0.2)',
+              color: 'white',
+            },
+          }}
+        />
+      </div>
+    );
+  }
+
+  if (currentScreen === 'reset-password' && resetToken) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-blue-950 to-slate-900">
+        <ResetPasswordScreen
+          organization={organization}
+          resetToken={resetToken}
+          onReset={handlePasswordReset}
+          onCancel={() => {
+            setResetToken(null);
+            setCurrentScreen('login');
+          }}
+        />
+        <Toaster 
+          theme="dark"
+          position="top-center"
+          toastOptions={{
+            style: {
+              background: 'rgba(15, 23, 42, 0.9)',
+              backdropFilter: 'blur(8px)',
+              border: '1px solid rgba(59, 130, 246, 0.2)',
+              color: 'white',
+            },
+          }}
+        />
+      </div>
+    );
+  }
+
+  if (currentScreen === 'mfa' && mfaStep && currentUser && accessToken) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-blue-950 to-slate-900">
+        <MfaScreen
+          organization={organization}
+          step={mfaStep}
+          accessToken={accessToken}
+          userName={currentUser.name}
+          onVerified={handleMfaVerified}
+          onSignOut={handleLogout}
         />
         <Toaster 
           theme="dark"
@@ -391,13 +999,20 @@ export default function App() {
     );
   }
 
-  if (currentScreen === 'admin' && currentUser?.role === 'admin') {
+  if (currentScreen === 'admin' && canOpenAdminPanel(currentUser)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-950 via-blue-950 to-slate-900">
         <AdminPanel 
+          currentUser={currentUser}
+          organization={organization}
+          onOrganizationChange={setOrganization}
           users={users}
           fuelEntries={fuelEntries}
-          onAddUser={handleSignUp}
+          onReviewEntry={handleReviewFuelEntry}
+          onUserUpdated={(user) => {
+            setUsers(prev => prev.map(u => u.id === user.id ? user : u));
+            if (user.id === currentUser?.id) setCurrentUser(user);
+          }}
           onBack={handleBackToMain}
           onLogout={handleLogout}
           accessToken={accessToken}
@@ -422,13 +1037,24 @@ export default function App() {
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-blue-950 to-slate-900">
       <MainApp 
         user={currentUser}
+        organization={organization}
         onLogout={handleLogout}
         onSubmitFuelEntry={handleSubmitFuelEntry}
+        onEditFuelEntry={handleEditFuelEntry}
+        onVoidFuelEntry={handleVoidFuelEntry}
+        onRetrySync={handleRetrySync}
+        onDiscardEntry={handleDiscardEntry}
+        onRespondToInfoRequest={handleRespondToInfoRequest}
+        onLoadEntries={isGuestMode || !accessToken || isDemoMode ? undefined : handleLoadFuelEntries}
+        onLoadRevisions={isGuestMode || !accessToken || isDemoMode ? undefined : handleLoadRevisions}
         onOpenAdmin={handleOpenAdmin}
         fuelEntries={fuelEntries}
         isGuestMode={isGuestMode}
+        accessToken={accessToken}
         locationPermissionGranted={locationPermissionGranted}
         currentLocation={currentLocation}
+        rooftop={rooftop}
+        chargebackSettings={chargebackSettings}
       />
       <Toaster 
         theme="dark"
@@ -1,58 +1,190 @@
-import React, { useState } from 'react';
-import { ArrowLeft, UserPlus, Download, Users, BarChart3, Mail, Shield, FileText, Trash2, CheckCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, UserPlus, Download, Users, BarChart3, Mail, Shield, FileText, Trash2, CheckCircle, Flag, ClipboardCheck, XCircle, HelpCircle, Settings, Database, RefreshCw, Building2, Copy, Send, Ban, Lock, ShieldCheck } from 'lucide-react';
 import { GlassmorphicButton } from './GlassmorphicButton';
+import { ChargebacksPanel } from './ChargebacksPanel';
+import { ExportPanel } from './ExportPanel';
+import { GlMappingPanel } from './GlMappingPanel';
+import { ReconciliationPanel } from './ReconciliationPanel';
+import { OrganizationPanel } from './OrganizationPanel';
+import { RooftopPanel } from './RooftopPanel';
 import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { toast } from 'sonner@2.0.3';
 import { User, FuelEntry } from '../App';
+import { fuelService, ApprovalSettings, DEFAULT_APPROVAL_SETTINGS, EntryStatus, FlagReason, ReviewDecision } from '../services/fuelService';
+import { adminService, ExportFormat, IndexRebuildReport, MfaSettings } from '../services/adminService';
+import { inviteService, Invite } from '../services/inviteService';
+import { emailDomainError, isAllowedEmail, OrganizationSettings } from '../services/organizationService';
+import { rooftopService, Rooftop, RooftopSummary } from '../services/rooftopService';
+import { isDemoMode } from '../utils/supabase/demo-config';
+import { can, Role, ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '../utils/permissions';
 
 interface AdminPanelProps {
+  // Tabs and actions are shown according to this user's permissions
+  currentUser: User | null;
+  organization: OrganizationSettings;
+  onOrganizationChange: (organization: OrganizationSettings) => void;
   users: User[];
   fuelEntries: FuelEntry[];
-  onAddUser: (userData: Omit<User, 'id' | 'createdAt'>) => User;
+  onReviewEntry: (entryId: string, decision: ReviewDecision, note: string) => Promise<boolean>;
+  onUserUpdated: (user: User) => void;
   onBack: () => void;
   onLogout: () => void;
+  accessToken?: string | null;
 }
 
-type AdminView = 'overview' | 'addUser' | 'manageUsers' | 'fuelEntries' | 'reports';
+type AdminView = 'overview' | 'addUser' | 'manageUsers' | 'fuelEntries' | 'export' | 'flagged' | 'reconciliation' | 'chargebacks' | 'rooftops' | 'accounting' | 'organization';
+
+const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  odometer_regression: 'Odometer went backwards',
+  exceeds_tank_capacity: 'Exceeds tank capacity',
+  frequent_fill: 'Frequent fill',
+  amount_mismatch: 'Total ≠ gallons × price',
+  stock_number_format: 'Stock number format',
+  outside_geofence: 'Outside geofence',
+  no_location: 'No location',
+  fuel_type_mismatch: 'Wrong fuel for vehicle',
+  premium_fuel: 'Premium not required'
+};
+
+// Select items can't have an empty value
+const NO_ROOFTOP = '__none__';
+
+const ENTRY_STATUS_LABELS: Record<EntryStatus, string> = {
+  submitted: 'Awaiting review',
+  needs_info: 'Needs info',
+  rejected: 'Rejected',
+  approved: 'Approved'
+};
 
 export const AdminPanel: React.FC<AdminPanelProps> = ({
+  currentUser,
+  organization,
+  onOrganizationChange,
   users,
   fuelEntries,
-  onAddUser,
+  onReviewEntry,
+  onUserUpdated,
   onBack,
-  onLogout
+  onLogout,
+  accessToken
 }) => {
   const [activeView, setActiveView] = useState<AdminView>('overview');
   const [newUserForm, setNewUserForm] = useState({
     email: '',
     name: '',
-    role: 'porter' as 'porter' | 'admin'
+    role: 'porter' as Role,
+    rooftop_id: null as string | null
   });
   const [isAddingUser, setIsAddingUser] = useState(false);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  // The link for the invite just created or resent; the server only hands out the token once
+  const [inviteLink, setInviteLink] = useState<{ email: string; link: string } | null>(null);
+  const [busyInviteId, setBusyInviteId] = useState<string | null>(null);
+  // Resetting is a two-step click: the first asks for confirmation
+  const [confirmResetUserId, setConfirmResetUserId] = useState<string | null>(null);
+  const [resettingUserId, setResettingUserId] = useState<string | null>(null);
+  const [flagFilter, setFlagFilter] = useState<FlagReason | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<EntryStatus>('submitted');
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [reviewingEntryId, setReviewingEntryId] = useState<string | null>(null);
+  const [approvalSettings, setApprovalSettings] = useState<ApprovalSettings>(DEFAULT_APPROVAL_SETTINGS);
+  const [showApprovalSettings, setShowApprovalSettings] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [indexReport, setIndexReport] = useState<IndexRebuildReport | null>(null);
+  const [isRebuildingIndexes, setIsRebuildingIndexes] = useState(false);
+  const [mfaSettings, setMfaSettings] = useState<MfaSettings | null>(null);
+  const [isSavingMfaSettings, setIsSavingMfaSettings] = useState(false);
+  const [confirmMfaResetUserId, setConfirmMfaResetUserId] = useState<string | null>(null);
+  const [rooftops, setRooftops] = useState<Rooftop[]>([]);
+  const [rooftopSummary, setRooftopSummary] = useState<RooftopSummary[]>([]);
+  // Which format the export screen starts on, from the quick action that opened it
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+
+  // Demo mode has no server, so the defaults stay in effect there
+  const hasServer = !!accessToken && !isDemoMode;
+  const canManageUsers = can(currentUser, 'users.manage');
+  const canManageSettings = can(currentUser, 'settings.manage');
+  const canExport = can(currentUser, 'data.export');
+
+  useEffect(() => {
+    if (!hasServer || activeView !== 'fuelEntries') return;
+
+    fuelService.getApprovalSettings(accessToken!).then(result => {
+      if ('settings' in result) {
+        setApprovalSettings(result.settings);
+      }
+    });
+  }, [hasServer, accessToken, activeView]);
+
+  useEffect(() => {
+    if (!hasServer || activeView !== 'overview' || !canManageSettings) return;
+
+    adminService.getMfaSettings(accessToken!).then(result => {
+      if ('settings' in result) {
+        setMfaSettings(result.settings);
+      }
+    });
+  }, [hasServer, accessToken, activeView, canManageSettings]);
+
+  useEffect(() => {
+    if (!hasServer) return;
+
+    rooftopService.getRooftops(accessToken!).then(result => {
+      if ('rooftops' in result) {
+        setRooftops(result.rooftops);
+      }
+    });
+  }, [hasServer, accessToken]);
+
+  useEffect(() => {
+    if (!hasServer || activeView !== 'overview' || !can(currentUser, 'entries.view_all')) return;
+
+    rooftopService.getSummary(accessToken!).then(result => {
+      if ('summary' in result) {
+        setRooftopSummary(result.summary);
+      }
+    });
+  }, [hasServer, accessToken, activeView, currentUser]);
+
+  useEffect(() => {
+    if (!hasServer || activeView !== 'addUser') return;
+
+    inviteService.getInvites(accessToken!).then(result => {
+      if ('invites' in result) {
+        setInvites(result.invites);
+      }
+    });
+  }, [hasServer, accessToken, activeView]);
 
   // Calculate statistics
   const totalUsers = users.length;
   const porterUsers = users.filter(u => u.role === 'porter').length;
-  const adminUsers = users.filter(u => u.role === 'admin').length;
+  const staffUsers = totalUsers - porterUsers;
   const totalEntries = fuelEntries.length;
   const totalCost = fuelEntries.reduce((sum, entry) => sum + entry.fuelCost, 0);
+  const flaggedEntries = fuelEntries.filter(entry => !entry.voided && entry.flagReasons && entry.flagReasons.length > 0);
+  // Entries from before the approval workflow have no status and were final when saved
+  const getStatus = (entry: FuelEntry): EntryStatus => entry.status || 'approved';
+  const reviewableEntries = fuelEntries.filter(entry => !entry.voided && !entry.syncStatus);
+  const awaitingReviewCount = reviewableEntries.filter(entry => getStatus(entry) === 'submitted').length;
   const thisMonthEntries = fuelEntries.filter(entry => {
     const entryDate = new Date(entry.timestamp);
     const now = new Date();
     return entryDate.getMonth() === now.getMonth() && entryDate.getFullYear() === now.getFullYear();
   });
 
-  const handleAddUser = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleAddUser = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (isAddingUser) return;
     
     if (!newUserForm.email.trim() || !newUserForm.name.trim()) {
       toast.error('Please fill in all required fields');
       return;
     }
 
-    if (!newUserForm.email.toLowerCase().includes('@napleton.com')) {
-      toast.error('Email must be a Napleton domain address');
+    if (!isAllowedEmail(newUserForm.email, organization)) {
+      toast.error(emailDomainError(organization));
       return;
     }
 
@@ -62,33 +194,291 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
       return;
     }
 
+    if (!hasServer) {
+      toast.error('Inviting users requires a connection to the FuelTrakr server');
+      return;
+    }
+
     setIsAddingUser(true);
+    const result = await inviteService.createInvite(newUserForm, accessToken!);
+    setIsAddingUser(false);
 
-    // Simulate API call
-    setTimeout(() => {
-      const newUser = onAddUser(newUserForm);
-      
-      if (newUser) {
-        toast.success(`User ${newUser.name} added successfully!`);
-        setNewUserForm({ email: '', name: '', role: 'porter' });
-        setActiveView('overview');
-      }
-      
-      setIsAddingUser(false);
-    }, 1500);
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setInvites(prev => [result.invite, ...prev]);
+    setInviteLink({ email: result.invite.email, link: inviteService.buildInviteLink(result.token) });
+    setNewUserForm({ email: '', name: '', role: 'porter', rooftop_id: null });
+    if (result.email_sent) {
+      toast.success(`Invite emailed to ${result.invite.email}`);
+    } else {
+      toast.warning(`Invite created, but the email could not be sent. Share the link with ${result.invite.name} instead.`);
+    }
   };
 
-  const handleExportData = (format: 'csv' | 'excel') => {
-    // Simulate export
-    toast.info(`Preparing ${format.toUpperCase()} export...`);
-    
-    setTimeout(() => {
-      // In a real app, this would generate and download the file
-      const filename = `fuel-entries-${new Date().toISOString().split('T')[0]}.${format}`;
-      toast.success(`Export ready: ${filename}`);
-    }, 2000);
+  const handleResendInvite = async (invite: Invite) => {
+    if (busyInviteId) return;
+
+    setBusyInviteId(invite.id);
+    const result = await inviteService.resendInvite(invite.id, accessToken!);
+    setBusyInviteId(null);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setInvites(prev => prev.map(i => i.id === invite.id ? result.invite : i));
+    setInviteLink({ email: result.invite.email, link: inviteService.buildInviteLink(result.token) });
+    toast.success(result.email_sent
+      ? `Invite re-sent to ${invite.email}. The previous link no longer works.`
+      : `New invite link created for ${invite.email}, but the email could not be sent. Share the link instead.`);
+  };
+
+  const handleRevokeInvite = async (invite: Invite) => {
+    if (busyInviteId) return;
+
+    setBusyInviteId(invite.id);
+    const result = await inviteService.revokeInvite(invite.id, accessToken!);
+    setBusyInviteId(null);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setInvites(prev => prev.map(i => i.id === invite.id ? result.invite : i));
+    if (inviteLink?.email === invite.email) {
+      setInviteLink(null);
+    }
+    toast.success(`Invite for ${invite.email} revoked`);
+  };
+
+  const handleForcePasswordReset = async (user: User) => {
+    if (resettingUserId) return;
+
+    if (!hasServer) {
+      toast.error('Resetting passwords requires a connection to the FuelTrakr server');
+      return;
+    }
+
+    setConfirmResetUserId(null);
+    setResettingUserId(user.id);
+    const result = await adminService.forcePasswordReset(user.id, accessToken!);
+    setResettingUserId(null);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    if (result.email_sent) {
+      toast.success(`Password reset. ${user.email} has been emailed a link to choose a new one.`);
+    } else {
+      toast.warning(`Password reset, but the email to ${user.email} could not be sent. Try again.`);
+    }
+  };
+
+  const handleChangeRooftop = async (user: User, rooftopId: string | null) => {
+    const result = await adminService.updateUserRooftop(user.id, rooftopId, accessToken!);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    const rooftop = rooftops.find(r => r.id === rooftopId);
+    toast.success(rooftop ? `${user.name} moved to ${rooftop.name}` : `${user.name} no longer has a rooftop`);
+    onUserUpdated(result.user);
   };
 
+  const rooftopName = (rooftopId: string | null | undefined) => rooftops.find(rooftop => rooftop.id === rooftopId)?.name;
+
+  const handleResetMfa = async (user: User) => {
+    setConfirmMfaResetUserId(null);
+    const result = await adminService.resetUserMfa(user.id, accessToken!);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success(`${user.name} will set up their authenticator app again at next sign-in`);
+  };
+
+  const toggleMfaRequiredRole = async (role: Role) => {
+    if (!mfaSettings || isSavingMfaSettings) return;
+
+    const requiredRoles = mfaSettings.required_roles.includes(role)
+      ? mfaSettings.required_roles.filter(r => r !== role)
+      : [...mfaSettings.required_roles, role];
+
+    setIsSavingMfaSettings(true);
+    const result = await adminService.updateMfaSettings({ required_roles: requiredRoles }, accessToken!);
+    setIsSavingMfaSettings(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setMfaSettings(result.settings);
+    toast.success('Two-factor requirement saved');
+  };
+
+  const handleCopyInviteLink = async () => {
+    if (!inviteLink) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteLink.link);
+      toast.success('Invite link copied');
+    } catch (error) {
+      console.error('Copy invite link error:', error);
+      toast.error('Could not copy the link. Select it and copy it manually.');
+    }
+  };
+
+  const openExport = (format: ExportFormat) => {
+    setExportFormat(format);
+    setActiveView('export');
+  };
+
+  const handleRebuildIndexes = async (dryRun: boolean) => {
+    if (isRebuildingIndexes) return;
+
+    setIsRebuildingIndexes(true);
+    const result = await adminService.rebuildIndexes(accessToken!, dryRun);
+    setIsRebuildingIndexes(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setIndexReport(result.report);
+    const problems = result.report.unindexed_entries.length + result.report.dangling_index_keys.length +
+      result.report.unindexed_vehicle_keys + result.report.dangling_vehicle_keys;
+    if (problems === 0) {
+      toast.success('Entry indexes are consistent');
+    } else if (dryRun) {
+      toast.warning(`Found ${problems} index ${problems === 1 ? 'problem' : 'problems'}`);
+    } else {
+      toast.success(`Repaired ${problems} index ${problems === 1 ? 'problem' : 'problems'}`);
+    }
+  };
+
+  const renderIndexReferences = (title: string, references: IndexRebuildReport['unindexed_entries']) => (
+    references.length > 0 && (
+      <div>
+        <p className="text-slate-300 text-sm mb-1">{title} ({references.length})</p>
+        <div className="max-h-32 overflow-y-auto space-y-1">
+          {references.map(reference => {
+            const owner = users.find(u => u.id === reference.user_id);
+            return (
+              <p key={`${reference.user_id}:${reference.entry_id}`} className="text-slate-400 text-xs font-mono truncate">
+                {reference.entry_id} • {owner?.name || reference.user_id}
+              </p>
+            );
+          })}
+        </div>
+      </div>
+    )
+  );
+
+  const renderMaintenance = () => (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+      <h3 className="text-white text-lg mb-1 flex items-center">
+        <Database className="w-5 h-5 mr-2 text-slate-300" />
+        Data Maintenance
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        Rescan every fuel entry and repair the per-user and per-vehicle entry lists.
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <GlassmorphicButton variant="secondary" onClick={() => handleRebuildIndexes(true)}>
+          <CheckCircle className="w-4 h-4 mr-2" />
+          {isRebuildingIndexes ? 'Working...' : 'Check Indexes'}
+        </GlassmorphicButton>
+        <GlassmorphicButton variant="secondary" onClick={() => handleRebuildIndexes(false)}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isRebuildingIndexes ? 'animate-spin' : ''}`} />
+          Rebuild Indexes
+        </GlassmorphicButton>
+      </div>
+
+      {indexReport && (
+        <div className="mt-4 bg-white/5 rounded-xl p-3 space-y-3">
+          <p className="text-slate-300 text-sm">
+            {indexReport.dry_run ? 'Checked' : 'Rebuilt'} {indexReport.entries_scanned} entries and {indexReport.index_keys_scanned} index keys
+            {indexReport.legacy_lists_converted > 0 && `, ${indexReport.dry_run ? 'would convert' : 'converted'} ${indexReport.legacy_lists_converted} old user lists`}
+          </p>
+          {indexReport.unindexed_vehicle_keys + indexReport.dangling_vehicle_keys > 0 && (
+            <p className="text-slate-300 text-sm">
+              Vehicle index: {indexReport.unindexed_vehicle_keys} {indexReport.dry_run ? 'missing' : 'added'}, {indexReport.dangling_vehicle_keys} {indexReport.dry_run ? 'stale' : 'removed'}
+            </p>
+          )}
+          {renderIndexReferences(indexReport.dry_run ? 'Entries missing from an index' : 'Entries added to an index', indexReport.unindexed_entries)}
+          {renderIndexReferences(indexReport.dry_run ? 'Index keys without an entry' : 'Index keys removed', indexReport.dangling_index_keys)}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderMfaSettings = () => mfaSettings && (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+      <h3 className="text-white text-lg mb-1 flex items-center">
+        <ShieldCheck className="w-5 h-5 mr-2 text-green-300" />
+        Two-Factor Authentication
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        Roles that must enter a code from an authenticator app before using admin features.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {ROLES.map(role => (
+          <button
+            key={role}
+            onClick={() => toggleMfaRequiredRole(role)}
+            className={`px-3 py-1.5 rounded-full text-xs transition-colors ${
+              mfaSettings.required_roles.includes(role)
+                ? 'bg-green-500/20 text-green-300 border border-green-400/30'
+                : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+            }`}
+          >
+            {ROLE_LABELS[role]}s
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  // Group roll-up: one row per rooftop the viewer can see
+  const renderRooftopSummary = () => (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+      <h3 className="text-white text-lg mb-4 flex items-center">
+        <Building2 className="w-5 h-5 mr-2 text-blue-300" />
+        By Rooftop
+      </h3>
+      <div className="space-y-3">
+        {rooftopSummary.map(summary => (
+          <div key={summary.rooftop_id ?? 'unassigned'} className="bg-white/5 rounded-xl p-3">
+            <div className="flex justify-between items-baseline">
+              <p className="text-white text-sm truncate">{summary.name}</p>
+              <p className="text-white text-sm">${summary.month_amount.toFixed(0)}</p>
+            </div>
+            <div className="flex justify-between text-slate-400 text-xs">
+              <span>
+                {summary.users} users • {summary.month_entries} entries this month
+                {summary.awaiting_review > 0 && ` • ${summary.awaiting_review} awaiting review`}
+              </span>
+              {summary.flagged > 0 && <span className="text-orange-300">{summary.flagged} flagged</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
   const renderOverview = () => (
     <div className="space-y-6">
       {/* Stats Grid */}
@@ -101,7 +491,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
             <span className="text-slate-300 text-sm">Total Users</span>
           </div>
           <p className="text-white text-2xl font-medium">{totalUsers}</p>
-          <p className="text-slate-400 text-xs">{porterUsers} porters, {adminUsers} admins</p>
+          <p className="text-slate-400 text-xs">{porterUsers} porters, {staffUsers} staff</p>
         </div>
 
         <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4">
@@ -140,38 +530,50 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
         </div>
       </div>
 
+      {rooftopSummary.length > 1 && renderRooftopSummary()}
+
       {/* Quick Actions */}
-      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
-        <h3 className="text-white text-lg mb-4">Quick Actions</h3>
-        <div className="space-y-3">
-          <GlassmorphicButton
-            variant="primary"
-            onClick={() => setActiveView('addUser')}
-            className="w-full"
-          >
-            <UserPlus className="w-5 h-5 mr-2" />
-            Add New User
-          </GlassmorphicButton>
-          
-          <div className="grid grid-cols-2 gap-3">
-            <GlassmorphicButton
-              variant="secondary"
-              onClick={() => handleExportData('csv')}
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Export CSV
-            </GlassmorphicButton>
+      {(canManageUsers || canExport) && (
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+          <h3 className="text-white text-lg mb-4">Quick Actions</h3>
+          <div className="space-y-3">
+            {canManageUsers && (
+              <GlassmorphicButton
+                variant="primary"
+                onClick={() => setActiveView('addUser')}
+                className="w-full"
+              >
+                <UserPlus className="w-5 h-5 mr-2" />
+                Add New User
+              </GlassmorphicButton>
+            )}
             
-            <GlassmorphicButton
-              variant="secondary"
-              onClick={() => handleExportData('excel')}
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Export Excel
-            </GlassmorphicButton>
+            {canExport && (
+              <div className="grid grid-cols-2 gap-3">
+                <GlassmorphicButton
+                  variant="secondary"
+                  onClick={() => openExport('csv')}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export CSV
+                </GlassmorphicButton>
+                
+                <GlassmorphicButton
+                  variant="secondary"
+                  onClick={() => openExport('xlsx')}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export Excel
+                </GlassmorphicButton>
+              </div>
+            )}
           </div>
         </div>
-      </div>
+      )}
+
+      {hasServer && canManageSettings && renderMfaSettings()}
+
+      {hasServer && canManageSettings && renderMaintenance()}
 
       {/* Recent Activity */}
       <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
@@ -202,6 +604,330 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
     </div>
   );
 
+  const handleReview = async (entry: FuelEntry, decision: ReviewDecision) => {
+    const note = reviewNotes[entry.id]?.trim() || '';
+    if (decision !== 'approved' && !note) {
+      toast.error(decision === 'rejected' ? 'Add a reason for rejecting' : 'Say what information is needed');
+      return;
+    }
+
+    setReviewingEntryId(entry.id);
+    const reviewed = await onReviewEntry(entry.id, decision, note);
+    setReviewingEntryId(null);
+
+    if (reviewed) {
+      setReviewNotes(prev => ({ ...prev, [entry.id]: '' }));
+    }
+  };
+
+  const handleSaveApprovalSettings = async () => {
+    if (isSavingSettings) return;
+    if (!hasServer) {
+      toast.info('Approval settings are only saved when connected to the server');
+      setShowApprovalSettings(false);
+      return;
+    }
+
+    setIsSavingSettings(true);
+    const result = await fuelService.updateApprovalSettings(approvalSettings, accessToken!);
+    setIsSavingSettings(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setApprovalSettings(result.settings);
+    setShowApprovalSettings(false);
+    toast.success('Approval settings saved');
+  };
+
+  const toggleAutoApproveFlagReason = (reason: FlagReason) => {
+    setApprovalSettings(prev => ({
+      ...prev,
+      auto_approve_flag_reasons: prev.auto_approve_flag_reasons.includes(reason)
+        ? prev.auto_approve_flag_reasons.filter(r => r !== reason)
+        : [...prev.auto_approve_flag_reasons, reason]
+    }));
+  };
+
+  const renderApprovalSettings = () => (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4 space-y-4">
+      <label className="flex items-center justify-between">
+        <span className="text-white text-sm">Auto-approve entries within limits</span>
+        <input
+          type="checkbox"
+          checked={approvalSettings.auto_approve_enabled}
+          onChange={(e) => setApprovalSettings(prev => ({ ...prev, auto_approve_enabled: e.target.checked }))}
+          className="w-4 h-4 accent-blue-500"
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-slate-300 text-xs mb-1">Max amount ($)</label>
+          <Input
+            type="number"
+            min="0"
+            value={approvalSettings.max_auto_approve_amount}
+            onChange={(e) => setApprovalSettings(prev => ({ ...prev, max_auto_approve_amount: Number(e.target.value) }))}
+            disabled={!approvalSettings.auto_approve_enabled}
+            className="bg-white/5 border-white/20 text-white"
+          />
+        </div>
+        <div>
+          <label className="block text-slate-300 text-xs mb-1">Max gallons</label>
+          <Input
+            type="number"
+            min="0"
+            value={approvalSettings.max_auto_approve_gallons}
+            onChange={(e) => setApprovalSettings(prev => ({ ...prev, max_auto_approve_gallons: Number(e.target.value) }))}
+            disabled={!approvalSettings.auto_approve_enabled}
+            className="bg-white/5 border-white/20 text-white"
+          />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-slate-300 text-xs mb-2">Flags that still allow auto-approval</p>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(FLAG_REASON_LABELS) as FlagReason[]).map(reason => (
+            <button
+              key={reason}
+              onClick={() => toggleAutoApproveFlagReason(reason)}
+              disabled={!approvalSettings.auto_approve_enabled}
+              className={`px-3 py-1.5 rounded-full text-xs transition-colors disabled:opacity-50 ${
+                approvalSettings.auto_approve_flag_reasons.includes(reason)
+                  ? 'bg-blue-500/20 text-blue-300 border border-blue-400/30'
+                  : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+              }`}
+            >
+              {FLAG_REASON_LABELS[reason]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <GlassmorphicButton
+        variant="primary"
+        onClick={handleSaveApprovalSettings}
+        className="w-full"
+      >
+        {isSavingSettings ? 'Saving...' : 'Save Settings'}
+      </GlassmorphicButton>
+    </div>
+  );
+
+  const renderApprovalQueue = () => {
+    const visibleEntries = reviewableEntries
+      .filter(entry => getStatus(entry) === statusFilter)
+      .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-blue-600/20 rounded-full flex items-center justify-center mx-auto mb-4">
+            <ClipboardCheck className="w-8 h-8 text-blue-400" />
+          </div>
+          <h3 className="text-white text-xl mb-2">Approval Queue</h3>
+          <p className="text-slate-300/80">
+            Review fuel entries that weren't auto-approved
+          </p>
+        </div>
+
+        {canManageSettings && (
+          <button
+            onClick={() => setShowApprovalSettings(prev => !prev)}
+            className="flex items-center text-slate-300 hover:text-white transition-colors text-sm"
+          >
+            <Settings className="w-4 h-4 mr-2" />
+            Auto-approval settings
+          </button>
+        )}
+
+        {canManageSettings && showApprovalSettings && renderApprovalSettings()}
+
+        {/* Status Filter */}
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(ENTRY_STATUS_LABELS) as EntryStatus[]).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1.5 rounded-full text-xs transition-colors ${
+                statusFilter === status
+                  ? 'bg-blue-500/20 text-blue-300 border border-blue-400/30'
+                  : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+              }`}
+            >
+              {ENTRY_STATUS_LABELS[status]} ({reviewableEntries.filter(entry => getStatus(entry) === status).length})
+            </button>
+          ))}
+        </div>
+
+        {visibleEntries.length > 0 ? (
+          <div className="space-y-3">
+            {visibleEntries.map(entry => {
+              const lastChange = entry.statusHistory?.[entry.statusHistory.length - 1];
+              const isReviewing = reviewingEntryId === entry.id;
+
+              return (
+                <div key={entry.id} className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-white text-sm font-medium">
+                        {entry.stockNumber || (entry.vin === 'VIN_FROM_PHOTO' ? 'VIN from Photo' : `VIN: ${entry.vin?.slice(-6)}`)}
+                      </p>
+                      <p className="text-slate-400 text-xs">
+                        {entry.userName} • {new Date(entry.timestamp).toLocaleDateString()} • {entry.mileage.toLocaleString()} mi
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-white text-sm">${entry.fuelCost.toFixed(2)}</p>
+                      <p className="text-slate-400 text-xs">{entry.fuelAmount} gal</p>
+                    </div>
+                  </div>
+
+                  {entry.flagReasons && entry.flagReasons.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {entry.flagReasons.map(reason => (
+                        <span key={reason} className="px-2 py-1 rounded-lg text-xs bg-amber-500/10 text-amber-300 border border-amber-400/20">
+                          {FLAG_REASON_LABELS[reason] || reason}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {lastChange?.note && (
+                    <p className="text-slate-300 text-xs bg-white/5 rounded-lg p-2">
+                      <span className="text-slate-400">{lastChange.user_name}:</span> {lastChange.note}
+                    </p>
+                  )}
+
+                  {statusFilter !== 'approved' && entry.userId === currentUser.id && (
+                    <p className="text-slate-400 text-xs">Your own entry. Someone else has to review it.</p>
+                  )}
+
+                  {statusFilter !== 'approved' && entry.userId !== currentUser.id && (
+                    <>
+                      <Input
+                        value={reviewNotes[entry.id] || ''}
+                        onChange={(e) => setReviewNotes(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                        placeholder="Note (required to reject or ask for info)"
+                        className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+                      />
+                      <div className="grid grid-cols-3 gap-2">
+                        <button
+                          onClick={() => handleReview(entry, 'approved')}
+                          disabled={isReviewing}
+                          className="flex items-center justify-center px-2 py-2 rounded-lg text-xs bg-green-500/20 text-green-300 border border-green-400/30 disabled:opacity-50"
+                        >
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => handleReview(entry, 'needs_info')}
+                          disabled={isReviewing}
+                          className="flex items-center justify-center px-2 py-2 rounded-lg text-xs bg-amber-500/20 text-amber-300 border border-amber-400/30 disabled:opacity-50"
+                        >
+                          <HelpCircle className="w-3 h-3 mr-1" />
+                          Ask
+                        </button>
+                        <button
+                          onClick={() => handleReview(entry, 'rejected')}
+                          disabled={isReviewing || statusFilter === 'rejected'}
+                          className="flex items-center justify-center px-2 py-2 rounded-lg text-xs bg-red-500/20 text-red-300 border border-red-400/30 disabled:opacity-50"
+                        >
+                          <XCircle className="w-3 h-3 mr-1" />
+                          Reject
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-slate-400 text-center py-4">No entries {ENTRY_STATUS_LABELS[statusFilter].toLowerCase()}</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderFlaggedEntries = () => {
+    const visibleEntries = flagFilter === 'all'
+      ? flaggedEntries
+      : flaggedEntries.filter(entry => entry.flagReasons?.includes(flagFilter));
+
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-amber-600/20 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Flag className="w-8 h-8 text-amber-400" />
+          </div>
+          <h3 className="text-white text-xl mb-2">Flagged Entries</h3>
+          <p className="text-slate-300/80">
+            Entries that failed an automatic fraud or data check
+          </p>
+        </div>
+
+        {/* Reason Filter */}
+        <div className="flex flex-wrap gap-2">
+          {(['all', ...Object.keys(FLAG_REASON_LABELS)] as (FlagReason | 'all')[]).map(reason => {
+            const count = reason === 'all'
+              ? flaggedEntries.length
+              : flaggedEntries.filter(entry => entry.flagReasons?.includes(reason)).length;
+            return (
+              <button
+                key={reason}
+                onClick={() => setFlagFilter(reason)}
+                className={`px-3 py-1.5 rounded-full text-xs transition-colors ${
+                  flagFilter === reason
+                    ? 'bg-amber-500/20 text-amber-300 border border-amber-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                {reason === 'all' ? 'All' : FLAG_REASON_LABELS[reason]} ({count})
+              </button>
+            );
+          })}
+        </div>
+
+        {visibleEntries.length > 0 ? (
+          <div className="space-y-3">
+            {visibleEntries.map(entry => (
+              <div key={entry.id} className="bg-white/10 backdrop-blur-sm rounded-2xl border border-amber-400/30 p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-white text-sm font-medium">
+                      {entry.stockNumber || (entry.vin === 'VIN_FROM_PHOTO' ? 'VIN from Photo' : `VIN: ${entry.vin?.slice(-6)}`)}
+                    </p>
+                    <p className="text-slate-400 text-xs">
+                      {entry.userName} • {new Date(entry.timestamp).toLocaleDateString()} • {entry.mileage.toLocaleString()} mi
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-white text-sm">${entry.fuelCost.toFixed(2)}</p>
+                    <p className="text-slate-400 text-xs">{entry.fuelAmount} gal</p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {entry.flagReasons?.map(reason => (
+                    <span key={reason} className="px-2 py-1 rounded-lg text-xs bg-amber-500/10 text-amber-300 border border-amber-400/20">
+                      {FLAG_REASON_LABELS[reason] || reason}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-400 text-center py-4">No flagged entries</p>
+        )}
+      </div>
+    );
+  };
+
   const renderAddUser = () => (
     <div className="space-y-6">
       <div className="text-center">
@@ -225,11 +951,13 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
               type="email"
               value={newUserForm.email}
               onChange={(e) => setNewUserForm(prev => ({ ...prev, email: e.target.value }))}
-              placeholder="name@napleton.com"
+              placeholder={`name@${organization.allowed_email_domains[0]}`}
               className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20"
               required
             />
-            <p className="text-slate-400 text-xs mt-1">Must be a Napleton domain email</p>
+            <p className="text-slate-400 text-xs mt-1">
+              Must be an {organization.allowed_email_domains.map(domain => `@${domain}`).join(' or ')} address
+            </p>
           </div>
 
           <div>
@@ -254,23 +982,43 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
             </label>
             <Select 
               value={newUserForm.role} 
-              onValueChange={(value: 'porter' | 'admin') => setNewUserForm(prev => ({ ...prev, role: value }))}
+              onValueChange={(value: Role) => setNewUserForm(prev => ({ ...prev, role: value }))}
             >
               <SelectTrigger className="bg-white/5 border-white/20 text-white focus:border-blue-400/50 focus:ring-blue-400/20">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="porter">Porter</SelectItem>
-                <SelectItem value="admin">Administrator</SelectItem>
+                {ROLES.map(role => (
+                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <p className="text-slate-400 text-xs mt-1">
-              {newUserForm.role === 'admin' 
-                ? 'Full access to admin panel and all entries' 
-                : 'Can create and view their own fuel entries'
-              }
+              {ROLE_DESCRIPTIONS[newUserForm.role]}
             </p>
           </div>
+
+          <div>
+            <label className="text-white text-sm font-medium mb-2 block flex items-center">
+              <Building2 className="w-4 h-4 mr-2" />
+              Rooftop
+            </label>
+            <Select
+              value={newUserForm.rooftop_id ?? NO_ROOFTOP}
+              onValueChange={(value: string) => setNewUserForm(prev => ({ ...prev, rooftop_id: value === NO_ROOFTOP ? null : value }))}
+            >
+              <SelectTrigger className="bg-white/5 border-white/20 text-white focus:border-blue-400/50 focus:ring-blue-400/20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ROOFTOP}>No rooftop</SelectItem>
+                {rooftops.map(rooftop => (
+                  <SelectItem key={rooftop.id} value={rooftop.id}>{rooftop.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-slate-400 text-xs mt-1">The dealership this person works at</p>
+          </div>
         </div>
 
         <div className="mt-6">
@@ -278,24 +1026,97 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
             variant="primary"
             size="large"
             className="w-full"
+            onClick={() => handleAddUser()}
           >
             {isAddingUser ? (
               <div className="flex items-center justify-center">
                 <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2"></div>
-                Adding User...
+                Creating Invite...
               </div>
             ) : (
               <>
                 <UserPlus className="w-5 h-5 mr-2" />
-                Add User
+                Send Invite
               </>
             )}
           </GlassmorphicButton>
         </div>
       </form>
+
+      {inviteLink && (
+        <div className="bg-blue-500/10 border border-blue-400/20 rounded-2xl p-4">
+          <p className="text-blue-200 text-sm mb-2">
+            Invite link for {inviteLink.email}. It is only shown now, so copy it before leaving this page.
+          </p>
+          <div className="flex items-center gap-2">
+            <p className="flex-1 text-slate-300 text-xs font-mono break-all bg-white/5 rounded-lg p-2">{inviteLink.link}</p>
+            <button
+              onClick={handleCopyInviteLink}
+              className="p-2 text-blue-300 hover:text-white transition-colors"
+              title="Copy invite link"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {hasServer && renderInvites()}
     </div>
   );
 
+  const renderInvites = () => {
+    const openInvites = invites.filter(invite => invite.status === 'pending' || invite.status === 'expired');
+
+    return (
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+        <h4 className="text-white font-medium mb-4">Pending Invites ({openInvites.length})</h4>
+        {openInvites.length > 0 ? (
+          <div className="space-y-3">
+            {openInvites.map(invite => (
+              <div key={invite.id} className="bg-white/5 rounded-xl p-3">
+                <div className="flex justify-between items-start">
+                  <div className="min-w-0">
+                    <p className="text-white text-sm truncate">{invite.name}</p>
+                    <p className="text-slate-400 text-xs truncate">{invite.email}</p>
+                    <p className="text-slate-500 text-xs">
+                      {ROLE_LABELS[invite.role] ?? invite.role}{rooftopName(invite.rooftop_id) ? ` · ${rooftopName(invite.rooftop_id)}` : ''}
+                    </p>
+                  </div>
+                  <span className={`text-xs px-2 py-1 rounded-full ${
+                    invite.status === 'expired' ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'
+                  }`}>
+                    {invite.status === 'expired'
+                      ? 'Expired'
+                      : `Expires ${new Date(invite.expires_at).toLocaleDateString()}`}
+                  </span>
+                </div>
+                <div className="flex justify-end gap-3 mt-2">
+                  <button
+                    onClick={() => handleResendInvite(invite)}
+                    className="flex items-center text-xs text-blue-300 hover:text-white transition-colors"
+                  >
+                    <Send className="w-3 h-3 mr-1" />
+                    {busyInviteId === invite.id ? 'Working...' : 'Resend'}
+                  </button>
+                  <button
+                    onClick={() => handleRevokeInvite(invite)}
+                    className="flex items-center text-xs text-red-300 hover:text-white transition-colors"
+                  >
+                    <Ban className="w-3 h-3 mr-1" />
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-400 text-center py-4">No pending invites</p>
+        )}
+      </div>
+    );
+  };
+
   const renderUserManagement = () => (
     <div className="space-y-6">
       <div className="text-center">
@@ -311,13 +1132,15 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
       <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
         <div className="flex justify-between items-center mb-4">
           <h4 className="text-white font-medium">All Users ({users.length})</h4>
-          <GlassmorphicButton
-            variant="secondary"
-            onClick={() => setActiveView('addUser')}
-          >
-            <UserPlus className="w-4 h-4 mr-2" />
-            Add User
-          </GlassmorphicButton>
+          {canManageUsers && (
+            <GlassmorphicButton
+              variant="secondary"
+              onClick={() => setActiveView('addUser')}
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              Add User
+            </GlassmorphicButton>
+          )}
         </div>
         
         <div className="space-y-3">
@@ -326,9 +1149,9 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
                   <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                    user.role === 'admin' ? 'bg-purple-500/20' : 'bg-blue-500/20'
+                    user.role !== 'porter' ? 'bg-purple-500/20' : 'bg-blue-500/20'
                   }`}>
-                    {user.role === 'admin' ? (
+                    {user.role !== 'porter' ? (
                       <Shield className="w-5 h-5 text-purple-400" />
                     ) : (
                       <Users className="w-5 h-5 text-blue-400" />
@@ -342,11 +1165,11 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
                 
                 <div className="text-right">
                   <span className={`px-2 py-1 rounded-lg text-xs font-medium ${
-                    user.role === 'admin' 
+                    user.role !== 'porter'
                       ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
                       : 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
                   }`}>
-                    {user.role === 'admin' ? 'Admin' : 'Porter'}
+                    {ROLE_LABELS[user.role as Role] ?? user.role}
                   </span>
                   <p className="text-slate-500 text-xs mt-1">
                     Added {new Date(user.createdAt).toLocaleDateString()}
@@ -362,6 +1185,90 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
                     {fuelEntries.filter(entry => entry.userId === user.id).length}
                   </span>
                 </div>
+                {hasServer && (canManageUsers ? (
+                  <div className="flex justify-between items-center text-sm mt-2">
+                    <span className="text-slate-300">Rooftop:</span>
+                    <Select
+                      value={user.rooftop_id ?? NO_ROOFTOP}
+                      onValueChange={(value: string) => handleChangeRooftop(user, value === NO_ROOFTOP ? null : value)}
+                    >
+                      <SelectTrigger className="w-48 h-8 bg-white/5 border-white/20 text-white text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ROOFTOP}>No rooftop</SelectItem>
+                        {rooftops.map(rooftop => (
+                          <SelectItem key={rooftop.id} value={rooftop.id}>{rooftop.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span className="text-slate-300">Rooftop:</span>
+                    <span className="text-white">{rooftopName(user.rooftop_id) || 'None'}</span>
+                  </div>
+                ))}
+                {confirmResetUserId === user.id ? (
+                  <div className="mt-2 bg-amber-500/10 border border-amber-400/20 rounded-lg p-2">
+                    <p className="text-amber-200 text-xs mb-2">
+                      Their current password stops working right away and they are emailed a link to choose a new one.
+                    </p>
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => setConfirmResetUserId(null)}
+                        className="text-xs text-slate-300 hover:text-white transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleForcePasswordReset(user)}
+                        className="text-xs text-amber-300 hover:text-white transition-colors"
+                      >
+                        Reset Password
+                      </button>
+                    </div>
+                  </div>
+                ) : confirmMfaResetUserId === user.id ? (
+                  <div className="mt-2 bg-amber-500/10 border border-amber-400/20 rounded-lg p-2">
+                    <p className="text-amber-200 text-xs mb-2">
+                      Their authenticator app stops working and they set up a new one when they next sign in.
+                    </p>
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => setConfirmMfaResetUserId(null)}
+                        className="text-xs text-slate-300 hover:text-white transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleResetMfa(user)}
+                        className="text-xs text-amber-300 hover:text-white transition-colors"
+                      >
+                        Reset Two-Factor
+                      </button>
+                    </div>
+                  </div>
+                ) : canManageUsers && (
+                  <div className="flex justify-end gap-4 mt-2">
+                    {user.mfa_enabled && (
+                      <button
+                        onClick={() => setConfirmMfaResetUserId(user.id)}
+                        className="flex items-center text-xs text-amber-300 hover:text-white transition-colors"
+                      >
+                        <ShieldCheck className="w-3 h-3 mr-1" />
+                        Reset Two-Factor
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setConfirmResetUserId(user.id)}
+                      className="flex items-center text-xs text-amber-300 hover:text-white transition-colors"
+                    >
+                      <Lock className="w-3 h-3 mr-1" />
+                      {resettingUserId === user.id ? 'Resetting...' : 'Reset Password'}
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -404,26 +1311,126 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
             >
               Overview
             </button>
-            <button
-              onClick={() => setActiveView('addUser')}
-              className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
-                activeView === 'addUser'
-                  ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
-                  : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
-              }`}
-            >
-              Add User
-            </button>
-            <button
-              onClick={() => setActiveView('manageUsers')}
-              className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
-                activeView === 'manageUsers'
-                  ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
-                  : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
-              }`}
-            >
-              Users
-            </button>
+            {can(currentUser, 'users.manage') && (
+              <button
+                onClick={() => setActiveView('addUser')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'addUser'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Add User
+              </button>
+            )}
+            {can(currentUser, 'users.view') && (
+              <button
+                onClick={() => setActiveView('manageUsers')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'manageUsers'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Users
+              </button>
+            )}
+            {can(currentUser, 'entries.review') && (
+              <button
+                onClick={() => setActiveView('fuelEntries')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'fuelEntries'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Approvals{awaitingReviewCount > 0 && ` (${awaitingReviewCount})`}
+              </button>
+            )}
+            {can(currentUser, 'entries.view_all') && (
+              <button
+                onClick={() => setActiveView('flagged')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'flagged'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Flagged{flaggedEntries.length > 0 && ` (${flaggedEntries.length})`}
+              </button>
+            )}
+            {canExport && (
+              <button
+                onClick={() => setActiveView('export')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'export'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Export
+              </button>
+            )}
+            {can(currentUser, 'reconciliation.view') && (
+              <button
+                onClick={() => setActiveView('reconciliation')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'reconciliation'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Card Statements
+              </button>
+            )}
+            {hasServer && canExport && (
+              <button
+                onClick={() => setActiveView('chargebacks')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'chargebacks'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Chargebacks
+              </button>
+            )}
+            {hasServer && canManageSettings && (
+              <button
+                onClick={() => setActiveView('rooftops')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'rooftops'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Rooftops
+              </button>
+            )}
+            {hasServer && canManageSettings && (
+              <button
+                onClick={() => setActiveView('accounting')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'accounting'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                GL Mapping
+              </button>
+            )}
+            {hasServer && canManageSettings && (
+              <button
+                onClick={() => setActiveView('organization')}
+                className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  activeView === 'organization'
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Organization
+              </button>
+            )}
           </div>
         </div>
 
@@ -432,6 +1439,25 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
           {activeView === 'overview' && renderOverview()}
           {activeView === 'addUser' && renderAddUser()}
           {activeView === 'manageUsers' && renderUserManagement()}
+          {activeView === 'fuelEntries' && renderApprovalQueue()}
+          {activeView === 'flagged' && renderFlaggedEntries()}
+          {activeView === 'export' && (
+            <ExportPanel key={exportFormat} accessToken={accessToken} users={users} rooftops={rooftops} initialFormat={exportFormat} />
+          )}
+          {activeView === 'reconciliation' && <ReconciliationPanel accessToken={accessToken} canManage={can(currentUser, 'reconciliation.manage')} />}
+          {activeView === 'chargebacks' && (
+            <ChargebacksPanel
+              accessToken={accessToken}
+              rooftops={rooftops}
+              canManage={can(currentUser, 'chargebacks.manage')}
+              canManageSettings={canManageSettings}
+            />
+          )}
+          {activeView === 'rooftops' && <RooftopPanel accessToken={accessToken!} rooftops={rooftops} onRooftopsChange={setRooftops} />}
+          {activeView === 'accounting' && <GlMappingPanel accessToken={accessToken} rooftops={rooftops} />}
+          {activeView === 'organization' && (
+            <OrganizationPanel accessToken={accessToken!} organization={organization} onOrganizationChange={onOrganizationChange} />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,349 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Download, RotateCcw, Save, Settings, Wrench } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner@2.0.3';
+import {
+  chargebackService,
+  ChargebackOptions,
+  ChargebackSettings,
+  ChargebackStatus,
+  RoChargeback
+} from '../services/chargebackService';
+import { Rooftop } from '../services/rooftopService';
+import { isDemoMode } from '../utils/supabase/demo-config';
+
+interface ChargebacksPanelProps {
+  accessToken?: string | null;
+  rooftops: Rooftop[];
+  // Marking ROs billed or reopening them; without it the report is read-only
+  canManage?: boolean;
+  canManageSettings?: boolean;
+}
+
+// Select items can't have an empty value
+const ALL = '__all__';
+
+const BILLING_OPTIONS: { value: ChargebackStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'billed', label: 'Billed' }
+];
+
+const inputClassName = 'bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20';
+
+const saveFile = (file: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(file);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+const daysSince = (timestamp: string) => Math.floor((Date.now() - new Date(timestamp).getTime()) / 86400000);
+
+// Fuel put in service customers' vehicles, grouped by repair order, for billing back to the RO
+export const ChargebacksPanel: React.FC<ChargebacksPanelProps> = ({
+  accessToken,
+  rooftops,
+  canManage = false,
+  canManageSettings = false
+}) => {
+  const [billing, setBilling] = useState<ChargebackStatus>('open');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [rooftopId, setRooftopId] = useState(ALL);
+  const [chargebacks, setChargebacks] = useState<RoChargeback[] | null>(null);
+  const [settings, setSettings] = useState<ChargebackSettings | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // The RO being marked billed or reopened, by rooftop and number
+  const [updatingKey, setUpdatingKey] = useState<string | null>(null);
+
+  const hasServer = !!accessToken && !isDemoMode;
+
+  const options: ChargebackOptions = useMemo(() => ({
+    billing,
+    from: from || null,
+    to: to || null,
+    rooftop_id: rooftopId === ALL ? null : rooftopId
+  }), [billing, from, to, rooftopId]);
+
+  const loadChargebacks = useCallback(async () => {
+    if (!hasServer) return;
+
+    const result = await chargebackService.getChargebacks(options, accessToken!);
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+    setChargebacks(result.chargebacks);
+  }, [hasServer, accessToken, options]);
+
+  useEffect(() => {
+    if (from && to && from > to) return;
+    setChargebacks(null);
+    loadChargebacks();
+  }, [from, to, loadChargebacks]);
+
+  useEffect(() => {
+    if (!hasServer || !canManageSettings) return;
+
+    chargebackService.getSettings(accessToken!).then(result => {
+      if ('error' in result) {
+        toast.error(result.error);
+        return;
+      }
+      setSettings(result.settings);
+    });
+  }, [hasServer, accessToken, canManageSettings]);
+
+  const groupKey = (group: RoChargeback) => `${group.rooftop_id ?? ''}:${group.ro_number}`;
+
+  const handleSetBilled = async (group: RoChargeback, billed: boolean) => {
+    if (updatingKey) return;
+
+    setUpdatingKey(groupKey(group));
+    const result = await chargebackService.setBilled(group.lines.map(line => line.entry_id), billed, accessToken!);
+    setUpdatingKey(null);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success(billed ? `RO ${group.ro_number} marked billed` : `RO ${group.ro_number} reopened`);
+    // It moves to the other list either way
+    setChargebacks(prev => prev && prev.filter(other => groupKey(other) !== groupKey(group)));
+  };
+
+  const handleExport = async () => {
+    if (isExporting) return;
+
+    if (from && to && from > to) {
+      toast.error('The start date is after the end date');
+      return;
+    }
+
+    setIsExporting(true);
+    const result = await chargebackService.exportChargebacks(options, accessToken!);
+    setIsExporting(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    saveFile(result.file, result.fileName);
+    toast.success(`Downloaded ${result.fileName}`);
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings || isSaving) return;
+
+    setIsSaving(true);
+    const result = await chargebackService.updateSettings(settings, accessToken!);
+    setIsSaving(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setSettings(result.settings);
+    toast.success('Chargeback settings saved');
+  };
+
+  if (!hasServer) {
+    return (
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 text-center">
+        <Wrench className="w-8 h-8 text-slate-400 mx-auto mb-3" />
+        <p className="text-slate-300 text-sm">Chargebacks need a connection to the server.</p>
+      </div>
+    );
+  }
+
+  const totalAmount = (chargebacks ?? []).reduce((sum, group) => sum + group.total_amount, 0);
+
+  const renderGroup = (group: RoChargeback) => {
+    const key = groupKey(group);
+    const age = daysSince(group.first_fill);
+
+    return (
+      <div key={key} className="bg-white/5 rounded-xl border border-white/10 p-4 space-y-3">
+        <div className="flex justify-between items-start">
+          <div>
+            <p className="text-white font-medium">RO {group.ro_number}</p>
+            <p className="text-slate-400 text-xs">
+              {[group.rooftop_name, `${group.lines.length} fill${group.lines.length === 1 ? '' : 's'}`, `${group.gallons} gal`]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-white font-medium">${group.total_amount.toFixed(2)}</p>
+            {billing === 'open' && (
+              <p className={`text-xs ${age > 7 ? 'text-amber-400' : 'text-slate-400'}`}>
+                {age === 0 ? 'Today' : `${age} day${age === 1 ? '' : 's'} open`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          {group.lines.map(line => (
+            <div key={line.entry_id} className="flex justify-between text-xs">
+              <span className="text-slate-300">
+                {[line.date, line.stock_number || line.vehicle, line.user_name].filter(Boolean).join(' · ')}
+              </span>
+              <span className="text-slate-300">
+                {line.gallons} gal · ${line.total_amount.toFixed(2)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <GlassmorphicButton
+            variant="secondary"
+            className="w-full"
+            onClick={() => handleSetBilled(group, billing === 'open')}
+          >
+            {billing === 'open' ? <CheckCircle className="w-4 h-4 mr-2" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+            {updatingKey === key ? 'Saving...' : billing === 'open' ? 'Mark Billed' : 'Reopen'}
+          </GlassmorphicButton>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-blue-600/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Wrench className="w-8 h-8 text-blue-400" />
+        </div>
+        <h3 className="text-white text-xl mb-2">RO Chargebacks</h3>
+        <p className="text-slate-300/80">
+          Fuel put in service customers' vehicles, to bill back on the repair order
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {BILLING_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setBilling(option.value)}
+            className={`px-4 py-3 rounded-xl text-sm transition-colors ${
+              billing === option.value
+                ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-slate-300 text-xs mb-1 block">From</label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label className="text-slate-300 text-xs mb-1 block">To</label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClassName} />
+          </div>
+        </div>
+        {rooftops.length > 0 && (
+          <div>
+            <label className="text-slate-300 text-xs mb-1 block">Rooftop</label>
+            <Select value={rooftopId} onValueChange={setRooftopId}>
+              <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All rooftops</SelectItem>
+                {rooftops.map(rooftop => (
+                  <SelectItem key={rooftop.id} value={rooftop.id}>{rooftop.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {chargebacks === null ? (
+        <p className="text-slate-400 text-center py-8">Loading chargebacks...</p>
+      ) : chargebacks.length === 0 ? (
+        <p className="text-slate-400 text-center py-8">
+          {billing === 'open' ? 'No fills are waiting to be billed to an RO.' : 'No billed ROs in this range.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <h4 className="text-white font-medium">
+              {chargebacks.length} RO{chargebacks.length === 1 ? '' : 's'}
+            </h4>
+            <p className="text-slate-300 text-sm">${totalAmount.toFixed(2)}</p>
+          </div>
+          {chargebacks.map(renderGroup)}
+        </div>
+      )}
+
+      <GlassmorphicButton variant="primary" size="large" className="w-full" onClick={handleExport}>
+        <Download className="w-5 h-5 mr-2" />
+        {isExporting ? 'Preparing...' : 'Download Billing CSV'}
+      </GlassmorphicButton>
+
+      {canManageSettings && settings && (
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+          <h4 className="text-white font-medium flex items-center">
+            <Settings className="w-4 h-4 mr-2" />
+            RO Settings
+          </h4>
+          <div>
+            <label className="text-slate-300 text-xs mb-1 block">RO number format</label>
+            <Input
+              value={settings.ro_number_pattern ?? ''}
+              onChange={(e) => setSettings({ ...settings, ro_number_pattern: e.target.value || null })}
+              placeholder="\d{6}"
+              className={inputClassName}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-slate-300 text-xs mb-1 block">Example</label>
+              <Input
+                value={settings.ro_number_example ?? ''}
+                onChange={(e) => setSettings({ ...settings, ro_number_example: e.target.value || null })}
+                placeholder="123456"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="text-slate-300 text-xs mb-1 block">Op code</label>
+              <Input
+                value={settings.op_code}
+                onChange={(e) => setSettings({ ...settings, op_code: e.target.value.toUpperCase() })}
+                placeholder="FUEL"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="text-slate-400 text-xs">
+            A regular expression the whole RO number must match. Leave it empty to accept any RO number.
+          </p>
+          <GlassmorphicButton variant="secondary" className="w-full" onClick={handleSaveSettings}>
+            <Save className="w-4 h-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save RO Settings'}
+          </GlassmorphicButton>
+        </div>
+      )}
+    </div>
+  );
+};
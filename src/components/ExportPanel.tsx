@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { BookOpen, Calendar, Columns, Download, FileSpreadsheet, FileText, Filter, Landmark } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner@2.0.3';
+import { User } from '../services/authService';
+import { accountingService, JournalFormat } from '../services/accountingService';
+import { adminService, EXPORT_COLUMNS, ExportFormat } from '../services/adminService';
+import { EntryStatus } from '../services/fuelService';
+import { Rooftop } from '../services/rooftopService';
+import { isDemoMode } from '../utils/supabase/demo-config';
+
+interface ExportPanelProps {
+  accessToken?: string | null;
+  users: User[];
+  rooftops: Rooftop[];
+  initialFormat?: ExportFormat | JournalFormat;
+}
+
+// Select items can't have an empty value
+const ALL = '__all__';
+
+const FORMAT_OPTIONS = [
+  { value: 'csv', label: 'CSV', icon: FileText },
+  { value: 'xlsx', label: 'Excel', icon: FileSpreadsheet },
+  { value: 'gl_csv', label: 'GL Journal', icon: BookOpen },
+  { value: 'iif', label: 'QuickBooks IIF', icon: Landmark }
+] as const;
+
+const isJournalFormat = (format: ExportFormat | JournalFormat): format is JournalFormat =>
+  format === 'gl_csv' || format === 'iif';
+
+const STATUS_OPTIONS: { value: EntryStatus; label: string }[] = [
+  { value: 'approved', label: 'Approved' },
+  { value: 'submitted', label: 'Awaiting review' },
+  { value: 'needs_info', label: 'Needs info' },
+  { value: 'rejected', label: 'Rejected' }
+];
+
+const inputClassName = 'bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20';
+
+const saveFile = (file: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(file);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+// Downloading fuel entries for accounting: filters, columns, and CSV, Excel or journal entries for the GL
+export const ExportPanel: React.FC<ExportPanelProps> = ({ accessToken, users, rooftops, initialFormat = 'csv' }) => {
+  const [format, setFormat] = useState<ExportFormat | JournalFormat>(initialFormat);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [rooftopId, setRooftopId] = useState(ALL);
+  const [userId, setUserId] = useState(ALL);
+  // None checked means any status
+  const [statuses, setStatuses] = useState<EntryStatus[]>([]);
+  const [includeVoided, setIncludeVoided] = useState(false);
+  const [columns, setColumns] = useState<string[]>(EXPORT_COLUMNS.map(column => column.key));
+  const [isExporting, setIsExporting] = useState(false);
+
+  const hasServer = !!accessToken && !isDemoMode;
+
+  const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const handleExport = async () => {
+    if (!hasServer || isExporting) return;
+
+    if (!isJournalFormat(format) && columns.length === 0) {
+      toast.error('Choose at least one column');
+      return;
+    }
+    if (from && to && from > to) {
+      toast.error('The start date is after the end date');
+      return;
+    }
+
+    const filters = {
+      from: from || null,
+      to: to || null,
+      rooftop_id: rooftopId === ALL ? null : rooftopId,
+      user_id: userId === ALL ? null : userId,
+      status: statuses
+    };
+
+    setIsExporting(true);
+    const result = isJournalFormat(format)
+      ? await accountingService.exportJournal({ ...filters, format }, accessToken!)
+      : await adminService.exportEntries({ ...filters, format, include_voided: includeVoided, columns }, accessToken!);
+    setIsExporting(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    saveFile(result.file, result.fileName);
+    toast.success(`Downloaded ${result.fileName}`);
+  };
+
+  if (!hasServer) {
+    return (
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 text-center">
+        <Download className="w-8 h-8 text-slate-400 mx-auto mb-3" />
+        <p className="text-slate-300 text-sm">Exports need a connection to the server.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-blue-600/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Download className="w-8 h-8 text-blue-400" />
+        </div>
+        <h3 className="text-white text-xl mb-2">Export Entries</h3>
+        <p className="text-slate-300/80">
+          Download fuel entries for accounting as CSV or Excel
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {FORMAT_OPTIONS.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => setFormat(value)}
+            className={`flex items-center justify-center px-4 py-3 rounded-xl text-sm transition-colors ${
+              format === value
+                ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+            }`}
+          >
+            <Icon className="w-4 h-4 mr-2" />
+            {label}
+          </button>
+        ))}
+      </div>
+      {format === 'xlsx' && (
+        <p className="text-slate-400 text-xs -mt-3">
+          The workbook adds a summary sheet with totals by rooftop, user, GL account, purpose, vehicle category and status.
+        </p>
+      )}
+      {isJournalFormat(format) && (
+        <p className="text-slate-400 text-xs -mt-3">
+          One journal entry per fill, debiting the account from the GL mapping. Only approved entries
+          are posted unless you pick statuses below; voided entries never are.
+        </p>
+      )}
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+        <h4 className="text-white font-medium flex items-center">
+          <Calendar className="w-4 h-4 mr-2" />
+          Date Range
+        </h4>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-slate-300 text-xs mb-1 block">From</label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label className="text-slate-300 text-xs mb-1 block">To</label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClassName} />
+          </div>
+        </div>
+        <p className="text-slate-400 text-xs">Leave empty to include every date.</p>
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+        <h4 className="text-white font-medium flex items-center">
+          <Filter className="w-4 h-4 mr-2" />
+          Filters
+        </h4>
+
+        {rooftops.length > 0 && (
+          <div>
+            <label className="text-slate-300 text-xs mb-1 block">Rooftop</label>
+            <Select value={rooftopId} onValueChange={setRooftopId}>
+              <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All rooftops</SelectItem>
+                {rooftops.map(rooftop => (
+                  <SelectItem key={rooftop.id} value={rooftop.id}>{rooftop.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div>
+          <label className="text-slate-300 text-xs mb-1 block">User</label>
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger className="bg-white/5 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All users</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <label className="text-slate-300 text-xs mb-2 block">Status</label>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setStatuses(prev => toggle(prev, option.value))}
+                className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                  statuses.includes(option.value)
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-slate-400 text-xs mt-1">
+            {isJournalFormat(format) ? 'None selected posts approved entries only.' : 'None selected exports every status.'}
+          </p>
+        </div>
+
+        {!isJournalFormat(format) && (
+          <label className="flex items-center text-slate-300 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeVoided}
+              onChange={(e) => setIncludeVoided(e.target.checked)}
+              className="mr-2"
+            />
+            Include voided entries
+          </label>
+        )}
+      </div>
+
+      {!isJournalFormat(format) && (
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h4 className="text-white font-medium flex items-center">
+              <Columns className="w-4 h-4 mr-2" />
+              Columns
+            </h4>
+            <div className="flex gap-3 text-xs">
+              <button
+                onClick={() => setColumns(EXPORT_COLUMNS.map(column => column.key))}
+                className="text-blue-400 hover:text-white transition-colors"
+              >
+                All
+              </button>
+              <button
+                onClick={() => setColumns([])}
+                className="text-slate-300 hover:text-white transition-colors"
+              >
+                None
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_COLUMNS.map(column => (
+              <label key={column.key} className="flex items-center text-slate-300 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={columns.includes(column.key)}
+                  onChange={() => setColumns(prev => toggle(prev, column.key))}
+                  className="mr-2"
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+          {(columns.includes('receipt_photo') || columns.includes('vin_photo')) && (
+            <p className="text-slate-400 text-xs">Photo links stop working after 7 days.</p>
+          )}
+        </div>
+      )}
+
+      <GlassmorphicButton variant="primary" size="large" className="w-full" onClick={handleExport}>
+        <Download className="w-5 h-5 mr-2" />
+        {isExporting ? 'Preparing...' : `Download ${FORMAT_OPTIONS.find(option => option.value === format)?.label}`}
+      </GlassmorphicButton>
+    </div>
+  );
+};
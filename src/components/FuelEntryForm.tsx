@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Camera, MapPin, Car, Receipt, Save, X, Plus } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Camera, MapPin, Car, Receipt, Save, X, Plus, Loader2, AlertTriangle, Tags, Clock } from 'lucide-react';
 import { GlassmorphicButton } from './GlassmorphicButton';
 import { CameraCapture } from './CameraCapture';
 import { VehicleIdentification } from './VehicleIdentification';
@@ -8,25 +8,77 @@ import { Textarea } from './ui/textarea';
 import { toast } from 'sonner@2.0.3';
 import { FuelEntry } from '../App';
 import { VehicleInfo } from '../services/vinService';
+import { receiptOcrService } from '../services/receiptOcrService';
+import { matchesStockNumberFormat, suggestVehicleCategory, Rooftop } from '../services/rooftopService';
+import {
+  defaultFuelType,
+  FUEL_TYPE_LABELS,
+  FuelPurpose,
+  FuelType,
+  isFuelTypeMismatch,
+  isUnneededPremium,
+  PURPOSE_LABELS,
+  VEHICLE_CATEGORY_LABELS,
+  VehicleCategory,
+  vehicleFuel
+} from '../services/fuelService';
+import { ChargebackSettings, roNumberProblem } from '../services/chargebackService';
+import { ParsedReceipt, getConfidenceLevel, TOTAL_MISMATCH_TOLERANCE } from '../utils/receiptParser';
+
+type ScannedField = 'fuelAmount' | 'fuelCost' | 'pricePerGallon';
+
+// Receipt dates outside this window are misreads; the fill is recorded at the current time instead
+const FILL_TIME_MAX_AGE_HOURS = 48;
+// Allows for the device clock running slightly behind the pump's
+const FILL_TIME_FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const isPlausibleFillTime = (date: Date) => {
+  const age = Date.now() - date.getTime();
+  return age >= -FILL_TIME_FUTURE_TOLERANCE_MS && age <= FILL_TIME_MAX_AGE_HOURS * 60 * 60 * 1000;
+};
+
+// The value of a datetime-local input, in the device's time zone
+const toDateTimeInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+
+const chipClassName = (selected: boolean) => `px-3 py-2 rounded-xl text-sm transition-colors ${
+  selected
+    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+}`;
+
+const CONFIDENCE_STYLES = {
+  high: { input: 'border-green-400/50', text: 'text-green-400' },
+  medium: { input: 'border-amber-400/60', text: 'text-amber-400' },
+  low: { input: 'border-red-400/60', text: 'text-red-400' }
+};
 
 interface FuelEntryFormProps {
   onSubmit: (entry: Omit<FuelEntry, 'id' | 'userId' | 'userName' | 'submittedAt'>) => void;
   onBack: () => void;
   locationPermissionGranted?: boolean | null;
   currentLocation?: GeolocationPosition | null;
+  // Supplies the stock number format and vehicle category patterns
+  rooftop?: Rooftop | null;
+  // The RO number format for service customer vehicles
+  chargebackSettings?: ChargebackSettings | null;
 }
 
 export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
   onSubmit,
   onBack,
   locationPermissionGranted = null,
-  currentLocation = null
+  currentLocation = null,
+  rooftop = null,
+  chargebackSettings = null
 }) => {
   const [formData, setFormData] = useState({
     stockNumber: '',
     mileage: '',
     fuelAmount: '',
     fuelCost: '',
+    pricePerGallon: '',
+    roNumber: '',
     notes: ''
   });
   
@@ -35,10 +87,24 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
     longitude: number;
     address?: string;
   } | null>(null);
+  // Why there is no device position. The entry is sent without one and flagged for review.
+  const [locationProblem, setLocationProblem] = useState<string | null>(null);
   
+  const [purpose, setPurpose] = useState<FuelPurpose | null>(null);
+  const [vehicleCategory, setVehicleCategory] = useState<VehicleCategory | null>(null);
+  // Service customers' fuel is charged back to their repair order
+  const isServiceFill = purpose === 'service' || vehicleCategory === 'service_customer';
+  const [fuelType, setFuelType] = useState<FuelType>('regular');
+  // The porter checked the vehicle and the decoded fuel is wrong; the entry is still flagged
+  const [wrongFuelConfirmed, setWrongFuelConfirmed] = useState(false);
   const [receiptPhoto, setReceiptPhoto] = useState<string>('');
   const [vinPhoto, setVinPhoto] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isScanningReceipt, setIsScanningReceipt] = useState(false);
+  const [receiptScan, setReceiptScan] = useState<ParsedReceipt | null>(null);
+  // From the receipt when it was read plausibly; empty records the fill at submission time
+  const [fillTime, setFillTime] = useState('');
+  const [fieldConfidence, setFieldConfidence] = useState<Partial<Record<ScannedField, number>>>({});
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [submittedEntry, setSubmittedEntry] = useState<any>(null);
   const [showCamera, setShowCamera] = useState(false);
@@ -50,44 +116,18 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
     vinPhoto?: string;
     vehicleInfo?: VehicleInfo;
   }>({});
+  // Fuel checks only trust a successful decode
+  const decodedVehicle = vehicleData.vehicleInfo?.valid ? vehicleData.vehicleInfo : null;
 
-  // Get location on component mount with error handling
-  useEffect(() => {
-    console.log('🎯 FuelEntryForm - Location Permission Status:', locationPermissionGranted);
-    console.log('🎯 FuelEntryForm - Current Location:', currentLocation);
-    
-    if (locationPermissionGranted && currentLocation) {
-      // Use the location we already have from onboarding
-      setLocation({
-        latitude: currentLocation.coords.latitude,
-        longitude: currentLocation.coords.longitude,
-        address: `${currentLocation.coords.latitude}, ${currentLocation.coords.longitude}`
-      });
-      console.log('✅ Using pre-granted location from onboarding');
-    } else if (locationPermissionGranted) {
-      // Permission was granted but we need to get fresh location
-      getCurrentLocation().catch(error => {
-        console.log('ℹ️ Location refresh failed, using fallback:', error);
-      });
-    } else {
-      // No permission or permission denied - use fallback
-      setLocation({
-        latitude: 41.8781,
-        longitude: -87.6298,
-        address: 'Default Location - Chicago, IL'
-      });
-      console.log('ℹ️ Using default Chicago location (no permission)');
-    }
-  }, [locationPermissionGranted, currentLocation]);
+  const markLocationUnavailable = useCallback((reason: string) => {
+    setLocation(null);
+    setLocationProblem(reason);
+  }, []);
 
-  const getCurrentLocation = async () => {
+  const getCurrentLocation = useCallback(async () => {
     if (!('geolocation' in navigator)) {
       console.log('Geolocation not supported');
-      setLocation({
-        latitude: 41.8781,
-        longitude: -87.6298,
-        address: 'Demo Location - Geolocation not supported'
-      });
+      markLocationUnavailable('Geolocation not supported');
       return;
     }
 
@@ -98,12 +138,8 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
         console.log('📍 Geolocation permission status:', permission.state);
         
         if (permission.state === 'denied') {
-          console.log('ℹ️ Geolocation permission denied, using fallback location');
-          setLocation({
-            latitude: 41.8781,
-            longitude: -87.6298,
-            address: 'Demo Location - Permission denied'
-          });
+          console.log('ℹ️ Geolocation permission denied, submitting without a location');
+          markLocationUnavailable('Permission denied');
           return;
         }
       }
@@ -122,6 +158,7 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
         // Reverse geocode to get address (simplified)
         const address = `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
         setLocation({ latitude, longitude, address });
+        setLocationProblem(null);
         
         toast.success('Location captured successfully');
       },
@@ -139,35 +176,30 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
         switch (error.code) {
           case 1: // PERMISSION_DENIED
             if (error.message.includes('permissions policy')) {
-              errorMessage = 'Location disabled by browser policy. Using demo location.';
+              errorMessage = 'Location disabled by browser policy. The entry will be sent for review.';
             } else {
               errorMessage = 'Location access denied. Please enable location permissions.';
             }
             break;
           case 2: // POSITION_UNAVAILABLE
-            errorMessage = 'Location information unavailable. Using demo location.';
+            errorMessage = 'Location information unavailable. The entry will be sent for review.';
             break;
           case 3: // TIMEOUT
-            errorMessage = 'Location request timed out. Using demo location.';
+            errorMessage = 'Location request timed out. The entry will be sent for review.';
             break;
           default:
-            errorMessage = `Location error (code: ${error.code}). Using demo location.`;
+            errorMessage = `Location error (code: ${error.code}). The entry will be sent for review.`;
             break;
         }
         
         // Use a less intrusive toast for permission/policy errors
         if (error.code === 1) {
-          console.log('ℹ️ Location access denied, using fallback location');
+          console.log('ℹ️ Location access denied, submitting without a location');
         } else {
           toast.info(errorMessage);
         }
         
-        // Set a fallback location for demo purposes
-        setLocation({
-          latitude: 41.8781,
-          longitude: -87.6298,
-          address: 'Demo Location - Chicago, IL (Location unavailable)'
-        });
+        markLocationUnavailable('Location unavailable');
       },
       {
         enableHighAccuracy: false, // Faster response
@@ -175,13 +207,83 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
         maximumAge: 300000 // 5 minutes
       }
     );
-  };
+  }, [markLocationUnavailable]);
+
+  // Get location on component mount with error handling
+  useEffect(() => {
+    console.log('🎯 FuelEntryForm - Location Permission Status:', locationPermissionGranted);
+    console.log('🎯 FuelEntryForm - Current Location:', currentLocation);
+    
+    if (locationPermissionGranted && currentLocation) {
+      // Use the location we already have from onboarding
+      setLocation({
+        latitude: currentLocation.coords.latitude,
+        longitude: currentLocation.coords.longitude,
+        address: `${currentLocation.coords.latitude}, ${currentLocation.coords.longitude}`
+      });
+      setLocationProblem(null);
+      console.log('✅ Using pre-granted location from onboarding');
+    } else if (locationPermissionGranted) {
+      // Permission was granted but we need to get fresh location
+      getCurrentLocation().catch(error => {
+        console.log('ℹ️ Location refresh failed:', error);
+      });
+    } else {
+      // No permission or permission denied - the entry goes without a location
+      markLocationUnavailable('No location permission');
+      console.log('ℹ️ No location permission, submitting without a location');
+    }
+  }, [locationPermissionGranted, currentLocation, getCurrentLocation, markLocationUnavailable]);
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
     }));
+
+    // A value typed by the porter no longer needs an OCR confidence warning
+    setFieldConfidence(prev => {
+      if (!(field in prev)) return prev;
+      const rest = { ...prev };
+      delete rest[field as ScannedField];
+      return rest;
+    });
+  };
+
+  const scanReceipt = async (photoDataUrl: string) => {
+    setIsScanningReceipt(true);
+    const result = await receiptOcrService.scanReceipt(photoDataUrl);
+    setIsScanningReceipt(false);
+
+    if ('error' in result) {
+      toast.info(result.error);
+      return;
+    }
+
+    const { receipt } = result;
+    const scannedValues: Partial<Record<ScannedField, string>> = {};
+    const confidence: Partial<Record<ScannedField, number>> = {};
+
+    if (receipt.gallons) {
+      scannedValues.fuelAmount = receipt.gallons.value.toFixed(3);
+      confidence.fuelAmount = receipt.gallons.confidence;
+    }
+    if (receipt.total) {
+      scannedValues.fuelCost = receipt.total.value.toFixed(2);
+      confidence.fuelCost = receipt.total.confidence;
+    }
+    if (receipt.pricePerGallon) {
+      scannedValues.pricePerGallon = receipt.pricePerGallon.value.toFixed(3);
+      confidence.pricePerGallon = receipt.pricePerGallon.confidence;
+    }
+
+    setFormData(prev => ({ ...prev, ...scannedValues }));
+    setFieldConfidence(confidence);
+    if (receipt.transactionTime && isPlausibleFillTime(receipt.transactionTime.value)) {
+      setFillTime(toDateTimeInput(receipt.transactionTime.value));
+    }
+    setReceiptScan(receipt);
+    toast.success('Receipt scanned - please check the highlighted values');
   };
 
   const handlePhotoCapture = (type: 'receipt' | 'vin') => {
@@ -193,6 +295,7 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
     if (cameraMode === 'receipt') {
       setReceiptPhoto(photoDataUrl);
       toast.success('Receipt photo captured successfully');
+      scanReceipt(photoDataUrl);
     } else {
       setVinPhoto(photoDataUrl);
       toast.success('VIN photo captured successfully');
@@ -203,6 +306,8 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
   const removePhoto = (type: 'receipt' | 'vin') => {
     if (type === 'receipt') {
       setReceiptPhoto('');
+      setReceiptScan(null);
+      setFieldConfidence({});
     } else {
       setVinPhoto('');
     }
@@ -230,6 +335,31 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
       errors.push('Valid fuel cost is required');
     }
 
+    if (formData.pricePerGallon && (isNaN(Number(formData.pricePerGallon)) || Number(formData.pricePerGallon) <= 0)) {
+      errors.push('Price per gallon must be a valid amount');
+    }
+
+    if (fillTime && !isPlausibleFillTime(new Date(fillTime))) {
+      errors.push(`Fill time can't be in the future or more than ${FILL_TIME_MAX_AGE_HOURS} hours ago`);
+    }
+
+    if (!purpose) {
+      errors.push('Choose why the vehicle is being fueled');
+    }
+
+    if (!vehicleCategory) {
+      errors.push('Choose the vehicle category');
+    }
+
+    if (isFuelTypeMismatch(fuelType, decodedVehicle) && !wrongFuelConfirmed) {
+      errors.push(`This vehicle runs on ${vehicleFuel(decodedVehicle)}, not ${FUEL_TYPE_LABELS[fuelType].toLowerCase()}`);
+    }
+
+    const roProblem = isServiceFill && roNumberProblem(chargebackSettings, formData.roNumber);
+    if (roProblem) {
+      errors.push(roProblem);
+    }
+
     // Receipt photo is required
     if (!receiptPhoto) {
       errors.push('Receipt photo is required');
@@ -262,9 +392,15 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
         mileage: Number(formData.mileage),
         fuelAmount: Number(formData.fuelAmount),
         fuelCost: Number(formData.fuelCost),
-        timestamp: new Date(),
+        pricePerGallon: Number(formData.pricePerGallon) || undefined,
+        stationName: receiptScan?.stationName?.value,
+        timestamp: fillTime ? new Date(fillTime) : new Date(),
         notes: formData.notes || undefined,
-        location,
+        fuelType,
+        purpose,
+        vehicleCategory,
+        roNumber: isServiceFill ? formData.roNumber.trim().toUpperCase() || undefined : undefined,
+        location: location ?? undefined,
         receiptPhoto,
         vinPhoto: vehicleData.vinPhoto || vinPhoto || undefined
       };
@@ -275,6 +411,32 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
     }, 2000);
   };
 
+  // Flag receipts where the total doesn't add up, whether misread by OCR or mistyped
+  const hasTotalMismatch = () => {
+    const gallons = Number(formData.fuelAmount);
+    const price = Number(formData.pricePerGallon);
+    const total = Number(formData.fuelCost);
+    if (!(gallons > 0) || !(price > 0) || !(total > 0)) return false;
+    return Math.abs(total - gallons * price) > TOTAL_MISMATCH_TOLERANCE;
+  };
+
+  const confidenceInputClass = (field: ScannedField) => {
+    const confidence = fieldConfidence[field];
+    return confidence === undefined ? 'border-white/20' : CONFIDENCE_STYLES[getConfidenceLevel(confidence)].input;
+  };
+
+  const renderConfidence = (field: ScannedField) => {
+    const confidence = fieldConfidence[field];
+    if (confidence === undefined) return null;
+
+    const level = getConfidenceLevel(confidence);
+    return (
+      <p className={`text-xs mt-1 ${CONFIDENCE_STYLES[level].text}`}>
+        {level === 'high' ? 'Read from receipt' : level === 'medium' ? 'Please check' : 'Low confidence - verify'} ({Math.round(confidence * 100)}%)
+      </p>
+    );
+  };
+
   const handleVehicleIdentified = (data: {
     stockNumber?: string;
     vin?: string;
@@ -287,9 +449,17 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
       stockNumber: data.stockNumber || ''
     }));
     setVinPhoto(data.vinPhoto || '');
+    // Pre-filled from the stock number; the porter can still pick another
+    setVehicleCategory(suggestVehicleCategory(rooftop, data.stockNumber || ''));
+    chooseFuelType(defaultFuelType(data.vehicleInfo?.valid ? data.vehicleInfo : null));
     setCurrentStep('details');
   };
 
+  const chooseFuelType = (value: FuelType) => {
+    setFuelType(value);
+    setWrongFuelConfirmed(false);
+  };
+
   const handleBackToVehicle = () => {
     setCurrentStep('vehicle');
   };
@@ -335,6 +505,34 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
               </div>
             )}
             
+            {submittedEntry.purpose && (
+              <div className="flex justify-between">
+                <span className="text-slate-300">Purpose:</span>
+                <span className="text-white">{PURPOSE_LABELS[submittedEntry.purpose as FuelPurpose]}</span>
+              </div>
+            )}
+
+            {submittedEntry.fuelType && (
+              <div className="flex justify-between">
+                <span className="text-slate-300">Fuel Type:</span>
+                <span className="text-white">{FUEL_TYPE_LABELS[submittedEntry.fuelType as FuelType]}</span>
+              </div>
+            )}
+
+            {submittedEntry.roNumber && (
+              <div className="flex justify-between">
+                <span className="text-slate-300">RO Number:</span>
+                <span className="text-white font-mono">{submittedEntry.roNumber}</span>
+              </div>
+            )}
+
+            {submittedEntry.vehicleCategory && (
+              <div className="flex justify-between">
+                <span className="text-slate-300">Category:</span>
+                <span className="text-white">{VEHICLE_CATEGORY_LABELS[submittedEntry.vehicleCategory as VehicleCategory]}</span>
+              </div>
+            )}
+
             <div className="flex justify-between">
               <span className="text-slate-300">Mileage:</span>
               <span className="text-white">{submittedEntry.mileage.toLocaleString()} miles</span>
@@ -345,11 +543,25 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
               <span className="text-white">{submittedEntry.fuelAmount} gallons</span>
             </div>
             
+            {submittedEntry.pricePerGallon && (
+              <div className="flex justify-between">
+                <span className="text-slate-300">Price/Gallon:</span>
+                <span className="text-white">${submittedEntry.pricePerGallon.toFixed(3)}</span>
+              </div>
+            )}
+            
             <div className="flex justify-between">
               <span className="text-slate-300">Cost:</span>
               <span className="text-white font-medium">${submittedEntry.fuelCost.toFixed(2)}</span>
             </div>
             
+            {submittedEntry.stationName && (
+              <div className="flex justify-between">
+                <span className="text-slate-300">Station:</span>
+                <span className="text-white text-sm">{submittedEntry.stationName}</span>
+              </div>
+            )}
+            
             <div className="flex justify-between">
               <span className="text-slate-300">Date & Time:</span>
               <span className="text-white text-sm">{submittedEntry.timestamp.toLocaleString()}</span>
@@ -460,6 +672,14 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
                 <span className="text-white font-medium">{vehicleData.stockNumber}</span>
               </div>
             )}
+
+            {vehicleData.stockNumber && !matchesStockNumberFormat(rooftop, vehicleData.stockNumber) && (
+              <p className="flex items-start text-amber-300 text-xs">
+                <AlertTriangle className="w-4 h-4 mr-1 flex-shrink-0" />
+                Doesn't match the {rooftop!.name} stock number format
+                {rooftop!.stock_number_example && ` (like ${rooftop!.stock_number_example})`}. The entry will be flagged for review.
+              </p>
+            )}
             
             {vehicleData.vin && (
               <div className="flex justify-between items-center">
@@ -486,11 +706,113 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
           </div>
         </div>
 
+        {/* Purpose */}
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+          <h3 className="text-white text-lg mb-4 flex items-center">
+            <Tags className="w-5 h-5 mr-2" />
+            Purpose
+          </h3>
+
+          <div className="space-y-4">
+            <div>
+              <label className="text-white text-sm font-medium mb-2 block">
+                Why is it being fueled? *
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(PURPOSE_LABELS) as FuelPurpose[]).map(value => (
+                  <button key={value} onClick={() => setPurpose(value)} className={chipClassName(purpose === value)}>
+                    {PURPOSE_LABELS[value]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-white text-sm font-medium mb-2 block">
+                Vehicle Category *
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(VEHICLE_CATEGORY_LABELS) as VehicleCategory[]).map(value => (
+                  <button key={value} onClick={() => setVehicleCategory(value)} className={chipClassName(vehicleCategory === value)}>
+                    {VEHICLE_CATEGORY_LABELS[value]}
+                  </button>
+                ))}
+              </div>
+              {vehicleCategory && vehicleCategory === suggestVehicleCategory(rooftop, vehicleData.stockNumber || '') && (
+                <p className="text-slate-400 text-xs mt-2">Suggested from the stock number</p>
+              )}
+            </div>
+
+            {isServiceFill && (
+              <div>
+                <label className="text-white text-sm font-medium mb-2 block">
+                  RO Number (Optional)
+                </label>
+                <Input
+                  value={formData.roNumber}
+                  onChange={(e) => handleInputChange('roNumber', e.target.value)}
+                  placeholder={chargebackSettings?.ro_number_example ?? 'Repair order number'}
+                  className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20"
+                />
+                {formData.roNumber.trim() && roNumberProblem(chargebackSettings, formData.roNumber) ? (
+                  <p className="flex items-start text-amber-300 text-xs mt-2">
+                    <AlertTriangle className="w-4 h-4 mr-1 flex-shrink-0" />
+                    {roNumberProblem(chargebackSettings, formData.roNumber)}
+                  </p>
+                ) : (
+                  <p className="text-slate-400 text-xs mt-2">The fuel is billed to this repair order.</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Fuel Information */}
         <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
           <h3 className="text-white text-lg mb-4">Fuel Information</h3>
           
           <div className="grid grid-cols-1 gap-4">
+            <div>
+              <label className="text-white text-sm font-medium mb-2 block">
+                Fuel Type *
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(FUEL_TYPE_LABELS) as FuelType[]).map(value => (
+                  <button key={value} onClick={() => chooseFuelType(value)} className={chipClassName(fuelType === value)}>
+                    {FUEL_TYPE_LABELS[value]}
+                  </button>
+                ))}
+              </div>
+              {isFuelTypeMismatch(fuelType, decodedVehicle) ? (
+                <div className="bg-red-500/10 border border-red-400/40 rounded-xl p-3 mt-2 space-y-2">
+                  <p className="flex items-start text-red-300 text-sm font-medium">
+                    <AlertTriangle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                    Stop: this {decodedVehicle!.make} {decodedVehicle!.model} takes {vehicleFuel(decodedVehicle)}
+                  </p>
+                  <p className="text-red-200/80 text-xs">
+                    Putting {FUEL_TYPE_LABELS[fuelType].toLowerCase()} in it can ruin the engine. Check the label on the
+                    fuel door before pumping.
+                  </p>
+                  <label className="flex items-start text-slate-300 text-xs cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={wrongFuelConfirmed}
+                      onChange={(e) => setWrongFuelConfirmed(e.target.checked)}
+                      className="mr-2 mt-0.5"
+                    />
+                    I checked the vehicle and it takes {FUEL_TYPE_LABELS[fuelType].toLowerCase()}. The entry will be flagged for review.
+                  </label>
+                </div>
+              ) : isUnneededPremium(fuelType, decodedVehicle) ? (
+                <p className="flex items-start text-amber-300 text-xs mt-2">
+                  <AlertTriangle className="w-4 h-4 mr-1 flex-shrink-0" />
+                  This vehicle runs on regular. Premium fills are flagged for a manager to review.
+                </p>
+              ) : vehicleFuel(decodedVehicle) && fuelType === defaultFuelType(decodedVehicle) && (
+                <p className="text-slate-400 text-xs mt-2">From the decoded vehicle</p>
+              )}
+            </div>
+
             <div>
               <label className="text-white text-sm font-medium mb-2 block">
                 Mileage
@@ -516,9 +838,10 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
                   value={formData.fuelAmount}
                   onChange={(e) => handleInputChange('fuelAmount', e.target.value)}
                   placeholder="0.00"
-                  className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20"
+                  className={`bg-white/5 ${confidenceInputClass('fuelAmount')} text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20`}
                   inputMode="decimal"
                 />
+                {renderConfidence('fuelAmount')}
               </div>
 
               <div>
@@ -531,11 +854,37 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
                   value={formData.fuelCost}
                   onChange={(e) => handleInputChange('fuelCost', e.target.value)}
                   placeholder="0.00"
-                  className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20"
+                  className={`bg-white/5 ${confidenceInputClass('fuelCost')} text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20`}
                   inputMode="decimal"
                 />
+                {renderConfidence('fuelCost')}
               </div>
             </div>
+
+            <div>
+              <label className="text-white text-sm font-medium mb-2 block">
+                Price per Gallon ($) (Optional)
+              </label>
+              <Input
+                type="number"
+                step="0.001"
+                value={formData.pricePerGallon}
+                onChange={(e) => handleInputChange('pricePerGallon', e.target.value)}
+                placeholder="0.000"
+                className={`bg-white/5 ${confidenceInputClass('pricePerGallon')} text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20`}
+                inputMode="decimal"
+              />
+              {renderConfidence('pricePerGallon')}
+            </div>
+
+            {hasTotalMismatch() && (
+              <div className="flex items-start bg-amber-500/10 border border-amber-400/30 rounded-xl p-3">
+                <AlertTriangle className="w-4 h-4 text-amber-400 mr-2 mt-0.5 flex-shrink-0" />
+                <p className="text-amber-200 text-sm">
+                  Total ${Number(formData.fuelCost).toFixed(2)} doesn't match {formData.fuelAmount} gal × ${formData.pricePerGallon} = ${(Number(formData.fuelAmount) * Number(formData.pricePerGallon)).toFixed(2)}. Please check the receipt.
+                </p>
+              </div>
+            )}
           </div>
         </div>
 
@@ -562,7 +911,17 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
                       </div>
                       <div>
                         <p className="text-white text-sm font-medium">Receipt Photo</p>
-                        <p className="text-slate-400 text-xs">Captured successfully</p>
+                        {isScanningReceipt ? (
+                          <p className="text-blue-300 text-xs flex items-center">
+                            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                            Reading receipt...
+                          </p>
+                        ) : (
+                          <p className="text-slate-400 text-xs">Captured successfully</p>
+                        )}
+                        {receiptScan?.stationName && (
+                          <p className="text-slate-300 text-xs">{receiptScan.stationName.value}</p>
+                        )}
                       </div>
                     </div>
                     <button
@@ -608,7 +967,11 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
                   </div>
                 ) : (
                   <div className="text-sm">
-                    <p className="text-slate-400">Getting location...</p>
+                    {locationProblem ? (
+                      <p className="text-amber-400">No location ({locationProblem}). The entry will be sent for review.</p>
+                    ) : (
+                      <p className="text-slate-400">Getting location...</p>
+                    )}
                     <button
                       onClick={getCurrentLocation}
                       className="text-blue-400 hover:text-blue-300 text-xs mt-1"
@@ -620,6 +983,23 @@ export const FuelEntryForm: React.FC<FuelEntryFormProps> = ({
               </div>
             </div>
 
+            {/* Fill Time */}
+            <div>
+              <label className="text-white text-sm font-medium mb-2 block flex items-center">
+                <Clock className="w-4 h-4 mr-2" />
+                Fill Time
+              </label>
+              <Input
+                type="datetime-local"
+                value={fillTime}
+                onChange={(e) => setFillTime(e.target.value)}
+                className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20"
+              />
+              <p className="text-slate-400 text-xs mt-1">
+                Filled in from the receipt when it can be read. Leave it empty to use the current time.
+              </p>
+            </div>
+
             {/* Notes */}
             <div>
               <label className="text-white text-sm font-medium mb-2 block">
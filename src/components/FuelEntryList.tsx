@@ -1,22 +1,235 @@
-import React, { useState } from 'react';
-import { List, Search, Filter, Car, Receipt, MapPin, Calendar, Fuel, DollarSign } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { List, Search, Filter, Car, Receipt, MapPin, Calendar, Fuel, DollarSign, Pencil, Ban, History, CloudOff, RefreshCw, Loader2, AlertTriangle, Trash2, Clock, HelpCircle, XCircle, Send } from 'lucide-react';
 import { Input } from './ui/input';
-import { User, FuelEntry } from '../App';
+import { Textarea } from './ui/textarea';
+import { User, FuelEntry, FuelEntryChanges } from '../App';
+import { can } from '../utils/permissions';
+import { ENTRY_EDIT_WINDOW_HOURS, FuelEntryQuery } from '../services/fuelService';
 
 interface FuelEntryListProps {
   fuelEntries: FuelEntry[];
   user: User;
+  onEditEntry?: (entryId: string, changes: FuelEntryChanges, reason: string) => Promise<boolean>;
+  onVoidEntry?: (entryId: string, reason: string) => Promise<boolean>;
+  onRetrySync?: (entryId: string) => void;
+  onDiscardEntry?: (entryId: string) => void;
+  onSelectVehicle?: (vehicleId: string) => void;
+  onRespondToInfoRequest?: (entryId: string, response: string) => Promise<boolean>;
+  // When set, entries are paged from the server instead of filtered in memory
+  onLoadEntries?: (query: FuelEntryQuery, cursor?: string | null) => Promise<{ ids: string[]; nextCursor: string | null } | null>;
+  // Fetches an entry's stored revisions; without it only this session's changes are shown
+  onLoadRevisions?: (entryId: string) => Promise<void>;
 }
 
-export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user }) => {
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const REVISION_FIELD_LABELS: Record<string, string> = {
+  stock_number: 'Stock Number',
+  vin: 'VIN',
+  odometer: 'Mileage',
+  gallons: 'Gallons',
+  total_amount: 'Total Cost',
+  price_per_gallon: 'Price/Gal',
+  notes: 'Notes',
+  voided: 'Voided'
+};
+
+export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user, onEditEntry, onVoidEntry, onRetrySync, onDiscardEntry, onSelectVehicle, onRespondToInfoRequest, onLoadEntries, onLoadRevisions }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterBy, setFilterBy] = useState<'all' | 'thisMonth' | 'lastMonth'>('all');
+  const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const [voidingEntryId, setVoidingEntryId] = useState<string | null>(null);
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
+  const [loadingHistoryId, setLoadingHistoryId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState({ stockNumber: '', mileage: '', fuelAmount: '', fuelCost: '', notes: '' });
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [infoResponses, setInfoResponses] = useState<Record<string, string>>({});
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [pageIds, setPageIds] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingPage, setIsLoadingPage] = useState(false);
+  const [loadedAt, setLoadedAt] = useState(Date.now());
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const queryVersionRef = useRef(0);
+  const loadNextPageRef = useRef<() => void>(() => {});
 
-  // Filter entries for current user if porter
-  const userEntries = user.role === 'admin' ? fuelEntries : fuelEntries.filter(entry => entry.userId === user.id);
+  const isServerPaged = !!onLoadEntries;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const buildQuery = useCallback((): FuelEntryQuery => {
+    const now = new Date();
+    const query: FuelEntryQuery = { limit: PAGE_SIZE, search: debouncedSearch || undefined };
+    if (filterBy === 'thisMonth') {
+      query.from = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+    } else if (filterBy === 'lastMonth') {
+      query.from = new Date(now.getFullYear(), now.getMonth() - 1, 1).toISOString();
+      query.to = new Date(new Date(now.getFullYear(), now.getMonth(), 1).getTime() - 1).toISOString();
+    }
+    if (flaggedOnly) query.flagged = true;
+    return query;
+  }, [debouncedSearch, filterBy, flaggedOnly]);
+
+  // Start again from the first page whenever the filters change
+  useEffect(() => {
+    if (!onLoadEntries) return;
+
+    const version = ++queryVersionRef.current;
+    setPageIds([]);
+    setNextCursor(null);
+    setIsLoadingPage(true);
+    setLoadedAt(Date.now());
+
+    onLoadEntries(buildQuery()).then(page => {
+      if (version !== queryVersionRef.current) return;
+      setIsLoadingPage(false);
+      if (!page) return;
+      setPageIds(page.ids);
+      setNextCursor(page.nextCursor);
+    });
+  }, [onLoadEntries, buildQuery]);
+
+  loadNextPageRef.current = () => {
+    if (!onLoadEntries || !nextCursor || isLoadingPage) return;
+
+    const version = queryVersionRef.current;
+    setIsLoadingPage(true);
+    onLoadEntries(buildQuery(), nextCursor).then(page => {
+      if (version !== queryVersionRef.current) return;
+      setIsLoadingPage(false);
+      if (!page) return;
+      setPageIds(prev => [...prev, ...page.ids.filter(id => !prev.includes(id))]);
+      setNextCursor(page.nextCursor);
+    });
+  };
+
+  // Infinite scroll: fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    if (!isServerPaged || !sentinelRef.current) return;
+
+    const observer = new IntersectionObserver(
+      observed => {
+        if (observed.some(item => item.isIntersecting)) loadNextPageRef.current();
+      },
+      { root: scrollContainerRef.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [isServerPaged, pageIds.length]);
+
+  // Anyone who can edit all entries changes any of them, porters only their own within the edit window
+  const canModifyEntry = (entry: FuelEntry) => {
+    if (entry.voided) return false;
+    // Entries on their way to the server can only be retried or discarded
+    if (entry.syncStatus && entry.syncStatus !== 'guest') return false;
+    if (can(user, 'entries.edit_all')) return true;
+    if (entry.userId !== user.id) return false;
+    const ageMs = Date.now() - new Date(entry.submittedAt).getTime();
+    return ageMs <= ENTRY_EDIT_WINDOW_HOURS * 60 * 60 * 1000;
+  };
+
+  // Vehicles are identified by stock number, or by VIN when there isn't one
+  const getVehicleId = (entry: FuelEntry) =>
+    entry.stockNumber || (entry.vin && entry.vin !== 'VIN_FROM_PHOTO' ? entry.vin : undefined);
+
+  // The server's count covers edits made elsewhere; local entries only have this session's
+  const revisionCount = (entry: FuelEntry) => Math.max(entry.revisionCount ?? 0, entry.revisions?.length ?? 0);
+
+  const toggleHistory = async (entry: FuelEntry) => {
+    if (historyEntryId === entry.id) {
+      setHistoryEntryId(null);
+      return;
+    }
+
+    setHistoryEntryId(entry.id);
+    if (onLoadRevisions && !entry.syncStatus && (entry.revisions?.length ?? 0) < revisionCount(entry)) {
+      setLoadingHistoryId(entry.id);
+      await onLoadRevisions(entry.id);
+      setLoadingHistoryId(null);
+    }
+  };
+
+  const startEditing = (entry: FuelEntry) => {
+    setVoidingEntryId(null);
+    setEditingEntryId(entry.id);
+    setReason('');
+    setEditForm({
+      stockNumber: entry.stockNumber || '',
+      mileage: String(entry.mileage),
+      fuelAmount: String(entry.fuelAmount),
+      fuelCost: String(entry.fuelCost),
+      notes: entry.notes || ''
+    });
+  };
 
-  // Apply search and filters
-  const filteredEntries = userEntries.filter(entry => {
+  const startVoiding = (entry: FuelEntry) => {
+    setEditingEntryId(null);
+    setVoidingEntryId(entry.id);
+    setReason('');
+  };
+
+  const cancelChanges = () => {
+    setEditingEntryId(null);
+    setVoidingEntryId(null);
+    setReason('');
+  };
+
+  const handleSaveEdit = async (entry: FuelEntry) => {
+    if (!onEditEntry || !reason.trim()) return;
+
+    const mileage = Number(editForm.mileage);
+    const fuelAmount = Number(editForm.fuelAmount);
+    const fuelCost = Number(editForm.fuelCost);
+    if (!(mileage > 0) || !(fuelAmount > 0) || !(fuelCost > 0)) return;
+
+    setIsSaving(true);
+    const saved = await onEditEntry(entry.id, {
+      stockNumber: editForm.stockNumber.trim() || entry.stockNumber,
+      mileage,
+      fuelAmount,
+      fuelCost,
+      notes: editForm.notes.trim() || undefined
+    }, reason.trim());
+    setIsSaving(false);
+
+    if (saved) cancelChanges();
+  };
+
+  const handleConfirmVoid = async (entry: FuelEntry) => {
+    if (!onVoidEntry || !reason.trim()) return;
+
+    setIsSaving(true);
+    const voided = await onVoidEntry(entry.id, reason.trim());
+    setIsSaving(false);
+
+    if (voided) cancelChanges();
+  };
+
+  // The note left with the most recent change to the entry's current status
+  const getStatusNote = (entry: FuelEntry) =>
+    [...(entry.statusHistory || [])].reverse().find(change => change.status === entry.status)?.note;
+
+  const handleSendResponse = async (entry: FuelEntry) => {
+    const response = infoResponses[entry.id]?.trim();
+    if (!onRespondToInfoRequest || !response) return;
+
+    setIsSaving(true);
+    const sent = await onRespondToInfoRequest(entry.id, response);
+    setIsSaving(false);
+
+    if (sent) {
+      setInfoResponses(prev => ({ ...prev, [entry.id]: '' }));
+    }
+  };
+
+  const matchesLocalFilters = (entry: FuelEntry) => {
     // Search filter
     const matchesSearch = searchTerm === '' || 
       entry.stockNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -38,14 +251,34 @@ export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user
                           entryDate.getFullYear() === lastMonth.getFullYear();
     }
 
-    return matchesSearch && matchesDateFilter;
-  });
+    const matchesFlagFilter = !flaggedOnly || (entry.flagReasons?.length ?? 0) > 0;
+
+    return matchesSearch && matchesDateFilter && matchesFlagFilter;
+  };
+
+  // Filter entries for current user if porter
+  const userEntries = can(user, 'entries.view_all') ? fuelEntries : fuelEntries.filter(entry => entry.userId === user.id);
+
+  // Server-paged lists show the loaded pages plus anything added on this device since they were loaded
+  const filteredEntries = isServerPaged
+    ? [
+      ...userEntries.filter(entry =>
+        !pageIds.includes(entry.id) &&
+        (entry.syncStatus || new Date(entry.submittedAt).getTime() >= loadedAt) &&
+        matchesLocalFilters(entry)
+      ),
+      ...pageIds.flatMap(id => fuelEntries.filter(entry => entry.id === id))
+    ]
+    : userEntries.filter(matchesLocalFilters);
 
   // Sort by most recent first
   const sortedEntries = filteredEntries.sort((a, b) => 
     new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
   );
 
+  // Voided entries stay visible but don't count towards totals
+  const activeEntries = sortedEntries.filter(entry => !entry.voided);
+
   return (
     <div className="flex flex-col h-full px-6 py-8">
       {/* Header */}
@@ -55,7 +288,7 @@ export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user
         </div>
         <h2 className="text-white text-2xl mb-2">Fuel Entries</h2>
         <p className="text-slate-300/80">
-          {user.role === 'admin' ? 'All submitted fuel entries' : 'Your fuel entry history'}
+          {can(user, 'entries.view_all') ? 'All submitted fuel entries' : 'Your fuel entry history'}
         </p>
       </div>
 
@@ -105,6 +338,18 @@ export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user
             >
               Last Month
             </button>
+            {can(user, 'entries.view_all') && (
+              <button
+                onClick={() => setFlaggedOnly(prev => !prev)}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                  flaggedOnly
+                    ? 'bg-amber-500/20 text-amber-300 border border-amber-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                Flagged
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -113,19 +358,25 @@ export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user
       {sortedEntries.length > 0 && (
         <div className="bg-white/5 rounded-xl p-3 mb-4 flex justify-between items-center">
           <span className="text-slate-300 text-sm">
-            {sortedEntries.length} {sortedEntries.length === 1 ? 'entry' : 'entries'} found
+            {sortedEntries.length}{nextCursor && '+'} {sortedEntries.length === 1 ? 'entry' : 'entries'} found
           </span>
           <span className="text-slate-300 text-sm">
-            Total: ${sortedEntries.reduce((sum, entry) => sum + entry.fuelCost, 0).toFixed(2)}
+            Total: ${activeEntries.reduce((sum, entry) => sum + entry.fuelCost, 0).toFixed(2)}
           </span>
         </div>
       )}
 
       {/* Entries List */}
-      <div className="flex-1 overflow-y-auto space-y-4">
-        {sortedEntries.length > 0 ? (
+      <div ref={scrollContainerRef} className="flex-1 overflow-y-auto space-y-4">
+        {isLoadingPage && sortedEntries.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-slate-400 animate-spin" />
+          </div>
+        ) : sortedEntries.length > 0 ? (
           sortedEntries.map((entry, index) => (
-            <div key={entry.id} className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-5">
+            <div key={entry.id} className={`bg-white/10 backdrop-blur-sm rounded-2xl border p-5 ${
+              entry.voided ? 'border-red-400/30 opacity-70' : 'border-white/20'
+            }`}>
               {/* Header */}
               <div className="flex items-start justify-between mb-4">
                 <div className="flex items-center space-x-3">
@@ -137,22 +388,243 @@ export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user
                     )}
                   </div>
                   <div>
-                    <h3 className="text-white font-medium">
-                      {entry.stockNumber || (entry.vin === 'VIN_FROM_PHOTO' ? 'VIN from Photo' : `VIN: ${entry.vin?.slice(-6) || 'Unknown'}`)}
-                    </h3>
+                    {onSelectVehicle && getVehicleId(entry) ? (
+                      <button
+                        onClick={() => onSelectVehicle(getVehicleId(entry)!)}
+                        className="text-white font-medium hover:text-blue-300 transition-colors text-left"
+                      >
+                        {entry.stockNumber || `VIN: ${entry.vin?.slice(-6)}`}
+                      </button>
+                    ) : (
+                      <h3 className="text-white font-medium">
+                        {entry.stockNumber || (entry.vin === 'VIN_FROM_PHOTO' ? 'VIN from Photo' : `VIN: ${entry.vin?.slice(-6) || 'Unknown'}`)}
+                      </h3>
+                    )}
                     <p className="text-slate-300 text-sm">
-                      {user.role === 'admin' && `${entry.userName} • `}
+                      {can(user, 'entries.view_all') && `${entry.userName} • `}
                       {new Date(entry.timestamp).toLocaleDateString()} at {new Date(entry.timestamp).toLocaleTimeString()}
                     </p>
                   </div>
                 </div>
                 
                 <div className="text-right">
-                  <p className="text-white font-medium text-lg">${entry.fuelCost.toFixed(2)}</p>
+                  <p className={`text-white font-medium text-lg ${entry.voided ? 'line-through' : ''}`}>${entry.fuelCost.toFixed(2)}</p>
                   <p className="text-slate-400 text-sm">{entry.fuelAmount} gal</p>
                 </div>
               </div>
 
+              {/* Sync Status */}
+              {entry.syncStatus === 'guest' && (
+                <div className="flex items-center space-x-2 bg-slate-500/10 border border-slate-400/20 rounded-xl p-3 mb-4">
+                  <CloudOff className="w-4 h-4 text-slate-300" />
+                  <p className="text-slate-300 text-sm">Saved on this device — sign in to sync</p>
+                </div>
+              )}
+
+              {(entry.syncStatus === 'pending' || entry.syncStatus === 'syncing') && (
+                <div className="flex items-center space-x-2 bg-amber-500/10 border border-amber-400/20 rounded-xl p-3 mb-4">
+                  {entry.syncStatus === 'syncing' ? (
+                    <Loader2 className="w-4 h-4 text-amber-300 animate-spin" />
+                  ) : (
+                    <CloudOff className="w-4 h-4 text-amber-300" />
+                  )}
+                  <p className="text-amber-300 text-sm">
+                    {entry.syncStatus === 'syncing' ? 'Syncing…' : 'Pending sync'}
+                  </p>
+                </div>
+              )}
+
+              {entry.syncStatus === 'failed' && (
+                <div className="bg-red-500/10 border border-red-400/20 rounded-xl p-3 mb-4">
+                  <div className="flex items-center space-x-2">
+                    <AlertTriangle className="w-4 h-4 text-red-300" />
+                    <p className="text-red-300 text-sm font-medium">Sync failed</p>
+                  </div>
+                  {entry.syncError && (
+                    <p className="text-red-200/80 text-sm mt-1">{entry.syncError}</p>
+                  )}
+                  <div className="flex items-center space-x-2 mt-3">
+                    {onRetrySync && (
+                      <button
+                        onClick={() => onRetrySync(entry.id)}
+                        className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-white/10 text-white text-xs hover:bg-white/20 transition-colors"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                        <span>Retry</span>
+                      </button>
+                    )}
+                    {onDiscardEntry && (
+                      <button
+                        onClick={() => onDiscardEntry(entry.id)}
+                        className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-red-500/20 text-red-200 text-xs hover:bg-red-500/30 transition-colors"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        <span>Discard</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Void Notice */}
+              {entry.voided && (
+                <div className="bg-red-500/10 border border-red-400/20 rounded-xl p-3 mb-4">
+                  <p className="text-red-300 text-sm font-medium">Voided</p>
+                  {entry.voidReason && (
+                    <p className="text-red-200/80 text-sm">{entry.voidReason}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Approval Status */}
+              {!entry.voided && entry.status === 'submitted' && (
+                <div className="flex items-center space-x-2 bg-blue-500/10 border border-blue-400/20 rounded-xl p-3 mb-4">
+                  <Clock className="w-4 h-4 text-blue-300" />
+                  <p className="text-blue-300 text-sm">Awaiting approval</p>
+                </div>
+              )}
+
+              {!entry.voided && entry.status === 'rejected' && (
+                <div className="bg-red-500/10 border border-red-400/20 rounded-xl p-3 mb-4">
+                  <div className="flex items-center space-x-2">
+                    <XCircle className="w-4 h-4 text-red-300" />
+                    <p className="text-red-300 text-sm font-medium">Rejected</p>
+                  </div>
+                  {getStatusNote(entry) && (
+                    <p className="text-red-200/80 text-sm mt-1">{getStatusNote(entry)}</p>
+                  )}
+                </div>
+              )}
+
+              {!entry.voided && entry.status === 'needs_info' && (
+                <div className="bg-amber-500/10 border border-amber-400/20 rounded-xl p-3 mb-4 space-y-3">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <HelpCircle className="w-4 h-4 text-amber-300" />
+                      <p className="text-amber-300 text-sm font-medium">More information needed</p>
+                    </div>
+                    {getStatusNote(entry) && (
+                      <p className="text-amber-200/80 text-sm mt-1">{getStatusNote(entry)}</p>
+                    )}
+                  </div>
+                  {entry.userId === user.id && onRespondToInfoRequest && (
+                    <div className="flex space-x-2">
+                      <Input
+                        value={infoResponses[entry.id] || ''}
+                        onChange={(e) => setInfoResponses(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                        placeholder="Your answer"
+                        className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+                      />
+                      <button
+                        onClick={() => handleSendResponse(entry)}
+                        disabled={isSaving || !infoResponses[entry.id]?.trim()}
+                        className="flex items-center space-x-1 px-3 py-2 rounded-lg text-sm bg-amber-500/20 text-amber-200 border border-amber-400/30 disabled:opacity-50"
+                      >
+                        <Send className="w-3 h-3" />
+                        <span>Send</span>
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Edit Form */}
+              {editingEntryId === entry.id && (
+                <div className="bg-white/5 rounded-xl p-3 mb-4 space-y-3">
+                  <h4 className="text-white text-sm font-medium">Edit Entry</h4>
+                  <Input
+                    value={editForm.stockNumber}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, stockNumber: e.target.value }))}
+                    placeholder="Stock number"
+                    className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+                  />
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      type="number"
+                      value={editForm.mileage}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, mileage: e.target.value }))}
+                      placeholder="Mileage"
+                      inputMode="numeric"
+                      className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={editForm.fuelAmount}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, fuelAmount: e.target.value }))}
+                      placeholder="Gallons"
+                      inputMode="decimal"
+                      className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={editForm.fuelCost}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, fuelCost: e.target.value }))}
+                      placeholder="Cost"
+                      inputMode="decimal"
+                      className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+                    />
+                  </div>
+                  <Textarea
+                    value={editForm.notes}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, notes: e.target.value }))}
+                    placeholder="Notes"
+                    rows={2}
+                    className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+                  />
+                  <Input
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason for change (required)"
+                    className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+                  />
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleSaveEdit(entry)}
+                      disabled={isSaving || !reason.trim()}
+                      className="flex-1 px-3 py-2 rounded-lg text-sm bg-blue-500/20 text-blue-300 border border-blue-400/30 disabled:opacity-50"
+                    >
+                      {isSaving ? 'Saving...' : 'Save Changes'}
+                    </button>
+                    <button
+                      onClick={cancelChanges}
+                      className="flex-1 px-3 py-2 rounded-lg text-sm bg-white/5 text-slate-300 border border-white/10"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Void Form */}
+              {voidingEntryId === entry.id && (
+                <div className="bg-red-500/10 border border-red-400/20 rounded-xl p-3 mb-4 space-y-3">
+                  <h4 className="text-red-200 text-sm font-medium">Void this entry?</h4>
+                  <Input
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason for voiding (required)"
+                    className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+                  />
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleConfirmVoid(entry)}
+                      disabled={isSaving || !reason.trim()}
+                      className="flex-1 px-3 py-2 rounded-lg text-sm bg-red-500/20 text-red-300 border border-red-400/30 disabled:opacity-50"
+                    >
+                      {isSaving ? 'Voiding...' : 'Void Entry'}
+                    </button>
+                    <button
+                      onClick={cancelChanges}
+                      className="flex-1 px-3 py-2 rounded-lg text-sm bg-white/5 text-slate-300 border border-white/10"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Details */}
               <div className="grid grid-cols-2 gap-4 mb-4">
                 <div className="bg-white/5 rounded-xl p-3">
@@ -231,6 +703,63 @@ export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user
                   {new Date(entry.submittedAt).toLocaleDateString()}
                 </div>
               </div>
+
+              {/* Actions */}
+              {(canModifyEntry(entry) || revisionCount(entry) > 0) && (
+                <div className="flex items-center space-x-2 mt-4 pt-3 border-t border-white/10">
+                  {canModifyEntry(entry) && onEditEntry && (
+                    <button
+                      onClick={() => startEditing(entry)}
+                      className="flex items-center px-3 py-1 rounded-lg text-xs bg-white/5 text-slate-300 hover:text-white border border-white/10"
+                    >
+                      <Pencil className="w-3 h-3 mr-1" />
+                      Edit
+                    </button>
+                  )}
+                  {canModifyEntry(entry) && onVoidEntry && (
+                    <button
+                      onClick={() => startVoiding(entry)}
+                      className="flex items-center px-3 py-1 rounded-lg text-xs bg-white/5 text-red-300 hover:text-red-200 border border-white/10"
+                    >
+                      <Ban className="w-3 h-3 mr-1" />
+                      Void
+                    </button>
+                  )}
+                  {revisionCount(entry) > 0 && (
+                    <button
+                      onClick={() => toggleHistory(entry)}
+                      className="flex items-center px-3 py-1 rounded-lg text-xs text-slate-400 hover:text-white ml-auto"
+                    >
+                      {loadingHistoryId === entry.id
+                        ? <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        : <History className="w-3 h-3 mr-1" />}
+                      {revisionCount(entry)} {revisionCount(entry) === 1 ? 'change' : 'changes'}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Revision History */}
+              {historyEntryId === entry.id && loadingHistoryId !== entry.id && entry.revisions && (
+                <div className="mt-3 space-y-2">
+                  {entry.revisions.map(revision => (
+                    <div key={revision.revision} className="bg-white/5 rounded-xl p-3 text-xs">
+                      <div className="flex justify-between text-slate-300 mb-1">
+                        <span className="font-medium">
+                          {revision.action === 'void' ? 'Voided' : 'Edited'} by {revision.user_name}
+                        </span>
+                        <span className="text-slate-400">{new Date(revision.created_at).toLocaleString()}</span>
+                      </div>
+                      <p className="text-slate-300 mb-1">“{revision.reason}”</p>
+                      {revision.action === 'edit' && Object.entries(revision.changes).map(([field, change]) => (
+                        <p key={field} className="text-slate-400 font-mono">
+                          {REVISION_FIELD_LABELS[field] || field}: {String(change.from ?? '—')} → {String(change.to ?? '—')}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           ))
         ) : (
@@ -239,7 +768,7 @@ export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user
               <div className="w-16 h-16 bg-slate-700/50 rounded-full flex items-center justify-center mx-auto mb-4">
                 <List className="w-8 h-8 text-slate-400" />
               </div>
-              {searchTerm || filterBy !== 'all' ? (
+              {searchTerm || filterBy !== 'all' || flaggedOnly ? (
                 <>
                   <p className="text-slate-400 mb-2">No entries match your search</p>
                   <p className="text-slate-500 text-sm">
@@ -257,6 +786,13 @@ export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user
             </div>
           </div>
         )}
+
+        {/* Next page loads when this scrolls into view */}
+        {isServerPaged && nextCursor && (
+          <div ref={sentinelRef} className="flex items-center justify-center py-4">
+            {isLoadingPage && <Loader2 className="w-5 h-5 text-slate-400 animate-spin" />}
+          </div>
+        )}
       </div>
 
       {/* Quick Stats Footer */}
@@ -264,19 +800,19 @@ export const FuelEntryList: React.FC<FuelEntryListProps> = ({ fuelEntries, user
         <div className="mt-6 bg-white/5 rounded-xl p-4">
           <div className="grid grid-cols-3 gap-4 text-center">
             <div>
-              <p className="text-white text-lg font-medium">{sortedEntries.length}</p>
+              <p className="text-white text-lg font-medium">{activeEntries.length}</p>
               <p className="text-slate-400 text-xs">Entries</p>
             </div>
             <div>
               <p className="text-white text-lg font-medium">
-                {sortedEntries.reduce((sum, entry) => sum + entry.fuelAmount, 0).toFixed(1)}
+                {activeEntries.reduce((sum, entry) => sum + entry.fuelAmount, 0).toFixed(1)}
               </p>
               <p className="text-slate-400 text-xs">Gallons</p>
             </div>
             <div>
               <p className="text-white text-lg font-medium">
-                ${(sortedEntries.reduce((sum, entry) => sum + entry.fuelCost, 0) / 
-                   sortedEntries.reduce((sum, entry) => sum + entry.fuelAmount, 0) || 0).toFixed(2)}
+                ${(activeEntries.reduce((sum, entry) => sum + entry.fuelCost, 0) / 
+                   activeEntries.reduce((sum, entry) => sum + entry.fuelAmount, 0) || 0).toFixed(2)}
               </p>
               <p className="text-slate-400 text-xs">Avg $/Gal</p>
             </div>
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, BookOpen, Plus, Save, Trash2 } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner@2.0.3';
+import { accountingService, GlMapping, GlRule } from '../services/accountingService';
+import { VEHICLE_CATEGORY_LABELS, VehicleCategory } from '../services/fuelService';
+import { Rooftop } from '../services/rooftopService';
+import { isDemoMode } from '../utils/supabase/demo-config';
+
+interface GlMappingPanelProps {
+  accessToken?: string | null;
+  rooftops: Rooftop[];
+}
+
+// Select items can't have an empty value
+const ANY_ROOFTOP = '__any__';
+const ANY_CATEGORY = '__any__';
+
+const inputClassName = 'bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20';
+
+// The server assigns ids to new rules when they're saved
+const emptyRule = (): GlRule => ({
+  id: '',
+  stock_number_prefix: null,
+  vehicle_type: null,
+  vehicle_category: null,
+  rooftop_id: null,
+  account: '',
+  department: null,
+  label: null
+});
+
+const orNull = (value: string) => value.trim() ? value : null;
+
+// Which GL account and department fuel spend is posted to, for journal exports
+export const GlMappingPanel: React.FC<GlMappingPanelProps> = ({ accessToken, rooftops }) => {
+  const [mapping, setMapping] = useState<GlMapping | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const hasServer = !!accessToken && !isDemoMode;
+
+  useEffect(() => {
+    if (!hasServer) return;
+
+    accountingService.getGlMapping(accessToken!).then(result => {
+      if ('error' in result) {
+        toast.error(result.error);
+        return;
+      }
+      setMapping(result.mapping);
+    });
+  }, [hasServer, accessToken]);
+
+  const updateRule = (index: number, changes: Partial<GlRule>) => setMapping(prev => prev && ({
+    ...prev,
+    rules: prev.rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule)
+  }));
+
+  const moveRule = (index: number, offset: number) => setMapping(prev => {
+    if (!prev) return prev;
+    const rules = [...prev.rules];
+    const [rule] = rules.splice(index, 1);
+    rules.splice(index + offset, 0, rule);
+    return { ...prev, rules };
+  });
+
+  const removeRule = (index: number) => setMapping(prev => prev && ({
+    ...prev,
+    rules: prev.rules.filter((_, i) => i !== index)
+  }));
+
+  const handleSave = async () => {
+    if (!mapping || isSaving) return;
+
+    setIsSaving(true);
+    const result = await accountingService.updateGlMapping(mapping, accessToken!);
+    setIsSaving(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setMapping(result.mapping);
+    toast.success('GL mapping saved');
+  };
+
+  if (!hasServer) {
+    return (
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 text-center">
+        <BookOpen className="w-8 h-8 text-slate-400 mx-auto mb-3" />
+        <p className="text-slate-300 text-sm">GL mapping needs a connection to the server.</p>
+      </div>
+    );
+  }
+
+  if (!mapping) {
+    return <p className="text-slate-400 text-center py-8">Loading GL mapping...</p>;
+  }
+
+  const renderRule = (rule: GlRule, index: number) => (
+    <div key={rule.id || `new-${index}`} className="bg-white/5 rounded-xl border border-white/10 p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-white text-sm font-medium">Rule {index + 1}</p>
+        <div className="flex gap-3">
+          <button
+            onClick={() => moveRule(index, -1)}
+            disabled={index === 0}
+            className="text-slate-300 hover:text-white disabled:opacity-30 transition-colors"
+            title="Check earlier"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => moveRule(index, 1)}
+            disabled={index === mapping.rules.length - 1}
+            className="text-slate-300 hover:text-white disabled:opacity-30 transition-colors"
+            title="Check later"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => removeRule(index)}
+            className="text-red-300 hover:text-white transition-colors"
+            title="Remove rule"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <Input
+        value={rule.label ?? ''}
+        onChange={(e) => updateRule(index, { label: orNull(e.target.value) })}
+        placeholder="Name, e.g. New inventory"
+        className={inputClassName}
+      />
+
+      <p className="text-slate-400 text-xs">When the entry matches</p>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-slate-300 text-xs mb-1 block">Stock # starts with</label>
+          <Input
+            value={rule.stock_number_prefix ?? ''}
+            onChange={(e) => updateRule(index, { stock_number_prefix: orNull(e.target.value.toUpperCase()) })}
+            placeholder="N"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="text-slate-300 text-xs mb-1 block">Vehicle type</label>
+          <Input
+            value={rule.vehicle_type ?? ''}
+            onChange={(e) => updateRule(index, { vehicle_type: orNull(e.target.value.toUpperCase()) })}
+            placeholder="TRUCK"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="text-slate-300 text-xs mb-1 block">Vehicle category</label>
+        <Select
+          value={rule.vehicle_category ?? ANY_CATEGORY}
+          onValueChange={(value: string) => updateRule(index, { vehicle_category: value === ANY_CATEGORY ? null : value as VehicleCategory })}
+        >
+          <SelectTrigger className="bg-white/5 border-white/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_CATEGORY}>Any category</SelectItem>
+            {Object.entries(VEHICLE_CATEGORY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {rooftops.length > 0 && (
+        <div>
+          <label className="text-slate-300 text-xs mb-1 block">Rooftop</label>
+          <Select
+            value={rule.rooftop_id ?? ANY_ROOFTOP}
+            onValueChange={(value: string) => updateRule(index, { rooftop_id: value === ANY_ROOFTOP ? null : value })}
+          >
+            <SelectTrigger className="bg-white/5 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_ROOFTOP}>Any rooftop</SelectItem>
+              {rooftops.map(rooftop => (
+                <SelectItem key={rooftop.id} value={rooftop.id}>{rooftop.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <p className="text-slate-400 text-xs">Post it to</p>
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          value={rule.account}
+          onChange={(e) => updateRule(index, { account: e.target.value })}
+          placeholder="GL account *"
+          className={inputClassName}
+        />
+        <Input
+          value={rule.department ?? ''}
+          onChange={(e) => updateRule(index, { department: orNull(e.target.value) })}
+          placeholder="Department"
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-blue-600/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <BookOpen className="w-8 h-8 text-blue-400" />
+        </div>
+        <h3 className="text-white text-xl mb-2">GL Mapping</h3>
+        <p className="text-slate-300/80">
+          Which general-ledger account and department each fill is posted to in journal exports
+        </p>
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+        <h4 className="text-white font-medium">Accounts</h4>
+        <div>
+          <label className="text-slate-300 text-xs mb-1 block">Credit account (fuel card payable)</label>
+          <Input
+            value={mapping.credit_account}
+            onChange={(e) => setMapping({ ...mapping, credit_account: e.target.value })}
+            placeholder="Fuel Card Payable"
+            className={inputClassName}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-slate-300 text-xs mb-1 block">Default account</label>
+            <Input
+              value={mapping.default_account}
+              onChange={(e) => setMapping({ ...mapping, default_account: e.target.value })}
+              placeholder="Fuel Expense"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="text-slate-300 text-xs mb-1 block">Default department</label>
+            <Input
+              value={mapping.default_department ?? ''}
+              onChange={(e) => setMapping({ ...mapping, default_department: orNull(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <p className="text-slate-400 text-xs">Fills that match no rule are posted to the default account.</p>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <h4 className="text-white font-medium">Rules</h4>
+          <p className="text-slate-400 text-xs">Checked top to bottom; the first match wins</p>
+        </div>
+        {mapping.rules.map(renderRule)}
+        <GlassmorphicButton
+          variant="secondary"
+          className="w-full"
+          onClick={() => setMapping({ ...mapping, rules: [...mapping.rules, emptyRule()] })}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Rule
+        </GlassmorphicButton>
+      </div>
+
+      <GlassmorphicButton variant="primary" size="large" className="w-full" onClick={handleSave}>
+        <Save className="w-5 h-5 mr-2" />
+        {isSaving ? 'Saving...' : 'Save GL Mapping'}
+      </GlassmorphicButton>
+    </div>
+  );
+};
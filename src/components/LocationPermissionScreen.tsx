@@ -169,7 +169,7 @@ export const LocationPermissionScreen: React.FC<LocationPermissionScreenProps> =
                 <AlertCircle className="w-8 h-8 text-yellow-400" />
               </div>
               <h3 className="text-lg font-medium text-white mb-2">Location Access Denied</h3>
-              <p className="text-yellow-200/80">You can still use the app - locations will default to Chicago area</p>
+              <p className="text-yellow-200/80">You can still use the app - locations will default to your dealership</p>
             </div>
           )}
         </div>
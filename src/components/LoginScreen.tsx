@@ -2,17 +2,22 @@ import React, { useState } from 'react';
 import { Eye, EyeOff, Fingerprint, Shield, Mail, Lock, X } from 'lucide-react';
 import { GlassmorphicButton } from './GlassmorphicButton';
 import { Input } from './ui/input';
-import { ImageWithFallback } from './figma/ImageWithFallback';
+import { OrganizationLogo } from './OrganizationLogo';
 import { ConfigStatus } from './ConfigStatus';
 import { toast } from 'sonner@2.0.3';
-import napletonLogo from 'figma:asset/b2a9411c7fa7d1a1cf97fbc1b60e44151fe2dace.png';
+import { passkeyService } from '../services/passkeyService';
+import { isAllowedEmail, OrganizationSettings } from '../services/organizationService';
 
 interface LoginScreenProps {
+  organization: OrganizationSettings;
   onLogin: (email: string, password: string) => Promise<boolean>;
   onSignUp: (email: string, password: string, name: string) => Promise<boolean>;
+  onRequestPasswordReset: (email: string) => Promise<boolean>;
+  // Without an email the browser offers every passkey it has for FuelTrakr
+  onPasskeyLogin: (email?: string) => Promise<boolean>;
 }
 
-export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSignUp }) => {
+export const LoginScreen: React.FC<LoginScreenProps> = ({ organization, onLogin, onSignUp, onRequestPasswordReset, onPasskeyLogin }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
@@ -21,37 +26,42 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSignUp }) =
   const [biometricSupported, setBiometricSupported] = useState(false);
   const [showBiometricPrompt, setShowBiometricPrompt] = useState(false);
   const [isSignUpMode, setIsSignUpMode] = useState(false);
+  const [isResetMode, setIsResetMode] = useState(false);
 
-  // Check biometric support on mount
+  // Check passkey support on mount
   React.useEffect(() => {
-    const checkBiometric = async () => {
-      try {
-        if ('credentials' in navigator && 'create' in navigator.credentials) {
-          const available = await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
-          setBiometricSupported(available);
-        } else {
-          setBiometricSupported(false);
-        }
-      } catch (err) {
-        console.log('Biometric check failed:', err);
-        setBiometricSupported(false);
-      }
-    };
-    checkBiometric();
+    passkeyService.isAvailable().then(setBiometricSupported);
   }, []);
 
   // Show biometric prompt when conditions are met
   React.useEffect(() => {
-    if (biometricSupported && email.includes('@napleton.com') && !isSignUpMode && email.length > 0) {
+    if (biometricSupported && isAllowedEmail(email, organization) && !isSignUpMode) {
       const timer = setTimeout(() => setShowBiometricPrompt(true), 2000);
       return () => clearTimeout(timer);
     } else {
       setShowBiometricPrompt(false);
     }
-  }, [email, isSignUpMode, biometricSupported]);
+  }, [email, isSignUpMode, biometricSupported, organization]);
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (isLoading) return;
+
+    if (isResetMode) {
+      if (!email.trim()) {
+        toast.error('Enter the email address you sign in with');
+        return;
+      }
+
+      setIsLoading(true);
+      const sent = await onRequestPasswordReset(email.trim());
+      setIsLoading(false);
+      if (sent) {
+        setIsResetMode(false);
+      }
+      return;
+    }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
     setIsLoading(true);
 
     try {
@@ -85,28 +95,14 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSignUp }) =
   };
 
   const handleBiometricLogin = async () => {
-    if (!biometricSupported) return;
+    if (!biometricSupported || isLoading) return;
 
+    setIsLoading(true);
+    setShowBiometricPrompt(false);
     try {
-      setIsLoading(true);
-      setShowBiometricPrompt(false);
-      
-      toast.info('🔐 Authenticating with biometrics...');
-      
-      setTimeout(() => {
-        if (Math.random() > 0.1) {
-          toast.success('✅ Biometric authentication successful!');
-          onLogin(email || 'porter@napleton.com', 'demo123');
-        } else {
-          toast.error('❌ Biometric authentication failed. Try password instead.');
-          setShowBiometricPrompt(false);
-        }
-        setIsLoading(false);
-      }, 1500);
-    } catch (err) {
-      toast.error('Biometric authentication error');
+      await onPasskeyLogin(email.trim() || undefined);
+    } finally {
       setIsLoading(false);
-      setShowBiometricPrompt(false);
     }
   };
 
@@ -120,21 +116,20 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSignUp }) =
         {/* Header */}
         <div className="text-center mb-8">
           <div className="mb-6">
-            <ImageWithFallback 
-              src={napletonLogo} 
-              alt="Napleton Automotive Group" 
-              className="h-20 w-auto rounded-lg shadow-lg mx-auto" 
-            />
+            <OrganizationLogo organization={organization} className="h-20 w-auto rounded-lg shadow-lg mx-auto" />
           </div>
           
-          <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 px-6 py-4 mb-4">
+          <div className="bg-white/10 backdrop-blur-sm rounded-2xl border px-6 py-4 mb-4" style={{ borderColor: `${organization.accent_color}4d` }}>
             <h1 className="text-white text-2xl tracking-wide font-light">
               Welcome to FuelTrakr
             </h1>
           </div>
           
           <p className="text-slate-300/90">
-            Sign in to track your fuel expenses
+            {isResetMode
+              ? "Enter your email and we'll send you a link to reset your password"
+              : 'Sign in to track your fuel expenses'
+            }
           </p>
         </div>
 
@@ -164,60 +159,61 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSignUp }) =
               <div className="space-y-2">
                 <label className="text-white text-sm font-medium flex items-center">
                   <Mail className="w-4 h-4 mr-2" />
-                  Email Address (Optional)
+                  {isResetMode ? 'Email Address' : 'Email Address (Optional)'}
                 </label>
                 <Input
                   type="email"
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
-                  placeholder="your.name@napleton.com"
+                  placeholder={`your.name@${organization.allowed_email_domains[0]}`}
                   className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20"
                 />
               </div>
 
               {/* Password Field */}
-              <div className="space-y-2">
-                <label className="text-white text-sm font-medium flex items-center">
-                  <Lock className="w-4 h-4 mr-2" />
-                  Password (Optional)
-                </label>
-                <div className="relative">
-                  <Input
-                    type={showPassword ? 'text' : 'password'}
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    placeholder="Enter your password"
-                    className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20 pr-10"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-white transition-colors"
-                  >
-                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                  </button>
+              {!isResetMode && (
+                <div className="space-y-2">
+                  <label className="text-white text-sm font-medium flex items-center">
+                    <Lock className="w-4 h-4 mr-2" />
+                    Password (Optional)
+                  </label>
+                  <div className="relative">
+                    <Input
+                      type={showPassword ? 'text' : 'password'}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Enter your password"
+                      className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20 pr-10"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-white transition-colors"
+                    >
+                      {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
 
             {/* Submit Button */}
             <div className="mt-6">
               <GlassmorphicButton
-                type="submit"
                 variant="primary"
                 size="large"
                 className="w-full"
-                disabled={isLoading}
+                onClick={() => handleSubmit()}
               >
                 {isLoading ? (
                   <div className="flex items-center justify-center">
                     <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2"></div>
-                    {isSignUpMode ? 'Creating Account...' : 'Signing In...'}
+                    {isResetMode ? 'Sending...' : isSignUpMode ? 'Creating Account...' : 'Signing In...'}
                   </div>
                 ) : (
                   <>
                     <Shield className="w-5 h-5 mr-2" />
-                    {isSignUpMode ? 'Create Account' : 'Sign In'}
+                    {isResetMode ? 'Send Reset Link' : isSignUpMode ? 'Create Account' : 'Sign In'}
                   </>
                 )}
               </GlassmorphicButton>
@@ -225,18 +221,39 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSignUp }) =
           </div>
         </form>
 
+        {/* Passkey sign-in */}
+        {biometricSupported && !isSignUpMode && !isResetMode && (
+          <div className="mt-4">
+            <GlassmorphicButton variant="secondary" className="w-full" onClick={handleBiometricLogin}>
+              <Fingerprint className="w-5 h-5 mr-2" />
+              Sign in with a Passkey
+            </GlassmorphicButton>
+          </div>
+        )}
+
         {/* Toggle between Login/Signup */}
-        <div className="mt-6 text-center">
-          <button
-            type="button"
-            onClick={() => setIsSignUpMode(!isSignUpMode)}
-            className="text-blue-400 hover:text-blue-300 transition-colors text-sm"
-          >
-            {isSignUpMode 
-              ? 'Already have an account? Sign in' 
-              : "Don't have an account? Create one"
-            }
-          </button>
+        <div className="mt-6 text-center space-y-2">
+          {!isSignUpMode && (
+            <button
+              type="button"
+              onClick={() => setIsResetMode(!isResetMode)}
+              className="block w-full text-blue-400 hover:text-blue-300 transition-colors text-sm"
+            >
+              {isResetMode ? 'Back to sign in' : 'Forgot password?'}
+            </button>
+          )}
+          {!isResetMode && (
+            <button
+              type="button"
+              onClick={() => setIsSignUpMode(!isSignUpMode)}
+              className="text-blue-400 hover:text-blue-300 transition-colors text-sm"
+            >
+              {isSignUpMode 
+                ? 'Already have an account? Sign in' 
+                : "Don't have an account? Create one"
+              }
+            </button>
+          )}
         </div>
 
         {/* Test Credentials Section */}
@@ -258,7 +275,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSignUp }) =
         </div>
 
         {/* Biometric Prompt */}
-        {showBiometricPrompt && biometricSupported && !isSignUpMode && (
+        {showBiometricPrompt && biometricSupported && !isSignUpMode && !isResetMode && (
           <div className="mt-6">
             <div className="bg-gradient-to-r from-blue-500/20 to-green-500/20 backdrop-blur-sm rounded-2xl border border-blue-400/30 p-4 animate-pulse">
               <div className="flex items-center justify-between">
@@ -267,8 +284,8 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSignUp }) =
                     <Fingerprint className="w-5 h-5 text-blue-300" />
                   </div>
                   <div>
-                    <p className="text-white text-sm font-medium">Biometric Login Available</p>
-                    <p className="text-slate-300 text-xs">Tap to use Face ID or Fingerprint</p>
+                    <p className="text-white text-sm font-medium">Passkey Sign-in Available</p>
+                    <p className="text-slate-300 text-xs">Tap to use Face ID, Touch ID or your device PIN</p>
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -294,8 +311,13 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSignUp }) =
         {/* Footer */}
         <div className="mt-8 text-center">
           <p className="text-slate-500 text-xs">
-            Secure access for Napleton Automotive Group employees only
+            Secure access for {organization.display_name} employees only
           </p>
+          {(organization.support_email || organization.support_phone) && (
+            <p className="text-slate-500 text-xs mt-1">
+              Trouble signing in? Contact {[organization.support_email, organization.support_phone].filter(Boolean).join(' or ')}
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -1,37 +1,67 @@
 import React, { useState } from 'react';
-import { Home, Plus, BarChart3, List, Settings, LogOut } from 'lucide-react';
+import { Home, Plus, BarChart3, List, Settings, LogOut, Fingerprint } from 'lucide-react';
 import { GlassmorphicButton } from './GlassmorphicButton';
-import { ImageWithFallback } from './figma/ImageWithFallback';
+import { OrganizationLogo } from './OrganizationLogo';
 import { FuelEntryForm } from './FuelEntryForm';
 import { FuelEntryList } from './FuelEntryList';
 import { Statistics } from './Statistics';
+import { VehicleDetail } from './VehicleDetail';
+import { SecuritySettings } from './SecuritySettings';
 import { toast } from 'sonner@2.0.3';
-import { User, FuelEntry } from '../App';
-import napletonLogo from 'figma:asset/b2a9411c7fa7d1a1cf97fbc1b60e44151fe2dace.png';
+import { User, FuelEntry, FuelEntryChanges } from '../App';
+import { FuelEntryQuery } from '../services/fuelService';
+import { OrganizationSettings } from '../services/organizationService';
+import { Rooftop } from '../services/rooftopService';
+import { ChargebackSettings } from '../services/chargebackService';
+import { can, canOpenAdminPanel, Role, ROLE_LABELS } from '../utils/permissions';
 
 interface MainAppProps {
   user: User | null;
+  organization: OrganizationSettings;
   onLogout: () => void;
   onSubmitFuelEntry: (entry: Omit<FuelEntry, 'id' | 'userId' | 'userName' | 'submittedAt'>) => FuelEntry | undefined;
+  onEditFuelEntry: (entryId: string, changes: FuelEntryChanges, reason: string) => Promise<boolean>;
+  onVoidFuelEntry: (entryId: string, reason: string) => Promise<boolean>;
+  onRetrySync: (entryId: string) => void;
+  onDiscardEntry: (entryId: string) => void;
+  onRespondToInfoRequest: (entryId: string, response: string) => Promise<boolean>;
+  onLoadEntries?: (query: FuelEntryQuery, cursor?: string | null) => Promise<{ ids: string[]; nextCursor: string | null } | null>;
+  onLoadRevisions?: (entryId: string) => Promise<void>;
   onOpenAdmin: () => void;
   fuelEntries: FuelEntry[];
   isGuestMode?: boolean;
+  accessToken?: string | null;
   locationPermissionGranted?: boolean | null;
   currentLocation?: GeolocationPosition | null;
+  // The user's rooftop, when they have one and we're online
+  rooftop?: Rooftop | null;
+  chargebackSettings?: ChargebackSettings | null;
 }
 
 export const MainApp: React.FC<MainAppProps> = ({
   user,
+  organization,
   onLogout,
   onSubmitFuelEntry,
+  onEditFuelEntry,
+  onVoidFuelEntry,
+  onRetrySync,
+  onDiscardEntry,
+  onRespondToInfoRequest,
+  onLoadEntries,
+  onLoadRevisions,
   onOpenAdmin,
   fuelEntries,
   isGuestMode = false,
+  accessToken = null,
   locationPermissionGranted = null,
-  currentLocation = null
+  currentLocation = null,
+  rooftop = null,
+  chargebackSettings = null
 }) => {
   const [activeTab, setActiveTab] = useState('home');
   const [showFuelForm, setShowFuelForm] = useState(false);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
 
   // Debug tab changes
   React.useEffect(() => {
@@ -63,6 +93,11 @@ export const MainApp: React.FC<MainAppProps> = ({
     }
   };
 
+  const handleSelectVehicle = (vehicleId: string) => {
+    setSelectedVehicleId(vehicleId);
+    setActiveTab('vehicle');
+  };
+
   const handleBackFromForm = () => {
     setShowFuelForm(false);
     setActiveTab('home');
@@ -81,6 +116,8 @@ export const MainApp: React.FC<MainAppProps> = ({
           onBack={handleBackFromForm}
           locationPermissionGranted={locationPermissionGranted}
           currentLocation={currentLocation}
+          rooftop={rooftop}
+          chargebackSettings={chargebackSettings}
         />
       );
     }
@@ -117,7 +154,60 @@ export const MainApp: React.FC<MainAppProps> = ({
               <h1 className="text-white text-xl font-medium">Fuel History</h1>
               <div className="w-10" />
             </div>
-            <FuelEntryList fuelEntries={fuelEntries} user={user} />
+            <FuelEntryList
+              fuelEntries={fuelEntries}
+              user={user}
+              onEditEntry={onEditFuelEntry}
+              onVoidEntry={onVoidFuelEntry}
+              onRetrySync={onRetrySync}
+              onDiscardEntry={onDiscardEntry}
+              onRespondToInfoRequest={onRespondToInfoRequest}
+              onLoadEntries={onLoadEntries}
+              onLoadRevisions={onLoadRevisions}
+              onSelectVehicle={handleSelectVehicle}
+            />
+          </div>
+        );
+      case 'vehicle':
+        return (
+          <div className="h-full flex flex-col">
+            {/* Vehicle Header */}
+            <div className="flex items-center justify-between p-6 border-b border-white/10">
+              <button
+                onClick={() => setActiveTab('history')}
+                className="w-10 h-10 bg-white/10 backdrop-blur-sm border border-white/20 rounded-full flex items-center justify-center text-slate-400 hover:text-white hover:bg-white/20 transition-all duration-200"
+              >
+                <List className="w-4 h-4" />
+              </button>
+              <h1 className="text-white text-xl font-medium">Vehicle History</h1>
+              <div className="w-10" />
+            </div>
+            {selectedVehicleId && (
+              <VehicleDetail
+                vehicleId={selectedVehicleId}
+                fuelEntries={fuelEntries}
+                user={user}
+                accessToken={accessToken}
+                isGuestMode={isGuestMode}
+              />
+            )}
+          </div>
+        );
+      case 'security':
+        return (
+          <div className="h-full">
+            {/* Security Header */}
+            <div className="flex items-center justify-between p-6 border-b border-white/10">
+              <button
+                onClick={() => setActiveTab('home')}
+                className="w-10 h-10 bg-white/10 backdrop-blur-sm border border-white/20 rounded-full flex items-center justify-center text-slate-400 hover:text-white hover:bg-white/20 transition-all duration-200"
+              >
+                <Home className="w-4 h-4" />
+              </button>
+              <h1 className="text-white text-xl font-medium">Sign-in & Security</h1>
+              <div className="w-10" />
+            </div>
+            <SecuritySettings accessToken={accessToken} />
           </div>
         );
       default:
@@ -129,16 +219,12 @@ export const MainApp: React.FC<MainAppProps> = ({
               <div className="w-full max-w-80 flex flex-col items-center">
                 {/* Logo */}
                 <div className="mb-8">
-                  <ImageWithFallback 
-                    src={napletonLogo} 
-                    alt="Napleton Automotive Group" 
-                    className="h-32 w-auto rounded-lg shadow-lg" 
-                  />
+                  <OrganizationLogo organization={organization} className="h-32 w-auto rounded-lg shadow-lg" />
                 </div>
 
                 {/* App Title */}
                 <div className="text-center mb-3 w-full">
-                  <div className="border-2 border-dashed border-white/40 rounded-2xl px-8 py-4 mb-6 w-full">
+                  <div className="border-2 border-dashed rounded-2xl px-8 py-4 mb-6 w-full" style={{ borderColor: `${organization.accent_color}99` }}>
                     <h1 className="text-white text-4xl tracking-widest font-light">
                       FuelTrakr
                     </h1>
@@ -147,8 +233,11 @@ export const MainApp: React.FC<MainAppProps> = ({
                     Welcome back, {user.name}
                   </p>
                   <p className="text-slate-400/80 text-sm">
-                    {user.role === 'admin' ? 'Administrator' : 'Porter'} • {user.email}
+                    {ROLE_LABELS[user.role as Role] ?? user.role} • {user.email}
                   </p>
+                  {rooftop && (
+                    <p className="text-slate-400/80 text-sm">{rooftop.name}</p>
+                  )}
                   {isGuestMode && (
                     <div className="mt-3 px-4 py-2 bg-green-500/20 backdrop-blur-sm border border-green-400/30 rounded-lg">
                       <p className="text-green-300 text-sm flex items-center justify-center">
@@ -173,7 +262,7 @@ export const MainApp: React.FC<MainAppProps> = ({
                 </GlassmorphicButton>
                 
                 <div className="grid grid-cols-2 gap-4">
-                  {user.role === 'admin' && (
+                  {can(user, 'entries.view_all') && (
                     <GlassmorphicButton 
                       variant="secondary"
                       size="medium"
@@ -188,7 +277,7 @@ export const MainApp: React.FC<MainAppProps> = ({
                     variant="secondary"
                     size="medium"
                     onClick={() => setActiveTab('history')}
-                    className={user.role === 'porter' ? 'col-span-2' : ''}
+                    className={can(user, 'entries.view_all') ? '' : 'col-span-2'}
                   >
                     <List className="w-5 h-5 mr-2" />
                     <span>History</span>
@@ -196,7 +285,7 @@ export const MainApp: React.FC<MainAppProps> = ({
                 </div>
 
                 {/* Admin Access */}
-                {user.role === 'admin' && !isGuestMode && (
+                {canOpenAdminPanel(user) && !isGuestMode && (
                   <GlassmorphicButton 
                     variant="secondary"
                     size="large"
@@ -220,7 +309,7 @@ export const MainApp: React.FC<MainAppProps> = ({
             </div>
 
             {/* Porter Stats - Activity Only, No Financial Data */}
-            {user.role === 'porter' && (
+            {!can(user, 'entries.view_all') && (
               <div className="px-8 pb-8">
                 <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4">
                   <h3 className="text-white text-sm font-medium mb-3">Your Activity</h3>
@@ -250,7 +339,7 @@ export const MainApp: React.FC<MainAppProps> = ({
             )}
 
             {/* Admin Stats - Show Financial Data */}
-            {user.role === 'admin' && (
+            {can(user, 'entries.view_all') && (
               <div className="px-8 pb-8">
                 <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4">
                   <h3 className="text-white text-sm font-medium mb-3">Financial Overview</h3>
@@ -275,6 +364,13 @@ export const MainApp: React.FC<MainAppProps> = ({
                 </div>
               </div>
             )}
+
+            {(organization.support_email || organization.support_phone) && (
+              <p className="px-8 pb-24 text-center text-slate-500 text-xs">
+                Need help? Contact {organization.display_name} support at{' '}
+                {[organization.support_email, organization.support_phone].filter(Boolean).join(' or ')}
+              </p>
+            )}
           </div>
         );
     }
@@ -292,7 +388,8 @@ export const MainApp: React.FC<MainAppProps> = ({
         <div className="fixed bottom-8 right-8">
           <button
             onClick={handleStartNewEntry}
-            className="w-14 h-14 bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 rounded-full flex items-center justify-center shadow-lg hover:shadow-xl transition-all duration-300 animate-pulse-glow border border-blue-400/30"
+            className="w-14 h-14 hover:brightness-110 rounded-full flex items-center justify-center shadow-lg hover:shadow-xl transition-all duration-300 animate-pulse-glow border border-white/20"
+            style={{ background: `linear-gradient(to right, ${organization.primary_color}, ${organization.accent_color})` }}
           >
             <Plus className="w-6 h-6 text-white" />
           </button>
@@ -300,7 +397,16 @@ export const MainApp: React.FC<MainAppProps> = ({
       )}
 
       {/* Top Right Actions */}
-      <div className="fixed top-4 right-4">
+      <div className="fixed top-4 right-4 flex space-x-2">
+        {activeTab === 'home' && !showFuelForm && !isGuestMode && (
+          <button
+            onClick={() => setActiveTab('security')}
+            className="w-10 h-10 bg-white/10 backdrop-blur-sm border border-white/20 rounded-full flex items-center justify-center text-slate-400 hover:text-white hover:bg-white/20 transition-all duration-200"
+            title="Sign-in & Security"
+          >
+            <Fingerprint className="w-4 h-4" />
+          </button>
+        )}
         <button
           onClick={onLogout}
           className="w-10 h-10 bg-white/10 backdrop-blur-sm border border-white/20 rounded-full flex items-center justify-center text-slate-400 hover:text-white hover:bg-white/20 transition-all duration-200"
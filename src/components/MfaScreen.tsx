@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { KeyRound, LogOut, ShieldCheck } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { Input } from './ui/input';
+import { OrganizationLogo } from './OrganizationLogo';
+import { CODE_LENGTH, MfaCodeInput, MfaSetup } from './MfaSetup';
+import { mfaService, MfaStep } from '../services/mfaService';
+import { OrganizationSettings } from '../services/organizationService';
+import { toast } from 'sonner@2.0.3';
+
+interface MfaScreenProps {
+  organization: OrganizationSettings;
+  step: MfaStep;
+  accessToken: string;
+  userName: string;
+  onVerified: () => void;
+  onSignOut: () => void;
+}
+
+// The second step of sign-in: a code from the authenticator app, or setting one up when the user's role requires it
+export const MfaScreen: React.FC<MfaScreenProps> = ({ organization, step, accessToken, userName, onVerified, onSignOut }) => {
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [isRecoveryMode, setIsRecoveryMode] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleVerify = async (value = code) => {
+    if (isVerifying) return;
+
+    const credential = isRecoveryMode ? { recovery_code: recoveryCode.trim() } : { code: value };
+    if (isRecoveryMode ? !recoveryCode.trim() : value.length !== CODE_LENGTH) return;
+
+    setIsVerifying(true);
+    const result = await mfaService.verify(credential, accessToken);
+    setIsVerifying(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      setCode('');
+      return;
+    }
+
+    if (isRecoveryMode) {
+      toast.warning(`${result.recoveryCodesRemaining} recovery ${result.recoveryCodesRemaining === 1 ? 'code' : 'codes'} left. Create new ones under Security.`);
+    }
+    onVerified();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-6 py-8">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="mb-6">
+            <OrganizationLogo organization={organization} className="h-20 w-auto rounded-lg shadow-lg mx-auto" />
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 px-6 py-4 mb-4">
+            <h1 className="text-white text-2xl tracking-wide font-light">
+              {step === 'enroll' ? 'Set Up Two-Factor' : 'Two-Factor Check'}
+            </h1>
+          </div>
+
+          <p className="text-slate-300/90">
+            {step === 'enroll'
+              ? `${userName}, your role needs a second sign-in step. It takes a minute to set up.`
+              : `${userName}, enter the code from your authenticator app`}
+          </p>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+          {step === 'enroll' ? (
+            <MfaSetup accessToken={accessToken} onComplete={onVerified} />
+          ) : (
+            <div className="space-y-6">
+              {isRecoveryMode ? (
+                <div className="space-y-2">
+                  <label className="text-white text-sm font-medium flex items-center">
+                    <KeyRound className="w-4 h-4 mr-2" />
+                    Recovery Code
+                  </label>
+                  <Input
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="off"
+                    className="bg-white/5 border-white/20 text-white placeholder-slate-400 font-mono focus:border-blue-400/50 focus:ring-blue-400/20"
+                  />
+                </div>
+              ) : (
+                <MfaCodeInput value={code} onChange={setCode} onComplete={handleVerify} />
+              )}
+
+              <GlassmorphicButton variant="primary" size="large" className="w-full" onClick={() => handleVerify()}>
+                {isVerifying ? (
+                  <div className="flex items-center justify-center">
+                    <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2"></div>
+                    Checking...
+                  </div>
+                ) : (
+                  <>
+                    <ShieldCheck className="w-5 h-5 mr-2" />
+                    Verify
+                  </>
+                )}
+              </GlassmorphicButton>
+
+              <button
+                onClick={() => setIsRecoveryMode(!isRecoveryMode)}
+                className="w-full text-center text-sm text-blue-300 hover:text-white transition-colors"
+              >
+                {isRecoveryMode ? 'Use a code from my app' : 'Lost your phone? Use a recovery code'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={onSignOut}
+            className="inline-flex items-center text-slate-400 hover:text-white transition-colors text-sm"
+          >
+            <LogOut className="w-4 h-4 mr-1" />
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
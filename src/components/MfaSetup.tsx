@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, KeyRound, ShieldCheck } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+import { mfaService, MfaEnrollment } from '../services/mfaService';
+import { toast } from 'sonner@2.0.3';
+
+export const CODE_LENGTH = 6;
+
+// Six boxes for an authenticator code; onComplete fires once the last digit is typed
+export const MfaCodeInput: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+}> = ({ value, onChange, onComplete }) => (
+  <InputOTP
+    maxLength={CODE_LENGTH}
+    value={value}
+    onChange={(next: string) => onChange(next.replace(/\D/g, ''))}
+    onComplete={onComplete}
+    inputMode="numeric"
+    autoComplete="one-time-code"
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      {Array.from({ length: CODE_LENGTH }, (_, index) => (
+        <InputOTPSlot key={index} index={index} className="h-12 w-11 text-lg text-white bg-white/5 border-white/20" />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+// Recovery codes are only ever shown right after they are created
+export const RecoveryCodeList: React.FC<{ codes: string[] }> = ({ codes }) => {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      console.error('Copy recovery codes error:', error);
+      toast.error('Could not copy the codes. Write them down instead.');
+    }
+  };
+
+  return (
+    <div className="bg-amber-500/10 border border-amber-400/20 rounded-xl p-4">
+      <p className="text-amber-200 text-sm mb-3">
+        Save these recovery codes somewhere safe. Each one works once if you lose your phone. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {codes.map(code => (
+          <p key={code} className="text-white font-mono text-sm text-center bg-white/5 rounded-lg py-1">{code}</p>
+        ))}
+      </div>
+      <button
+        onClick={handleCopy}
+        className="flex items-center text-xs text-amber-300 hover:text-white transition-colors"
+      >
+        <Copy className="w-3 h-3 mr-1" />
+        Copy codes
+      </button>
+    </div>
+  );
+};
+
+interface MfaSetupProps {
+  accessToken: string;
+  // Called after the user has seen their recovery codes
+  onComplete: () => void;
+}
+
+export const MfaSetup: React.FC<MfaSetupProps> = ({ accessToken, onComplete }) => {
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    mfaService.startEnrollment(accessToken).then(async result => {
+      if ('error' in result) {
+        toast.error(result.error);
+        return;
+      }
+      setEnrollment(result.enrollment);
+      setQrCode(await mfaService.renderQrCode(result.enrollment.otpauth_url));
+    });
+  }, [accessToken]);
+
+  const handleConfirm = async (value = code) => {
+    if (value.length !== CODE_LENGTH || isConfirming) return;
+
+    setIsConfirming(true);
+    const result = await mfaService.confirmEnrollment(value, accessToken);
+    setIsConfirming(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      setCode('');
+      return;
+    }
+
+    setRecoveryCodes(result.recoveryCodes);
+    toast.success('Two-factor authentication is on');
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodeList codes={recoveryCodes} />
+        <GlassmorphicButton variant="primary" className="w-full" onClick={onComplete}>
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          I've Saved My Codes
+        </GlassmorphicButton>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-slate-300 text-sm">
+        1. Scan this code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.
+      </p>
+      {qrCode && (
+        <div
+          className="bg-white rounded-xl p-3 w-48 h-48 mx-auto [&>svg]:w-full [&>svg]:h-full"
+          dangerouslySetInnerHTML={{ __html: qrCode }}
+        />
+      )}
+      <div className="bg-white/5 rounded-xl p-3">
+        <p className="text-slate-400 text-xs mb-1 flex items-center">
+          <KeyRound className="w-3 h-3 mr-1" />
+          Can't scan it? Enter this key instead
+        </p>
+        <p className="text-white font-mono text-sm break-all">{enrollment.secret.match(/.{1,4}/g)?.join(' ')}</p>
+      </div>
+
+      <p className="text-slate-300 text-sm">2. Enter the 6-digit code the app shows.</p>
+      <MfaCodeInput value={code} onChange={setCode} onComplete={handleConfirm} />
+
+      <GlassmorphicButton variant="primary" className="w-full" onClick={() => handleConfirm()}>
+        {isConfirming ? 'Checking...' : 'Turn On Two-Factor Authentication'}
+      </GlassmorphicButton>
+    </div>
+  );
+};
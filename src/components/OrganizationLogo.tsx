@@ -0,0 +1,18 @@
+import React from 'react';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { OrganizationSettings } from '../services/organizationService';
+import napletonLogo from 'figma:asset/b2a9411c7fa7d1a1cf97fbc1b60e44151fe2dace.png';
+
+interface OrganizationLogoProps {
+  organization: OrganizationSettings;
+  className?: string;
+}
+
+// The logo uploaded in organization settings, or the bundled one until an admin sets it
+export const OrganizationLogo: React.FC<OrganizationLogoProps> = ({ organization, className }) => (
+  <ImageWithFallback
+    src={organization.logo_url || napletonLogo}
+    alt={organization.display_name}
+    className={className}
+  />
+);
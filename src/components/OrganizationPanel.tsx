@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { Building, Image, Mail, Palette, Phone, Save, Trash2, Upload } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { OrganizationLogo } from './OrganizationLogo';
+import { Input } from './ui/input';
+import { toast } from 'sonner@2.0.3';
+import { organizationService, OrganizationSettings, MAX_LOGO_BYTES } from '../services/organizationService';
+
+interface OrganizationPanelProps {
+  accessToken: string;
+  organization: OrganizationSettings;
+  onOrganizationChange: (organization: OrganizationSettings) => void;
+}
+
+const inputClassName = 'bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20';
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Branding, support contact and sign-up domains for the whole group
+export const OrganizationPanel: React.FC<OrganizationPanelProps> = ({ accessToken, organization, onOrganizationChange }) => {
+  const [form, setForm] = useState<OrganizationSettings>(organization);
+  // Domains are edited as one comma-separated line
+  const [domains, setDomains] = useState(organization.allowed_email_domains.join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(organization);
+    setDomains(organization.allowed_email_domains.join(', '));
+  }, [organization]);
+
+  const updateField = <K extends keyof OrganizationSettings>(field: K, value: OrganizationSettings[K]) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const handleLogoFile = async (file: File | null) => {
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Choose an image file');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast.error('The logo must be under 250 KB');
+      return;
+    }
+
+    try {
+      updateField('logo_url', await readAsDataUrl(file));
+    } catch (error) {
+      console.error('Read logo error:', error);
+      toast.error('Could not read the image');
+    }
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+
+    setIsSaving(true);
+    const result = await organizationService.updateSettings({
+      ...form,
+      allowed_email_domains: domains.split(/[\s,;]+/).filter(Boolean)
+    }, accessToken);
+    setIsSaving(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    onOrganizationChange(result.settings);
+    toast.success('Organization settings saved');
+  };
+
+  const renderColor = (field: 'primary_color' | 'accent_color', label: string) => (
+    <div>
+      <label className="text-slate-300 text-xs mb-1 block">{label}</label>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={form[field]}
+          onChange={(e) => updateField(field, e.target.value)}
+          className="w-10 h-10 rounded-lg bg-transparent border border-white/20 cursor-pointer"
+        />
+        <Input
+          value={form[field]}
+          onChange={(e) => updateField(field, e.target.value)}
+          className={`${inputClassName} font-mono`}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-blue-600/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Building className="w-8 h-8 text-blue-400" />
+        </div>
+        <h3 className="text-white text-xl mb-2">Organization</h3>
+        <p className="text-slate-300/80">
+          The name, logo and colors everyone sees, and who can sign up
+        </p>
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+        <div>
+          <label className="text-white text-sm font-medium mb-2 block">Display Name</label>
+          <Input
+            value={form.display_name}
+            onChange={(e) => updateField('display_name', e.target.value)}
+            placeholder="Napleton Automotive Group"
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label className="text-white text-sm font-medium mb-2 block flex items-center">
+            <Mail className="w-4 h-4 mr-2" />
+            Allowed Email Domains
+          </label>
+          <Input
+            value={domains}
+            onChange={(e) => setDomains(e.target.value)}
+            placeholder="napleton.com, napletonauto.com"
+            className={inputClassName}
+          />
+          <p className="text-slate-400 text-xs mt-1">Only these addresses can sign up or be invited. Separate them with commas.</p>
+        </div>
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+        <h4 className="text-white font-medium flex items-center">
+          <Image className="w-4 h-4 mr-2" />
+          Logo
+        </h4>
+        <div className="flex justify-center bg-white/5 rounded-xl p-4">
+          <OrganizationLogo organization={form} className="h-20 w-auto rounded-lg" />
+        </div>
+        <Input
+          value={form.logo_url?.startsWith('data:') ? '' : form.logo_url ?? ''}
+          onChange={(e) => updateField('logo_url', e.target.value.trim() || null)}
+          placeholder={form.logo_url?.startsWith('data:') ? 'Uploaded image' : 'https://… or upload an image'}
+          className={inputClassName}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex items-center justify-center px-4 py-2 rounded-lg text-sm bg-white/5 text-slate-300 hover:text-white border border-white/10 cursor-pointer transition-colors">
+            <Upload className="w-4 h-4 mr-2" />
+            Upload
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml"
+              className="hidden"
+              onChange={(e) => handleLogoFile(e.target.files?.[0] ?? null)}
+            />
+          </label>
+          <button
+            onClick={() => updateField('logo_url', null)}
+            disabled={!form.logo_url}
+            className="flex items-center justify-center px-4 py-2 rounded-lg text-sm bg-white/5 text-slate-300 hover:text-white border border-white/10 disabled:opacity-50 transition-colors"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Use Default
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+        <h4 className="text-white font-medium flex items-center">
+          <Palette className="w-4 h-4 mr-2" />
+          Colors
+        </h4>
+        <div className="grid grid-cols-2 gap-3">
+          {renderColor('primary_color', 'Primary')}
+          {renderColor('accent_color', 'Accent')}
+        </div>
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+        <h4 className="text-white font-medium flex items-center">
+          <Phone className="w-4 h-4 mr-2" />
+          Support Contact
+        </h4>
+        <p className="text-slate-400 text-xs">Shown on the sign-in and home screens. Leave both empty to hide it.</p>
+        <Input
+          type="email"
+          value={form.support_email ?? ''}
+          onChange={(e) => updateField('support_email', e.target.value || null)}
+          placeholder="fleet-support@napleton.com"
+          className={inputClassName}
+        />
+        <Input
+          type="tel"
+          value={form.support_phone ?? ''}
+          onChange={(e) => updateField('support_phone', e.target.value || null)}
+          placeholder="(630) 555-0100"
+          className={inputClassName}
+        />
+      </div>
+
+      <GlassmorphicButton variant="primary" size="large" className="w-full" onClick={handleSave}>
+        <Save className="w-5 h-5 mr-2" />
+        {isSaving ? 'Saving...' : 'Save Organization Settings'}
+      </GlassmorphicButton>
+    </div>
+  );
+};
@@ -0,0 +1,561 @@
+import React, { useEffect, useState } from 'react';
+import { CreditCard, Upload, CheckCircle, AlertTriangle, Link2, Unlink, EyeOff, ChevronRight } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner@2.0.3';
+import {
+  reconciliationService,
+  toReportSummary,
+  ColumnMapping,
+  DateFormat,
+  MappingField,
+  ReconciliationReport,
+  ReconciliationReportSummary,
+  ReconciliationRow,
+  ReconciliationRowType,
+  ResolveAction
+} from '../services/reconciliationService';
+import { parseCsv } from '../utils/csv';
+import { isDemoMode } from '../utils/supabase/demo-config';
+
+interface ReconciliationPanelProps {
+  accessToken?: string | null;
+  // False for read-only roles: statements can be opened but not imported or resolved
+  canManage?: boolean;
+}
+
+const CUSTOM_MAPPING_ID = 'custom';
+
+const MAPPING_FIELD_LABELS: Record<MappingField, string> = {
+  date: 'Date',
+  time: 'Time',
+  amount: 'Amount',
+  gallons: 'Gallons',
+  price_per_gallon: 'Price/Gal',
+  merchant: 'Merchant',
+  city: 'City',
+  state: 'State',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  card_number: 'Card Number',
+  transaction_id: 'Transaction ID'
+};
+
+const REQUIRED_FIELDS: MappingField[] = ['date', 'amount'];
+
+const ROW_TYPE_LABELS: Record<ReconciliationRowType, string> = {
+  matched: 'Matched',
+  unmatched_card: 'Card only',
+  unmatched_entry: 'Entry only'
+};
+
+const NO_COLUMN = '__none__';
+
+const formatDateTime = (timestamp: string) =>
+  `${new Date(timestamp).toLocaleDateString()} ${new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+
+export const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ accessToken, canManage = true }) => {
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [reports, setReports] = useState<ReconciliationReportSummary[]>([]);
+  const [activeReport, setActiveReport] = useState<ReconciliationReport | null>(null);
+  const [statementFile, setStatementFile] = useState<File | null>(null);
+  const [statementHeaders, setStatementHeaders] = useState<string[]>([]);
+  const [mappingId, setMappingId] = useState('wex');
+  const [customMapping, setCustomMapping] = useState<ColumnMapping>({
+    id: '',
+    name: '',
+    date_format: 'MDY',
+    columns: { date: '', amount: '' }
+  });
+  const [rowFilter, setRowFilter] = useState<ReconciliationRowType>('unmatched_card');
+  const [rowNotes, setRowNotes] = useState<Record<string, string>>({});
+  const [linkTargets, setLinkTargets] = useState<Record<string, string>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [busyRowId, setBusyRowId] = useState<string | null>(null);
+
+  const hasServer = !!accessToken && !isDemoMode;
+
+  useEffect(() => {
+    if (!hasServer) return;
+
+    reconciliationService.getMappings(accessToken!).then(result => {
+      if ('mappings' in result) setMappings(result.mappings);
+    });
+    reconciliationService.getReports(accessToken!).then(result => {
+      if ('reports' in result) setReports(result.reports);
+    });
+  }, [hasServer, accessToken]);
+
+  const selectedMapping = mappingId === CUSTOM_MAPPING_ID
+    ? customMapping
+    : mappings.find(mapping => mapping.id === mappingId);
+
+  const normalizedHeaders = statementHeaders.map(header => header.trim().toLowerCase());
+  const missingColumns = selectedMapping && statementHeaders.length > 0
+    ? REQUIRED_FIELDS
+      .map(field => selectedMapping.columns[field])
+      .filter(column => !column || !normalizedHeaders.includes(column.trim().toLowerCase()))
+    : [];
+
+  const handleFileChange = async (file: File | null) => {
+    setStatementFile(file);
+    setStatementHeaders([]);
+    if (!file) return;
+
+    const header = parseCsv(await file.text())[0] || [];
+    setStatementHeaders(header.map(cell => cell.trim()).filter(Boolean));
+
+    // Pick the first preset whose required columns are all in the file
+    const lowerHeader = header.map(cell => cell.trim().toLowerCase());
+    const detected = mappings.find(mapping =>
+      REQUIRED_FIELDS.every(field => lowerHeader.includes((mapping.columns[field] || '').toLowerCase()))
+    );
+    if (detected) setMappingId(detected.id);
+  };
+
+  const updateCustomColumn = (field: MappingField, column: string) => {
+    setCustomMapping(prev => ({
+      ...prev,
+      columns: { ...prev.columns, [field]: column === NO_COLUMN ? undefined : column }
+    }));
+  };
+
+  const handleImport = async () => {
+    if (!hasServer || !statementFile || !selectedMapping || isImporting) return;
+
+    if (missingColumns.length > 0) {
+      toast.error('Map the date and amount columns first');
+      return;
+    }
+
+    setIsImporting(true);
+
+    let importMappingId = selectedMapping.id;
+    if (mappingId === CUSTOM_MAPPING_ID) {
+      if (!customMapping.name.trim()) {
+        toast.error('Name the column mapping so it can be reused');
+        setIsImporting(false);
+        return;
+      }
+
+      const saved = await reconciliationService.saveMapping({ ...customMapping, id: crypto.randomUUID() }, accessToken!);
+      if ('error' in saved) {
+        toast.error(saved.error);
+        setIsImporting(false);
+        return;
+      }
+      setMappings(prev => [...prev, saved.mapping]);
+      setMappingId(saved.mapping.id);
+      importMappingId = saved.mapping.id;
+    }
+
+    const result = await reconciliationService.importStatement(statementFile, importMappingId, accessToken!);
+    setIsImporting(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setReports(prev => [toReportSummary(result.report), ...prev]);
+    setActiveReport(result.report);
+    setRowFilter(result.report.summary.unmatched_card > 0 ? 'unmatched_card' : 'matched');
+    setStatementFile(null);
+    setStatementHeaders([]);
+    toast.success(`Reconciled ${result.report.summary.matched} of ${result.report.summary.matched + result.report.summary.unmatched_card} transactions`);
+  };
+
+  const openReport = async (reportId: string) => {
+    if (!hasServer) return;
+
+    const result = await reconciliationService.getReport(reportId, accessToken!);
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+    setActiveReport(result.report);
+  };
+
+  const handleResolve = async (row: ReconciliationRow, action: ResolveAction) => {
+    if (!hasServer || !activeReport) return;
+
+    const note = rowNotes[row.id]?.trim();
+    if (action === 'disputed' && !note) {
+      toast.error('Add a note explaining the dispute');
+      return;
+    }
+
+    const linkRowId = linkTargets[row.id];
+    if (action === 'link' && !linkRowId) {
+      toast.error(row.type === 'unmatched_card' ? 'Choose the entry to link' : 'Choose the transaction to link');
+      return;
+    }
+
+    setBusyRowId(row.id);
+    const result = await reconciliationService.resolveRow(activeReport.id, row.id, action, accessToken!, { note, linkRowId });
+    setBusyRowId(null);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setActiveReport(result.report);
+    setReports(prev => prev.map(report => report.id === result.report.id ? { ...report, summary: result.report.summary } : report));
+    setRowNotes(prev => ({ ...prev, [row.id]: '' }));
+  };
+
+  const describeEntry = (row: ReconciliationRow) => row.entry && (
+    <div>
+      <p className="text-white text-sm">
+        {row.entry.stock_number || (row.entry.vin ? `VIN: ${row.entry.vin.slice(-6)}` : 'Fuel entry')}
+      </p>
+      <p className="text-slate-400 text-xs">
+        {formatDateTime(row.entry.timestamp)} • ${row.entry.total_amount.toFixed(2)} • {row.entry.gallons} gal
+      </p>
+    </div>
+  );
+
+  const describeTransaction = (row: ReconciliationRow) => row.transaction && (
+    <div>
+      <p className="text-white text-sm">
+        {row.transaction.merchant || 'Card transaction'}
+        {row.transaction.city && <span className="text-slate-400"> • {row.transaction.city}{row.transaction.state && `, ${row.transaction.state}`}</span>}
+      </p>
+      <p className="text-slate-400 text-xs">
+        {formatDateTime(row.transaction.timestamp)} • ${row.transaction.amount.toFixed(2)}
+        {row.transaction.gallons !== null && ` • ${row.transaction.gallons} gal`}
+        {row.transaction.card_last4 && ` • card …${row.transaction.card_last4}`}
+      </p>
+    </div>
+  );
+
+  const renderRow = (row: ReconciliationRow) => {
+    const linkCandidates = activeReport!.rows.filter(candidate =>
+      candidate.type === (row.type === 'unmatched_card' ? 'unmatched_entry' : 'unmatched_card')
+    );
+    const isBusy = busyRowId === row.id;
+
+    return (
+      <div key={row.id} className={`bg-white/10 backdrop-blur-sm rounded-2xl border p-4 space-y-3 ${
+        row.resolution?.action === 'disputed' ? 'border-red-400/30' : 'border-white/20'
+      }`}>
+        {describeTransaction(row)}
+        {row.type === 'matched' && <div className="border-t border-white/10" />}
+        {describeEntry(row)}
+
+        {row.match && (
+          <p className="text-slate-400 text-xs">
+            {row.match.time_diff_minutes} min apart • ${row.match.amount_diff.toFixed(2)} difference
+            {row.match.gallons_diff !== null && ` • ${row.match.gallons_diff} gal difference`}
+            {row.match.distance_km !== null && ` • ${row.match.distance_km} km away`}
+          </p>
+        )}
+
+        {row.resolution ? (
+          <div className={`rounded-lg p-2 text-xs ${
+            row.resolution.action === 'disputed'
+              ? 'bg-red-500/10 text-red-300'
+              : 'bg-green-500/10 text-green-300'
+          }`}>
+            {row.resolution.action.charAt(0).toUpperCase() + row.resolution.action.slice(1)} by {row.resolution.user_name}
+            {row.resolution.note && <span className="text-slate-300"> — {row.resolution.note}</span>}
+          </div>
+        ) : canManage && (
+          <>
+            {row.type !== 'matched' && linkCandidates.length > 0 && (
+              <Select
+                value={linkTargets[row.id] || ''}
+                onValueChange={(value: string) => setLinkTargets(prev => ({ ...prev, [row.id]: value }))}
+              >
+                <SelectTrigger className="bg-white/5 border-white/20 text-white focus:border-blue-400/50 focus:ring-blue-400/20">
+                  <SelectValue placeholder={row.type === 'unmatched_card' ? 'Link to an entry…' : 'Link to a transaction…'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {linkCandidates.map(candidate => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.entry
+                        ? `${candidate.entry.stock_number || 'Entry'} • ${formatDateTime(candidate.entry.timestamp)} • $${candidate.entry.total_amount.toFixed(2)}`
+                        : `${candidate.transaction!.merchant || 'Transaction'} • ${formatDateTime(candidate.transaction!.timestamp)} • $${candidate.transaction!.amount.toFixed(2)}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Input
+              value={rowNotes[row.id] || ''}
+              onChange={(e) => setRowNotes(prev => ({ ...prev, [row.id]: e.target.value }))}
+              placeholder="Note (required to dispute)"
+              className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+            />
+
+            <div className="grid grid-cols-3 gap-2">
+              {row.type === 'matched' ? (
+                <button
+                  onClick={() => handleResolve(row, 'confirmed')}
+                  disabled={isBusy}
+                  className="flex items-center justify-center px-2 py-2 rounded-lg text-xs bg-green-500/20 text-green-300 border border-green-400/30 disabled:opacity-50"
+                >
+                  <CheckCircle className="w-3 h-3 mr-1" />
+                  Confirm
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleResolve(row, 'link')}
+                  disabled={isBusy || linkCandidates.length === 0}
+                  className="flex items-center justify-center px-2 py-2 rounded-lg text-xs bg-blue-500/20 text-blue-300 border border-blue-400/30 disabled:opacity-50"
+                >
+                  <Link2 className="w-3 h-3 mr-1" />
+                  Link
+                </button>
+              )}
+              {row.type === 'matched' ? (
+                <button
+                  onClick={() => handleResolve(row, 'unlink')}
+                  disabled={isBusy}
+                  className="flex items-center justify-center px-2 py-2 rounded-lg text-xs bg-white/5 text-slate-300 border border-white/10 disabled:opacity-50"
+                >
+                  <Unlink className="w-3 h-3 mr-1" />
+                  Unlink
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleResolve(row, 'ignored')}
+                  disabled={isBusy}
+                  className="flex items-center justify-center px-2 py-2 rounded-lg text-xs bg-white/5 text-slate-300 border border-white/10 disabled:opacity-50"
+                >
+                  <EyeOff className="w-3 h-3 mr-1" />
+                  Ignore
+                </button>
+              )}
+              <button
+                onClick={() => handleResolve(row, 'disputed')}
+                disabled={isBusy}
+                className="flex items-center justify-center px-2 py-2 rounded-lg text-xs bg-red-500/20 text-red-300 border border-red-400/30 disabled:opacity-50"
+              >
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                Dispute
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderReport = (report: ReconciliationReport) => {
+    const visibleRows = report.rows.filter(row => row.type === rowFilter);
+
+    return (
+      <div className="space-y-4">
+        <button
+          onClick={() => setActiveReport(null)}
+          className="text-slate-300 hover:text-white transition-colors text-sm"
+        >
+          ← All statements
+        </button>
+
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4">
+          <p className="text-white font-medium">{report.file_name}</p>
+          <p className="text-slate-400 text-xs">
+            {report.mapping_name} • {new Date(report.period_start).toLocaleDateString()} – {new Date(report.period_end).toLocaleDateString()}
+          </p>
+          <div className="grid grid-cols-2 gap-3 mt-3 text-sm">
+            <div>
+              <p className="text-slate-300">Card total</p>
+              <p className="text-white">${report.summary.card_total.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-slate-300">Matched</p>
+              <p className="text-white">${report.summary.matched_total.toFixed(2)}</p>
+            </div>
+          </div>
+          {report.summary.unresolved > 0 && (
+            <p className="text-amber-300 text-xs mt-3">{report.summary.unresolved} unmatched rows still need a decision</p>
+          )}
+          {report.errors.length > 0 && (
+            <p className="text-slate-400 text-xs mt-1">{report.errors.length} statement rows skipped</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(ROW_TYPE_LABELS) as ReconciliationRowType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => setRowFilter(type)}
+              className={`px-3 py-1.5 rounded-full text-xs transition-colors ${
+                rowFilter === type
+                  ? 'bg-blue-500/20 text-blue-300 border border-blue-400/30'
+                  : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+              }`}
+            >
+              {ROW_TYPE_LABELS[type]} ({report.summary[type]})
+            </button>
+          ))}
+        </div>
+
+        {visibleRows.length > 0 ? (
+          <div className="space-y-3">{visibleRows.map(renderRow)}</div>
+        ) : (
+          <p className="text-slate-400 text-center py-4">Nothing here</p>
+        )}
+      </div>
+    );
+  };
+
+  if (!hasServer) {
+    return (
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 text-center">
+        <CreditCard className="w-8 h-8 text-slate-400 mx-auto mb-3" />
+        <p className="text-slate-300 text-sm">Statement reconciliation needs a connection to the server.</p>
+      </div>
+    );
+  }
+
+  if (activeReport) {
+    return renderReport(activeReport);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-green-600/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <CreditCard className="w-8 h-8 text-green-400" />
+        </div>
+        <h3 className="text-white text-xl mb-2">Card Reconciliation</h3>
+        <p className="text-slate-300/80">
+          Match fleet-card statements to fuel entries
+        </p>
+      </div>
+
+      {/* Import */}
+      {canManage && (
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6 space-y-4">
+          <div>
+            <label className="block text-white text-sm mb-2">Statement CSV</label>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+              className="block w-full text-sm text-slate-300 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-white/10 file:text-white"
+            />
+          </div>
+
+          <div>
+            <label className="block text-white text-sm mb-2">Column Layout</label>
+            <Select value={mappingId} onValueChange={setMappingId}>
+              <SelectTrigger className="bg-white/5 border-white/20 text-white focus:border-blue-400/50 focus:ring-blue-400/20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {mappings.map(mapping => (
+                  <SelectItem key={mapping.id} value={mapping.id}>{mapping.name}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_MAPPING_ID}>New layout…</SelectItem>
+              </SelectContent>
+            </Select>
+            {missingColumns.length > 0 && mappingId !== CUSTOM_MAPPING_ID && (
+              <p className="text-amber-300 text-xs mt-1">
+                This file doesn't have the {missingColumns.filter(Boolean).join(' and ') || 'required'} column{missingColumns.length > 1 ? 's' : ''} — choose another layout or create one
+              </p>
+            )}
+          </div>
+
+          {mappingId === CUSTOM_MAPPING_ID && (
+            <div className="bg-white/5 rounded-xl p-3 space-y-3">
+              <Input
+                value={customMapping.name}
+                onChange={(e) => setCustomMapping(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Layout name, e.g. Voyager"
+                className="bg-white/5 border-white/20 text-white placeholder-slate-400"
+              />
+              <Select
+                value={customMapping.date_format}
+                onValueChange={(value: DateFormat) => setCustomMapping(prev => ({ ...prev, date_format: value }))}
+              >
+                <SelectTrigger className="bg-white/5 border-white/20 text-white focus:border-blue-400/50 focus:ring-blue-400/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="MDY">Dates as MM/DD/YYYY</SelectItem>
+                  <SelectItem value="DMY">Dates as DD/MM/YYYY</SelectItem>
+                  <SelectItem value="YMD">Dates as YYYY-MM-DD</SelectItem>
+                </SelectContent>
+              </Select>
+              {statementHeaders.length === 0 ? (
+                <p className="text-slate-400 text-xs">Choose a statement file to map its columns</p>
+              ) : (
+                (Object.keys(MAPPING_FIELD_LABELS) as MappingField[]).map(field => (
+                  <div key={field} className="flex items-center justify-between space-x-3">
+                    <span className="text-slate-300 text-sm w-28 shrink-0">
+                      {MAPPING_FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) && ' *'}
+                    </span>
+                    <Select
+                      value={customMapping.columns[field] || NO_COLUMN}
+                      onValueChange={(value: string) => updateCustomColumn(field, value)}
+                    >
+                      <SelectTrigger className="bg-white/5 border-white/20 text-white focus:border-blue-400/50 focus:ring-blue-400/20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                        {statementHeaders.map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+
+          <GlassmorphicButton
+            variant="primary"
+            onClick={handleImport}
+            className="w-full"
+          >
+            {isImporting ? (
+              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+            ) : (
+              <>
+                <Upload className="w-5 h-5 mr-2" />
+                Reconcile Statement
+              </>
+            )}
+          </GlassmorphicButton>
+        </div>
+      )}
+
+      {/* Past Reports */}
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+        <h3 className="text-white text-lg mb-4">Statements</h3>
+        {reports.length > 0 ? (
+          <div className="space-y-3">
+            {reports.map(report => (
+              <button
+                key={report.id}
+                onClick={() => openReport(report.id)}
+                className="w-full flex items-center justify-between bg-white/5 rounded-xl p-3 text-left hover:bg-white/10 transition-colors"
+              >
+                <div>
+                  <p className="text-white text-sm">{report.file_name}</p>
+                  <p className="text-slate-400 text-xs">
+                    {report.summary.matched} matched • {report.summary.unresolved > 0
+                      ? `${report.summary.unresolved} to resolve`
+                      : 'all resolved'}
+                  </p>
+                </div>
+                <ChevronRight className="w-4 h-4 text-slate-400" />
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-400 text-center py-4">No statements imported yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, EyeOff, Lock, Mail, Shield } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { Input } from './ui/input';
+import { OrganizationLogo } from './OrganizationLogo';
+import { authService, PasswordResetDetails } from '../services/authService';
+import { OrganizationSettings } from '../services/organizationService';
+import { toast } from 'sonner@2.0.3';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface ResetPasswordScreenProps {
+  organization: OrganizationSettings;
+  resetToken: string;
+  // Called once the password has changed, with the new password so the user can be signed in
+  onReset: (email: string, password: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const ResetPasswordScreen: React.FC<ResetPasswordScreenProps> = ({ organization, resetToken, onReset, onCancel }) => {
+  const [reset, setReset] = useState<PasswordResetDetails | null>(null);
+  const [resetError, setResetError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadReset = async () => {
+      const result = await authService.lookupPasswordReset(resetToken);
+      if ('error' in result) {
+        setResetError(result.error);
+      } else {
+        setReset(result.reset);
+      }
+    };
+    loadReset();
+  }, [resetToken]);
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!reset || isSubmitting) return;
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await authService.completePasswordReset(resetToken, password);
+      if ('error' in result) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success('Password updated!');
+      await onReset(result.email, password);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-6 py-8">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="mb-6">
+            <OrganizationLogo organization={organization} className="h-20 w-auto rounded-lg shadow-lg mx-auto" />
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 px-6 py-4 mb-4">
+            <h1 className="text-white text-2xl tracking-wide font-light">
+              Reset Password
+            </h1>
+          </div>
+
+          <p className="text-slate-300/90">
+            Choose a new password for your account
+          </p>
+        </div>
+
+        {!reset && !resetError && (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+          </div>
+        )}
+
+        {resetError && (
+          <div className="bg-red-500/10 border border-red-400/20 rounded-2xl p-6 text-center">
+            <p className="text-red-200 mb-4">{resetError}</p>
+            <GlassmorphicButton variant="secondary" onClick={onCancel} className="w-full">
+              Go to Sign In
+            </GlassmorphicButton>
+          </div>
+        )}
+
+        {reset && (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+              <div className="mb-6 space-y-1">
+                <div className="flex items-center text-white">
+                  <Mail className="w-4 h-4 mr-2 text-blue-300" />
+                  {reset.email}
+                </div>
+                {reset.forced && (
+                  <p className="text-amber-200/90 text-xs">
+                    An administrator reset your password. Choose a new one to sign in again.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <label className="text-white text-sm font-medium flex items-center">
+                    <Lock className="w-4 h-4 mr-2" />
+                    New Password
+                  </label>
+                  <div className="relative">
+                    <Input
+                      type={showPassword ? 'text' : 'password'}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                      className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20 pr-10"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-white transition-colors"
+                    >
+                      {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-white text-sm font-medium flex items-center">
+                    <Lock className="w-4 h-4 mr-2" />
+                    Confirm Password
+                  </label>
+                  <Input
+                    type={showPassword ? 'text' : 'password'}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="Enter it again"
+                    className="bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20"
+                  />
+                </div>
+              </div>
+
+              <div className="mt-6">
+                <GlassmorphicButton
+                  variant="primary"
+                  size="large"
+                  className="w-full"
+                  onClick={() => handleSubmit()}
+                >
+                  {isSubmitting ? (
+                    <div className="flex items-center justify-center">
+                      <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2"></div>
+                      Updating Password...
+                    </div>
+                  ) : (
+                    <>
+                      <Shield className="w-5 h-5 mr-2" />
+                      Update Password
+                    </>
+                  )}
+                </GlassmorphicButton>
+              </div>
+            </div>
+          </form>
+        )}
+
+        <div className="mt-8 text-center">
+          <p className="text-slate-500 text-xs">
+            Secure access for {organization.display_name} employees only
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
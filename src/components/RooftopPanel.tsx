@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { Building2, MapPin, Clock, Hash, Pencil, Plus, Tags, Trash2 } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { Input } from './ui/input';
+import { toast } from 'sonner@2.0.3';
+import { rooftopService, Rooftop, RooftopInput } from '../services/rooftopService';
+
+interface RooftopPanelProps {
+  accessToken: string;
+  rooftops: Rooftop[];
+  onRooftopsChange: (rooftops: Rooftop[]) => void;
+}
+
+// Every field is edited as text and converted when saving
+type RooftopForm = Record<keyof RooftopInput, string>;
+
+const EMPTY_FORM: RooftopForm = {
+  name: '',
+  street: '',
+  city: '',
+  state: '',
+  postal_code: '',
+  latitude: '',
+  longitude: '',
+  geofence_radius_km: '15',
+  timezone: 'America/Chicago',
+  stock_number_pattern: '',
+  stock_number_example: '',
+  new_stock_pattern: '',
+  used_stock_pattern: '',
+  loaner_stock_pattern: ''
+};
+
+const toForm = (rooftop: Rooftop): RooftopForm => ({
+  name: rooftop.name,
+  street: rooftop.street ?? '',
+  city: rooftop.city ?? '',
+  state: rooftop.state ?? '',
+  postal_code: rooftop.postal_code ?? '',
+  latitude: rooftop.latitude?.toString() ?? '',
+  longitude: rooftop.longitude?.toString() ?? '',
+  geofence_radius_km: rooftop.geofence_radius_km.toString(),
+  timezone: rooftop.timezone,
+  stock_number_pattern: rooftop.stock_number_pattern ?? '',
+  stock_number_example: rooftop.stock_number_example ?? '',
+  new_stock_pattern: rooftop.new_stock_pattern ?? '',
+  used_stock_pattern: rooftop.used_stock_pattern ?? '',
+  loaner_stock_pattern: rooftop.loaner_stock_pattern ?? ''
+});
+
+const orNull = (value: string) => value.trim() || null;
+
+const toInput = (form: RooftopForm): RooftopInput => ({
+  name: form.name.trim(),
+  street: orNull(form.street),
+  city: orNull(form.city),
+  state: orNull(form.state),
+  postal_code: orNull(form.postal_code),
+  latitude: form.latitude.trim() ? Number(form.latitude) : null,
+  longitude: form.longitude.trim() ? Number(form.longitude) : null,
+  geofence_radius_km: Number(form.geofence_radius_km),
+  timezone: form.timezone.trim(),
+  stock_number_pattern: orNull(form.stock_number_pattern),
+  stock_number_example: orNull(form.stock_number_example),
+  new_stock_pattern: orNull(form.new_stock_pattern),
+  used_stock_pattern: orNull(form.used_stock_pattern),
+  loaner_stock_pattern: orNull(form.loaner_stock_pattern)
+});
+
+const byName = (a: Rooftop, b: Rooftop) => a.name.localeCompare(b.name);
+
+const inputClassName = 'bg-white/5 border-white/20 text-white placeholder-slate-400 focus:border-blue-400/50 focus:ring-blue-400/20';
+
+// Adding, editing and removing the group's rooftops
+export const RooftopPanel: React.FC<RooftopPanelProps> = ({ accessToken, rooftops, onRooftopsChange }) => {
+  // 'new' while adding a rooftop, otherwise the id of the one being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RooftopForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const updateField = (field: keyof RooftopForm, value: string) => setForm(prev => ({ ...prev, [field]: value }));
+
+  const startEditing = (rooftop: Rooftop | null) => {
+    setConfirmDeleteId(null);
+    setEditingId(rooftop ? rooftop.id : 'new');
+    setForm(rooftop ? toForm(rooftop) : EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (isSaving || !editingId) return;
+
+    if (!form.name.trim()) {
+      toast.error('Give the rooftop a name');
+      return;
+    }
+
+    setIsSaving(true);
+    const input = toInput(form);
+    const result = editingId === 'new'
+      ? await rooftopService.createRooftop(input, accessToken)
+      : await rooftopService.updateRooftop(editingId, input, accessToken);
+    setIsSaving(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    const saved = result.rooftop;
+    const usersAssigned = 'usersAssigned' in result ? result.usersAssigned as number : 0;
+    onRooftopsChange([...rooftops.filter(rooftop => rooftop.id !== saved.id), saved].sort(byName));
+    setEditingId(null);
+    if (usersAssigned > 0) {
+      toast.success(`${saved.name} added. ${usersAssigned} existing ${usersAssigned === 1 ? 'user was' : 'users were'} assigned to it.`);
+    } else {
+      toast.success(`${saved.name} saved`);
+    }
+  };
+
+  const handleDelete = async (rooftop: Rooftop) => {
+    setConfirmDeleteId(null);
+    const result = await rooftopService.deleteRooftop(rooftop.id, accessToken);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    onRooftopsChange(rooftops.filter(other => other.id !== rooftop.id));
+    toast.success(`${rooftop.name} removed`);
+  };
+
+  const renderField = (field: keyof RooftopForm, label: string, placeholder: string) => (
+    <div>
+      <label className="text-slate-300 text-xs mb-1 block">{label}</label>
+      <Input
+        value={form[field]}
+        onChange={(e) => updateField(field, e.target.value)}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  const renderForm = () => (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-blue-400/30 p-6 space-y-4">
+      <h4 className="text-white font-medium">{editingId === 'new' ? 'New Rooftop' : 'Edit Rooftop'}</h4>
+
+      {renderField('name', 'Name *', 'Napleton Chevrolet')}
+      {renderField('street', 'Street', '5500 W 95th St')}
+      <div className="grid grid-cols-3 gap-2">
+        {renderField('city', 'City', 'Oak Lawn')}
+        {renderField('state', 'State', 'IL')}
+        {renderField('postal_code', 'ZIP', '60453')}
+      </div>
+
+      <div>
+        <p className="text-white text-sm flex items-center mb-1">
+          <MapPin className="w-4 h-4 mr-2" />
+          Geofence
+        </p>
+        <p className="text-slate-400 text-xs mb-2">
+          Fills further than the radius from the lot are flagged. Leave the coordinates empty to skip the check.
+        </p>
+        <div className="grid grid-cols-3 gap-2">
+          {renderField('latitude', 'Latitude', '41.7203')}
+          {renderField('longitude', 'Longitude', '-87.7523')}
+          {renderField('geofence_radius_km', 'Radius (km)', '15')}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-white text-sm flex items-center mb-2">
+          <Clock className="w-4 h-4 mr-2" />
+          Timezone
+        </p>
+        {renderField('timezone', 'IANA name', 'America/Chicago')}
+      </div>
+
+      <div>
+        <p className="text-white text-sm flex items-center mb-1">
+          <Hash className="w-4 h-4 mr-2" />
+          Stock Number Format
+        </p>
+        <p className="text-slate-400 text-xs mb-2">
+          A regular expression the whole stock number must match, ignoring case. Entries that don't match are flagged.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {renderField('stock_number_pattern', 'Pattern', 'C\\d{5}')}
+          {renderField('stock_number_example', 'Example shown to porters', 'C12345')}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-white text-sm flex items-center mb-1">
+          <Tags className="w-4 h-4 mr-2" />
+          Vehicle Categories
+        </p>
+        <p className="text-slate-400 text-xs mb-2">
+          Patterns that tell new, used and loaner stock numbers apart, so the category is suggested on each entry.
+          Leave all three empty to go by N, U and L prefixes.
+        </p>
+        <div className="grid grid-cols-3 gap-2">
+          {renderField('new_stock_pattern', 'New', 'N\\d{5}')}
+          {renderField('used_stock_pattern', 'Used', 'U\\d{5}')}
+          {renderField('loaner_stock_pattern', 'Loaner', 'L\\d{4}')}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <GlassmorphicButton variant="secondary" onClick={() => setEditingId(null)}>
+          Cancel
+        </GlassmorphicButton>
+        <GlassmorphicButton variant="primary" onClick={handleSave}>
+          {isSaving ? 'Saving...' : 'Save Rooftop'}
+        </GlassmorphicButton>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-blue-600/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Building2 className="w-8 h-8 text-blue-400" />
+        </div>
+        <h3 className="text-white text-xl mb-2">Rooftops</h3>
+        <p className="text-slate-300/80">
+          The dealerships in the group. Users and fuel entries each belong to one.
+        </p>
+      </div>
+
+      {editingId ? renderForm() : (
+        <GlassmorphicButton variant="primary" className="w-full" onClick={() => startEditing(null)}>
+          <Plus className="w-5 h-5 mr-2" />
+          Add Rooftop
+        </GlassmorphicButton>
+      )}
+
+      <div className="space-y-3">
+        {rooftops.map(rooftop => (
+          <div key={rooftop.id} className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4">
+            <div className="flex justify-between items-start">
+              <div className="min-w-0">
+                <p className="text-white font-medium truncate">{rooftop.name}</p>
+                <p className="text-slate-400 text-xs truncate">
+                  {[rooftop.street, rooftop.city, rooftop.state].filter(Boolean).join(', ') || 'No address'}
+                </p>
+                <p className="text-slate-500 text-xs">
+                  {rooftop.timezone}
+                  {rooftop.latitude !== null && ` • ${rooftop.geofence_radius_km} km geofence`}
+                  {rooftop.stock_number_example && ` • stock # like ${rooftop.stock_number_example}`}
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => startEditing(rooftop)}
+                  className="text-slate-300 hover:text-white transition-colors"
+                  title="Edit rooftop"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setConfirmDeleteId(rooftop.id)}
+                  className="text-red-300 hover:text-white transition-colors"
+                  title="Remove rooftop"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {confirmDeleteId === rooftop.id && (
+              <div className="mt-3 bg-red-500/10 border border-red-400/20 rounded-lg p-2">
+                <p className="text-red-200 text-xs mb-2">
+                  Its entries are kept but show as unassigned. Rooftops with users can't be removed.
+                </p>
+                <div className="flex justify-end gap-3">
+                  <button
+                    onClick={() => setConfirmDeleteId(null)}
+                    className="text-xs text-slate-300 hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rooftop)}
+                    className="text-xs text-red-300 hover:text-white transition-colors"
+                  >
+                    Remove Rooftop
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {rooftops.length === 0 && !editingId && (
+          <p className="text-slate-400 text-center py-4">No rooftops yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { X, Camera, Scan, Car, Receipt, FlashlightIcon as Flashlight } from 'luc
 import { GlassmorphicButton } from './GlassmorphicButton';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
+import { barcodeDecoderService, BarcodeFormat, DecodedBarcode } from '../services/barcodeDecoderService';
+import { extractVin, isValidVin, normalizeVin } from '../utils/vin';
 
 interface ScannerProps {
   isOpen: boolean;
@@ -11,6 +13,16 @@ interface ScannerProps {
   mode?: 'barcode' | 'vin' | 'auto';
 }
 
+// VIN labels use Code 39 (door jamb) or Data Matrix (windshield, newer labels)
+const VIN_FORMATS: BarcodeFormat[] = ['code_39', 'data_matrix'];
+const RECEIPT_FORMATS: BarcodeFormat[] = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'itf'];
+
+const SCAN_FORMATS: Record<NonNullable<ScannerProps['mode']>, BarcodeFormat[]> = {
+  vin: VIN_FORMATS,
+  barcode: RECEIPT_FORMATS,
+  auto: [...VIN_FORMATS, ...RECEIPT_FORMATS]
+};
+
 export const Scanner: React.FC<ScannerProps> = ({
   isOpen,
   onClose,
@@ -29,10 +41,8 @@ export const Scanner: React.FC<ScannerProps> = ({
   const [showManualInput, setShowManualInput] = useState(false);
   const [manualInput, setManualInput] = useState('');
   const scanIntervalRef = useRef<NodeJS.Timeout>();
+  const isDecodingRef = useRef(false);
 
-  // VIN pattern: 17 characters, alphanumeric (excluding I, O, Q)
-  const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
-  
   // Simple barcode patterns (EAN-13, UPC-A, etc.)
   const BARCODE_PATTERN = /^\d{8,14}$/;
 
@@ -113,8 +123,8 @@ export const Scanner: React.FC<ScannerProps> = ({
     let result: { type: 'barcode' | 'vin'; data: string } | null = null;
 
     // Check if it's a VIN
-    if (VIN_PATTERN.test(manualInput.trim().toUpperCase())) {
-      result = { type: 'vin', data: manualInput.trim().toUpperCase() };
+    if (isValidVin(manualInput)) {
+      result = { type: 'vin', data: normalizeVin(manualInput) };
     }
     // Check if it's a barcode
     else if (BARCODE_PATTERN.test(manualInput.trim())) {
@@ -125,7 +135,7 @@ export const Scanner: React.FC<ScannerProps> = ({
       onScan(result);
       onClose();
     } else {
-      setError(`Please enter a valid ${mode === 'vin' ? 'VIN (17 characters)' : mode === 'barcode' ? 'barcode (8-14 digits)' : 'VIN or barcode'}`);
+      setError(`Please enter a valid ${mode === 'vin' ? 'VIN (17 characters, check digit must match)' : mode === 'barcode' ? 'barcode (8-14 digits)' : 'VIN or barcode'}`);
     }
   };
 
@@ -156,12 +166,13 @@ export const Scanner: React.FC<ScannerProps> = ({
     }, 500); // Scan every 500ms
   };
 
-  const scanFrame = () => {
-    if (!videoRef.current || !canvasRef.current) return;
+  const scanFrame = async () => {
+    // Decoding can take longer than the scan interval on slow devices
+    if (isDecodingRef.current || !videoRef.current || !canvasRef.current) return;
 
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
 
     if (!ctx || video.videoWidth === 0) return;
 
@@ -172,187 +183,40 @@ export const Scanner: React.FC<ScannerProps> = ({
     // Draw current video frame to canvas
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
 
-    // Get image data for processing
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    
-    // Enhanced detection with multiple approaches
-    detectTextInImage(imageData);
-  };
 
-  const detectTextInImage = async (imageData: ImageData) => {
+    isDecodingRef.current = true;
     try {
-      // Enhanced detection with multiple approaches
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-
-      // Get image data as base64 for processing
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-      
-      // Method 1: Try to detect barcodes using basic pattern recognition
-      const detectedBarcode = detectBarcodePatterns(canvas);
-      if (detectedBarcode && (mode === 'barcode' || mode === 'auto')) {
-        if (detectedBarcode !== lastScan) {
-          setLastScan(detectedBarcode);
-          handleScanResult({ type: 'barcode', data: detectedBarcode });
-          return;
-        }
-      }
-
-      // Method 2: Try to detect VIN using OCR-like pattern matching
-      const detectedVin = await detectVinPatterns(canvas);
-      if (detectedVin && (mode === 'vin' || mode === 'auto')) {
-        if (detectedVin !== lastScan) {
-          setLastScan(detectedVin);
-          handleScanResult({ type: 'vin', data: detectedVin });
-          return;
-        }
-      }
-
-      // Method 3: Fallback simulation for demo (reduced frequency)
-      if (Math.random() < 0.02) { // 2% chance for more realistic behavior
-        const barcodeResults = [
-          '1234567890123',
-          '9876543210987', 
-          '4567890123456',
-          '7890123456789',
-          '3456789012345'
-        ];
-        
-        const vinResults = [
-          '1HGBH41JXMN109186',
-          '2FMDK3GC4DBA12345', 
-          '5NPE34AF4DH123456',
-          '1G1BE5SM7F7123456',
-          'WBAFR7C59BC123456'
-        ];
-        
-        let result;
-        
-        if (mode === 'barcode') {
-          result = { type: 'barcode' as const, data: barcodeResults[Math.floor(Math.random() * barcodeResults.length)] };
-        } else if (mode === 'vin') {
-          result = { type: 'vin' as const, data: vinResults[Math.floor(Math.random() * vinResults.length)] };
-        } else {
-          const allResults = [
-            ...barcodeResults.map(data => ({ type: 'barcode' as const, data })),
-            ...vinResults.map(data => ({ type: 'vin' as const, data }))
-          ];
-          result = allResults[Math.floor(Math.random() * allResults.length)];
-        }
-        
-        if (result.data !== lastScan) {
-          setLastScan(result.data);
+      const barcodes = await barcodeDecoderService.decode(imageData, SCAN_FORMATS[mode]);
+      for (const barcode of barcodes) {
+        const result = toScanResult(barcode);
+        if (result) {
           handleScanResult(result);
+          return;
         }
       }
     } catch (error) {
       console.error('Detection error:', error);
+    } finally {
+      isDecodingRef.current = false;
     }
   };
 
-  const detectBarcodePatterns = (canvas: HTMLCanvasElement): string | null => {
-    // Basic barcode detection using canvas analysis
-    // This is a simplified approach - real apps would use @zxing/library
-    try {
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return null;
+  const toScanResult = (barcode: DecodedBarcode): { type: 'barcode' | 'vin'; data: string } | null => {
+    if (VIN_FORMATS.includes(barcode.format) && mode !== 'barcode') {
+      const vin = extractVin(barcode.text);
+      if (vin) return { type: 'vin', data: vin };
 
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-      
-      // Look for high contrast vertical lines (barcode pattern)
-      let verticalLines = 0;
-      const sampleRows = 10; // Sample multiple rows
-      
-      for (let y = Math.floor(canvas.height * 0.4); y < Math.floor(canvas.height * 0.6); y += Math.floor(canvas.height / sampleRows)) {
-        let transitions = 0;
-        let lastPixelDark = false;
-        
-        for (let x = 0; x < canvas.width; x += 2) {
-          const idx = (y * canvas.width + x) * 4;
-          const brightness = (data[idx] + data[idx + 1] + data[idx + 2]) / 3;
-          const isDark = brightness < 128;
-          
-          if (isDark !== lastPixelDark) {
-            transitions++;
-            lastPixelDark = isDark;
-          }
-        }
-        
-        // Barcodes typically have many transitions
-        if (transitions > 20 && transitions < 200) {
-          verticalLines++;
-        }
-      }
-      
-      // If we detect barcode-like patterns in multiple rows
-      if (verticalLines >= 5) {
-        // Generate a mock barcode number for demo
-        return Math.floor(Math.random() * 9000000000000) + 1000000000000 + '';
-      }
-    } catch (error) {
-      console.error('Barcode detection error:', error);
+      // Looked like a VIN label but didn't pass the check digit, usually a partial read
+      setLastScan(barcode.text);
+      return null;
     }
-    
-    return null;
-  };
 
-  const detectVinPatterns = async (canvas: HTMLCanvasElement): Promise<string | null> => {
-    // Basic VIN detection using pattern recognition
-    // Real implementation would use Tesseract.js for OCR
-    try {
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return null;
-
-      // Look for rectangular text regions that might contain VINs
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      
-      // Simple edge detection to find text areas
-      const hasTextLikeRegions = detectTextRegions(imageData);
-      
-      if (hasTextLikeRegions) {
-        // Generate a mock VIN for demo purposes
-        const vinPrefixes = ['1HGBH41JX', '2FMDK3GC4', '5NPE34AF4', '1G1BE5SM7', 'WBAFR7C59'];
-        const prefix = vinPrefixes[Math.floor(Math.random() * vinPrefixes.length)];
-        const suffix = Math.floor(Math.random() * 900000) + 100000;
-        return prefix + suffix;
-      }
-    } catch (error) {
-      console.error('VIN detection error:', error);
+    if (mode !== 'vin' && BARCODE_PATTERN.test(barcode.text)) {
+      return { type: 'barcode', data: barcode.text };
     }
-    
-    return null;
-  };
 
-  const detectTextRegions = (imageData: ImageData): boolean => {
-    const data = imageData.data;
-    const width = imageData.width;
-    const height = imageData.height;
-    
-    // Simple edge detection
-    let edgeCount = 0;
-    const threshold = 50;
-    
-    for (let y = 1; y < height - 1; y += 4) {
-      for (let x = 1; x < width - 1; x += 4) {
-        const idx = (y * width + x) * 4;
-        const brightness = (data[idx] + data[idx + 1] + data[idx + 2]) / 3;
-        
-        // Check horizontal edges
-        const leftIdx = (y * width + (x - 1)) * 4;
-        const rightIdx = (y * width + (x + 1)) * 4;
-        const leftBrightness = (data[leftIdx] + data[leftIdx + 1] + data[leftIdx + 2]) / 3;
-        const rightBrightness = (data[rightIdx] + data[rightIdx + 1] + data[rightIdx + 2]) / 3;
-        
-        if (Math.abs(brightness - leftBrightness) > threshold || 
-            Math.abs(brightness - rightBrightness) > threshold) {
-          edgeCount++;
-        }
-      }
-    }
-    
-    // If we have enough edges, it might contain text
-    return edgeCount > 100;
+    return null;
   };
 
   const handleScanResult = (result: { type: 'barcode' | 'vin'; data: string }) => {
@@ -360,7 +224,7 @@ export const Scanner: React.FC<ScannerProps> = ({
     let isValid = false;
     
     if (result.type === 'vin') {
-      isValid = VIN_PATTERN.test(result.data);
+      isValid = isValidVin(result.data);
     } else if (result.type === 'barcode') {
       isValid = BARCODE_PATTERN.test(result.data);
     }
@@ -619,6 +483,9 @@ export const Scanner: React.FC<ScannerProps> = ({
                 <p className="text-slate-300 text-sm">
                   {isScanning ? 'Scanning...' : 'Initializing camera...'}
                 </p>
+                {lastScan && (
+                  <p className="text-amber-300 text-xs mt-1">VIN didn't verify - hold steady</p>
+                )}
               </div>
 
               <div className="flex space-x-2">
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { Fingerprint, KeyRound, Plus, ShieldCheck, Smartphone, Trash2 } from 'lucide-react';
+import { GlassmorphicButton } from './GlassmorphicButton';
+import { MfaSetup, RecoveryCodeList } from './MfaSetup';
+import { passkeyService, Passkey } from '../services/passkeyService';
+import { mfaService, MfaStatus } from '../services/mfaService';
+import { toast } from 'sonner@2.0.3';
+
+interface SecuritySettingsProps {
+  accessToken: string | null;
+}
+
+export const SecuritySettings: React.FC<SecuritySettingsProps> = ({ accessToken }) => {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAvailable, setIsAvailable] = useState(false);
+  const [isRegistering, setIsRegistering] = useState(false);
+  // Removing is a two-step click: the first asks for confirmation
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+  const [mfaStatus, setMfaStatus] = useState<MfaStatus | null>(null);
+  const [isSettingUpMfa, setIsSettingUpMfa] = useState(false);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmDisableMfa, setConfirmDisableMfa] = useState(false);
+
+  const loadMfaStatus = async (token: string) => {
+    const result = await mfaService.getStatus(token);
+    if ('status' in result) {
+      setMfaStatus(result.status);
+    }
+  };
+
+  useEffect(() => {
+    passkeyService.isAvailable().then(setIsAvailable);
+
+    if (!accessToken) {
+      setIsLoading(false);
+      return;
+    }
+
+    mfaService.getStatus(accessToken).then(result => {
+      if ('status' in result) {
+        setMfaStatus(result.status);
+      }
+    });
+
+    passkeyService.getPasskeys(accessToken).then(result => {
+      if ('passkeys' in result) {
+        setPasskeys(result.passkeys);
+      } else {
+        toast.error(result.error);
+      }
+      setIsLoading(false);
+    });
+  }, [accessToken]);
+
+  const handleAddPasskey = async () => {
+    if (!accessToken || isRegistering) return;
+
+    setIsRegistering(true);
+    const result = await passkeyService.register(accessToken);
+    setIsRegistering(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setPasskeys(prev => [result.passkey, ...prev]);
+    toast.success(`Passkey added for ${result.passkey.name}`);
+  };
+
+  const handleRemovePasskey = async (passkey: Passkey) => {
+    if (!accessToken) return;
+
+    setConfirmRemoveId(null);
+    const result = await passkeyService.removePasskey(passkey.id, accessToken);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setPasskeys(prev => prev.filter(p => p.id !== passkey.id));
+    toast.success(`${passkey.name} can no longer sign in`);
+  };
+
+  const handleMfaSetupComplete = () => {
+    setIsSettingUpMfa(false);
+    if (accessToken) {
+      loadMfaStatus(accessToken);
+    }
+  };
+
+  const handleNewRecoveryCodes = async () => {
+    if (!accessToken) return;
+
+    const result = await mfaService.regenerateRecoveryCodes(accessToken);
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setNewRecoveryCodes(result.recoveryCodes);
+    loadMfaStatus(accessToken);
+  };
+
+  const handleDisableMfa = async () => {
+    if (!accessToken) return;
+
+    setConfirmDisableMfa(false);
+    const result = await mfaService.disable(accessToken);
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setNewRecoveryCodes(null);
+    loadMfaStatus(accessToken);
+    toast.success('Two-factor authentication turned off');
+  };
+
+  const renderMfa = () => (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+      <h3 className="text-white text-lg mb-1 flex items-center">
+        <ShieldCheck className="w-5 h-5 mr-2 text-green-300" />
+        Two-Factor Authentication
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        After your password, enter a code from an authenticator app on your phone.
+        {mfaStatus?.required && ' Your role requires it for admin features.'}
+      </p>
+
+      {isSettingUpMfa && accessToken ? (
+        <MfaSetup accessToken={accessToken} onComplete={handleMfaSetupComplete} />
+      ) : mfaStatus?.enabled ? (
+        <div className="space-y-4">
+          <div className="bg-white/5 rounded-xl p-3">
+            <p className="text-green-300 text-sm">
+              On since {mfaStatus.enabled_at ? new Date(mfaStatus.enabled_at).toLocaleDateString() : 'setup'}
+            </p>
+            <p className={`text-xs ${mfaStatus.recovery_codes_remaining <= 2 ? 'text-amber-300' : 'text-slate-400'}`}>
+              {mfaStatus.recovery_codes_remaining} recovery {mfaStatus.recovery_codes_remaining === 1 ? 'code' : 'codes'} left
+            </p>
+          </div>
+
+          {newRecoveryCodes && <RecoveryCodeList codes={newRecoveryCodes} />}
+
+          <GlassmorphicButton variant="secondary" className="w-full" onClick={handleNewRecoveryCodes}>
+            <KeyRound className="w-4 h-4 mr-2" />
+            Create New Recovery Codes
+          </GlassmorphicButton>
+
+          {!mfaStatus.required && (
+            confirmDisableMfa ? (
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setConfirmDisableMfa(false)}
+                  className="text-xs text-slate-300 hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDisableMfa}
+                  className="text-xs text-red-300 hover:text-white transition-colors"
+                >
+                  Turn Off
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmDisableMfa(true)}
+                className="w-full text-center text-xs text-slate-400 hover:text-red-300 transition-colors"
+              >
+                Turn off two-factor authentication
+              </button>
+            )
+          )}
+        </div>
+      ) : (
+        <GlassmorphicButton variant="secondary" className="w-full" onClick={() => setIsSettingUpMfa(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Set Up Authenticator App
+        </GlassmorphicButton>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      {mfaStatus && renderMfa()}
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+        <h3 className="text-white text-lg mb-1 flex items-center">
+          <Fingerprint className="w-5 h-5 mr-2 text-blue-300" />
+          Passkeys
+        </h3>
+        <p className="text-slate-400 text-sm mb-4">
+          Sign in with Face ID, Touch ID or your device PIN instead of a password. Remove a device here if it is lost.
+        </p>
+
+        {isAvailable ? (
+          <GlassmorphicButton variant="secondary" className="w-full" onClick={handleAddPasskey}>
+            <Plus className="w-4 h-4 mr-2" />
+            {isRegistering ? 'Waiting for your device...' : 'Add a Passkey on This Device'}
+          </GlassmorphicButton>
+        ) : (
+          <p className="text-slate-500 text-xs">This device can't create passkeys, but you can still remove old ones.</p>
+        )}
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+        <h4 className="text-white font-medium mb-4">Your Devices ({passkeys.length})</h4>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+          </div>
+        ) : passkeys.length > 0 ? (
+          <div className="space-y-3">
+            {passkeys.map(passkey => (
+              <div key={passkey.id} className="bg-white/5 rounded-xl p-3 border border-white/10">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start">
+                    <Smartphone className="w-4 h-4 mr-3 mt-1 text-slate-300" />
+                    <div>
+                      <p className="text-white text-sm">{passkey.name}</p>
+                      <p className="text-slate-400 text-xs">
+                        Added {new Date(passkey.created_at).toLocaleDateString()}
+                        {passkey.device_type === 'multiDevice' && ' • Synced'}
+                      </p>
+                      <p className="text-slate-500 text-xs">
+                        {passkey.last_used_at
+                          ? `Last used ${new Date(passkey.last_used_at).toLocaleString()}`
+                          : 'Not used yet'}
+                      </p>
+                    </div>
+                  </div>
+                  {confirmRemoveId !== passkey.id && (
+                    <button
+                      onClick={() => setConfirmRemoveId(passkey.id)}
+                      className="text-slate-400 hover:text-red-300 transition-colors"
+                      title="Remove passkey"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                {confirmRemoveId === passkey.id && (
+                  <div className="mt-2 flex justify-end gap-3">
+                    <button
+                      onClick={() => setConfirmRemoveId(null)}
+                      className="text-xs text-slate-300 hover:text-white transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handleRemovePasskey(passkey)}
+                      className="text-xs text-red-300 hover:text-white transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-400 text-center py-4">No passkeys yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import { ImageWithFallback } from './figma/ImageWithFallback';
-import napletonLogo from 'figma:asset/b2a9411c7fa7d1a1cf97fbc1b60e44151fe2dace.png';
+import { OrganizationLogo } from './OrganizationLogo';
+import { OrganizationSettings } from '../services/organizationService';
 
-export const SplashScreen: React.FC = () => {
+interface SplashScreenProps {
+  organization: OrganizationSettings;
+}
+
+export const SplashScreen: React.FC<SplashScreenProps> = ({ organization }) => {
   const [animationPhase, setAnimationPhase] = useState(0);
 
   useEffect(() => {
@@ -42,12 +46,8 @@ export const SplashScreen: React.FC = () => {
         }`}>
           <div className="relative">
             {/* Glow effect behind logo */}
-            <div className="absolute inset-0 bg-blue-500/20 blur-2xl rounded-full scale-110"></div>
-            <ImageWithFallback 
-              src={napletonLogo} 
-              alt="Napleton Automotive Group" 
-              className="h-32 w-auto rounded-lg shadow-2xl relative z-10 mx-auto" 
-            />
+            <div className="absolute inset-0 blur-2xl rounded-full scale-110" style={{ backgroundColor: `${organization.primary_color}33` }}></div>
+            <OrganizationLogo organization={organization} className="h-32 w-auto rounded-lg shadow-2xl relative z-10 mx-auto" />
           </div>
         </div>
 
@@ -61,9 +61,9 @@ export const SplashScreen: React.FC = () => {
             {/* Glassmorphic container */}
             <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 px-8 py-6 relative overflow-hidden">
               {/* Animated border */}
-              <div className={`absolute inset-0 border-2 border-blue-400/30 rounded-2xl transition-all duration-2000 ${
+              <div className={`absolute inset-0 border-2 rounded-2xl transition-all duration-2000 ${
                 animationPhase >= 4 ? 'animate-pulse' : ''
-              }`}></div>
+              }`} style={{ borderColor: `${organization.accent_color}4d` }}></div>
               
               <h1 className="text-white text-4xl tracking-widest font-light relative z-10">
                 FuelTrakr
@@ -82,7 +82,7 @@ export const SplashScreen: React.FC = () => {
             Professional Fuel Expense Tracking
           </p>
           <p className="text-slate-400/80 text-sm mt-2">
-            For Napleton Automotive Group
+            For {organization.display_name}
           </p>
         </div>
 
@@ -94,9 +94,9 @@ export const SplashScreen: React.FC = () => {
         }`}>
           <div className="flex items-center justify-center space-x-2">
             <div className="flex space-x-1">
-              <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
-              <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
-              <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+              <div className="w-2 h-2 rounded-full animate-bounce" style={{ animationDelay: '0ms', backgroundColor: organization.accent_color }}></div>
+              <div className="w-2 h-2 rounded-full animate-bounce" style={{ animationDelay: '150ms', backgroundColor: organization.accent_color }}></div>
+              <div className="w-2 h-2 rounded-full animate-bounce" style={{ animationDelay: '300ms', backgroundColor: organization.accent_color }}></div>
             </div>
           </div>
           <p className="text-slate-400 text-sm mt-4">Loading...</p>
@@ -109,7 +109,7 @@ export const SplashScreen: React.FC = () => {
             : 'opacity-0 transform translate-y-4'
         }`}>
           <p className="text-slate-500 text-xs">
-            Version 1.0.0 • Napleton Automotive Group
+            Version 1.0.0 • {organization.display_name}
           </p>
         </div>
       </div>
@@ -1,15 +1,30 @@
 import React from 'react';
-import { BarChart3, TrendingUp, Fuel, DollarSign, Calendar, MapPin } from 'lucide-react';
+import { BarChart3, TrendingUp, Fuel, DollarSign, Calendar, MapPin, Tags, Car } from 'lucide-react';
 import { User, FuelEntry } from '../App';
+import { can } from '../utils/permissions';
+import { PURPOSE_LABELS, VEHICLE_CATEGORY_LABELS } from '../services/fuelService';
 
 interface StatisticsProps {
   fuelEntries: FuelEntry[];
   user: User;
 }
 
+// Spend per group, largest first. Entries recorded before purposes were tracked are grouped as "Not recorded".
+const spendBy = (entries: FuelEntry[], labelOf: (entry: FuelEntry) => string | undefined) => {
+  const groups = new Map<string, { label: string; entries: number; cost: number }>();
+  entries.forEach(entry => {
+    const label = labelOf(entry) ?? 'Not recorded';
+    const group = groups.get(label) ?? { label, entries: 0, cost: 0 };
+    group.entries += 1;
+    group.cost += entry.fuelCost;
+    groups.set(label, group);
+  });
+  return [...groups.values()].sort((a, b) => b.cost - a.cost);
+};
+
 export const Statistics: React.FC<StatisticsProps> = ({ fuelEntries, user }) => {
-  // Filter entries for current user if porter
-  const userEntries = user.role === 'admin' ? fuelEntries : fuelEntries.filter(entry => entry.userId === user.id);
+  // Filter entries for current user unless they can see everyone's
+  const userEntries = can(user, 'entries.view_all') ? fuelEntries : fuelEntries.filter(entry => entry.userId === user.id);
 
   // Calculate statistics
   const totalEntries = userEntries.length;
@@ -54,6 +69,11 @@ export const Statistics: React.FC<StatisticsProps> = ({ fuelEntries, user }) =>
     });
   }
 
+  const breakdowns = [
+    { title: 'Spend by Purpose', icon: Tags, groups: spendBy(userEntries, entry => entry.purpose ? PURPOSE_LABELS[entry.purpose] : undefined) },
+    { title: 'Spend by Vehicle Category', icon: Car, groups: spendBy(userEntries, entry => entry.vehicleCategory ? VEHICLE_CATEGORY_LABELS[entry.vehicleCategory] : undefined) }
+  ];
+
   return (
     <div className="flex flex-col h-full px-6 py-8 space-y-6">
       {/* Header */}
@@ -63,7 +83,7 @@ export const Statistics: React.FC<StatisticsProps> = ({ fuelEntries, user }) =>
         </div>
         <h2 className="text-white text-2xl mb-2">Statistics</h2>
         <p className="text-slate-300/80">
-          {user.role === 'admin' ? 'All fuel entries' : 'Your fuel expense analytics'}
+          {can(user, 'entries.view_all') ? 'All fuel entries' : 'Your fuel expense analytics'}
         </p>
       </div>
 
@@ -146,6 +166,36 @@ export const Statistics: React.FC<StatisticsProps> = ({ fuelEntries, user }) =>
         </div>
       </div>
 
+      {/* Purpose and Category Breakdowns */}
+      {totalEntries > 0 && breakdowns.map(({ title, icon: Icon, groups }) => (
+        <div key={title} className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+          <h3 className="text-white text-lg mb-4 flex items-center">
+            <Icon className="w-5 h-5 mr-2" />
+            {title}
+          </h3>
+
+          <div className="space-y-3">
+            {groups.map(group => (
+              <div key={group.label}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-slate-300 text-sm">{group.label}</span>
+                  <div className="text-right">
+                    <span className="text-white text-sm">${group.cost.toFixed(2)}</span>
+                    <span className="text-slate-400 text-xs ml-2">{group.entries} {group.entries === 1 ? 'entry' : 'entries'}</span>
+                  </div>
+                </div>
+                <div className="bg-white/5 rounded-full h-2">
+                  <div
+                    className="bg-green-400 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${totalCost > 0 ? (group.cost / totalCost) * 100 : 0}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
       {/* Summary Cards */}
       <div className="space-y-4">
         <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react';
+import { Car, Gauge, DollarSign, Fuel, AlertTriangle, Navigation } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { FuelEntry } from '../App';
+import { User } from '../services/authService';
+import { adminService } from '../services/adminService';
+import { fuelService, FuelEntry as BackendFuelEntry, VehicleFuelHistory, vehicleFuel } from '../services/fuelService';
+import { buildFuelHistory, matchesVehicle, FREQUENT_FILL_WINDOW_HOURS, FREQUENT_FILL_MIN_MILES } from '../utils/fuelHistory';
+import { isDemoMode } from '../utils/supabase/demo-config';
+import { can } from '../utils/permissions';
+
+interface VehicleDetailProps {
+  vehicleId: string;
+  fuelEntries: FuelEntry[];
+  user: User;
+  accessToken?: string | null;
+  isGuestMode?: boolean;
+}
+
+// Whether premium fills get flagged: only for vehicles marked regular-only
+const FUEL_GRADE_OPTIONS: { value: boolean | null; label: string }[] = [
+  { value: null, label: 'Not set' },
+  { value: false, label: 'Regular only' },
+  { value: true, label: 'Premium required' }
+];
+
+// Guest and demo entries never reach the server, so their history is computed here
+const buildLocalHistory = (vehicleId: string, fuelEntries: FuelEntry[], user: User): VehicleFuelHistory => {
+  const entries = fuelEntries
+    .filter(entry => can(user, 'entries.view_all') || entry.userId === user.id)
+    .map(entry => ({
+      id: entry.id,
+      user_id: entry.userId,
+      stock_number: entry.stockNumber || '',
+      vin: entry.vin,
+      odometer: entry.mileage,
+      gallons: entry.fuelAmount,
+      total_amount: entry.fuelCost,
+      timestamp: new Date(entry.timestamp).toISOString(),
+      voided: entry.voided
+    }) as BackendFuelEntry)
+    .filter(entry => matchesVehicle(entry, vehicleId));
+
+  return {
+    vehicle_id: vehicleId,
+    stock_number: entries.find(entry => entry.stock_number)?.stock_number || null,
+    vin: entries.find(entry => entry.vin)?.vin || null,
+    vehicle: null,
+    frequent_fill_window_hours: FREQUENT_FILL_WINDOW_HOURS,
+    frequent_fill_min_miles: FREQUENT_FILL_MIN_MILES,
+    ...buildFuelHistory(entries)
+  };
+};
+
+export const VehicleDetail: React.FC<VehicleDetailProps> = ({
+  vehicleId,
+  fuelEntries,
+  user,
+  accessToken,
+  isGuestMode = false
+}) => {
+  const [history, setHistory] = useState<VehicleFuelHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isSavingGrade, setIsSavingGrade] = useState(false);
+
+  const hasServer = !isGuestMode && !!accessToken && !isDemoMode;
+
+  useEffect(() => {
+    if (isGuestMode || !accessToken || isDemoMode) {
+      setHistory(buildLocalHistory(vehicleId, fuelEntries, user));
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    fuelService.getVehicleFuelHistory(vehicleId, accessToken).then(result => {
+      if (cancelled) return;
+      if ('error' in result) {
+        setError(result.error);
+      } else {
+        setHistory(result.history);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vehicleId, accessToken, isGuestMode, fuelEntries, user]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (error || !history) {
+    return (
+      <div className="px-6 py-8">
+        <div className="bg-red-500/10 border border-red-400/20 rounded-2xl p-4">
+          <p className="text-red-300 text-sm">{error || 'Vehicle history unavailable'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { summary, fills, vehicle } = history;
+
+  const handlePremiumRequired = async (premiumRequired: boolean | null) => {
+    if (!history.vin || isSavingGrade) return;
+
+    setIsSavingGrade(true);
+    const result = await adminService.updateVehiclePremiumRequired(history.vin, premiumRequired, accessToken!);
+    setIsSavingGrade(false);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setHistory({ ...history, vehicle: result.vehicle });
+    toast.success('Fuel grade saved');
+  };
+
+  return (
+    <div className="flex flex-col h-full px-6 py-6 space-y-6 overflow-y-auto">
+      {/* Vehicle */}
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-5">
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-blue-500/20 rounded-full flex items-center justify-center">
+            <Car className="w-5 h-5 text-blue-400" />
+          </div>
+          <div>
+            <h2 className="text-white font-medium">
+              {vehicle?.valid ? `${vehicle.year} ${vehicle.make} ${vehicle.model}` : history.stock_number || vehicleId}
+            </h2>
+            <p className="text-slate-300 text-sm">
+              {history.stock_number && `Stock ${history.stock_number}`}
+              {history.stock_number && history.vin && ' • '}
+              {history.vin && <span className="font-mono">{history.vin}</span>}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Fuel grade, for the premium fill check */}
+      {hasServer && can(user, 'settings.manage') && vehicle?.valid && vehicleFuel(vehicle) === 'gasoline' && (
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-5">
+          <h3 className="text-white font-medium mb-3 flex items-center">
+            <Fuel className="w-4 h-4 mr-2" />
+            Fuel Grade
+          </h3>
+          <div className="grid grid-cols-3 gap-2">
+            {FUEL_GRADE_OPTIONS.map(option => (
+              <button
+                key={String(option.value)}
+                onClick={() => handlePremiumRequired(option.value)}
+                disabled={isSavingGrade}
+                className={`px-3 py-2 rounded-xl text-xs transition-colors ${
+                  (vehicle.premium_required ?? null) === option.value
+                    ? 'bg-blue-500/20 text-blue-400 border border-blue-400/30'
+                    : 'bg-white/5 text-slate-300 hover:text-white border border-white/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-slate-400 text-xs mt-2">Premium fills are flagged for review only when this is Regular only.</p>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4">
+          <div className="flex items-center mb-2">
+            <div className="w-8 h-8 bg-blue-500/20 rounded-full flex items-center justify-center mr-2">
+              <Gauge className="w-4 h-4 text-blue-400" />
+            </div>
+            <span className="text-slate-300 text-sm">Average MPG</span>
+          </div>
+          <p className="text-white text-xl font-medium">{summary.average_mpg ?? '—'}</p>
+          <p className="text-slate-400 text-xs">{summary.total_miles.toLocaleString()} miles tracked</p>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4">
+          <div className="flex items-center mb-2">
+            <div className="w-8 h-8 bg-green-500/20 rounded-full flex items-center justify-center mr-2">
+              <DollarSign className="w-4 h-4 text-green-400" />
+            </div>
+            <span className="text-slate-300 text-sm">Cost per Mile</span>
+          </div>
+          <p className="text-white text-xl font-medium">
+            {summary.cost_per_mile !== null ? `$${summary.cost_per_mile.toFixed(3)}` : '—'}
+          </p>
+          <p className="text-slate-400 text-xs">${summary.total_cost.toFixed(2)} total</p>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-4">
+          <div className="flex items-center mb-2">
+            <div className="w-8 h-8 bg-purple-500/20 rounded-full flex items-center justify-center mr-2">
+              <Fuel className="w-4 h-4 text-purple-400" />
+            </div>
+            <span className="text-slate-300 text-sm">Fills</span>
+          </div>
+          <p className="text-white text-xl font-medium">{summary.fill_count}</p>
+          <p className="text-slate-400 text-xs">{summary.total_gallons.toFixed(1)} gallons</p>
+        </div>
+
+        <div className={`backdrop-blur-sm rounded-2xl border p-4 ${
+          summary.frequent_fill_count > 0 ? 'bg-amber-500/10 border-amber-400/30' : 'bg-white/10 border-white/20'
+        }`}>
+          <div className="flex items-center mb-2">
+            <div className="w-8 h-8 bg-amber-500/20 rounded-full flex items-center justify-center mr-2">
+              <AlertTriangle className="w-4 h-4 text-amber-400" />
+            </div>
+            <span className="text-slate-300 text-sm">Frequent Fills</span>
+          </div>
+          <p className="text-white text-xl font-medium">{summary.frequent_fill_count}</p>
+          <p className="text-slate-400 text-xs">
+            within {history.frequent_fill_window_hours}h or {history.frequent_fill_min_miles} mi
+          </p>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <div>
+        <h3 className="text-white text-lg mb-4">Fill Timeline</h3>
+        {fills.length === 0 ? (
+          <p className="text-slate-400 text-sm text-center py-8">No fuel entries for this vehicle</p>
+        ) : (
+          <div className="space-y-3">
+            {fills.map(fill => (
+              <div
+                key={fill.entry_id}
+                className={`bg-white/10 backdrop-blur-sm rounded-2xl border p-4 ${
+                  fill.frequent_fill ? 'border-amber-400/40' : 'border-white/20'
+                }`}
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-white text-sm font-medium">
+                      {new Date(fill.timestamp).toLocaleDateString()} at {new Date(fill.timestamp).toLocaleTimeString()}
+                    </p>
+                    <p className="text-slate-400 text-xs">{fill.odometer.toLocaleString()} mi on odometer</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-white font-medium">${fill.total_amount.toFixed(2)}</p>
+                    <p className="text-slate-400 text-xs">{fill.gallons} gal</p>
+                  </div>
+                </div>
+
+                {fill.miles_since_last !== null && (
+                  <div className="flex items-center justify-between mt-3 pt-3 border-t border-white/10 text-xs">
+                    <span className="flex items-center text-slate-300">
+                      <Navigation className="w-3 h-3 mr-1" />
+                      {fill.miles_since_last < 0
+                        ? 'Odometer went backwards'
+                        : `${fill.miles_since_last.toLocaleString()} mi since last fill`}
+                    </span>
+                    <span className="text-slate-300">
+                      {fill.mpg !== null && `${fill.mpg} MPG`}
+                      {fill.mpg !== null && fill.cost_per_mile !== null && ' • '}
+                      {fill.cost_per_mile !== null && `$${fill.cost_per_mile.toFixed(3)}/mi`}
+                    </span>
+                  </div>
+                )}
+
+                {fill.frequent_fill && (
+                  <p className="flex items-center text-amber-300 text-xs mt-2">
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    Refueled {fill.hours_since_last !== null && fill.hours_since_last < history.frequent_fill_window_hours
+                      ? `${fill.hours_since_last}h`
+                      : `${fill.miles_since_last} mi`} after the previous fill
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -62,12 +62,18 @@ export const VehicleIdentification: React.FC<VehicleIdentificationProps> = ({
   }, [vin, accessToken]);
 
   const decodeVin = async (vinToCheck: string) => {
+    // Show make and year from the VIN right away while NHTSA is queried
+    const offlineInfo = vinService.decodeVinOffline(vinToCheck);
+    setVehicleInfo(offlineInfo);
+
     setIsDecodingVin(true);
     try {
       const decoded = await vinService.decodeVin(vinToCheck, accessToken || undefined);
       setVehicleInfo(decoded);
       
-      if (decoded.valid) {
+      if (decoded.source === 'offline') {
+        toast.info(`Offline: identified as ${decoded.year} ${decoded.make}`);
+      } else if (decoded.valid) {
         toast.success(`Vehicle identified: ${decoded.year} ${decoded.make} ${decoded.model}`);
       } else if (decoded.error) {
         toast.warning(decoded.error);
@@ -215,6 +221,11 @@ export const VehicleIdentification: React.FC<VehicleIdentificationProps> = ({
                   {vehicleInfo.trim && (
                     <p className="text-blue-300 text-sm mt-1">Trim: {vehicleInfo.trim}</p>
                   )}
+                  {vehicleInfo.source === 'offline' && (
+                    <p className="text-blue-300/70 text-xs mt-1">
+                      {isDecodingVin ? 'Looking up full details...' : 'Decoded offline - model details unavailable'}
+                    </p>
+                  )}
                   
                   <button
                     onClick={() => setShowVehicleDetails(!showVehicleDetails)}
@@ -232,6 +243,8 @@ export const VehicleIdentification: React.FC<VehicleIdentificationProps> = ({
                       {vehicleInfo.transmission && <div>Transmission: {vehicleInfo.transmission}</div>}
                       {vehicleInfo.body_class && <div>Body: {vehicleInfo.body_class}</div>}
                       {vehicleInfo.manufacturer && <div>Manufacturer: {vehicleInfo.manufacturer}</div>}
+                      {vehicleInfo.plant_country && <div>Built in: {vehicleInfo.plant_country}</div>}
+                      {vehicleInfo.plant_code && <div>Plant Code: {vehicleInfo.plant_code}</div>}
                     </div>
                   )}
                 </div>
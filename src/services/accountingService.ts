@@ -0,0 +1,124 @@
+import { projectId } from '../utils/supabase/info';
+import { mfaService } from './mfaService';
+import { EntryStatus, VehicleCategory } from './fuelService';
+
+// Picks the GL account and department for a fuel entry. Every condition that is set must match.
+export interface GlRule {
+  id: string;
+  stock_number_prefix: string | null;
+  // NHTSA vehicle type of the decoded VIN, e.g. PASSENGER CAR or TRUCK
+  vehicle_type: string | null;
+  vehicle_category: VehicleCategory | null;
+  rooftop_id: string | null;
+  account: string;
+  department: string | null;
+  label: string | null;
+}
+
+export interface GlMapping {
+  // Checked in order; the first match wins
+  rules: GlRule[];
+  default_account: string;
+  default_department: string | null;
+  // The credit side of every journal entry
+  credit_account: string;
+}
+
+export type JournalFormat = 'gl_csv' | 'iif';
+
+export interface JournalOptions {
+  format: JournalFormat;
+  // YYYY-MM-DD, both days included
+  from: string | null;
+  to: string | null;
+  rooftop_id: string | null;
+  user_id: string | null;
+  // Empty posts approved entries only
+  status: EntryStatus[];
+}
+
+class AccountingService {
+  private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
+
+  async getGlMapping(token: string): Promise<{ mapping: GlMapping } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/gl-mapping`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch GL mapping' };
+      }
+
+      return { mapping: data };
+    } catch (error) {
+      console.error('Get GL mapping error:', error);
+      return { error: 'Network error while fetching GL mapping' };
+    }
+  }
+
+  async updateGlMapping(mapping: GlMapping, token: string): Promise<{ mapping: GlMapping } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/gl-mapping`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify(mapping)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update GL mapping' };
+      }
+
+      return { mapping: data };
+    } catch (error) {
+      console.error('Update GL mapping error:', error);
+      return { error: 'Network error while updating GL mapping' };
+    }
+  }
+
+  // Voided entries are never included
+  async exportJournal(options: JournalOptions, token: string): Promise<{ file: Blob; fileName: string } | { error: string }> {
+    const params = new URLSearchParams({ format: options.format });
+    if (options.from) params.set('from', options.from);
+    if (options.to) params.set('to', options.to);
+    if (options.rooftop_id) params.set('rooftop_id', options.rooftop_id);
+    if (options.user_id) params.set('user_id', options.user_id);
+    if (options.status.length > 0) params.set('status', options.status.join(','));
+
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/journal-export?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        return { error: data.error || 'Failed to export journal' };
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1]
+        || `fueltrakr-journal-${new Date().toISOString().split('T')[0]}.${options.format === 'iif' ? 'iif' : 'csv'}`;
+
+      return { file: await response.blob(), fileName };
+    } catch (error) {
+      console.error('Export journal error:', error);
+      return { error: 'Network error while exporting journal' };
+    }
+  }
+}
+
+export const accountingService = new AccountingService();
@@ -1,5 +1,85 @@
 import { projectId } from '../utils/supabase/info';
 import { User } from './authService';
+import { mfaService } from './mfaService';
+import { Role } from '../utils/permissions';
+import { EntryStatus } from './fuelService';
+import { VehicleInfo } from './vinService';
+
+export interface IndexReference {
+  user_id: string;
+  entry_id: string;
+}
+
+export interface IndexRebuildReport {
+  dry_run: boolean;
+  entries_scanned: number;
+  index_keys_scanned: number;
+  unindexed_entries: IndexReference[];
+  dangling_index_keys: IndexReference[];
+  legacy_lists_converted: number;
+  unindexed_vehicle_keys: number;
+  dangling_vehicle_keys: number;
+}
+
+export interface MfaSettings {
+  required_roles: Role[];
+}
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+// Keep in sync with EXPORT_COLUMNS on the edge function
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', label: 'Entry ID' },
+  { key: 'timestamp', label: 'Date/Time' },
+  { key: 'rooftop', label: 'Rooftop' },
+  { key: 'user_name', label: 'User Name' },
+  { key: 'user_email', label: 'User Email' },
+  { key: 'stock_number', label: 'Stock Number' },
+  { key: 'vin', label: 'VIN' },
+  { key: 'vehicle_year', label: 'Vehicle Year' },
+  { key: 'vehicle_make', label: 'Vehicle Make' },
+  { key: 'vehicle_model', label: 'Vehicle Model' },
+  { key: 'vehicle_trim', label: 'Vehicle Trim' },
+  { key: 'vehicle_category', label: 'Vehicle Category' },
+  { key: 'ro_number', label: 'RO Number' },
+  { key: 'purpose', label: 'Purpose' },
+  { key: 'gallons', label: 'Gallons' },
+  { key: 'price_per_gallon', label: 'Price Per Gallon' },
+  { key: 'total_amount', label: 'Total Amount' },
+  { key: 'odometer', label: 'Odometer' },
+  { key: 'fuel_type', label: 'Fuel Type' },
+  { key: 'station_name', label: 'Station' },
+  { key: 'location', label: 'Location' },
+  { key: 'latitude', label: 'Latitude' },
+  { key: 'longitude', label: 'Longitude' },
+  { key: 'gl_account', label: 'GL Account' },
+  { key: 'department', label: 'Department' },
+  { key: 'status', label: 'Status' },
+  { key: 'flag_reasons', label: 'Flags' },
+  { key: 'voided', label: 'Voided' },
+  { key: 'void_reason', label: 'Void Reason' },
+  { key: 'receipt_photo', label: 'Receipt Photo' },
+  { key: 'vin_photo', label: 'VIN Photo' },
+  { key: 'notes', label: 'Notes' }
+];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // YYYY-MM-DD, both days included
+  from: string | null;
+  to: string | null;
+  rooftop_id: string | null;
+  user_id: string | null;
+  // Empty for any status
+  status: EntryStatus[];
+  include_voided: boolean;
+  columns: string[];
+}
 
 class AdminService {
   private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
@@ -8,7 +88,8 @@ class AdminService {
     try {
       const response = await fetch(`${this.baseUrl}/admin/users`, {
         headers: {
-          'Authorization': `Bearer ${token}`
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
         }
       });
 
@@ -27,7 +108,7 @@ class AdminService {
 
   async updateUserRole(
     userId: string, 
-    role: 'admin' | 'porter', 
+    role: Role, 
     token: string
   ): Promise<{ user: User } | { error: string }> {
     try {
@@ -35,7 +116,8 @@ class AdminService {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
         },
         body: JSON.stringify({ role })
       });
@@ -53,12 +135,168 @@ class AdminService {
     }
   }
 
+  // Pass null to take the user off their rooftop
+  async updateUserRooftop(
+    userId: string,
+    rooftopId: string | null,
+    token: string
+  ): Promise<{ user: User } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/users/${userId}/rooftop`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify({ rooftop_id: rooftopId })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update user rooftop' };
+      }
+
+      return { user: data };
+    } catch (error) {
+      console.error('Update user rooftop error:', error);
+      return { error: 'Network error while updating user rooftop' };
+    }
+  }
+
+  // True for vehicles that need premium, false for regular-only, null when not known
+  async updateVehiclePremiumRequired(
+    vin: string,
+    premiumRequired: boolean | null,
+    token: string
+  ): Promise<{ vehicle: VehicleInfo } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/vehicles/${encodeURIComponent(vin)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify({ premium_required: premiumRequired })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update vehicle' };
+      }
+
+      return { vehicle: data };
+    } catch (error) {
+      console.error('Update vehicle error:', error);
+      return { error: 'Network error while updating vehicle' };
+    }
+  }
+
+  // Locks out the current password and emails the user a link to choose a new one
+  async forcePasswordReset(userId: string, token: string): Promise<{ email_sent: boolean } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/users/${userId}/reset-password`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to reset password' };
+      }
+
+      return { email_sent: data.email_sent };
+    } catch (error) {
+      console.error('Force password reset error:', error);
+      return { error: 'Network error while resetting password' };
+    }
+  }
+
+  // Clears the user's authenticator app so they can set up a new one, e.g. after losing their phone
+  async resetUserMfa(userId: string, token: string): Promise<{ success: boolean } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/users/${userId}/mfa/reset`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to reset two-factor authentication' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Reset MFA error:', error);
+      return { error: 'Network error while resetting two-factor authentication' };
+    }
+  }
+
+  async getMfaSettings(token: string): Promise<{ settings: MfaSettings } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/mfa-settings`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch two-factor settings' };
+      }
+
+      return { settings: data };
+    } catch (error) {
+      console.error('Get MFA settings error:', error);
+      return { error: 'Network error while fetching two-factor settings' };
+    }
+  }
+
+  async updateMfaSettings(settings: MfaSettings, token: string): Promise<{ settings: MfaSettings } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/mfa-settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify(settings)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update two-factor settings' };
+      }
+
+      return { settings: data };
+    } catch (error) {
+      console.error('Update MFA settings error:', error);
+      return { error: 'Network error while updating two-factor settings' };
+    }
+  }
+
   async deleteUser(userId: string, token: string): Promise<{ success: boolean } | { error: string }> {
     try {
       const response = await fetch(`${this.baseUrl}/admin/users/${userId}`, {
         method: 'DELETE',
         headers: {
-          'Authorization': `Bearer ${token}`
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
         }
       });
 
@@ -75,31 +313,65 @@ class AdminService {
     }
   }
 
-  async exportData(token: string): Promise<void> {
+  async rebuildIndexes(token: string, dryRun: boolean): Promise<{ report: IndexRebuildReport } | { error: string }> {
     try {
-      const response = await fetch(`${this.baseUrl}/admin/export`, {
+      const response = await fetch(`${this.baseUrl}/admin/rebuild-indexes`, {
+        method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify({ dry_run: dryRun })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to rebuild indexes' };
+      }
+
+      return { report: data };
+    } catch (error) {
+      console.error('Rebuild indexes error:', error);
+      return { error: 'Network error while rebuilding indexes' };
+    }
+  }
+
+  // The file comes back whole, for the caller to save
+  async exportEntries(options: ExportOptions, token: string): Promise<{ file: Blob; fileName: string } | { error: string }> {
+    const params = new URLSearchParams({
+      format: options.format,
+      include_voided: String(options.include_voided),
+      columns: options.columns.join(',')
+    });
+    if (options.from) params.set('from', options.from);
+    if (options.to) params.set('to', options.to);
+    if (options.rooftop_id) params.set('rooftop_id', options.rooftop_id);
+    if (options.user_id) params.set('user_id', options.user_id);
+    if (options.status.length > 0) params.set('status', options.status.join(','));
+
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/export?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
         }
       });
 
       if (!response.ok) {
-        throw new Error('Failed to export data');
+        const data = await response.json().catch(() => ({}));
+        return { error: data.error || 'Failed to export data' };
       }
 
-      // Create download link
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `fueltrakr-export-${new Date().toISOString().split('T')[0]}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1]
+        || `fueltrakr-export-${new Date().toISOString().split('T')[0]}.${options.format}`;
+
+      return { file: await response.blob(), fileName };
     } catch (error) {
       console.error('Export data error:', error);
-      throw new Error('Failed to export data');
+      return { error: 'Network error while exporting data' };
     }
   }
 }
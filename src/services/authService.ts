@@ -1,12 +1,25 @@
 import { supabase } from '../utils/supabase/client'
 import { projectId, publicAnonKey } from '../utils/supabase/info'
 import { isDemoMode, demoUsers, demoCredentials } from '../utils/supabase/demo-config'
+import { Role } from '../utils/permissions'
+import { emailDomainError, isAllowedEmail, organizationService } from './organizationService'
 
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'admin' | 'porter';
+  role: Role;
+  rooftop_id?: string | null;
+  // Only in the admin user list
+  mfa_enabled?: boolean;
+}
+
+// What the reset screen shows before the new password is chosen
+export interface PasswordResetDetails {
+  email: string;
+  // Set when an administrator reset the password rather than the user asking
+  forced: boolean;
+  expires_at: string;
 }
 
 class AuthService {
@@ -15,9 +28,9 @@ class AuthService {
   async signUp(email: string, password: string, name: string): Promise<{ user: User } | { error: string }> {
     // Demo mode - simulate signup
     if (isDemoMode || projectId === 'your-project-id-here') {
-      // Validate Napleton email
-      if (!email.endsWith('@napleton.com')) {
-        return { error: 'Only Napleton email addresses are allowed' };
+      const organization = organizationService.current;
+      if (!isAllowedEmail(email, organization)) {
+        return { error: emailDomainError(organization) };
       }
 
       // In demo mode, just return success
@@ -88,7 +101,7 @@ class AuthService {
         
         // If user doesn't exist, provide helpful message
         if (error.message.includes('Invalid login credentials')) {
-          return { error: 'User account not found. Please contact admin to create your account.' };
+          return { error: 'Incorrect email or password. Use "Forgot password?" to reset it, or ask an admin for an invite.' };
         }
         
         return { error: error.message };
@@ -101,34 +114,132 @@ class AuthService {
 
       console.log('✅ Supabase auth successful, fetching profile...');
 
-      // Get user profile from backend
-      const profileResponse = await fetch(`${this.baseUrl}/profile`, {
+      return await this.loadProfile(data.session.access_token);
+    } catch (error) {
+      console.error('❌ Sign in network error:', error);
+      return { error: 'Network error during sign in' };
+    }
+  }
+
+  // Finish a sign-in the server has already verified (passkeys) by exchanging its one-time token for a session
+  async signInWithLoginToken(tokenHash: string): Promise<{ user: User; token: string } | { error: string }> {
+    try {
+      const { data, error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: 'magiclink' });
+
+      if (error || !data.session) {
+        console.error('❌ Login token exchange failed:', error?.message);
+        return { error: 'Sign in failed. Please try again.' };
+      }
+
+      return await this.loadProfile(data.session.access_token);
+    } catch (error) {
+      console.error('❌ Sign in network error:', error);
+      return { error: 'Network error during sign in' };
+    }
+  }
+
+  // Get the user profile from the backend for a new session
+  private async loadProfile(accessToken: string): Promise<{ user: User; token: string } | { error: string }> {
+    const profileResponse = await fetch(`${this.baseUrl}/profile`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`
+      }
+    });
+
+    if (!profileResponse.ok) {
+      const errorText = await profileResponse.text();
+      console.error('❌ Profile fetch failed:', profileResponse.status, errorText);
+      
+      if (profileResponse.status === 404) {
+        return { error: 'User profile not found. Please contact admin.' };
+      }
+      
+      return { error: 'Failed to fetch user profile' };
+    }
+
+    const profile = await profileResponse.json();
+    console.log('✅ Profile fetched successfully:', profile.email);
+
+    return {
+      user: profile,
+      token: accessToken
+    };
+  }
+
+  // The server answers the same way whether or not the account exists
+  async requestPasswordReset(email: string): Promise<{ message: string } | { error: string }> {
+    if (isDemoMode || projectId === 'your-project-id-here') {
+      return { error: 'Password reset is not available in demo mode' };
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/password-reset/request`, {
+        method: 'POST',
         headers: {
-          'Authorization': `Bearer ${data.session.access_token}`
-        }
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`
+        },
+        body: JSON.stringify({ email })
       });
 
-      if (!profileResponse.ok) {
-        const errorText = await profileResponse.text();
-        console.error('❌ Profile fetch failed:', profileResponse.status, errorText);
-        
-        if (profileResponse.status === 404) {
-          return { error: 'User profile not found. Please contact admin.' };
-        }
-        
-        return { error: 'Failed to fetch user profile' };
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to request password reset' };
       }
 
-      const profile = await profileResponse.json();
-      console.log('✅ Profile fetched successfully:', profile.email);
+      return { message: data.message };
+    } catch (error) {
+      console.error('Request password reset error:', error);
+      return { error: 'Network error while requesting password reset' };
+    }
+  }
 
-      return {
-        user: profile,
-        token: data.session.access_token
-      };
+  async lookupPasswordReset(resetToken: string): Promise<{ reset: PasswordResetDetails } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/password-reset/lookup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`
+        },
+        body: JSON.stringify({ token: resetToken })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to look up reset link' };
+      }
+
+      return { reset: data };
     } catch (error) {
-      console.error('❌ Sign in network error:', error);
-      return { error: 'Network error during sign in' };
+      console.error('Lookup password reset error:', error);
+      return { error: 'Network error while checking reset link' };
+    }
+  }
+
+  async completePasswordReset(resetToken: string, password: string): Promise<{ email: string } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/password-reset/complete`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`
+        },
+        body: JSON.stringify({ token: resetToken, password })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to reset password' };
+      }
+
+      return { email: data.email };
+    } catch (error) {
+      console.error('Complete password reset error:', error);
+      return { error: 'Network error while resetting password' };
     }
   }
 
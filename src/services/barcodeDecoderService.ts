@@ -0,0 +1,98 @@
+import { prepareZXingModule, readBarcodes, ReadInputBarcodeFormat } from 'zxing-wasm/reader';
+// Bundled with the app so decoding works offline and without a CDN
+import zxingWasmUrl from 'zxing-wasm/reader/zxing_reader.wasm?url';
+
+// Formats used on VIN labels (door jamb, windshield) and on receipts
+export type BarcodeFormat = 'code_39' | 'data_matrix' | 'code_128' | 'ean_13' | 'ean_8' | 'upc_a' | 'upc_e' | 'itf';
+
+export interface DecodedBarcode {
+  format: BarcodeFormat;
+  text: string;
+}
+
+// The Shape Detection API isn't in TypeScript's DOM types yet
+interface NativeBarcodeDetector {
+  detect(source: ImageBitmapSource): Promise<{ rawValue: string; format: string }[]>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const ZXING_FORMATS: Record<BarcodeFormat, ReadInputBarcodeFormat> = {
+  code_39: 'Code39',
+  data_matrix: 'DataMatrix',
+  code_128: 'Code128',
+  ean_13: 'EAN13',
+  ean_8: 'EAN8',
+  upc_a: 'UPCA',
+  upc_e: 'UPCE',
+  itf: 'ITF'
+};
+
+const fromZxingFormat = (format: string): BarcodeFormat | null => {
+  const entry = Object.entries(ZXING_FORMATS).find(([, zxingFormat]) => zxingFormat === format);
+  return entry ? entry[0] as BarcodeFormat : null;
+};
+
+class BarcodeDecoderService {
+  private nativeDetectors = new Map<string, Promise<NativeBarcodeDetector | null>>();
+  private isZxingPrepared = false;
+
+  // Use the browser's detector only when it supports every requested format
+  private getNativeDetector(formats: BarcodeFormat[]): Promise<NativeBarcodeDetector | null> {
+    const key = formats.join(',');
+    if (!this.nativeDetectors.has(key)) {
+      this.nativeDetectors.set(key, (async () => {
+        const Detector = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+        if (!Detector) return null;
+
+        try {
+          const supported = await Detector.getSupportedFormats();
+          if (!formats.every(format => supported.includes(format))) return null;
+          return new Detector({ formats });
+        } catch (error) {
+          console.log('BarcodeDetector unavailable, using WASM decoder:', error);
+          return null;
+        }
+      })());
+    }
+    return this.nativeDetectors.get(key)!;
+  }
+
+  private prepareZxing() {
+    if (this.isZxingPrepared) return;
+    prepareZXingModule({
+      overrides: {
+        locateFile: (path: string, prefix: string) => path.endsWith('.wasm') ? zxingWasmUrl : prefix + path
+      }
+    });
+    this.isZxingPrepared = true;
+  }
+
+  async decode(image: ImageData, formats: BarcodeFormat[]): Promise<DecodedBarcode[]> {
+    const detector = await this.getNativeDetector(formats);
+
+    if (detector) {
+      const barcodes = await detector.detect(image);
+      return barcodes
+        .filter(barcode => formats.includes(barcode.format as BarcodeFormat))
+        .map(barcode => ({ format: barcode.format as BarcodeFormat, text: barcode.rawValue }));
+    }
+
+    this.prepareZxing();
+    const results = await readBarcodes(image, {
+      formats: formats.map(format => ZXING_FORMATS[format]),
+      tryHarder: true,
+      maxNumberOfSymbols: 4
+    });
+
+    return results.flatMap(result => {
+      const format = fromZxingFormat(result.format);
+      return result.isValid && format ? [{ format, text: result.text }] : [];
+    });
+  }
+}
+
+export const barcodeDecoderService = new BarcodeDecoderService();
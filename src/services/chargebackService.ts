@@ -0,0 +1,200 @@
+import { projectId } from '../utils/supabase/info';
+import { mfaService } from './mfaService';
+
+export interface ChargebackSettings {
+  // Regular expression the whole RO number must match, ignoring case. Null accepts any RO number.
+  ro_number_pattern: string | null;
+  ro_number_example: string | null;
+  // Operation code the fuel lines are billed under
+  op_code: string;
+}
+
+export type ChargebackStatus = 'open' | 'billed';
+
+export interface ChargebackLine {
+  entry_id: string;
+  timestamp: string;
+  // YYYY-MM-DD at the rooftop
+  date: string;
+  stock_number: string | null;
+  vin: string | null;
+  vehicle: string | null;
+  gallons: number;
+  price_per_gallon: number;
+  total_amount: number;
+  fuel_type: string | null;
+  user_name: string | null;
+  status: string;
+  billed_at: string | null;
+}
+
+// The fills charged to one repair order at one rooftop
+export interface RoChargeback {
+  ro_number: string;
+  rooftop_id: string | null;
+  rooftop_name: string | null;
+  lines: ChargebackLine[];
+  gallons: number;
+  total_amount: number;
+  first_fill: string;
+  last_fill: string;
+}
+
+export interface ChargebackOptions {
+  billing: ChargebackStatus;
+  // YYYY-MM-DD, both days included
+  from: string | null;
+  to: string | null;
+  rooftop_id: string | null;
+}
+
+export const MAX_RO_NUMBER_LENGTH = 20;
+
+// Same rule as chargebacks.tsx on the edge function, so the form can stop a bad RO number before it's sent
+export const roNumberProblem = (settings: ChargebackSettings | null | undefined, roNumber: string): string | null => {
+  const ro = roNumber.trim().toUpperCase();
+  if (!ro) return null;
+  if (ro.length > MAX_RO_NUMBER_LENGTH) return `RO numbers can be at most ${MAX_RO_NUMBER_LENGTH} characters`;
+  if (!settings?.ro_number_pattern) return null;
+  try {
+    if (new RegExp(`^(?:${settings.ro_number_pattern})$`, 'i').test(ro)) return null;
+  } catch {
+    return null;
+  }
+  return `RO number ${ro} doesn't match the RO format` + (settings.ro_number_example ? ` (like ${settings.ro_number_example})` : '');
+};
+
+class ChargebackService {
+  private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
+
+  private params(options: ChargebackOptions) {
+    const params = new URLSearchParams({ billing: options.billing });
+    if (options.from) params.set('from', options.from);
+    if (options.to) params.set('to', options.to);
+    if (options.rooftop_id) params.set('rooftop_id', options.rooftop_id);
+    return params;
+  }
+
+  async getSettings(token: string): Promise<{ settings: ChargebackSettings } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/chargeback-settings`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch chargeback settings' };
+      }
+
+      return { settings: data };
+    } catch (error) {
+      console.error('Get chargeback settings error:', error);
+      return { error: 'Network error while fetching chargeback settings' };
+    }
+  }
+
+  async updateSettings(settings: ChargebackSettings, token: string): Promise<{ settings: ChargebackSettings } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/chargeback-settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify(settings)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update chargeback settings' };
+      }
+
+      return { settings: data };
+    } catch (error) {
+      console.error('Update chargeback settings error:', error);
+      return { error: 'Network error while updating chargeback settings' };
+    }
+  }
+
+  // Oldest first. Voided and rejected fills are never charged back.
+  async getChargebacks(options: ChargebackOptions, token: string): Promise<{ chargebacks: RoChargeback[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/chargebacks?${this.params(options)}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch chargebacks' };
+      }
+
+      return { chargebacks: data };
+    } catch (error) {
+      console.error('Get chargebacks error:', error);
+      return { error: 'Network error while fetching chargebacks' };
+    }
+  }
+
+  // One line per fill, for the service department's billing import
+  async exportChargebacks(options: ChargebackOptions, token: string): Promise<{ file: Blob; fileName: string } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/chargebacks/export?${this.params(options)}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        return { error: data.error || 'Failed to export chargebacks' };
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1]
+        || `fueltrakr-chargebacks-${new Date().toISOString().split('T')[0]}.csv`;
+
+      return { file: await response.blob(), fileName };
+    } catch (error) {
+      console.error('Export chargebacks error:', error);
+      return { error: 'Network error while exporting chargebacks' };
+    }
+  }
+
+  // Mark fills billed once they're on the RO, or reopen them. Returns the ids that changed.
+  async setBilled(entryIds: string[], billed: boolean, token: string): Promise<{ updated: string[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/chargebacks/billing`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify({ entry_ids: entryIds, billed })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update chargeback billing' };
+      }
+
+      return { updated: data.updated };
+    } catch (error) {
+      console.error('Update chargeback billing error:', error);
+      return { error: 'Network error while updating chargeback billing' };
+    }
+  }
+}
+
+export const chargebackService = new ChargebackService();
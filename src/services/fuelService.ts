@@ -1,5 +1,104 @@
 import { projectId, publicAnonKey } from '../utils/supabase/info';
 import { isDemoMode } from '../utils/supabase/demo-config';
+import { VehicleInfo } from './vinService';
+import { mfaService } from './mfaService';
+import type { FuelHistoryFill, FuelHistorySummary } from '../utils/fuelHistory';
+
+// Set by the edge function's fraud checks when an entry is created or edited
+export type FlagReason =
+  | 'odometer_regression'
+  | 'exceeds_tank_capacity'
+  | 'frequent_fill'
+  | 'amount_mismatch'
+  | 'stock_number_format'
+  | 'outside_geofence'
+  | 'no_location'
+  | 'fuel_type_mismatch'
+  | 'premium_fuel';
+
+export type EntryStatus = 'submitted' | 'approved' | 'rejected' | 'needs_info';
+
+export type ReviewDecision = Exclude<EntryStatus, 'submitted'>;
+
+// Why the vehicle was fueled. Keep in sync with purpose.tsx on the edge function.
+export type FuelPurpose = 'delivery' | 'demo' | 'loaner' | 'service' | 'dealer_trade' | 'transport' | 'other';
+
+export const PURPOSE_LABELS: Record<FuelPurpose, string> = {
+  delivery: 'Customer delivery',
+  demo: 'Demo / test drive',
+  loaner: 'Loaner fleet',
+  service: 'Service customer',
+  dealer_trade: 'Dealer trade',
+  transport: 'Transport / auction',
+  other: 'Other'
+};
+
+export type VehicleCategory = 'new' | 'used' | 'loaner' | 'service_customer';
+
+export const VEHICLE_CATEGORY_LABELS: Record<VehicleCategory, string> = {
+  new: 'New',
+  used: 'Used',
+  loaner: 'Loaner',
+  service_customer: 'Service customer'
+};
+
+// The grade pumped. Keep in sync with fuel_type.tsx on the edge function.
+export type FuelType = 'regular' | 'midgrade' | 'premium' | 'diesel' | 'e85';
+
+export const FUEL_TYPE_LABELS: Record<FuelType, string> = {
+  regular: 'Regular',
+  midgrade: 'Mid-grade',
+  premium: 'Premium',
+  diesel: 'Diesel',
+  e85: 'E85'
+};
+
+// What the engine burns, from the decoded primary fuel type; null when it can't be told
+export const vehicleFuel = (vehicle?: Pick<VehicleInfo, 'fuel_type'> | null): 'gasoline' | 'diesel' | null => {
+  const decoded = vehicle?.fuel_type || '';
+  if (/diesel/i.test(decoded)) return 'diesel';
+  if (/gasoline|flexible fuel|ffv/i.test(decoded)) return 'gasoline';
+  return null;
+};
+
+export const isFuelTypeMismatch = (fuelType: FuelType, vehicle?: VehicleInfo | null) => {
+  const fuel = vehicleFuel(vehicle);
+  if (!fuel) return false;
+  return fuel === 'diesel' ? fuelType !== 'diesel' : fuelType === 'diesel';
+};
+
+// Premium in a gasoline vehicle an admin has marked as regular-only. The server flags these for review.
+export const isUnneededPremium = (fuelType: FuelType, vehicle?: VehicleInfo | null) =>
+  fuelType === 'premium' && vehicleFuel(vehicle) === 'gasoline' && vehicle?.premium_required === false;
+
+export const defaultFuelType = (vehicle?: VehicleInfo | null): FuelType => {
+  if (vehicleFuel(vehicle) === 'diesel') return 'diesel';
+  return vehicle?.premium_required === true ? 'premium' : 'regular';
+};
+
+export interface EntryStatusChange {
+  status: EntryStatus;
+  note: string | null;
+  user_id: string | null;
+  user_name: string;
+  automatic: boolean;
+  created_at: string;
+}
+
+export interface ApprovalSettings {
+  auto_approve_enabled: boolean;
+  max_auto_approve_amount: number;
+  max_auto_approve_gallons: number;
+  auto_approve_flag_reasons: FlagReason[];
+}
+
+// Keep in sync with DEFAULT_APPROVAL_SETTINGS on the edge function
+export const DEFAULT_APPROVAL_SETTINGS: ApprovalSettings = {
+  auto_approve_enabled: true,
+  max_auto_approve_amount: 150,
+  max_auto_approve_gallons: 40,
+  auto_approve_flag_reasons: []
+};
 
 export interface FuelEntry {
   id: string;
@@ -11,6 +110,7 @@ export interface FuelEntry {
   total_amount: number;
   odometer: number;
   fuel_type: string;
+  station_name?: string;
   location: string;
   latitude?: number;
   longitude?: number;
@@ -19,6 +119,32 @@ export interface FuelEntry {
   notes?: string;
   timestamp: string;
   created_at: string;
+  updated_at?: string;
+  voided?: boolean;
+  voided_at?: string;
+  voided_by?: string;
+  void_reason?: string;
+  revision_count?: number;
+  flagged?: boolean;
+  flag_reasons?: FlagReason[];
+  status?: EntryStatus;
+  status_history?: EntryStatusChange[];
+  // Null on entries recorded before purposes were tracked
+  purpose?: FuelPurpose | null;
+  vehicle_category?: VehicleCategory | null;
+  // Repair order the fill is charged back to, for service customer vehicles
+  ro_number?: string | null;
+  chargeback_billed_at?: string | null;
+}
+
+export interface FuelEntryRevision {
+  revision: number;
+  action: 'edit' | 'void';
+  reason: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  user_id: string;
+  user_name: string;
+  created_at: string;
 }
 
 export interface CreateFuelEntryData {
@@ -28,7 +154,8 @@ export interface CreateFuelEntryData {
   price_per_gallon: number;
   total_amount: number;
   odometer: number;
-  fuel_type: string;
+  fuel_type: FuelType;
+  station_name?: string;
   location: string;
   latitude?: number;
   longitude?: number;
@@ -36,15 +163,58 @@ export interface CreateFuelEntryData {
   vin_photo?: string;
   notes?: string;
   timestamp: string;
+  purpose?: FuelPurpose | null;
+  // Suggested from the stock number by the server when left out
+  vehicle_category?: VehicleCategory | null;
+  ro_number?: string | null;
+  // The outbox item's id; the server returns the saved entry instead of a duplicate when it's resent
+  client_id?: string;
+}
+
+export type UpdateFuelEntryData = Partial<Omit<CreateFuelEntryData, 'latitude' | 'longitude' | 'receipt_photo' | 'vin_photo' | 'client_id'>>;
+
+// Computed on the client for entries that never reach the server, so the types live with that copy
+export type { FuelHistoryFill, FuelHistorySummary };
+
+export interface VehicleFuelHistory {
+  vehicle_id: string;
+  stock_number: string | null;
+  vin: string | null;
+  vehicle: VehicleInfo | null;
+  frequent_fill_window_hours: number;
+  frequent_fill_min_miles: number;
+  fills: FuelHistoryFill[];
+  summary: FuelHistorySummary;
 }
 
+// Filters for GET /fuel-entries. Dates are ISO strings; a bare YYYY-MM-DD `to` includes that whole day.
+// Porters only ever get their own entries, so `user_id` is for admins.
+export interface FuelEntryQuery {
+  from?: string;
+  to?: string;
+  user_id?: string;
+  stock_number?: string;
+  vin?: string;
+  search?: string;
+  min_amount?: number;
+  max_amount?: number;
+  status?: EntryStatus[];
+  flagged?: boolean;
+  include_voided?: boolean;
+  limit?: number;
+}
+
+// Porters can edit or void their own entries for this long after submitting.
+// Keep in sync with ENTRY_EDIT_WINDOW_HOURS on the edge function.
+export const ENTRY_EDIT_WINDOW_HOURS = 24;
+
 class FuelService {
   private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
 
   async createFuelEntry(
     entryData: CreateFuelEntryData, 
     token: string
-  ): Promise<{ entry: FuelEntry } | { error: string }> {
+  ): Promise<{ entry: FuelEntry } | { error: string; networkError?: boolean }> {
     // Demo mode - simulate creating entry
     if (isDemoMode || projectId === 'your-project-id-here') {
       const mockEntry: FuelEntry = {
@@ -89,13 +259,24 @@ class FuelService {
       return { entry: data };
     } catch (error) {
       console.error('Create fuel entry error:', error);
-      return { error: 'Network error while creating fuel entry' };
+      return { error: 'Network error while creating fuel entry', networkError: true };
     }
   }
 
-  async getFuelEntries(token: string): Promise<{ entries: FuelEntry[] } | { error: string }> {
+  async getFuelEntries(
+    token: string,
+    query: FuelEntryQuery = {},
+    cursor?: string | null
+  ): Promise<{ entries: FuelEntry[]; nextCursor: string | null } | { error: string }> {
     try {
-      const response = await fetch(`${this.baseUrl}/fuel-entries`, {
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([key, value]) => {
+        if (value === undefined || value === null || value === '') return;
+        params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+      });
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`${this.baseUrl}/fuel-entries?${params.toString()}`, {
         headers: {
           'Authorization': `Bearer ${token}`
         }
@@ -107,17 +288,234 @@ class FuelService {
         return { error: data.error || 'Failed to fetch fuel entries' };
       }
 
-      return { entries: data };
+      return { entries: data.entries, nextCursor: data.next_cursor };
     } catch (error) {
       console.error('Get fuel entries error:', error);
       return { error: 'Network error while fetching fuel entries' };
     }
   }
 
+  async updateFuelEntry(
+    entryId: string,
+    changes: UpdateFuelEntryData,
+    reason: string,
+    token: string
+  ): Promise<{ entry: FuelEntry; revision: FuelEntryRevision } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/fuel-entries/${entryId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ changes, reason })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update fuel entry' };
+      }
+
+      return { entry: data.entry, revision: data.revision };
+    } catch (error) {
+      console.error('Update fuel entry error:', error);
+      return { error: 'Network error while updating fuel entry' };
+    }
+  }
+
+  async voidFuelEntry(
+    entryId: string,
+    reason: string,
+    token: string
+  ): Promise<{ entry: FuelEntry; revision: FuelEntryRevision } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/fuel-entries/${entryId}/void`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ reason })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to void fuel entry' };
+      }
+
+      return { entry: data.entry, revision: data.revision };
+    } catch (error) {
+      console.error('Void fuel entry error:', error);
+      return { error: 'Network error while voiding fuel entry' };
+    }
+  }
+
+  async reviewFuelEntry(
+    entryId: string,
+    decision: ReviewDecision,
+    note: string,
+    token: string
+  ): Promise<{ entry: FuelEntry } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/fuel-entries/${entryId}/review`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ decision, note })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to review fuel entry' };
+      }
+
+      return { entry: data.entry };
+    } catch (error) {
+      console.error('Review fuel entry error:', error);
+      return { error: 'Network error while reviewing fuel entry' };
+    }
+  }
+
+  async respondToInfoRequest(
+    entryId: string,
+    responseText: string,
+    token: string
+  ): Promise<{ entry: FuelEntry } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/fuel-entries/${entryId}/respond`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ response: responseText })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to send response' };
+      }
+
+      return { entry: data.entry };
+    } catch (error) {
+      console.error('Respond to info request error:', error);
+      return { error: 'Network error while sending response' };
+    }
+  }
+
+  async getApprovalSettings(token: string): Promise<{ settings: ApprovalSettings } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/approval-settings`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch approval settings' };
+      }
+
+      return { settings: data };
+    } catch (error) {
+      console.error('Get approval settings error:', error);
+      return { error: 'Network error while fetching approval settings' };
+    }
+  }
+
+  async updateApprovalSettings(
+    settings: Partial<ApprovalSettings>,
+    token: string
+  ): Promise<{ settings: ApprovalSettings } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/approval-settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify(settings)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update approval settings' };
+      }
+
+      return { settings: data };
+    } catch (error) {
+      console.error('Update approval settings error:', error);
+      return { error: 'Network error while updating approval settings' };
+    }
+  }
+
+  async getEntryRevisions(
+    entryId: string,
+    token: string
+  ): Promise<{ revisions: FuelEntryRevision[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/fuel-entries/${entryId}/revisions`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch entry history' };
+      }
+
+      return { revisions: data };
+    } catch (error) {
+      console.error('Get entry revisions error:', error);
+      return { error: 'Network error while fetching entry history' };
+    }
+  }
+
+  async getVehicleFuelHistory(
+    vehicleId: string,
+    token: string
+  ): Promise<{ history: VehicleFuelHistory } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/vehicles/${encodeURIComponent(vehicleId)}/fuel-history`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch vehicle history' };
+      }
+
+      return { history: data };
+    } catch (error) {
+      console.error('Get vehicle fuel history error:', error);
+      return { error: 'Network error while fetching vehicle history' };
+    }
+  }
+
   async uploadPhoto(
     photo: File, 
     token: string
-  ): Promise<{ url: string; path: string } | { error: string }> {
+  ): Promise<{ url: string; path: string } | { error: string; networkError?: boolean }> {
+    // Demo mode - keep the photo in the browser
+    if (isDemoMode || projectId === 'your-project-id-here') {
+      return { url: URL.createObjectURL(photo), path: `demo/${photo.name}` };
+    }
+
     try {
       const formData = new FormData();
       formData.append('photo', photo);
@@ -139,7 +537,7 @@ class FuelService {
       return { url: data.url, path: data.path };
     } catch (error) {
       console.error('Upload photo error:', error);
-      return { error: 'Network error while uploading photo' };
+      return { error: 'Network error while uploading photo', networkError: true };
     }
   }
 }
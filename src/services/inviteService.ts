@@ -0,0 +1,193 @@
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { User } from './authService';
+import { mfaService } from './mfaService';
+
+export type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface Invite {
+  id: string;
+  email: string;
+  name: string;
+  role: User['role'];
+  rooftop_id: string | null;
+  status: InviteStatus;
+  created_by: string;
+  created_by_name: string;
+  created_at: string;
+  expires_at: string;
+  resent_at?: string;
+  send_count: number;
+  accepted_at?: string;
+  accepted_user_id?: string;
+  revoked_at?: string;
+  revoked_by?: string;
+}
+
+export interface NewInvite {
+  email: string;
+  name: string;
+  role: User['role'];
+  rooftop_id: string | null;
+}
+
+// What the invitee sees before choosing a password
+export interface InviteDetails {
+  email: string;
+  name: string;
+  role: User['role'];
+  // The rooftop's name
+  rooftop: string | null;
+  expires_at: string;
+}
+
+class InviteService {
+  private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
+
+  // The token is only returned when an invite is created or resent, for sharing the link when the email doesn't arrive
+  buildInviteLink(token: string): string {
+    return `${window.location.origin}${window.location.pathname}?invite=${encodeURIComponent(token)}`;
+  }
+
+  async createInvite(invite: NewInvite, token: string): Promise<{ invite: Invite; token: string; email_sent: boolean } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/invites`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify(invite)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to create invite' };
+      }
+
+      return { invite: data.invite, token: data.token, email_sent: data.email_sent };
+    } catch (error) {
+      console.error('Create invite error:', error);
+      return { error: 'Network error while creating invite' };
+    }
+  }
+
+  async getInvites(token: string): Promise<{ invites: Invite[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/invites`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch invites' };
+      }
+
+      return { invites: data };
+    } catch (error) {
+      console.error('Get invites error:', error);
+      return { error: 'Network error while fetching invites' };
+    }
+  }
+
+  async resendInvite(inviteId: string, token: string): Promise<{ invite: Invite; token: string; email_sent: boolean } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/invites/${inviteId}/resend`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to resend invite' };
+      }
+
+      return { invite: data.invite, token: data.token, email_sent: data.email_sent };
+    } catch (error) {
+      console.error('Resend invite error:', error);
+      return { error: 'Network error while resending invite' };
+    }
+  }
+
+  async revokeInvite(inviteId: string, token: string): Promise<{ invite: Invite } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/invites/${inviteId}/revoke`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to revoke invite' };
+      }
+
+      return { invite: data.invite };
+    } catch (error) {
+      console.error('Revoke invite error:', error);
+      return { error: 'Network error while revoking invite' };
+    }
+  }
+
+  async lookupInvite(inviteToken: string): Promise<{ invite: InviteDetails } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/invites/lookup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`
+        },
+        body: JSON.stringify({ token: inviteToken })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to look up invite' };
+      }
+
+      return { invite: data };
+    } catch (error) {
+      console.error('Lookup invite error:', error);
+      return { error: 'Network error while looking up invite' };
+    }
+  }
+
+  async acceptInvite(inviteToken: string, password: string): Promise<{ user: User } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/invites/accept`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`
+        },
+        body: JSON.stringify({ token: inviteToken, password })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to accept invite' };
+      }
+
+      return { user: data.user };
+    } catch (error) {
+      console.error('Accept invite error:', error);
+      return { error: 'Network error while accepting invite' };
+    }
+  }
+}
+
+export const inviteService = new InviteService();
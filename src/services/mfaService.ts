@@ -0,0 +1,232 @@
+import { prepareZXingModule, writeBarcode } from 'zxing-wasm/writer';
+// Bundled with the app like the reader in barcodeDecoderService
+import zxingWriterWasmUrl from 'zxing-wasm/writer/zxing_writer.wasm?url';
+import { projectId } from '../utils/supabase/info';
+import { isDemoMode } from '../utils/supabase/demo-config';
+
+export interface MfaStatus {
+  enabled: boolean;
+  // The user's role must use a second factor for admin features
+  required: boolean;
+  // This browser holds a valid MFA token
+  verified: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+  locked_until: string | null;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauth_url: string;
+}
+
+// What sign-in still needs before the user is let in
+export type MfaStep = 'enroll' | 'verify';
+
+export type MfaCredential = { code: string } | { recovery_code: string };
+
+// Survives reloads but not closing the tab, like the second factor in most banking apps
+const MFA_TOKEN_KEY = 'fueltrakr-mfa-token';
+
+class MfaService {
+  private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
+  private isWriterPrepared = false;
+
+  // Sent with every /admin request; the server refuses admin routes without it when MFA applies
+  headers(): Record<string, string> {
+    const token = sessionStorage.getItem(MFA_TOKEN_KEY);
+    return token ? { 'X-MFA-Token': token } : {};
+  }
+
+  clearToken() {
+    sessionStorage.removeItem(MFA_TOKEN_KEY);
+  }
+
+  private saveToken(mfaToken: string) {
+    sessionStorage.setItem(MFA_TOKEN_KEY, mfaToken);
+  }
+
+  async getStatus(token: string): Promise<{ status: MfaStatus } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/mfa/status`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...this.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch two-factor status' };
+      }
+
+      return { status: data };
+    } catch (error) {
+      console.error('Get MFA status error:', error);
+      return { error: 'Network error while fetching two-factor status' };
+    }
+  }
+
+  // Null when the user can go straight in; demo mode has no server to ask
+  async getSignInStep(token: string): Promise<MfaStep | null> {
+    if (isDemoMode) {
+      return null;
+    }
+
+    const result = await this.getStatus(token);
+    if ('error' in result) {
+      return null;
+    }
+
+    const { status } = result;
+    if (status.enabled) {
+      return status.verified ? null : 'verify';
+    }
+    return status.required ? 'enroll' : null;
+  }
+
+  async startEnrollment(token: string): Promise<{ enrollment: MfaEnrollment } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/mfa/enroll`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to start two-factor setup' };
+      }
+
+      return { enrollment: data };
+    } catch (error) {
+      console.error('Start MFA enrollment error:', error);
+      return { error: 'Network error while starting two-factor setup' };
+    }
+  }
+
+  async confirmEnrollment(code: string, token: string): Promise<{ recoveryCodes: string[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/mfa/enroll/confirm`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ code })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to finish two-factor setup' };
+      }
+
+      this.saveToken(data.mfa_token);
+      return { recoveryCodes: data.recovery_codes };
+    } catch (error) {
+      console.error('Confirm MFA enrollment error:', error);
+      return { error: 'Network error while finishing two-factor setup' };
+    }
+  }
+
+  async verify(credential: MfaCredential, token: string): Promise<{ recoveryCodesRemaining: number } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/mfa/verify`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(credential)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.locked_until) {
+          return { error: `Too many wrong codes. Try again after ${new Date(data.locked_until).toLocaleTimeString()}.` };
+        }
+        return { error: data.error || 'Failed to verify code' };
+      }
+
+      this.saveToken(data.mfa_token);
+      return { recoveryCodesRemaining: data.recovery_codes_remaining };
+    } catch (error) {
+      console.error('Verify MFA error:', error);
+      return { error: 'Network error while verifying code' };
+    }
+  }
+
+  async regenerateRecoveryCodes(token: string): Promise<{ recoveryCodes: string[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/mfa/recovery-codes`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...this.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to create recovery codes' };
+      }
+
+      return { recoveryCodes: data.recovery_codes };
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      return { error: 'Network error while creating recovery codes' };
+    }
+  }
+
+  async disable(token: string): Promise<{ success: boolean } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/mfa`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...this.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to turn off two-factor authentication' };
+      }
+
+      this.clearToken();
+      return { success: true };
+    } catch (error) {
+      console.error('Disable MFA error:', error);
+      return { error: 'Network error while turning off two-factor authentication' };
+    }
+  }
+
+  // The otpauth:// link as an SVG QR code for authenticator apps to scan
+  async renderQrCode(otpauthUrl: string): Promise<string | null> {
+    if (!this.isWriterPrepared) {
+      prepareZXingModule({
+        overrides: {
+          locateFile: (path: string, prefix: string) => path.endsWith('.wasm') ? zxingWriterWasmUrl : prefix + path
+        }
+      });
+      this.isWriterPrepared = true;
+    }
+
+    try {
+      const result = await writeBarcode(otpauthUrl, { format: 'QRCode' });
+      return result.error ? null : result.svg;
+    } catch (error) {
+      console.error('Render QR code error:', error);
+      return null;
+    }
+  }
+}
+
+export const mfaService = new MfaService();
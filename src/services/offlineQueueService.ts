@@ -0,0 +1,277 @@
+import { fuelService, CreateFuelEntryData, FuelEntry } from './fuelService';
+import { afterFailedAttempt, isDueForRetry, OutboxStatus } from '../utils/outboxRetry';
+
+const DB_NAME = 'fueltrakr-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+export type { OutboxStatus };
+
+export interface OutboxItem {
+  id: string;
+  user_id: string;
+  user_name: string;
+  data: CreateFuelEntryData;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_error?: string;
+  created_at: string;
+}
+
+type OutboxListener = (item: OutboxItem, syncedEntry?: FuelEntry) => void;
+
+type SubmitResult =
+  | { entry: FuelEntry }
+  | { queued: OutboxItem }
+  | { error: string; item: OutboxItem };
+
+class OfflineQueueService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private token: string | null = null;
+  private userId: string | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private isFlushing = false;
+
+  private handleOnline = () => {
+    this.flush(true);
+  };
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async save(item: OutboxItem, syncedEntry?: FuelEntry): Promise<void> {
+    await this.runRequest('readwrite', store => store.put(item));
+    this.notify(item, syncedEntry);
+  }
+
+  private notify(item: OutboxItem, syncedEntry?: FuelEntry) {
+    this.listeners.forEach(listener => listener(item, syncedEntry));
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async getAllItems(): Promise<OutboxItem[]> {
+    try {
+      const items = await this.runRequest<OutboxItem[]>('readonly', store => store.getAll());
+      return items.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    } catch (error) {
+      console.error('Read outbox error:', error);
+      return [];
+    }
+  }
+
+  // The device can be shared, so each user only sees and sends their own entries
+  async getItems(userId: string): Promise<OutboxItem[]> {
+    return (await this.getAllItems()).filter(item => item.user_id === userId);
+  }
+
+  // Entries saved in guest mode, waiting for whoever signs in next to claim them
+  async getGuestItems(): Promise<OutboxItem[]> {
+    return (await this.getAllItems()).filter(item => item.status === 'guest');
+  }
+
+  async enqueue(
+    data: CreateFuelEntryData,
+    user: { id: string; name: string },
+    status: OutboxStatus = 'pending'
+  ): Promise<OutboxItem> {
+    const item: OutboxItem = {
+      id: `local-${crypto.randomUUID()}`,
+      user_id: user.id,
+      user_name: user.name,
+      data,
+      status,
+      attempts: 0,
+      next_attempt_at: Date.now(),
+      created_at: new Date().toISOString()
+    };
+
+    await this.save(item);
+    return item;
+  }
+
+  async update(id: string, changes: Partial<CreateFuelEntryData>): Promise<void> {
+    const item = await this.runRequest<OutboxItem | undefined>('readonly', store => store.get(id));
+    if (!item) return;
+    await this.save({ ...item, data: { ...item.data, ...changes } });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.runRequest('readwrite', store => store.delete(id));
+  }
+
+  // Move entries saved in guest mode onto a signed-in user's account
+  async claimGuestEntries(user: { id: string; name: string }): Promise<number> {
+    const guestItems = await this.getGuestItems();
+
+    for (const item of guestItems) {
+      await this.save({
+        ...item,
+        user_id: user.id,
+        user_name: user.name,
+        status: 'pending',
+        next_attempt_at: Date.now()
+      });
+    }
+
+    if (guestItems.length > 0) {
+      this.flush();
+    }
+
+    return guestItems.length;
+  }
+
+  async retry(id: string): Promise<void> {
+    const item = await this.runRequest<OutboxItem | undefined>('readonly', store => store.get(id));
+    if (!item || item.status === 'guest') return;
+
+    await this.save({ ...item, status: 'pending', attempts: 0, next_attempt_at: Date.now() });
+    this.flush();
+  }
+
+  // Start sending the user's queued entries with their access token
+  async startSync(token: string, userId: string): Promise<void> {
+    this.token = token;
+    this.userId = userId;
+    window.addEventListener('online', this.handleOnline);
+
+    // Anything left mid-send by a closed tab goes back in the queue
+    const items = await this.getItems(userId);
+    for (const item of items.filter(i => i.status === 'syncing')) {
+      await this.save({ ...item, status: 'pending' });
+    }
+
+    this.flush();
+  }
+
+  stopSync(): void {
+    this.token = null;
+    this.userId = null;
+    window.removeEventListener('online', this.handleOnline);
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // Save an entry to the outbox and try to send it right away
+  async submit(data: CreateFuelEntryData, user: { id: string; name: string }, token: string): Promise<SubmitResult> {
+    const item = await this.enqueue(data, user, 'syncing');
+    return this.sendItem(item, token);
+  }
+
+  async flush(force = false): Promise<void> {
+    const userId = this.userId;
+    if (this.isFlushing || !this.token || !userId || !navigator.onLine) return;
+
+    this.isFlushing = true;
+    try {
+      const items = await this.getItems(userId);
+      const dueItems = items.filter(item => isDueForRetry(item, Date.now(), force));
+
+      for (const item of dueItems) {
+        // Signed out, or someone else signed in, part way through
+        if (!this.token || this.userId !== userId) break;
+        const result = await this.sendItem({ ...item, status: 'syncing' }, this.token);
+        // Stop early while we're still offline
+        if ('queued' in result) break;
+      }
+    } finally {
+      this.isFlushing = false;
+      this.scheduleRetry();
+    }
+  }
+
+  private async scheduleRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (!this.token || !this.userId) return;
+
+    const pendingItems = (await this.getItems(this.userId)).filter(item => item.status === 'pending');
+    if (pendingItems.length === 0) return;
+
+    const nextAttemptAt = Math.min(...pendingItems.map(item => item.next_attempt_at));
+    this.retryTimer = setTimeout(() => this.flush(), Math.max(nextAttemptAt - Date.now(), 1000));
+  }
+
+  private async sendItem(item: OutboxItem, token: string): Promise<SubmitResult> {
+    try {
+      return await this.trySendItem(item, token);
+    } catch (error) {
+      // Reading the photo back or the upload itself threw; keep the entry queued rather than stuck in syncing
+      console.error('Send outbox entry error:', error);
+      const latest = await this.runRequest<OutboxItem | undefined>('readonly', store => store.get(item.id));
+      return this.recordFailure(latest ?? item, error instanceof Error ? error.message : 'Failed to send entry', true);
+    }
+  }
+
+  private async trySendItem(item: OutboxItem, token: string): Promise<SubmitResult> {
+    await this.save(item);
+
+    let data = item.data;
+
+    // Upload photos first and remember the paths so retries don't upload them twice
+    for (const field of ['receipt_photo', 'vin_photo'] as const) {
+      const photo = data[field];
+      if (!photo || !photo.startsWith('data:')) continue;
+
+      const blob = await (await fetch(photo)).blob();
+      const file = new File([blob], `${field}-${item.id}.jpg`, { type: blob.type || 'image/jpeg' });
+      const upload = await fuelService.uploadPhoto(file, token);
+      if ('error' in upload) {
+        return this.recordFailure(item, upload.error, !!upload.networkError);
+      }
+
+      data = { ...data, [field]: upload.path };
+      item = { ...item, data };
+      await this.save(item);
+    }
+
+    const result = await fuelService.createFuelEntry({ ...data, client_id: item.id }, token);
+    if ('error' in result) {
+      return this.recordFailure(item, result.error, !!result.networkError);
+    }
+
+    await this.remove(item.id);
+    this.notify(item, result.entry);
+    return { entry: result.entry };
+  }
+
+  private async recordFailure(item: OutboxItem, error: string, networkError: boolean): Promise<SubmitResult> {
+    const nextItem = afterFailedAttempt(item, error, networkError);
+    await this.save(nextItem);
+    return nextItem.status === 'pending' ? { queued: nextItem } : { error, item: nextItem };
+  }
+}
+
+export const offlineQueueService = new OfflineQueueService();
@@ -0,0 +1,108 @@
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { isDemoMode } from '../utils/supabase/demo-config';
+import { mfaService } from './mfaService';
+
+// The group's branding, support contact and sign-up domains. Edited by admins, shown on every screen.
+export interface OrganizationSettings {
+  display_name: string;
+  // Without the @, e.g. napleton.com
+  allowed_email_domains: string[];
+  // Null shows the bundled logo
+  logo_url: string | null;
+  primary_color: string;
+  accent_color: string;
+  support_email: string | null;
+  support_phone: string | null;
+}
+
+// Keep in sync with DEFAULT_ORGANIZATION_SETTINGS on the edge function
+export const DEFAULT_ORGANIZATION_SETTINGS: OrganizationSettings = {
+  display_name: 'Napleton Automotive Group',
+  allowed_email_domains: ['napleton.com'],
+  logo_url: null,
+  primary_color: '#2563eb',
+  accent_color: '#60a5fa',
+  support_email: null,
+  support_phone: null
+};
+
+// Uploaded logos are stored with the settings; the server refuses larger ones
+export const MAX_LOGO_BYTES = 250 * 1024;
+
+// Same pattern as the server, which trims and lower-cases the address before checking it
+const EMAIL = /^[a-z0-9.!#$%&'*+/=?^_`{|}~-]+@(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/;
+
+export const isAllowedEmail = (email: string, settings: OrganizationSettings): boolean => {
+  const normalized = email.trim().toLowerCase();
+  if (normalized.length > 254 || !EMAIL.test(normalized)) return false;
+  return settings.allowed_email_domains.includes(normalized.slice(normalized.lastIndexOf('@') + 1));
+};
+
+export const emailDomainError = (settings: OrganizationSettings): string =>
+  `Only ${settings.allowed_email_domains.map(domain => `@${domain}`).join(' or ')} email addresses are allowed`;
+
+class OrganizationService {
+  private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
+  // The last settings fetched, for code that runs outside React
+  private settings: OrganizationSettings = DEFAULT_ORGANIZATION_SETTINGS;
+
+  get current(): OrganizationSettings {
+    return this.settings;
+  }
+
+  // Public, so the splash and login screens can be branded before anyone signs in
+  async getSettings(): Promise<{ settings: OrganizationSettings } | { error: string }> {
+    // Demo mode has no server, so the defaults stay in effect there
+    if (isDemoMode) {
+      return { settings: this.settings };
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/organization`, {
+        headers: {
+          'Authorization': `Bearer ${publicAnonKey}`
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch organization settings' };
+      }
+
+      this.settings = data;
+      return { settings: data };
+    } catch (error) {
+      console.error('Get organization settings error:', error);
+      return { error: 'Network error while fetching organization settings' };
+    }
+  }
+
+  async updateSettings(settings: OrganizationSettings, token: string): Promise<{ settings: OrganizationSettings } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/organization`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify(settings)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update organization settings' };
+      }
+
+      this.settings = data;
+      return { settings: data };
+    } catch (error) {
+      console.error('Update organization settings error:', error);
+      return { error: 'Network error while updating organization settings' };
+    }
+  }
+}
+
+export const organizationService = new OrganizationService();
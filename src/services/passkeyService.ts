@@ -0,0 +1,181 @@
+import { browserSupportsWebAuthn, platformAuthenticatorIsAvailable, startAuthentication, startRegistration } from '@simplewebauthn/browser';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { isDemoMode } from '../utils/supabase/demo-config';
+import { authService, User } from './authService';
+
+export interface Passkey {
+  id: string;
+  user_id: string;
+  name: string;
+  transports: string[];
+  // multiDevice passkeys sync through the user's password manager
+  device_type: 'singleDevice' | 'multiDevice';
+  backed_up: boolean;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+// The browser rejects with NotAllowedError when the user dismisses the prompt
+const describeWebAuthnError = (error: unknown, action: string): string => {
+  if (error instanceof Error && error.name === 'NotAllowedError') {
+    return `${action} was cancelled`;
+  }
+  if (error instanceof Error && error.name === 'InvalidStateError') {
+    return 'This device already has a passkey for your account';
+  }
+  return `${action} failed on this device`;
+};
+
+class PasskeyService {
+  private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
+
+  // Passkeys need the server, and a built-in authenticator such as Face ID, Touch ID or Windows Hello
+  async isAvailable(): Promise<boolean> {
+    if (isDemoMode || !browserSupportsWebAuthn()) {
+      return false;
+    }
+
+    try {
+      return await platformAuthenticatorIsAvailable();
+    } catch {
+      return false;
+    }
+  }
+
+  async signIn(email?: string): Promise<{ user: User; token: string } | { error: string }> {
+    try {
+      const optionsResponse = await fetch(`${this.baseUrl}/passkeys/login/options`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`
+        },
+        body: JSON.stringify({ email })
+      });
+
+      const started = await optionsResponse.json();
+
+      if (!optionsResponse.ok) {
+        return { error: started.error || 'Failed to start passkey sign-in' };
+      }
+
+      let response;
+      try {
+        response = await startAuthentication({ optionsJSON: started.options });
+      } catch (error) {
+        console.error('Passkey sign in error:', error);
+        return { error: describeWebAuthnError(error, 'Passkey sign-in') };
+      }
+
+      const verifyResponse = await fetch(`${this.baseUrl}/passkeys/login/verify`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`
+        },
+        body: JSON.stringify({ challenge_id: started.challenge_id, response })
+      });
+
+      const data = await verifyResponse.json();
+
+      if (!verifyResponse.ok) {
+        return { error: data.error || 'Passkey could not be verified' };
+      }
+
+      return await authService.signInWithLoginToken(data.token_hash);
+    } catch (error) {
+      console.error('Passkey sign in error:', error);
+      return { error: 'Network error during passkey sign-in' };
+    }
+  }
+
+  async register(token: string, name?: string): Promise<{ passkey: Passkey } | { error: string }> {
+    try {
+      const optionsResponse = await fetch(`${this.baseUrl}/passkeys/register/options`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const started = await optionsResponse.json();
+
+      if (!optionsResponse.ok) {
+        return { error: started.error || 'Failed to start passkey registration' };
+      }
+
+      let response;
+      try {
+        response = await startRegistration({ optionsJSON: started.options });
+      } catch (error) {
+        console.error('Register passkey error:', error);
+        return { error: describeWebAuthnError(error, 'Passkey setup') };
+      }
+
+      const verifyResponse = await fetch(`${this.baseUrl}/passkeys/register/verify`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ challenge_id: started.challenge_id, response, name })
+      });
+
+      const data = await verifyResponse.json();
+
+      if (!verifyResponse.ok) {
+        return { error: data.error || 'Failed to register passkey' };
+      }
+
+      return { passkey: data };
+    } catch (error) {
+      console.error('Register passkey error:', error);
+      return { error: 'Network error while registering passkey' };
+    }
+  }
+
+  async getPasskeys(token: string): Promise<{ passkeys: Passkey[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/passkeys`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch passkeys' };
+      }
+
+      return { passkeys: data };
+    } catch (error) {
+      console.error('Get passkeys error:', error);
+      return { error: 'Network error while fetching passkeys' };
+    }
+  }
+
+  async removePasskey(passkeyId: string, token: string): Promise<{ success: boolean } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/passkeys/${encodeURIComponent(passkeyId)}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to remove passkey' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Remove passkey error:', error);
+      return { error: 'Network error while removing passkey' };
+    }
+  }
+}
+
+export const passkeyService = new PasskeyService();
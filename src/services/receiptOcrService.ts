@@ -0,0 +1,62 @@
+import { createWorker, Worker } from 'tesseract.js';
+// Everything OCR needs is bundled with the app so receipts never leave the device
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { parseReceipt, ParsedReceipt } from '../utils/receiptParser';
+
+// Tesseract's LSTM-only engine, which is the only one the bundled core supports
+const OEM_LSTM_ONLY = 1;
+
+class ReceiptOcrService {
+  private workerPromise: Promise<Worker> | null = null;
+
+  private async createOcrWorker(): Promise<Worker> {
+    const response = await fetch(englishDataUrl);
+    const englishData = new Uint8Array(await response.arrayBuffer());
+
+    return createWorker([{ code: 'eng', data: englishData }], OEM_LSTM_ONLY, {
+      workerPath,
+      corePath,
+      workerBlobURL: false,
+      cacheMethod: 'none'
+    });
+  }
+
+  // The worker is large, so it's only loaded the first time a receipt is scanned
+  private getWorker(): Promise<Worker> {
+    if (!this.workerPromise) {
+      this.workerPromise = this.createOcrWorker().catch(error => {
+        this.workerPromise = null;
+        throw error;
+      });
+    }
+    return this.workerPromise;
+  }
+
+  async scanReceipt(image: string): Promise<{ receipt: ParsedReceipt } | { error: string }> {
+    try {
+      const worker = await this.getWorker();
+      const { data } = await worker.recognize(image);
+
+      const receipt = parseReceipt(data.lines.map(line => ({ text: line.text, confidence: line.confidence })));
+      if (!receipt.gallons && !receipt.pricePerGallon && !receipt.total) {
+        return { error: 'Could not read the receipt. Please enter the details manually.' };
+      }
+
+      return { receipt };
+    } catch (error) {
+      console.error('Receipt OCR error:', error);
+      return { error: 'Receipt scanning is unavailable. Please enter the details manually.' };
+    }
+  }
+
+  async terminate(): Promise<void> {
+    if (!this.workerPromise) return;
+    const worker = await this.workerPromise;
+    this.workerPromise = null;
+    await worker.terminate();
+  }
+}
+
+export const receiptOcrService = new ReceiptOcrService();
@@ -0,0 +1,266 @@
+import { projectId } from '../utils/supabase/info';
+import { mfaService } from './mfaService';
+
+export type DateFormat = 'MDY' | 'DMY' | 'YMD';
+
+export type MappingField =
+  'date' | 'time' | 'amount' | 'gallons' | 'price_per_gallon' | 'merchant' |
+  'city' | 'state' | 'latitude' | 'longitude' | 'card_number' | 'transaction_id';
+
+export interface ColumnMapping {
+  id: string;
+  name: string;
+  built_in?: boolean;
+  date_format: DateFormat;
+  columns: Partial<Record<MappingField, string>> & { date: string; amount: string };
+}
+
+export interface CardTransaction {
+  row: number;
+  transaction_id: string | null;
+  timestamp: string;
+  amount: number;
+  gallons: number | null;
+  price_per_gallon: number | null;
+  merchant: string | null;
+  city: string | null;
+  state: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  card_last4: string | null;
+}
+
+export interface ReconciledEntry {
+  id: string;
+  user_id: string;
+  stock_number: string | null;
+  vin: string | null;
+  timestamp: string;
+  total_amount: number;
+  gallons: number;
+  location: string | null;
+}
+
+export type ReconciliationRowType = 'matched' | 'unmatched_card' | 'unmatched_entry';
+
+export type ResolutionAction = 'confirmed' | 'disputed' | 'ignored' | 'linked';
+
+export interface ReconciliationRow {
+  id: string;
+  type: ReconciliationRowType;
+  transaction: CardTransaction | null;
+  entry: ReconciledEntry | null;
+  match: {
+    time_diff_minutes: number;
+    amount_diff: number;
+    gallons_diff: number | null;
+    distance_km: number | null;
+  } | null;
+  resolution: {
+    action: ResolutionAction;
+    note: string | null;
+    user_id: string;
+    user_name: string;
+    resolved_at: string;
+  } | null;
+}
+
+export interface ReconciliationSummary {
+  matched: number;
+  unmatched_card: number;
+  unmatched_entry: number;
+  unresolved: number;
+  card_total: number;
+  matched_total: number;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  file_name: string;
+  mapping_id: string;
+  mapping_name: string;
+  period_start: string;
+  period_end: string;
+  created_by: string;
+  created_by_name: string;
+  created_at: string;
+  updated_at?: string;
+  errors: { row: number; error: string }[];
+  rows: ReconciliationRow[];
+  summary: ReconciliationSummary;
+}
+
+export type ReconciliationReportSummary = Omit<ReconciliationReport, 'rows' | 'errors'>;
+
+// A report as the list of reports holds it, like GET /admin/reconciliations returns them
+export const toReportSummary = (report: ReconciliationReport): ReconciliationReportSummary => {
+  const summary: Partial<ReconciliationReport> = { ...report };
+  delete summary.rows;
+  delete summary.errors;
+  return summary as ReconciliationReportSummary;
+};
+
+export type ResolveAction = Exclude<ResolutionAction, 'linked'> | 'link' | 'unlink';
+
+class ReconciliationService {
+  private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
+
+  async getMappings(token: string): Promise<{ mappings: ColumnMapping[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/card-mappings`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch column mappings' };
+      }
+
+      return { mappings: data };
+    } catch (error) {
+      console.error('Get card mappings error:', error);
+      return { error: 'Network error while fetching column mappings' };
+    }
+  }
+
+  async saveMapping(mapping: ColumnMapping, token: string): Promise<{ mapping: ColumnMapping } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/card-mappings/${mapping.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify(mapping)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to save column mapping' };
+      }
+
+      return { mapping: data };
+    } catch (error) {
+      console.error('Save card mapping error:', error);
+      return { error: 'Network error while saving column mapping' };
+    }
+  }
+
+  async importStatement(
+    file: File,
+    mappingId: string,
+    token: string
+  ): Promise<{ report: ReconciliationReport } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/reconciliations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify({
+          file_name: file.name,
+          csv: await file.text(),
+          mapping_id: mappingId,
+          // Statement times are local, so the server needs our offset to compare them with entries
+          timezone_offset_minutes: new Date().getTimezoneOffset()
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to reconcile statement' };
+      }
+
+      return { report: data };
+    } catch (error) {
+      console.error('Import statement error:', error);
+      return { error: 'Network error while importing statement' };
+    }
+  }
+
+  async getReports(token: string): Promise<{ reports: ReconciliationReportSummary[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/reconciliations`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch reconciliation reports' };
+      }
+
+      return { reports: data };
+    } catch (error) {
+      console.error('Get reconciliations error:', error);
+      return { error: 'Network error while fetching reconciliation reports' };
+    }
+  }
+
+  async getReport(reportId: string, token: string): Promise<{ report: ReconciliationReport } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/reconciliations/${reportId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch reconciliation report' };
+      }
+
+      return { report: data };
+    } catch (error) {
+      console.error('Get reconciliation error:', error);
+      return { error: 'Network error while fetching reconciliation report' };
+    }
+  }
+
+  async resolveRow(
+    reportId: string,
+    rowId: string,
+    action: ResolveAction,
+    token: string,
+    options: { note?: string; linkRowId?: string } = {}
+  ): Promise<{ report: ReconciliationReport } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/reconciliations/${reportId}/resolve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify({ row_id: rowId, action, note: options.note, link_row_id: options.linkRowId })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to resolve reconciliation row' };
+      }
+
+      return { report: data };
+    } catch (error) {
+      console.error('Resolve reconciliation row error:', error);
+      return { error: 'Network error while resolving reconciliation row' };
+    }
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
@@ -0,0 +1,200 @@
+import { projectId } from '../utils/supabase/info';
+import { mfaService } from './mfaService';
+import { VehicleCategory } from './fuelService';
+
+// A dealership in the group. Users and fuel entries belong to one.
+export interface Rooftop {
+  id: string;
+  name: string;
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  // The lot; fills further than geofence_radius_km from it are flagged
+  latitude: number | null;
+  longitude: number | null;
+  geofence_radius_km: number;
+  // IANA name, e.g. America/Chicago. "Today" and "this month" follow it.
+  timezone: string;
+  // Regular expression the whole stock number must match, ignoring case
+  stock_number_pattern: string | null;
+  stock_number_example: string | null;
+  // Stock number patterns for each inventory category; with none set, N, U and L prefixes are used
+  new_stock_pattern: string | null;
+  used_stock_pattern: string | null;
+  loaner_stock_pattern: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RooftopInput = Omit<Rooftop, 'id' | 'created_at' | 'updated_at'>;
+
+export interface RooftopSummary {
+  // Null for users and entries without a rooftop
+  rooftop_id: string | null;
+  name: string;
+  users: number;
+  entries: number;
+  gallons: number;
+  total_amount: number;
+  month_entries: number;
+  month_amount: number;
+  awaiting_review: number;
+  flagged: number;
+}
+
+// Same rule as rooftops.tsx on the edge function, so the form can warn before the entry is flagged
+export const matchesStockNumberFormat = (rooftop: Rooftop | null | undefined, stockNumber: string): boolean => {
+  if (!rooftop?.stock_number_pattern || !stockNumber.trim()) return true;
+  try {
+    return new RegExp(`^(?:${rooftop.stock_number_pattern})$`, 'i').test(stockNumber.trim());
+  } catch {
+    return true;
+  }
+};
+
+const CATEGORY_PATTERNS: [Exclude<VehicleCategory, 'service_customer'>, keyof Rooftop, string][] = [
+  ['new', 'new_stock_pattern', 'N.*'],
+  ['used', 'used_stock_pattern', 'U.*'],
+  ['loaner', 'loaner_stock_pattern', 'L.*']
+];
+
+// Same suggestion as purpose.tsx on the edge function, so the form can pre-fill the category
+export const suggestVehicleCategory = (rooftop: Rooftop | null | undefined, stockNumber: string): VehicleCategory | null => {
+  const stock = stockNumber.trim();
+  if (!stock) return null;
+
+  const configured = CATEGORY_PATTERNS.some(([, field]) => rooftop?.[field]);
+  for (const [category, field, fallback] of CATEGORY_PATTERNS) {
+    const pattern = configured ? rooftop?.[field] as string | null : fallback;
+    if (!pattern) continue;
+    try {
+      if (new RegExp(`^(?:${pattern})$`, 'i').test(stock)) return category;
+    } catch {
+      // A bad pattern never matches
+    }
+  }
+  return null;
+};
+
+class RooftopService {
+  private baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-218dc5b7`;
+
+  async getRooftops(token: string): Promise<{ rooftops: Rooftop[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/rooftops`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch rooftops' };
+      }
+
+      return { rooftops: data };
+    } catch (error) {
+      console.error('Get rooftops error:', error);
+      return { error: 'Network error while fetching rooftops' };
+    }
+  }
+
+  async createRooftop(rooftop: RooftopInput, token: string): Promise<{ rooftop: Rooftop; usersAssigned: number } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/rooftops`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify(rooftop)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to create rooftop' };
+      }
+
+      return { rooftop: data.rooftop, usersAssigned: data.users_assigned };
+    } catch (error) {
+      console.error('Create rooftop error:', error);
+      return { error: 'Network error while creating rooftop' };
+    }
+  }
+
+  async updateRooftop(rooftopId: string, rooftop: RooftopInput, token: string): Promise<{ rooftop: Rooftop } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/rooftops/${rooftopId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        },
+        body: JSON.stringify(rooftop)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to update rooftop' };
+      }
+
+      return { rooftop: data };
+    } catch (error) {
+      console.error('Update rooftop error:', error);
+      return { error: 'Network error while updating rooftop' };
+    }
+  }
+
+  async deleteRooftop(rooftopId: string, token: string): Promise<{ success: boolean } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/rooftops/${rooftopId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to delete rooftop' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Delete rooftop error:', error);
+      return { error: 'Network error while deleting rooftop' };
+    }
+  }
+
+  async getSummary(token: string): Promise<{ summary: RooftopSummary[] } | { error: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/admin/rooftop-summary`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...mfaService.headers()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { error: data.error || 'Failed to fetch rooftop totals' };
+      }
+
+      return { summary: data };
+    } catch (error) {
+      console.error('Get rooftop summary error:', error);
+      return { error: 'Network error while fetching rooftop totals' };
+    }
+  }
+}
+
+export const rooftopService = new RooftopService();
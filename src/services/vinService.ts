@@ -1,3 +1,5 @@
+import { VIN_PATTERN, decodeVinOffline, hasValidVinCheckDigit, normalizeVin } from '../utils/vin';
+
 interface VehicleInfo {
   vin: string;
   year: string;
@@ -8,6 +10,8 @@ interface VehicleInfo {
   displacement?: string;
   cylinders?: string;
   fuel_type?: string;
+  // Set by admins on the vehicle record, since NHTSA doesn't decode it. Null until classified.
+  premium_required?: boolean | null;
   vehicle_type?: string;
   body_class?: string;
   drive_type?: string;
@@ -15,7 +19,10 @@ interface VehicleInfo {
   manufacturer?: string;
   plant_city?: string;
   plant_state?: string;
+  plant_code?: string;
+  plant_country?: string;
   valid: boolean;
+  source?: 'nhtsa' | 'offline';
   cached_at?: string;
   error?: string;
 }
@@ -24,19 +31,21 @@ class VinService {
   private cache = new Map<string, VehicleInfo>();
 
   async decodeVin(vin: string, accessToken?: string): Promise<VehicleInfo> {
-    // Validate VIN format first
+    // Validate VIN format first so typos never reach NHTSA
     if (!this.isValidVinFormat(vin)) {
       return {
-        vin: vin.toUpperCase(),
+        vin: normalizeVin(vin),
         year: '',
         make: '',
         model: '',
         valid: false,
-        error: 'Invalid VIN format'
+        error: VIN_PATTERN.test(normalizeVin(vin))
+          ? 'VIN check digit does not match - please re-check the VIN'
+          : 'Invalid VIN format'
       };
     }
 
-    const normalizedVin = vin.toUpperCase();
+    const normalizedVin = normalizeVin(vin);
 
     // Check local cache first
     const cached = this.cache.get(normalizedVin);
@@ -81,7 +90,18 @@ class VinService {
       // Fallback to direct NHTSA call if backend fails
       if (accessToken) {
         console.log('Backend failed, trying direct NHTSA API call...');
-        return await this.directNhtsaCall(normalizedVin);
+        try {
+          return await this.directNhtsaCall(normalizedVin);
+        } catch (nhtsaError) {
+          console.error('Direct NHTSA fallback error:', nhtsaError);
+        }
+      }
+
+      // NHTSA is unreachable, so use what the VIN itself tells us. This isn't
+      // cached so the full decode is tried again next time.
+      const offlineInfo = this.decodeVinOffline(normalizedVin);
+      if (offlineInfo?.valid) {
+        return offlineInfo;
       }
       
       const errorInfo: VehicleInfo = {
@@ -133,6 +153,7 @@ class VinService {
         plant_city: this.findResult(results, 'Plant City'),
         plant_state: this.findResult(results, 'Plant State'),
         valid: false,
+        source: 'nhtsa',
         cached_at: new Date().toISOString()
       };
 
@@ -158,9 +179,30 @@ class VinService {
   }
 
   private isValidVinFormat(vin: string): boolean {
-    // VIN must be exactly 17 characters, alphanumeric, excluding I, O, Q
-    const vinPattern = /^[A-HJ-NPR-Z0-9]{17}$/;
-    return vinPattern.test(vin.toUpperCase());
+    // VIN must be exactly 17 characters, alphanumeric, excluding I, O, Q,
+    // and position 9 must match the ISO 3779 check digit
+    const normalizedVin = normalizeVin(vin);
+    return VIN_PATTERN.test(normalizedVin) && hasValidVinCheckDigit(normalizedVin);
+  }
+
+  // Make, model year and plant from the VIN alone, available instantly and offline
+  decodeVinOffline(vin: string): VehicleInfo | null {
+    if (!this.isValidVinFormat(vin)) {
+      return null;
+    }
+
+    const decoded = decodeVinOffline(vin);
+    return {
+      vin: normalizeVin(vin),
+      year: decoded.modelYear ? String(decoded.modelYear) : '',
+      make: decoded.make || '',
+      model: '',
+      manufacturer: decoded.manufacturer,
+      plant_code: decoded.plantCode,
+      plant_country: decoded.country,
+      valid: !!(decoded.make && decoded.modelYear),
+      source: 'offline'
+    };
   }
 
   // Get cached vehicle by VIN
@@ -0,0 +1,98 @@
+// Approval lifecycle for fuel entries: submitted -> approved / rejected / needs_info
+import { FlagReason } from './entry_rules.tsx'
+import type { FuelEntry } from './repositories.tsx'
+
+export type EntryStatus = 'submitted' | 'approved' | 'rejected' | 'needs_info'
+
+export type ReviewDecision = 'approved' | 'rejected' | 'needs_info'
+
+export const REVIEW_DECISIONS: ReviewDecision[] = ['approved', 'rejected', 'needs_info']
+
+// One step in an entry's status_history. Auto-approvals have no user_id.
+export interface StatusChange {
+  status: EntryStatus
+  note: string | null
+  user_id: string | null
+  user_name: string
+  automatic: boolean
+  created_at: string
+}
+
+export const APPROVAL_SETTINGS_KEY = 'settings:approval'
+
+export interface ApprovalSettings {
+  auto_approve_enabled: boolean
+  // Entries above either limit always wait for a manager
+  max_auto_approve_amount: number
+  max_auto_approve_gallons: number
+  // Flag reasons that don't block auto-approval; any other flag does
+  auto_approve_flag_reasons: FlagReason[]
+}
+
+export const DEFAULT_APPROVAL_SETTINGS: ApprovalSettings = {
+  auto_approve_enabled: true,
+  max_auto_approve_amount: 150,
+  max_auto_approve_gallons: 40,
+  auto_approve_flag_reasons: []
+}
+
+const FLAG_REASONS: FlagReason[] = [
+  'odometer_regression', 'exceeds_tank_capacity', 'frequent_fill', 'amount_mismatch', 'stock_number_format', 'outside_geofence',
+  'no_location', 'fuel_type_mismatch', 'premium_fuel'
+]
+
+// Merge stored or submitted settings over the defaults, dropping anything invalid
+export const normalizeApprovalSettings = (input: Partial<Record<keyof ApprovalSettings, unknown>> | null | undefined): ApprovalSettings => {
+  const settings = { ...DEFAULT_APPROVAL_SETTINGS }
+  if (!input) return settings
+
+  if (typeof input.auto_approve_enabled === 'boolean') {
+    settings.auto_approve_enabled = input.auto_approve_enabled
+  }
+
+  for (const field of ['max_auto_approve_amount', 'max_auto_approve_gallons'] as const) {
+    const value = Number(input[field])
+    if (input[field] !== undefined && Number.isFinite(value) && value >= 0) {
+      settings[field] = value
+    }
+  }
+
+  if (Array.isArray(input.auto_approve_flag_reasons)) {
+    settings.auto_approve_flag_reasons = input.auto_approve_flag_reasons.filter((reason): reason is FlagReason => FLAG_REASONS.includes(reason))
+  }
+
+  return settings
+}
+
+export const canAutoApprove = (entry: FuelEntry, settings: ApprovalSettings): boolean => {
+  if (!settings.auto_approve_enabled) return false
+  if (Number(entry.total_amount) > settings.max_auto_approve_amount) return false
+  if (Number(entry.gallons) > settings.max_auto_approve_gallons) return false
+
+  const flagReasons = entry.flag_reasons || []
+  return flagReasons.every(reason => settings.auto_approve_flag_reasons.includes(reason))
+}
+
+// Entries created before the approval workflow existed were final when saved
+export const getEntryStatus = (entry: FuelEntry): EntryStatus => entry.status || 'approved'
+
+// Append a status change to the entry's history and return the updated entry
+export const withStatusChange = <T extends FuelEntry>(
+  entry: T,
+  status: EntryStatus,
+  change: { user_id: string | null; user_name: string; note?: string; automatic?: boolean; at: string }
+) => ({
+  ...entry,
+  status,
+  status_history: [
+    ...(entry.status_history || []),
+    {
+      status,
+      note: change.note || null,
+      user_id: change.user_id,
+      user_name: change.user_name,
+      automatic: change.automatic || false,
+      created_at: change.at
+    }
+  ]
+})
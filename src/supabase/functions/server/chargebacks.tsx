@@ -0,0 +1,173 @@
+// Repair-order chargebacks: fuel put in a service customer's vehicle is billed to their repair
+// order (RO) instead of being absorbed as fuel expense. Entries carry the RO number; the open ones
+// are exported for the service department's billing system and marked billed once imported.
+import { getEntryStatus } from './approval.tsx'
+import { fuelTypeLabel } from './fuel_type.tsx'
+import { localDate } from './rooftops.tsx'
+import type { FuelEntry, Rooftop } from './repositories.tsx'
+
+export const CHARGEBACK_SETTINGS_KEY = 'settings:chargebacks'
+
+export interface ChargebackSettings {
+  // Regular expression the whole RO number must match, ignoring case. Null accepts any RO number.
+  ro_number_pattern: string | null
+  // Shown to porters when an RO number doesn't match, e.g. 123456
+  ro_number_example: string | null
+  // Operation code the fuel lines are billed under on the RO
+  op_code: string
+}
+
+export const DEFAULT_CHARGEBACK_SETTINGS: ChargebackSettings = {
+  ro_number_pattern: null,
+  ro_number_example: null,
+  op_code: 'FUEL'
+}
+
+export const MAX_RO_NUMBER_LENGTH = 20
+
+export type ChargebackStatus = 'open' | 'billed'
+
+export const CHARGEBACK_STATUSES: ChargebackStatus[] = ['open', 'billed']
+
+export const normalizeChargebackSettings = (stored: Partial<ChargebackSettings> | null | undefined): ChargebackSettings => ({ ...DEFAULT_CHARGEBACK_SETTINGS, ...stored })
+
+// Validate edited settings over the current ones. Returns an error message for invalid input.
+export const parseChargebackSettings = (input: Record<string, unknown> | null, current: ChargebackSettings): ChargebackSettings | string => {
+  const merged = { ...current, ...input }
+
+  const pattern = String(merged.ro_number_pattern ?? '').trim()
+  if (pattern) {
+    try {
+      new RegExp(pattern)
+    } catch {
+      return 'The RO number format is not a valid pattern'
+    }
+  }
+
+  const opCode = String(merged.op_code ?? '').trim().toUpperCase()
+  if (!opCode) return 'An op code is required'
+  if (opCode.length > 10) return 'The op code can be at most 10 characters'
+
+  return {
+    ro_number_pattern: pattern || null,
+    ro_number_example: String(merged.ro_number_example ?? '').trim() || null,
+    op_code: opCode
+  }
+}
+
+// RO numbers are stored trimmed and upper-cased; empty means none
+export const normalizeRoNumber = (value: unknown) => String(value ?? '').trim().toUpperCase() || null
+
+// Why an RO number can't be used, or null when it's fine
+export const roNumberProblem = (settings: ChargebackSettings, roNumber: string): string | null => {
+  if (roNumber.length > MAX_RO_NUMBER_LENGTH) return `RO numbers can be at most ${MAX_RO_NUMBER_LENGTH} characters`
+  if (settings.ro_number_pattern && !new RegExp(`^(?:${settings.ro_number_pattern})$`, 'i').test(roNumber)) {
+    return `RO number ${roNumber} doesn't match the RO format` +
+      (settings.ro_number_example ? ` (like ${settings.ro_number_example})` : '')
+  }
+  return null
+}
+
+// Entries billed to an RO. Voided and rejected fills aren't charged to anyone.
+export const isChargeback = (entry: FuelEntry) => !!entry.ro_number && !entry.voided && getEntryStatus(entry) !== 'rejected'
+
+export const chargebackStatus = (entry: FuelEntry): ChargebackStatus => entry.chargeback_billed_at ? 'billed' : 'open'
+
+export interface ChargebackLine {
+  entry_id: string
+  timestamp: string
+  // YYYY-MM-DD at the rooftop
+  date: string
+  stock_number: string | null
+  vin: string | null
+  vehicle: string | null
+  gallons: number
+  price_per_gallon: number
+  total_amount: number
+  fuel_type: string | null
+  user_name: string | null
+  status: string
+  billed_at: string | null
+}
+
+export interface RoChargeback {
+  ro_number: string
+  rooftop_id: string | null
+  rooftop_name: string | null
+  lines: ChargebackLine[]
+  gallons: number
+  total_amount: number
+  first_fill: string
+  last_fill: string
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// One group per RO at each rooftop, since stores number their ROs independently. Oldest first,
+// so the ones that have waited longest are on top.
+export const groupChargebacks = (
+  entries: FuelEntry[],
+  details: { userName: string | null; rooftop: Rooftop | null }[]
+): RoChargeback[] => {
+  const groups = new Map<string, RoChargeback>()
+
+  entries.forEach((entry, i) => {
+    const { userName, rooftop } = details[i]
+    const key = `${entry.rooftop_id ?? ''}\u0000${entry.ro_number}`
+    const group: RoChargeback = groups.get(key) ?? {
+      ro_number: entry.ro_number ?? '',
+      rooftop_id: entry.rooftop_id ?? null,
+      rooftop_name: rooftop?.name ?? null,
+      lines: [],
+      gallons: 0,
+      total_amount: 0,
+      first_fill: entry.timestamp,
+      last_fill: entry.timestamp
+    }
+
+    group.lines.push({
+      entry_id: entry.id,
+      timestamp: entry.timestamp,
+      date: localDate(entry.timestamp, rooftop?.timezone),
+      stock_number: entry.stock_number || null,
+      vin: entry.vin || null,
+      vehicle: [entry.vehicle_year, entry.vehicle_make, entry.vehicle_model].filter(Boolean).join(' ') || null,
+      gallons: Number(entry.gallons || 0),
+      price_per_gallon: Number(entry.price_per_gallon || 0),
+      total_amount: Number(entry.total_amount || 0),
+      fuel_type: entry.fuel_type ? fuelTypeLabel(entry.fuel_type) : null,
+      user_name: userName,
+      status: getEntryStatus(entry),
+      billed_at: entry.chargeback_billed_at ?? null
+    })
+    group.gallons = round(group.gallons + Number(entry.gallons || 0))
+    group.total_amount = round(group.total_amount + Number(entry.total_amount || 0))
+    if (entry.timestamp < group.first_fill) group.first_fill = entry.timestamp
+    if (entry.timestamp > group.last_fill) group.last_fill = entry.timestamp
+    groups.set(key, group)
+  })
+
+  return [...groups.values()]
+    .map(group => ({ ...group, lines: group.lines.sort((a, b) => a.timestamp.localeCompare(b.timestamp)) }))
+    .sort((a, b) => a.first_fill.localeCompare(b.first_fill) || a.ro_number.localeCompare(b.ro_number))
+}
+
+// One line per fill for importing into the service billing system as a misc charge on the RO
+export const billingRows = (chargebacks: RoChargeback[], settings: ChargebackSettings): (string | number | null)[][] => [
+  ['RO Number', 'Rooftop', 'Op Code', 'Date', 'Description', 'Quantity', 'Unit Price', 'Amount', 'VIN', 'Stock Number', 'Reference'],
+  ...chargebacks.flatMap(group => group.lines.map(line => [
+    group.ro_number,
+    group.rooftop_name,
+    settings.op_code,
+    line.date,
+    ['Fuel', line.fuel_type, `${line.gallons} gal`].filter(Boolean).join(' - '),
+    line.gallons,
+    line.price_per_gallon.toFixed(3),
+    line.total_amount.toFixed(2),
+    line.vin,
+    line.stock_number,
+    line.entry_id
+  ]))
+]
+
+export const chargebackFileName = (now: Date) => `fueltrakr-chargebacks-${now.toISOString().slice(0, 10)}.csv`
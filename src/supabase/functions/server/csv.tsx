@@ -0,0 +1,84 @@
+// RFC 4180 CSV parsing and writing. Parsing mirrors src/utils/csv.ts on the client.
+
+// Split CSV text into rows of fields. Handles quoted fields with embedded
+// commas, quotes ("") and line breaks, CRLF or LF line endings and a leading BOM.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+// Text a spreadsheet would run as a formula, like a note typed as =HYPERLINK(...)
+const FORMULA_START = /^[=+\-@\t\r]/
+// Amounts written with toFixed, which may be negative
+const NUMERIC_TEXT = /^[-+]?\d+(\.\d+)?$/
+
+// Fields are quoted only when they need it: commas, quotes, line breaks or edge whitespace.
+// Text that would start a formula gets a leading apostrophe so it opens as typed.
+// Dates are written as they read in UTC, like the XLSX writer.
+export const formatCsvField = (value: string | number | boolean | Date | null) => {
+  if (value === null || value === undefined) return ''
+  let text = value instanceof Date ? value.toISOString().slice(0, 19).replace('T', ' ') : String(value)
+  if (typeof value === 'string' && FORMULA_START.test(text) && !NUMERIC_TEXT.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// CRLF line endings, as RFC 4180 asks
+export const formatCsvRow = (row: (string | number | boolean | Date | null)[]) =>
+  row.map(formatCsvField).join(',') + '\r\n'
+
+// The rows as a byte stream, a chunk of lines at a time, so large exports are never held as
+// one string. Starts with a BOM so Excel reads the file as UTF-8.
+export const csvStream = (rows: (string | number | boolean | Date | null)[][], rowsPerChunk = 500) => {
+  const encoder = new TextEncoder()
+  let index = 0
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = rows.slice(index, index + rowsPerChunk).map(formatCsvRow).join('')
+      controller.enqueue(encoder.encode((index === 0 ? '\ufeff' : '') + chunk))
+      index += rowsPerChunk
+      if (index >= rows.length) controller.close()
+    }
+  })
+}
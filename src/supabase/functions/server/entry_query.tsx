@@ -0,0 +1,150 @@
+// Filtering and cursor pagination for GET /fuel-entries. FuelEntryRepository.query runs the query;
+// the postgres backend does the same in SQL, see 20261025000000_entry_query.sql.
+import { getEntryStatus } from './approval.tsx'
+import type { FuelEntry, UserProfile } from './repositories.tsx'
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE = 100
+
+export interface EntryQuery {
+  from: number | null
+  to: number | null
+  user_id: string | null
+  rooftop_id: string | null
+  stock_number: string | null
+  vin: string | null
+  search: string | null
+  min_amount: number | null
+  max_amount: number | null
+  status: string[] | null
+  flagged: boolean | null
+  include_voided: boolean
+  // Set by the route from the caller's permissions, never by the request: only entries at this
+  // rooftop or the viewer's own
+  visible_rooftop_id: string | null
+  viewer_id: string | null
+  limit: number
+  cursor: { timestamp: number; id: string } | null
+}
+
+const toNumber = (value: string | undefined) => {
+  if (value === undefined || value.trim() === '') return null
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+const toTime = (value: string | undefined) => {
+  if (!value) return null
+  const time = new Date(value).getTime()
+  return isNaN(time) ? null : time
+}
+
+const text = (value: string | undefined) => value && value.trim() ? value.trim().toUpperCase() : null
+
+// The cursor is the sort key of the last entry on the previous page
+export const encodeCursor = (entry: FuelEntry) =>
+  btoa(JSON.stringify({ timestamp: new Date(entry.timestamp).getTime(), id: entry.id }))
+
+const decodeCursor = (cursor: string | undefined) => {
+  if (!cursor) return null
+  try {
+    const decoded = JSON.parse(atob(cursor))
+    return typeof decoded.timestamp === 'number' && typeof decoded.id === 'string' ? decoded : null
+  } catch {
+    return null
+  }
+}
+
+// Build a query from the request's search params. Returns an error message for malformed input.
+export const parseEntryQuery = (params: Record<string, string>): EntryQuery | string => {
+  const cursor = decodeCursor(params.cursor)
+  if (params.cursor && !cursor) return 'Invalid cursor'
+
+  const limit = toNumber(params.limit) ?? DEFAULT_PAGE_SIZE
+  if (limit < 1) return 'Invalid limit'
+
+  // A bare date for `to` means the whole of that day
+  const to = toTime(params.to)
+
+  return {
+    from: toTime(params.from),
+    to: to !== null && /^\d{4}-\d{2}-\d{2}$/.test(params.to) ? to + 24 * 60 * 60 * 1000 - 1 : to,
+    user_id: params.user_id || null,
+    rooftop_id: params.rooftop_id || null,
+    stock_number: text(params.stock_number),
+    vin: text(params.vin),
+    search: text(params.search),
+    min_amount: toNumber(params.min_amount),
+    max_amount: toNumber(params.max_amount),
+    status: params.status ? params.status.split(',').map(status => status.trim()).filter(Boolean) : null,
+    flagged: params.flagged === 'true' ? true : params.flagged === 'false' ? false : null,
+    include_voided: params.include_voided !== 'false',
+    visible_rooftop_id: null,
+    viewer_id: null,
+    limit: Math.min(Math.floor(limit), MAX_PAGE_SIZE),
+    cursor
+  }
+}
+
+export const matchesEntryQuery = (entry: FuelEntry, query: EntryQuery) => {
+  const time = new Date(entry.timestamp).getTime()
+  if (query.from !== null && time < query.from) return false
+  if (query.to !== null && time > query.to) return false
+  if (query.user_id && entry.user_id !== query.user_id) return false
+  if (query.rooftop_id && entry.rooftop_id !== query.rooftop_id) return false
+  if (query.visible_rooftop_id && entry.user_id !== query.viewer_id && entry.rooftop_id !== query.visible_rooftop_id) return false
+  if (!query.include_voided && entry.voided) return false
+
+  const stockNumber = String(entry.stock_number || '').toUpperCase()
+  const vin = String(entry.vin || '').toUpperCase()
+  if (query.stock_number && stockNumber !== query.stock_number) return false
+  // Partial VINs are common (last 6 or 8 characters)
+  if (query.vin && !vin.includes(query.vin)) return false
+  if (query.search && !stockNumber.includes(query.search) && !vin.includes(query.search) &&
+      !String(entry.ro_number || '').toUpperCase().includes(query.search) &&
+      !String(entry.notes || '').toUpperCase().includes(query.search)) return false
+
+  const amount = Number(entry.total_amount)
+  if (query.min_amount !== null && amount < query.min_amount) return false
+  if (query.max_amount !== null && amount > query.max_amount) return false
+
+  if (query.status && !query.status.includes(getEntryStatus(entry))) return false
+  if (query.flagged !== null && Boolean(entry.flagged) !== query.flagged) return false
+
+  return true
+}
+
+// Newest first; the id breaks ties so the order (and the cursor) is stable
+const compareEntries = (a: { timestamp: number; id: string }, b: { timestamp: number; id: string }) =>
+  b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+
+export interface EntryPage {
+  entries: FuelEntry[]
+  next_cursor: string | null
+}
+
+// A page from the sorted matches. Backends fetch one more than the limit to tell whether another page follows.
+export const toEntryPage = (matching: FuelEntry[], limit: number): EntryPage => {
+  const page = matching.slice(0, limit)
+  return {
+    entries: page,
+    next_cursor: matching.length > limit ? encodeCursor(page[page.length - 1]) : null
+  }
+}
+
+// The query run in memory, for backends that can't run it themselves. Entries from before rooftops
+// existed are matched at their owner's rooftop, so owners is only needed for the rooftop filters.
+export const queryEntries = (entries: FuelEntry[], owners: UserProfile[], query: EntryQuery): EntryPage => {
+  const ownerRooftops = new Map(owners.map(owner => [owner.id, owner.rooftop_id ?? null]))
+  const sortKey = (entry: FuelEntry) => ({ timestamp: new Date(entry.timestamp).getTime(), id: entry.id })
+
+  const matching = entries
+    .filter(entry => matchesEntryQuery({ ...entry, rooftop_id: entry.rooftop_id ?? ownerRooftops.get(entry.user_id) ?? null }, query))
+    .filter(entry => !query.cursor || compareEntries(query.cursor, sortKey(entry)) < 0)
+    .sort((a, b) => compareEntries(sortKey(a), sortKey(b)))
+
+  return toEntryPage(matching, query.limit)
+}
+
+// Whether the query filters on rooftops, so queryEntries needs the entries' owners
+export const needsOwners = (query: EntryQuery) => !!(query.rooftop_id || query.visible_rooftop_id)
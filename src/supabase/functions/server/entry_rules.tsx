@@ -0,0 +1,97 @@
+// Fraud and data-quality checks run on every fuel entry when it is created or edited
+import { FREQUENT_FILL_WINDOW_HOURS } from './fuel_history.tsx'
+import { isFuelTypeMismatch, isUnneededPremium } from './fuel_type.tsx'
+import { isMissingLocation, isOutsideGeofence, matchesStockNumberFormat } from './rooftops.tsx'
+import type { FuelEntry, Rooftop, Vehicle } from './repositories.tsx'
+
+export type FlagReason =
+  | 'odometer_regression'
+  | 'exceeds_tank_capacity'
+  | 'frequent_fill'
+  | 'amount_mismatch'
+  | 'stock_number_format'
+  | 'outside_geofence'
+  | 'no_location'
+  | 'fuel_type_mismatch'
+  | 'premium_fuel'
+
+// Largest allowed difference between total_amount and gallons x price_per_gallon
+export const AMOUNT_MISMATCH_TOLERANCE = 0.05
+
+// Pumps can deliver a little more than the rated capacity (filler neck, rounding)
+const TANK_CAPACITY_TOLERANCE = 1.1
+
+// Typical tank sizes by NHTSA body class, used when the vehicle record has no capacity
+const TANK_CAPACITY_BY_BODY_CLASS: [RegExp, number][] = [
+  [/pickup/i, 36],
+  [/van/i, 28],
+  [/sport utility|suv|multi-purpose|crossover/i, 26],
+  [/wagon/i, 18],
+  [/sedan|saloon|coupe|hatchback|convertible|cabriolet|roadster/i, 18]
+]
+
+// Tank capacity in gallons from the decoded vehicle. Admins can set
+// tank_capacity_gallons on the vehicle record to override the estimate.
+export const getTankCapacity = (vehicle: Vehicle | null): number | null => {
+  if (!vehicle) return null
+  if (Number(vehicle.tank_capacity_gallons) > 0) return Number(vehicle.tank_capacity_gallons)
+
+  const bodyClass = String(vehicle.body_class || '')
+  const match = TANK_CAPACITY_BY_BODY_CLASS.find(([pattern]) => pattern.test(bodyClass))
+  return match ? match[1] : null
+}
+
+// `vehicleEntries` are the other entries for the same vehicle, voided or not. `rooftop` is the one
+// the entry was recorded at, when it has one.
+export const evaluateEntryRules = (entry: FuelEntry, vehicleEntries: FuelEntry[], vehicle: Vehicle | null, rooftop: Rooftop | null = null): FlagReason[] => {
+  const reasons: FlagReason[] = []
+  const entryTime = new Date(entry.timestamp).getTime()
+
+  const others = vehicleEntries.filter(other => other.id !== entry.id && !other.voided)
+
+  // The odometer can't be lower than at any earlier fill
+  const previous = others
+    .filter(other => new Date(other.timestamp).getTime() <= entryTime)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0]
+  if (previous && Number(entry.odometer) < Number(previous.odometer)) {
+    reasons.push('odometer_regression')
+  }
+
+  const tankCapacity = getTankCapacity(vehicle)
+  if (tankCapacity && Number(entry.gallons) > tankCapacity * TANK_CAPACITY_TOLERANCE) {
+    reasons.push('exceeds_tank_capacity')
+  }
+
+  const windowMs = FREQUENT_FILL_WINDOW_HOURS * 60 * 60 * 1000
+  if (others.some(other => Math.abs(new Date(other.timestamp).getTime() - entryTime) < windowMs)) {
+    reasons.push('frequent_fill')
+  }
+
+  const expectedTotal = Number(entry.gallons) * Number(entry.price_per_gallon)
+  if (Math.abs(Number(entry.total_amount) - expectedTotal) > AMOUNT_MISMATCH_TOLERANCE) {
+    reasons.push('amount_mismatch')
+  }
+
+  if (!matchesStockNumberFormat(rooftop, String(entry.stock_number || ''))) {
+    reasons.push('stock_number_format')
+  }
+
+  if (isOutsideGeofence(rooftop, entry)) {
+    reasons.push('outside_geofence')
+  }
+
+  if (isMissingLocation(rooftop, entry)) {
+    reasons.push('no_location')
+  }
+
+  // The porter was warned before submitting; a wrong-fuel fill still needs someone to look at the vehicle
+  if (isFuelTypeMismatch(entry.fuel_type, vehicle)) {
+    reasons.push('fuel_type_mismatch')
+  }
+
+  if (isUnneededPremium(entry.fuel_type, vehicle)) {
+    reasons.push('premium_fuel')
+  }
+
+  return reasons
+}
@@ -0,0 +1,226 @@
+// Fuel entry exports for accounting: the columns people can pick, the rows for CSV and the
+// workbook (an entries sheet and a summary sheet) for XLSX
+import { getEntryStatus } from './approval.tsx'
+import { fuelTypeLabel } from './fuel_type.tsx'
+import { PURPOSE_LABELS, VEHICLE_CATEGORY_LABELS } from './purpose.tsx'
+import { DEFAULT_TIMEZONE } from './rooftops.tsx'
+import type { EntryQuery } from './entry_query.tsx'
+import type { GlAssignment } from './journal.tsx'
+import type { FuelEntry, Rooftop, UserProfile } from './repositories.tsx'
+import type { Cell, CellStyle, CellValue, Sheet } from './xlsx.tsx'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx']
+
+// Photo links in an export stay valid this long
+export const EXPORT_PHOTO_LINK_SECONDS = 60 * 60 * 24 * 7
+
+// What a row needs beyond the entry itself
+export interface ExportContext {
+  user: UserProfile | null
+  rooftop: Rooftop | null
+  gl: GlAssignment
+  // Signed links, looked up before the rows are built
+  receiptPhotoUrl: string | null
+  vinPhotoUrl: string | null
+}
+
+export interface ExportColumn {
+  key: string
+  label: string
+  style?: CellStyle
+  width: number
+  value: (entry: FuelEntry, context: ExportContext) => CellValue
+}
+
+export const STATUS_LABELS: Record<string, string> = {
+  submitted: 'Awaiting Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  needs_info: 'Needs Info'
+}
+
+const toNumber = (value: unknown) => value === null || value === undefined || value === '' ? null : Number(value)
+
+const orEmpty = (value: unknown) => value === null || value === undefined ? '' : String(value)
+
+// The entry's time on the rooftop's clock, as a Date whose UTC fields read as that wall-clock time
+export const localDateTime = (timestamp: string, timezone: string = DEFAULT_TIMEZONE) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(new Date(timestamp)).map(part => [part.type, part.value])
+  )
+  return new Date(Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second))
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', label: 'Entry ID', width: 38, value: entry => entry.id },
+  {
+    key: 'timestamp', label: 'Date/Time', style: 'date', width: 18,
+    value: (entry, { rooftop }) => localDateTime(entry.timestamp, rooftop?.timezone)
+  },
+  { key: 'rooftop', label: 'Rooftop', width: 24, value: (_, { rooftop }) => rooftop?.name ?? '' },
+  { key: 'user_name', label: 'User Name', width: 20, value: (_, { user }) => user?.name ?? '' },
+  { key: 'user_email', label: 'User Email', width: 28, value: (_, { user }) => user?.email ?? '' },
+  { key: 'stock_number', label: 'Stock Number', width: 14, value: entry => orEmpty(entry.stock_number) },
+  { key: 'vin', label: 'VIN', width: 20, value: entry => orEmpty(entry.vin) },
+  { key: 'vehicle_year', label: 'Vehicle Year', width: 12, value: entry => toNumber(entry.vehicle_year) },
+  { key: 'vehicle_make', label: 'Vehicle Make', width: 14, value: entry => orEmpty(entry.vehicle_make) },
+  { key: 'vehicle_model', label: 'Vehicle Model', width: 16, value: entry => orEmpty(entry.vehicle_model) },
+  { key: 'vehicle_trim', label: 'Vehicle Trim', width: 14, value: entry => orEmpty(entry.vehicle_trim) },
+  {
+    key: 'vehicle_category', label: 'Vehicle Category', width: 16,
+    value: entry => VEHICLE_CATEGORY_LABELS[entry.vehicle_category as keyof typeof VEHICLE_CATEGORY_LABELS] ?? orEmpty(entry.vehicle_category)
+  },
+  { key: 'ro_number', label: 'RO Number', width: 12, value: entry => orEmpty(entry.ro_number) },
+  { key: 'purpose', label: 'Purpose', width: 20, value: entry => PURPOSE_LABELS[entry.purpose as keyof typeof PURPOSE_LABELS] ?? orEmpty(entry.purpose) },
+  { key: 'gallons', label: 'Gallons', style: 'decimal', width: 10, value: entry => toNumber(entry.gallons) },
+  { key: 'price_per_gallon', label: 'Price Per Gallon', style: 'currency', width: 14, value: entry => toNumber(entry.price_per_gallon) },
+  { key: 'total_amount', label: 'Total Amount', style: 'currency', width: 14, value: entry => toNumber(entry.total_amount) },
+  { key: 'odometer', label: 'Odometer', width: 12, value: entry => toNumber(entry.odometer) },
+  { key: 'fuel_type', label: 'Fuel Type', width: 12, value: entry => fuelTypeLabel(entry.fuel_type) },
+  { key: 'station_name', label: 'Station', width: 24, value: entry => orEmpty(entry.station_name) },
+  { key: 'location', label: 'Location', width: 30, value: entry => orEmpty(entry.location) },
+  { key: 'latitude', label: 'Latitude', width: 12, value: entry => toNumber(entry.latitude) },
+  { key: 'longitude', label: 'Longitude', width: 12, value: entry => toNumber(entry.longitude) },
+  { key: 'gl_account', label: 'GL Account', width: 18, value: (_, { gl }) => gl.account },
+  { key: 'department', label: 'Department', width: 14, value: (_, { gl }) => gl.department ?? '' },
+  { key: 'status', label: 'Status', width: 16, value: entry => STATUS_LABELS[getEntryStatus(entry)] ?? getEntryStatus(entry) },
+  { key: 'flag_reasons', label: 'Flags', width: 24, value: entry => (entry.flag_reasons || []).join('; ') },
+  { key: 'voided', label: 'Voided', width: 8, value: entry => entry.voided ? 'Yes' : 'No' },
+  { key: 'void_reason', label: 'Void Reason', width: 24, value: entry => orEmpty(entry.void_reason) },
+  { key: 'receipt_photo', label: 'Receipt Photo', width: 40, value: (_, { receiptPhotoUrl }) => receiptPhotoUrl ?? '' },
+  { key: 'vin_photo', label: 'VIN Photo', width: 40, value: (_, { vinPhotoUrl }) => vinPhotoUrl ?? '' },
+  { key: 'notes', label: 'Notes', width: 30, value: entry => orEmpty(entry.notes) }
+]
+
+export interface ExportRequest {
+  format: ExportFormat
+  columns: ExportColumn[]
+}
+
+// The format and columns from the request's search params; the filters come from parseEntryQuery.
+// Returns an error message for unknown values.
+export const parseExportRequest = (params: Record<string, string>): ExportRequest | string => {
+  const format = (params.format || 'csv').toLowerCase() as ExportFormat
+  if (!EXPORT_FORMATS.includes(format)) return `Unknown export format ${params.format}`
+
+  if (!params.columns) return { format, columns: EXPORT_COLUMNS }
+
+  const keys = [...new Set(params.columns.split(',').map(key => key.trim()).filter(Boolean))]
+  const unknown = keys.find(key => !EXPORT_COLUMNS.some(column => column.key === key))
+  if (unknown) return `Unknown column ${unknown}`
+  if (keys.length === 0) return 'Choose at least one column'
+
+  // Columns keep their usual order whatever order they were asked for in
+  return { format, columns: EXPORT_COLUMNS.filter(column => keys.includes(column.key)) }
+}
+
+export const exportRows = (entries: FuelEntry[], contexts: ExportContext[], columns: ExportColumn[]): CellValue[][] => [
+  columns.map(column => column.label),
+  ...entries.map((entry, i) => columns.map(column => column.value(entry, contexts[i])))
+]
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const bold = (value: CellValue): Cell => ({ value, style: 'bold' })
+
+const currency = (value: number): Cell => ({ value: round(value), style: 'currency' })
+
+const decimal = (value: number): Cell => ({ value: round(value), style: 'decimal' })
+
+// Entries, gallons and spend for each group, largest spend first. Voided entries are left out.
+const breakdown = (title: string, entries: FuelEntry[], keyOf: (entry: FuelEntry) => string): Cell[][] => {
+  const groups = new Map<string, { entries: number; gallons: number; amount: number }>()
+  for (const entry of entries) {
+    const group = groups.get(keyOf(entry)) ?? { entries: 0, gallons: 0, amount: 0 }
+    group.entries += 1
+    group.gallons += Number(entry.gallons || 0)
+    group.amount += Number(entry.total_amount || 0)
+    groups.set(keyOf(entry), group)
+  }
+
+  return [
+    [bold(title), bold('Entries'), bold('Gallons'), bold('Total Amount')],
+    ...[...groups.entries()]
+      .sort((a, b) => b[1].amount - a[1].amount || a[0].localeCompare(b[0]))
+      .map(([name, group]) => [name, group.entries, decimal(group.gallons), currency(group.amount)])
+  ]
+}
+
+export interface SummaryOptions {
+  title: string
+  generatedAt: Date
+  query: EntryQuery
+  // Names for the filters, to show what the export covers
+  rooftopName: string | null
+  userName: string | null
+}
+
+// The summary sheet: what the export covers, totals, and spend by rooftop, user, GL account, purpose,
+// vehicle category and status
+export const summarySheet = (entries: FuelEntry[], contexts: ExportContext[], options: SummaryOptions): Sheet => {
+  const { query } = options
+  const counted = entries.filter(entry => !entry.voided)
+  const countedContexts = contexts.filter((_, i) => !entries[i].voided)
+  const gallons = counted.reduce((sum, entry) => sum + Number(entry.gallons || 0), 0)
+  const amount = counted.reduce((sum, entry) => sum + Number(entry.total_amount || 0), 0)
+  const day = (time: number | null) => time === null ? null : new Date(time).toISOString().slice(0, 10)
+
+  const rooftopOf = new Map(counted.map((entry, i) => [entry, countedContexts[i].rooftop?.name ?? 'Unassigned']))
+  const userOf = new Map(counted.map((entry, i) => [entry, countedContexts[i].user?.name ?? 'Unknown user']))
+  const accountOf = new Map(counted.map((entry, i) => [entry, countedContexts[i].gl.account]))
+
+  const rows: Cell[][] = [
+    [bold(options.title)],
+    ['Generated', options.generatedAt.toISOString().replace('T', ' ').slice(0, 16) + ' UTC'],
+    ['From', day(query.from) ?? 'Any date'],
+    ['To', day(query.to) ?? 'Any date'],
+    ['Rooftop', options.rooftopName ?? 'All rooftops'],
+    ['User', options.userName ?? 'All users'],
+    ['Status', query.status ? query.status.map(status => STATUS_LABELS[status] ?? status).join(', ') : 'Any status'],
+    ['Voided entries', query.include_voided ? 'Listed, not counted in totals' : 'Left out'],
+    [],
+    [bold('Totals')],
+    ['Entries', counted.length],
+    ['Gallons', decimal(gallons)],
+    ['Total Amount', currency(amount)],
+    ['Average Price Per Gallon', currency(gallons > 0 ? amount / gallons : 0)],
+    ['Flagged', counted.filter(entry => entry.flagged).length],
+    ['Voided', entries.length - counted.length],
+    [],
+    ...breakdown('Rooftop', counted, entry => rooftopOf.get(entry)!),
+    [],
+    ...breakdown('User', counted, entry => userOf.get(entry)!),
+    [],
+    ...breakdown('GL Account', counted, entry => accountOf.get(entry)!),
+    [],
+    ...breakdown('Purpose', counted, entry => PURPOSE_LABELS[entry.purpose as keyof typeof PURPOSE_LABELS] ?? 'Not recorded'),
+    [],
+    ...breakdown('Vehicle Category', counted, entry => VEHICLE_CATEGORY_LABELS[entry.vehicle_category as keyof typeof VEHICLE_CATEGORY_LABELS] ?? 'Not recorded'),
+    [],
+    ...breakdown('Fuel Type', counted, entry => fuelTypeLabel(entry.fuel_type) || 'Not recorded'),
+    [],
+    ...breakdown('Status', counted, entry => STATUS_LABELS[getEntryStatus(entry)] ?? getEntryStatus(entry))
+  ]
+
+  return { name: 'Summary', rows, columnWidths: [26, 28, 12, 14] }
+}
+
+export const entriesSheet = (rows: CellValue[][], columns: ExportColumn[]): Sheet => ({
+  name: 'Entries',
+  rows: rows.map((row, r) => row.map((value, c): Cell => {
+    if (r === 0) return bold(value)
+    const style = columns[c].style
+    return style ? { value, style } : value
+  })),
+  columnWidths: columns.map(column => column.width),
+  freezeHeader: true
+})
+
+export const exportFileName = (format: ExportFormat, now: Date) =>
+  `fueltrakr-export-${now.toISOString().slice(0, 10)}.${format}`
@@ -0,0 +1,100 @@
+// Per-vehicle fuel history. Mirrors src/utils/fuelHistory.ts on the client; keep the two in sync.
+// fuel_history_test.tsx runs both on the same fills.
+import type { FuelEntry } from './repositories.tsx'
+
+// A vehicle refueled within this many hours of its last fill is flagged
+export const FREQUENT_FILL_WINDOW_HOURS = Number(Deno.env.get('FREQUENT_FILL_WINDOW_HOURS') ?? '24')
+
+// ...or after driving fewer than this many miles
+export const FREQUENT_FILL_MIN_MILES = Number(Deno.env.get('FREQUENT_FILL_MIN_MILES') ?? '50')
+
+export interface FuelHistoryFill {
+  entry_id: string
+  timestamp: string
+  odometer: number
+  gallons: number
+  total_amount: number
+  user_id: string
+  miles_since_last: number | null
+  hours_since_last: number | null
+  mpg: number | null
+  cost_per_mile: number | null
+  frequent_fill: boolean
+}
+
+export interface FuelHistorySummary {
+  fill_count: number
+  total_gallons: number
+  total_cost: number
+  total_miles: number
+  average_mpg: number | null
+  cost_per_mile: number | null
+  frequent_fill_count: number
+}
+
+// The parts of a fuel entry the history reads
+type HistoryEntry = Pick<FuelEntry, 'id' | 'user_id' | 'timestamp' | 'odometer' | 'gallons' | 'total_amount' | 'voided'> &
+  Partial<Pick<FuelEntry, 'stock_number' | 'vin'>>
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits))
+
+// Entries belong to a vehicle when either its stock number or its VIN matches
+export const matchesVehicle = (entry: Pick<HistoryEntry, 'stock_number' | 'vin'>, vehicleId: string) => {
+  const id = vehicleId.trim().toUpperCase()
+  return String(entry.stock_number || '').trim().toUpperCase() === id ||
+    String(entry.vin || '').trim().toUpperCase() === id
+}
+
+// Uses the fill-to-fill method: the gallons pumped at a fill are what the
+// vehicle burned since the previous fill
+export const buildFuelHistory = (entries: HistoryEntry[]) => {
+  const sorted = entries
+    .filter(entry => !entry.voided)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+  const fills: FuelHistoryFill[] = sorted.map((entry, index) => {
+    const previous = index > 0 ? sorted[index - 1] : null
+    const miles = previous ? Number(entry.odometer) - Number(previous.odometer) : null
+    const hours = previous
+      ? (new Date(entry.timestamp).getTime() - new Date(previous.timestamp).getTime()) / (60 * 60 * 1000)
+      : null
+    // A lower odometer than last time is a data error, not negative miles
+    const validMiles = miles !== null && miles > 0 ? miles : null
+
+    return {
+      entry_id: entry.id,
+      timestamp: entry.timestamp,
+      odometer: Number(entry.odometer),
+      gallons: Number(entry.gallons),
+      total_amount: Number(entry.total_amount),
+      user_id: entry.user_id,
+      miles_since_last: miles,
+      hours_since_last: hours === null ? null : round(hours, 1),
+      mpg: validMiles && entry.gallons > 0 ? round(validMiles / Number(entry.gallons), 1) : null,
+      cost_per_mile: validMiles ? round(Number(entry.total_amount) / validMiles, 3) : null,
+      frequent_fill: previous !== null && (
+        (hours !== null && hours < FREQUENT_FILL_WINDOW_HOURS) ||
+        (miles !== null && miles < FREQUENT_FILL_MIN_MILES)
+      )
+    }
+  })
+
+  // The first fill only sets the starting odometer, so it's left out of the averages
+  const measured = fills.filter(fill => fill.mpg !== null)
+  const measuredMiles = measured.reduce((sum, fill) => sum + (fill.miles_since_last || 0), 0)
+  const measuredGallons = measured.reduce((sum, fill) => sum + fill.gallons, 0)
+  const measuredCost = measured.reduce((sum, fill) => sum + fill.total_amount, 0)
+
+  const summary: FuelHistorySummary = {
+    fill_count: fills.length,
+    total_gallons: round(fills.reduce((sum, fill) => sum + fill.gallons, 0), 3),
+    total_cost: round(fills.reduce((sum, fill) => sum + fill.total_amount, 0), 2),
+    total_miles: fills.length > 1 ? Math.max(fills[fills.length - 1].odometer - fills[0].odometer, 0) : 0,
+    average_mpg: measuredGallons > 0 ? round(measuredMiles / measuredGallons, 1) : null,
+    cost_per_mile: measuredMiles > 0 ? round(measuredCost / measuredMiles, 3) : null,
+    frequent_fill_count: fills.filter(fill => fill.frequent_fill).length
+  }
+
+  // Newest first, like the entry list
+  return { fills: fills.reverse(), summary }
+}
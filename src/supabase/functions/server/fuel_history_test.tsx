@@ -0,0 +1,43 @@
+import { assertEquals } from 'jsr:@std/assert@1'
+import { buildFuelHistory, matchesVehicle } from './fuel_history.tsx'
+import * as client from '../../../utils/fuelHistory.ts'
+
+// One vehicle's fills, out of order, with a voided entry, a quick top-up and an odometer typo
+const FILLS = [
+  { id: 'e3', user_id: 'porter-1', stock_number: 'A1234', timestamp: '2025-03-05T20:00:00.000Z', odometer: 10320, gallons: 2, total_amount: 7 },
+  { id: 'e1', user_id: 'porter-1', stock_number: 'A1234', timestamp: '2025-03-01T10:00:00.000Z', odometer: 10000, gallons: 10, total_amount: 35 },
+  { id: 'e4', user_id: 'porter-2', stock_number: 'A1234', timestamp: '2025-03-06T10:00:00.000Z', odometer: 10400, gallons: 9, total_amount: 30, voided: true },
+  { id: 'e2', user_id: 'porter-2', stock_number: 'A1234', vin: '1HGCM82633A004352', timestamp: '2025-03-05T10:00:00.000Z', odometer: 10300, gallons: 12, total_amount: 42 },
+  { id: 'e5', user_id: 'porter-1', stock_number: 'A1234', timestamp: '2025-03-08T10:00:00.000Z', odometer: 10310, gallons: 10, total_amount: 35 }
+]
+
+Deno.test('the client and server fuel histories agree', () => {
+  assertEquals(client.buildFuelHistory(FILLS), buildFuelHistory(FILLS))
+  assertEquals([client.FREQUENT_FILL_WINDOW_HOURS, client.FREQUENT_FILL_MIN_MILES], [24, 50])
+
+  for (const vehicleId of ['a1234 ', '1hgcm82633a004352', 'A123']) {
+    assertEquals(FILLS.filter(fill => client.matchesVehicle(fill, vehicleId)), FILLS.filter(fill => matchesVehicle(fill, vehicleId)))
+  }
+})
+
+Deno.test('buildFuelHistory works fill to fill, newest first', () => {
+  const { fills, summary } = buildFuelHistory(FILLS)
+  assertEquals(fills.map(fill => fill.entry_id), ['e5', 'e3', 'e2', 'e1'])
+
+  const [typo, topUp, regular, first] = fills
+  assertEquals([first.miles_since_last, first.mpg, first.frequent_fill], [null, null, false])
+  assertEquals([regular.miles_since_last, regular.hours_since_last, regular.mpg, regular.cost_per_mile], [300, 96, 25, 0.14])
+  assertEquals([topUp.hours_since_last, topUp.frequent_fill], [10, true])
+  // Negative miles are kept for the record but measure nothing
+  assertEquals([typo.miles_since_last, typo.mpg, typo.frequent_fill], [-10, null, true])
+
+  assertEquals(summary, {
+    fill_count: 4,
+    total_gallons: 34,
+    total_cost: 119,
+    total_miles: 310,
+    average_mpg: 22.9,
+    cost_per_mile: 0.153,
+    frequent_fill_count: 2
+  })
+})
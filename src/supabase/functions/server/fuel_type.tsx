@@ -0,0 +1,55 @@
+// The fuel grade pumped on each fill, checked against what the decoded vehicle runs on
+import type { Vehicle } from './repositories.tsx'
+export type FuelType = 'regular' | 'midgrade' | 'premium' | 'diesel' | 'e85'
+
+export const FUEL_TYPES: FuelType[] = ['regular', 'midgrade', 'premium', 'diesel', 'e85']
+
+export const FUEL_TYPE_LABELS: Record<FuelType, string> = {
+  regular: 'Regular',
+  midgrade: 'Mid-grade',
+  premium: 'Premium',
+  diesel: 'Diesel',
+  e85: 'E85'
+}
+
+// Fuel types from a request body: the code or its label, in any case. Entries recorded before the
+// picker existed say 'Regular'. Null when empty, undefined when not a known type.
+export const parseFuelType = (value: unknown): FuelType | null | undefined => {
+  const text = String(value ?? '').trim().toLowerCase()
+  if (!text) return null
+  return FUEL_TYPES.find(type => type === text || FUEL_TYPE_LABELS[type].toLowerCase() === text)
+}
+
+export const fuelTypeLabel = (value: unknown) => {
+  const fuelType = parseFuelType(value)
+  return fuelType ? FUEL_TYPE_LABELS[fuelType] : String(value ?? '')
+}
+
+// What the engine burns, from NHTSA's primary fuel type. Null for electric vehicles and for
+// vehicles that weren't decoded, which are never checked.
+export const vehicleFuel = (vehicle: Vehicle | null): 'gasoline' | 'diesel' | null => {
+  const decoded = String(vehicle?.fuel_type || '')
+  if (/diesel/i.test(decoded)) return 'diesel'
+  if (/gasoline|flexible fuel|ffv/i.test(decoded)) return 'gasoline'
+  return null
+}
+
+// Gasoline in a diesel engine or diesel in a gasoline one
+export const isFuelTypeMismatch = (fuelType: unknown, vehicle: Vehicle | null) => {
+  const parsed = parseFuelType(fuelType)
+  const fuel = vehicleFuel(vehicle)
+  if (!parsed || !fuel) return false
+  return fuel === 'diesel' ? parsed !== 'diesel' : parsed === 'diesel'
+}
+
+// Premium in a gasoline vehicle that runs on regular. NHTSA doesn't say which engines need
+// premium, so admins classify vehicles: premium_required stays null until they do, and
+// unclassified vehicles are never flagged.
+export const isUnneededPremium = (fuelType: unknown, vehicle: Vehicle | null) =>
+  parseFuelType(fuelType) === 'premium' && vehicleFuel(vehicle) === 'gasoline' && vehicle?.premium_required === false
+
+// The fuel the form starts on for a decoded vehicle
+export const defaultFuelType = (vehicle: Vehicle | null): FuelType => {
+  if (vehicleFuel(vehicle) === 'diesel') return 'diesel'
+  return vehicle?.premium_required === true ? 'premium' : 'regular'
+}
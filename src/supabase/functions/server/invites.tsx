@@ -0,0 +1,68 @@
+// Invite-only account creation. Invites are stored in the KV store as invite:{id} and found
+// from their link by token hash (see tokens.tsx).
+import type { Role } from './permissions.tsx'
+
+export type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+// How long an invite link stays valid; resending starts the clock again
+export const INVITE_TTL_HOURS = Number(Deno.env.get('INVITE_TTL_HOURS') ?? '168')
+
+export interface Invite {
+  id: string
+  email: string
+  name: string
+  role: Role
+  rooftop_id: string | null
+  token_hash: string
+  // Expiry isn't stored; getInviteStatus works it out from expires_at
+  status: Exclude<InviteStatus, 'expired'>
+  created_by: string
+  created_by_name: string
+  created_at: string
+  expires_at: string
+  send_count: number
+  resent_at?: string
+  accepted_at?: string
+  accepted_user_id?: string
+  revoked_at?: string
+  revoked_by?: string
+}
+
+export const inviteExpiry = (now: Date) => new Date(now.getTime() + INVITE_TTL_HOURS * 60 * 60 * 1000).toISOString()
+
+export const getInviteStatus = (invite: Invite, now: Date): InviteStatus => {
+  if (invite.status !== 'pending') return invite.status
+  return new Date(invite.expires_at).getTime() <= now.getTime() ? 'expired' : 'pending'
+}
+
+// What admins see: the computed status and never the token hash
+export const toPublicInvite = (invite: Invite, now: Date) => {
+  const publicInvite: Omit<Invite, 'status' | 'token_hash'> & { status: InviteStatus; token_hash?: string } = { ...invite, status: getInviteStatus(invite, now) }
+  delete publicInvite.token_hash
+  return publicInvite
+}
+
+// Why an invite can't be used, or null when it can
+export const inviteProblem = (invite: Invite, now: Date): string | null => {
+  switch (getInviteStatus(invite, now)) {
+    case 'accepted': return 'This invite has already been used'
+    case 'revoked': return 'This invite has been revoked'
+    case 'expired': return 'This invite has expired. Ask an administrator to resend it.'
+    default: return null
+  }
+}
+
+export const inviteEmail = (invite: Invite, rooftopName: string | null, link: string) => ({
+  to: invite.email,
+  subject: 'You have been invited to FuelTrakr',
+  text: [
+    `Hi ${invite.name},`,
+    '',
+    `${invite.created_by_name} has invited you to FuelTrakr${rooftopName ? ` at ${rooftopName}` : ''}.`,
+    'Open this link to choose a password and finish setting up your account:',
+    '',
+    link,
+    '',
+    `The link works once and expires on ${new Date(invite.expires_at).toUTCString()}.`
+  ].join('\n')
+})
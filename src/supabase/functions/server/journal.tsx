@@ -0,0 +1,189 @@
+// General-ledger mapping for fuel spend and the journal-entry files accounting imports: a generic
+// GL CSV and QuickBooks IIF. Each fuel entry becomes one balanced journal entry, a debit to the
+// account its mapping rule picks and a credit to the fuel card clearing account.
+import { VEHICLE_CATEGORIES, type VehicleCategory } from './purpose.tsx'
+import { localDate } from './rooftops.tsx'
+import type { FuelEntry, Vehicle } from './repositories.tsx'
+
+export const GL_MAPPING_KEY = 'settings:gl_mapping'
+
+export interface GlRule {
+  id: string
+  // Every condition that is set must match; unset ones match anything
+  stock_number_prefix: string | null
+  // NHTSA vehicle type of the decoded VIN, e.g. PASSENGER CAR or TRUCK
+  vehicle_type: string | null
+  // The entry's new / used / loaner / service customer category
+  vehicle_category: VehicleCategory | null
+  rooftop_id: string | null
+  account: string
+  department: string | null
+  // Shown in the admin panel, e.g. "New inventory"
+  label: string | null
+}
+
+export interface GlMapping {
+  // Checked in order; the first match wins
+  rules: GlRule[]
+  default_account: string
+  default_department: string | null
+  // The credit side of every journal entry, e.g. the fuel card payable account
+  credit_account: string
+}
+
+export const DEFAULT_GL_MAPPING: GlMapping = {
+  rules: [],
+  default_account: 'Fuel Expense',
+  default_department: null,
+  credit_account: 'Fuel Card Payable'
+}
+
+export const MAX_GL_RULES = 100
+
+export type JournalFormat = 'gl_csv' | 'iif'
+
+export const JOURNAL_FORMATS: JournalFormat[] = ['gl_csv', 'iif']
+
+export const normalizeGlMapping = (stored: Partial<GlMapping> | null | undefined): GlMapping => ({ ...DEFAULT_GL_MAPPING, ...stored })
+
+const optionalText = (value: unknown) => String(value ?? '').trim() || null
+
+// Validate an edited mapping. Rules without an id get one. Returns an error message for invalid input.
+export const parseGlMapping = (input: Record<string, unknown> | null, rooftopIds: string[]): GlMapping | string => {
+  const defaultAccount = String(input?.default_account ?? '').trim()
+  if (!defaultAccount) return 'A default account is required'
+  const creditAccount = String(input?.credit_account ?? '').trim()
+  if (!creditAccount) return 'A credit account is required'
+
+  const rules: Record<string, unknown>[] = Array.isArray(input?.rules) ? input.rules : []
+  if (rules.length > MAX_GL_RULES) return `There can be at most ${MAX_GL_RULES} rules`
+
+  const parsed: GlRule[] = []
+  for (const [i, rule] of rules.entries()) {
+    const account = String(rule?.account ?? '').trim()
+    if (!account) return `Rule ${i + 1} needs an account`
+
+    const rooftopId = optionalText(rule.rooftop_id)
+    if (rooftopId && !rooftopIds.includes(rooftopId)) return `Rule ${i + 1} names a rooftop that doesn't exist`
+
+    const stockNumberPrefix = optionalText(rule.stock_number_prefix)?.toUpperCase() ?? null
+    const vehicleType = optionalText(rule.vehicle_type)?.toUpperCase() ?? null
+    const vehicleCategory = optionalText(rule.vehicle_category)?.toLowerCase() ?? null
+    if (vehicleCategory && !VEHICLE_CATEGORIES.includes(vehicleCategory as VehicleCategory)) {
+      return `Rule ${i + 1} has an unknown vehicle category ${rule.vehicle_category}`
+    }
+    if (!stockNumberPrefix && !vehicleType && !vehicleCategory && !rooftopId) {
+      return `Rule ${i + 1} matches every entry. Set a stock number prefix, vehicle type, vehicle category or rooftop, or change the default account instead.`
+    }
+
+    parsed.push({
+      id: optionalText(rule.id) ?? crypto.randomUUID(),
+      stock_number_prefix: stockNumberPrefix,
+      vehicle_type: vehicleType,
+      vehicle_category: vehicleCategory as VehicleCategory | null,
+      rooftop_id: rooftopId,
+      account,
+      department: optionalText(rule.department),
+      label: optionalText(rule.label)
+    })
+  }
+
+  return {
+    rules: parsed,
+    default_account: defaultAccount,
+    default_department: optionalText(input?.default_department),
+    credit_account: creditAccount
+  }
+}
+
+export const matchesGlRule = (rule: GlRule, entry: FuelEntry, vehicle: Vehicle | null) => {
+  if (rule.stock_number_prefix && !String(entry.stock_number || '').toUpperCase().startsWith(rule.stock_number_prefix)) return false
+  if (rule.vehicle_type && String(vehicle?.vehicle_type || '').trim().toUpperCase() !== rule.vehicle_type) return false
+  if (rule.vehicle_category && entry.vehicle_category !== rule.vehicle_category) return false
+  if (rule.rooftop_id && entry.rooftop_id !== rule.rooftop_id) return false
+  return true
+}
+
+export interface GlAssignment {
+  account: string
+  department: string | null
+  // Null when the default account was used
+  rule_id: string | null
+}
+
+export const assignGlAccount = (entry: FuelEntry, vehicle: Vehicle | null, mapping: GlMapping): GlAssignment => {
+  const rule = mapping.rules.find(rule => matchesGlRule(rule, entry, vehicle))
+  return rule
+    ? { account: rule.account, department: rule.department, rule_id: rule.id }
+    : { account: mapping.default_account, department: mapping.default_department, rule_id: null }
+}
+
+export interface JournalEntry {
+  // YYYY-MM-DD at the rooftop
+  date: string
+  // The fuel entry id, so a posting can be traced back
+  reference: string
+  // Short document number for systems with a length limit: the stock number when there is one
+  document_number: string
+  debit_account: string
+  department: string | null
+  credit_account: string
+  amount: number
+  memo: string
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// One journal entry per fuel entry. Voided and zero-amount entries have nothing to post.
+export const buildJournal = (
+  entries: FuelEntry[],
+  details: { assignment: GlAssignment; userName: string | null; timezone: string | undefined }[],
+  mapping: GlMapping
+): JournalEntry[] => entries
+  .map((entry, i) => ({ entry, ...details[i] }))
+  .filter(({ entry }) => !entry.voided && round(Number(entry.total_amount || 0)) !== 0)
+  .map(({ entry, assignment, userName, timezone }) => ({
+    date: localDate(entry.timestamp, timezone),
+    reference: entry.id,
+    document_number: String(entry.stock_number || entry.id.slice(0, 8)),
+    debit_account: assignment.account,
+    department: assignment.department,
+    credit_account: mapping.credit_account,
+    amount: round(Number(entry.total_amount)),
+    memo: ['Fuel', entry.stock_number && `stock ${entry.stock_number}`, `${Number(entry.gallons || 0)} gal`, userName]
+      .filter(Boolean).join(' - ')
+  }))
+
+// Two rows per journal entry, debit then credit, for importing into most GL systems
+export const glCsvRows = (journal: JournalEntry[]): (string | number | null)[][] => [
+  ['Date', 'Reference', 'Account', 'Department', 'Debit', 'Credit', 'Memo'],
+  ...journal.flatMap(line => [
+    [line.date, line.reference, line.debit_account, line.department, line.amount.toFixed(2), null, line.memo],
+    [line.date, line.reference, line.credit_account, null, null, line.amount.toFixed(2), line.memo]
+  ])
+]
+
+// IIF is tab-separated with no quoting, so tabs, line breaks and quotes can't appear in a field
+const iifField = (value: string | null) => String(value ?? '').replace(/[\t\r\n"]+/g, ' ').trim()
+
+// QuickBooks Desktop IIF: each GENERAL JOURNAL transaction credits the clearing account on the
+// TRNS line and debits the expense account on the SPL line. Departments become classes.
+export const formatIif = (journal: JournalEntry[]) => {
+  const usDate = (date: string) => `${date.slice(5, 7)}/${date.slice(8, 10)}/${date.slice(0, 4)}`
+  const row = (fields: (string | null)[]) => fields.map(iifField).join('\t')
+
+  const lines = [
+    row(['!TRNS', 'TRNSTYPE', 'DATE', 'ACCNT', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO']),
+    row(['!SPL', 'TRNSTYPE', 'DATE', 'ACCNT', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO']),
+    row(['!ENDTRNS']),
+    ...journal.flatMap(line => [
+      row(['TRNS', 'GENERAL JOURNAL', usDate(line.date), line.credit_account, null, (-line.amount).toFixed(2), line.document_number, line.memo]),
+      row(['SPL', 'GENERAL JOURNAL', usDate(line.date), line.debit_account, line.department, line.amount.toFixed(2), line.document_number, line.memo]),
+      row(['ENDTRNS'])
+    ])
+  ]
+  return lines.join('\r\n') + '\r\n'
+}
+
+export const journalFileName = (format: JournalFormat, now: Date) =>
+  `fueltrakr-journal-${now.toISOString().slice(0, 10)}.${format === 'iif' ? 'iif' : 'csv'}`
@@ -0,0 +1,197 @@
+// Repositories on top of the key-value store, using the keys the app has always used:
+// rooftop:{id}, user:{id}, fuel_entry:{id}, fuel_entry_revisions:{entry_id}, vehicle:{VIN} and photo:{path}.
+//
+// The per-user entry index is one key per entry, user_fuel_entries:{user_id}:{entry_id}, so adding
+// or removing an entry is a single write and concurrent submissions can't overwrite each other.
+// Older data has a single user_fuel_entries:{user_id} array instead; it is still read until
+// rebuildIndex converts it.
+//
+// Entries are also indexed by vehicle, vehicle_fuel_entries:{vehicle_id}:{entry_id}, with one key for the
+// upper-cased stock number and one for the VIN. Saving an entry moves its keys when either changes.
+import type { KvStore } from './router.tsx'
+import { needsOwners, queryEntries } from './entry_query.tsx'
+import {
+  entryVehicleIds,
+  type EntryRevision,
+  type FuelEntry,
+  type IndexReference,
+  type Photo,
+  type Repositories,
+  type Rooftop,
+  type UserProfile,
+  type Vehicle
+} from './repositories.tsx'
+
+interface VehicleIndexReference {
+  vehicle_id: string
+  entry_id: string
+}
+
+const legacyIndexKey = (userId: string) => `user_fuel_entries:${userId}`
+const indexKey = (userId: string, entryId: string) => `user_fuel_entries:${userId}:${entryId}`
+const vehicleIndexKey = (vehicleId: string, entryId: string) => `vehicle_fuel_entries:${vehicleId}:${entryId}`
+
+const vehicleReferences = (entry: FuelEntry): VehicleIndexReference[] =>
+  entryVehicleIds(entry).map(vehicleId => ({ vehicle_id: vehicleId, entry_id: entry.id }))
+const vehicleReferenceKey = (reference: VehicleIndexReference) => vehicleIndexKey(reference.vehicle_id, reference.entry_id)
+
+export const createKvRepositories = (kv: KvStore): Repositories => {
+  const getEntryIds = async (userId: string): Promise<string[]> => {
+    const legacyIds = await kv.get<string[]>(legacyIndexKey(userId)) || []
+    const indexed = await kv.getByPrefix<IndexReference>(`${legacyIndexKey(userId)}:`)
+    return [...new Set([...legacyIds, ...indexed.map(reference => reference.entry_id)])]
+  }
+
+  const listUserEntries = async (userId: string) => {
+    const entryIds = await getEntryIds(userId)
+    return entryIds.length > 0 ? await kv.mget<FuelEntry>(entryIds.map(entryId => `fuel_entry:${entryId}`)) : []
+  }
+
+  return {
+    rooftops: {
+      get: async (id) => await kv.get<Rooftop>(`rooftop:${id}`) ?? null,
+      list: () => kv.getByPrefix<Rooftop>('rooftop:'),
+      save: (rooftop) => kv.set(`rooftop:${rooftop.id}`, rooftop),
+      delete: (id) => kv.del(`rooftop:${id}`)
+    },
+    users: {
+      get: async (id) => await kv.get<UserProfile>(`user:${id}`) ?? null,
+      list: () => kv.getByPrefix<UserProfile>('user:'),
+      save: (user) => kv.set(`user:${user.id}`, user),
+      delete: (id) => kv.del(`user:${id}`)
+    },
+    entries: {
+      get: async (id) => await kv.get<FuelEntry>(`fuel_entry:${id}`) ?? null,
+      list: () => kv.getByPrefix<FuelEntry>('fuel_entry:'),
+      listByUser: listUserEntries,
+      // Vehicle IDs can contain ':', so the prefix may also find keys of a longer ID. Keys left
+      // behind when an edit's writes failed part way are skipped too.
+      listByVehicle: async (vehicleId) => {
+        const id = vehicleId.trim().toUpperCase()
+        if (!id) return []
+        const references = await kv.getByPrefix<VehicleIndexReference>(`vehicle_fuel_entries:${id}:`)
+        const entryIds = references.filter(reference => reference.vehicle_id === id).map(reference => reference.entry_id)
+        const entries = entryIds.length > 0 ? await kv.mget<FuelEntry | null>(entryIds.map(entryId => `fuel_entry:${entryId}`)) : []
+        return entries.filter((entry): entry is FuelEntry => !!entry && entryVehicleIds(entry).includes(id))
+      },
+      // The KV store can't filter or sort, so this reads every entry unless the query is for one user's
+      query: async (query) => queryEntries(
+        query.user_id ? await listUserEntries(query.user_id) : await kv.getByPrefix<FuelEntry>('fuel_entry:'),
+        needsOwners(query) ? await kv.getByPrefix<UserProfile>('user:') : [],
+        query
+      ),
+      // The entry is written before its index keys; if a later write fails, rebuildIndex finds it
+      save: async (entry) => {
+        const previous = await kv.get<FuelEntry>(`fuel_entry:${entry.id}`)
+        await kv.set(`fuel_entry:${entry.id}`, entry)
+
+        const references = vehicleReferences(entry)
+        await kv.mset(
+          [indexKey(entry.user_id, entry.id), ...references.map(vehicleReferenceKey)],
+          [{ user_id: entry.user_id, entry_id: entry.id }, ...references]
+        )
+
+        const keys = new Set(references.map(vehicleReferenceKey))
+        const staleKeys = previous ? vehicleReferences(previous).map(vehicleReferenceKey).filter(key => !keys.has(key)) : []
+        if (staleKeys.length > 0) {
+          await kv.mdel(staleKeys)
+        }
+      },
+      delete: async (id) => {
+        const entry = await kv.get<FuelEntry>(`fuel_entry:${id}`)
+        const keys = [`fuel_entry:${id}`, `fuel_entry_revisions:${id}`]
+        if (entry) keys.push(indexKey(entry.user_id, id), ...vehicleReferences(entry).map(vehicleReferenceKey))
+        await kv.mdel(keys)
+      },
+      listRevisions: async (entryId) => await kv.get<EntryRevision[]>(`fuel_entry_revisions:${entryId}`) || [],
+      saveRevision: async (entryId, revision) => {
+        const revisions = await kv.get<EntryRevision[]>(`fuel_entry_revisions:${entryId}`) || []
+        await kv.set(`fuel_entry_revisions:${entryId}`, [...revisions, revision])
+      },
+      rebuildIndex: async ({ dryRun }) => {
+        const entries = await kv.getByPrefix<FuelEntry>('fuel_entry:')
+        // The prefix also returns legacy arrays, which don't say whose they are
+        const indexKeys = (await kv.getByPrefix<IndexReference | string[]>('user_fuel_entries:'))
+          .filter((value): value is IndexReference => !Array.isArray(value))
+
+        // Legacy lists can only be found by asking for each user that might have one
+        const profiles = await kv.getByPrefix<UserProfile>('user:')
+        const userIds = new Set<string>([
+          ...profiles.map(profile => profile.id),
+          ...entries.map(entry => entry.user_id),
+          ...indexKeys.map(reference => reference.user_id)
+        ])
+        const legacyReferences: IndexReference[] = []
+        const legacyKeys: string[] = []
+        for (const userId of userIds) {
+          const entryIds = await kv.get<string[]>(legacyIndexKey(userId))
+          if (!entryIds) continue
+          legacyKeys.push(legacyIndexKey(userId))
+          legacyReferences.push(...entryIds.map(entryId => ({ user_id: userId, entry_id: entryId })))
+        }
+
+        // Every stock number and VIN key the entries call for, against the keys there are
+        const vehicleKeys = await kv.getByPrefix<VehicleIndexReference>('vehicle_fuel_entries:')
+        const existingVehicleKeys = new Set(vehicleKeys.map(vehicleReferenceKey))
+        const expectedVehicleKeys = new Map(entries.flatMap(entry =>
+          vehicleReferences(entry).map(reference => [vehicleReferenceKey(reference), reference] as const)
+        ))
+        const unindexedVehicleKeys = [...expectedVehicleKeys.keys()].filter(key => !existingVehicleKeys.has(key))
+        const danglingVehicleKeys = [...existingVehicleKeys].filter(key => !expectedVehicleKeys.has(key))
+
+        const referenceKey = (reference: IndexReference) => indexKey(reference.user_id, reference.entry_id)
+        const referenced = new Set([...indexKeys, ...legacyReferences].map(referenceKey))
+        const owners = new Map(entries.map(entry => [entry.id, entry.user_id]))
+
+        const unindexed = entries
+          .filter(entry => !referenced.has(indexKey(entry.user_id, entry.id)))
+          .map(entry => ({ user_id: entry.user_id, entry_id: entry.id }))
+        const dangling = [...new Map(
+          [...indexKeys, ...legacyReferences]
+            .filter(reference => owners.get(reference.entry_id) !== reference.user_id)
+            .map(reference => [referenceKey(reference), reference])
+        ).values()]
+
+        if (!dryRun) {
+          // Writing every entry's key also converts the legacy lists, which can then go
+          if (entries.length > 0) {
+            await kv.mset(
+              entries.map(entry => indexKey(entry.user_id, entry.id)),
+              entries.map(entry => ({ user_id: entry.user_id, entry_id: entry.id }))
+            )
+          }
+          if (unindexedVehicleKeys.length > 0) {
+            await kv.mset(unindexedVehicleKeys, unindexedVehicleKeys.map(key => expectedVehicleKeys.get(key)))
+          }
+          const staleKeys = [...dangling.map(referenceKey), ...legacyKeys, ...danglingVehicleKeys]
+          if (staleKeys.length > 0) {
+            await kv.mdel(staleKeys)
+          }
+        }
+
+        return {
+          dry_run: dryRun,
+          entries_scanned: entries.length,
+          index_keys_scanned: indexKeys.length + legacyReferences.length + vehicleKeys.length,
+          unindexed_entries: unindexed,
+          dangling_index_keys: dangling,
+          legacy_lists_converted: legacyKeys.length,
+          unindexed_vehicle_keys: unindexedVehicleKeys.length,
+          dangling_vehicle_keys: danglingVehicleKeys.length
+        }
+      }
+    },
+    vehicles: {
+      get: async (vin) => await kv.get<Vehicle>(`vehicle:${vin.toUpperCase()}`) ?? null,
+      list: () => kv.getByPrefix<Vehicle>('vehicle:'),
+      save: (vehicle) => kv.set(`vehicle:${vehicle.vin.toUpperCase()}`, vehicle)
+    },
+    photos: {
+      get: async (path) => await kv.get<Photo>(`photo:${path}`) ?? null,
+      list: () => kv.getByPrefix<Photo>('photo:'),
+      listByUser: (userId) => kv.getByPrefix<Photo>(`photo:${userId}/`),
+      save: (photo) => kv.set(`photo:${photo.path}`, photo),
+      delete: (path) => kv.del(`photo:${path}`)
+    }
+  }
+}
@@ -0,0 +1,98 @@
+// Outgoing email. supabase_adapters.tsx picks the transport with MAIL_TRANSPORT:
+//   console (default) - print messages to the function log
+//   smtp              - plain SMTP to SMTP_HOST:SMTP_PORT, for a local catcher such as Mailpit or MailHog
+// Messages are plain text; links in them point at APP_URL.
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+export const MAIL_FROM = Deno.env.get('MAIL_FROM') ?? 'FuelTrakr <no-reply@napleton.com>'
+
+export const createConsoleTransport = (log: (message: string) => void = console.log): MailTransport => ({
+  send: async ({ to, subject, text }) => {
+    log(`📧 To: ${to}\nSubject: ${subject}\n\n${text}`)
+  }
+})
+
+// The parts of Deno.Conn the SMTP client uses, so tests can script a server
+export interface SmtpConnection {
+  read(buffer: Uint8Array): Promise<number | null>
+  write(data: Uint8Array): Promise<number>
+  close(): void
+}
+
+interface SmtpOptions {
+  hostname: string
+  port: number
+  from?: string
+  connect?: (options: { hostname: string; port: number }) => Promise<SmtpConnection>
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// The address inside "Name <address>", or the whole string when there are no brackets
+const envelopeAddress = (address: string) => address.match(/<([^>]+)>/)?.[1] ?? address.trim()
+
+// Lines starting with a dot get a second one so the server doesn't read them as the end of the message
+export const formatMessage = (from: string, { to, subject, text }: MailMessage, date: Date) => [
+  `From: ${from}`,
+  `To: ${to}`,
+  `Subject: ${subject}`,
+  `Date: ${date.toUTCString()}`,
+  'MIME-Version: 1.0',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  ...text.split(/\r?\n/).map(line => line.startsWith('.') ? `.${line}` : line)
+].join('\r\n')
+
+// No TLS or AUTH: meant for a catcher on localhost, not a real relay
+export const createSmtpTransport = ({ hostname, port, from = MAIL_FROM, connect = Deno.connect }: SmtpOptions): MailTransport => ({
+  send: async (message) => {
+    // A line break would end the command or header it's in and start one of the sender's choosing
+    if (/[\r\n]/.test(message.to) || /[\r\n]/.test(message.subject)) {
+      throw new Error('Mail recipient and subject must be a single line')
+    }
+
+    const conn = await connect({ hostname, port })
+
+    // Multi-line replies have "250-" on every line but the last, which has "250 "
+    const readReply = async (expected: string) => {
+      let reply = ''
+      const buffer = new Uint8Array(1024)
+      while (!/(^|\r\n)\d{3} [^\r\n]*\r\n$/.test(reply)) {
+        const read = await conn.read(buffer)
+        if (read === null) throw new Error('SMTP server closed the connection')
+        reply += decoder.decode(buffer.subarray(0, read))
+      }
+      const lastLine = reply.trimEnd().split('\r\n').pop()!
+      if (!lastLine.startsWith(expected)) {
+        throw new Error(`SMTP error: ${lastLine}`)
+      }
+    }
+
+    const command = async (line: string, expected: string) => {
+      await conn.write(encoder.encode(`${line}\r\n`))
+      await readReply(expected)
+    }
+
+    try {
+      await readReply('220')
+      await command('EHLO fueltrakr', '250')
+      await command(`MAIL FROM:<${envelopeAddress(from)}>`, '250')
+      await command(`RCPT TO:<${envelopeAddress(message.to)}>`, '250')
+      await command('DATA', '354')
+      await command(`${formatMessage(from, message, new Date())}\r\n.`, '250')
+      await command('QUIT', '221')
+    } finally {
+      conn.close()
+    }
+  }
+})
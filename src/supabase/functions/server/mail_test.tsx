@@ -0,0 +1,80 @@
+import { assertEquals, assertRejects } from 'jsr:@std/assert@1'
+import { createSmtpTransport, formatMessage, type SmtpConnection } from './mail.tsx'
+
+const MESSAGE = { to: 'porter@napleton.com', subject: 'Hello', text: 'First line\n.starts with a dot' }
+
+// Answers each command with the next scripted reply and records what the client wrote
+const createScriptedServer = (replies: string[]) => {
+  const written: string[] = []
+  const decoder = new TextDecoder()
+  const conn: SmtpConnection = {
+    read: async (buffer) => {
+      const reply = replies.shift()
+      if (reply === undefined) return null
+      const bytes = new TextEncoder().encode(reply)
+      buffer.set(bytes)
+      return bytes.length
+    },
+    write: async (data) => {
+      written.push(decoder.decode(data))
+      return data.length
+    },
+    close: () => {}
+  }
+  return { conn, written }
+}
+
+Deno.test('formatMessage writes headers and dot-stuffs the body', () => {
+  const formatted = formatMessage('FuelTrakr <no-reply@napleton.com>', MESSAGE, new Date('2025-03-10T15:00:00.000Z'))
+  assertEquals(formatted.split('\r\n'), [
+    'From: FuelTrakr <no-reply@napleton.com>',
+    'To: porter@napleton.com',
+    'Subject: Hello',
+    'Date: Mon, 10 Mar 2025 15:00:00 GMT',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'First line',
+    '..starts with a dot'
+  ])
+})
+
+Deno.test('SMTP transport runs the mail transaction', async () => {
+  const { conn, written } = createScriptedServer([
+    '220 catcher ready\r\n',
+    '250-catcher\r\n250 SIZE 0\r\n',
+    '250 OK\r\n',
+    '250 OK\r\n',
+    '354 Go ahead\r\n',
+    '250 Queued\r\n',
+    '221 Bye\r\n'
+  ])
+  const transport = createSmtpTransport({ hostname: 'localhost', port: 1025, from: 'FuelTrakr <no-reply@napleton.com>', connect: async () => conn })
+
+  await transport.send(MESSAGE)
+  assertEquals(written.slice(0, 4), [
+    'EHLO fueltrakr\r\n',
+    'MAIL FROM:<no-reply@napleton.com>\r\n',
+    'RCPT TO:<porter@napleton.com>\r\n',
+    'DATA\r\n'
+  ])
+  assertEquals(written[4].endsWith('..starts with a dot\r\n.\r\n'), true)
+  assertEquals(written[5], 'QUIT\r\n')
+})
+
+Deno.test('SMTP transport reports rejected recipients', async () => {
+  const { conn } = createScriptedServer(['220 ready\r\n', '250 hi\r\n', '250 OK\r\n', '550 No such user\r\n'])
+  const transport = createSmtpTransport({ hostname: 'localhost', port: 1025, connect: async () => conn })
+  await assertRejects(() => transport.send(MESSAGE), Error, '550 No such user')
+})
+
+Deno.test('SMTP transport refuses recipients that would inject commands or headers', async () => {
+  let connected = false
+  const transport = createSmtpTransport({ hostname: 'localhost', port: 1025, connect: async () => {
+    connected = true
+    return createScriptedServer([]).conn
+  } })
+  await assertRejects(() => transport.send({ ...MESSAGE, to: 'porter@napleton.com>\r\nRCPT TO:<victim@example.com' }), Error, 'single line')
+  await assertRejects(() => transport.send({ ...MESSAGE, subject: 'Hello\r\nBcc: victim@example.com' }), Error, 'single line')
+  assertEquals(connected, false)
+})
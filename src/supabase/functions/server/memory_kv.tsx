@@ -0,0 +1,21 @@
+// In-memory KvStore for tests and local runs. Values are cloned on the way in and out
+// so callers can't mutate stored data by accident, the same as a round trip to Postgres.
+import type { KvStore } from './router.tsx'
+
+export const createMemoryKv = (initial: Record<string, unknown> = {}): KvStore & { data: Map<string, unknown> } => {
+  const data = new Map<string, unknown>(Object.entries(initial).map(([key, value]) => [key, structuredClone(value)]))
+  // Like kv_store, values come back as whatever the caller says they stored
+  const read = <T,>(key: string) => structuredClone(data.get(key)) as T
+
+  return {
+    data,
+    get: async <T,>(key: string) => data.has(key) ? read<T>(key) : undefined,
+    set: async (key, value) => { data.set(key, structuredClone(value)) },
+    del: async (key) => { data.delete(key) },
+    mset: async (keys, values) => { keys.forEach((key, i) => data.set(key, structuredClone(values[i]))) },
+    // Like kv_store, missing keys are dropped rather than returned as undefined
+    mget: async <T,>(keys: string[]) => keys.filter(key => data.has(key)).map(key => read<T>(key)),
+    mdel: async (keys) => { keys.forEach(key => data.delete(key)) },
+    getByPrefix: async <T,>(prefix: string) => [...data.keys()].filter(key => key.startsWith(prefix)).map(key => read<T>(key))
+  }
+}
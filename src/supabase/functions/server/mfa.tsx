@@ -0,0 +1,171 @@
+// Two-factor authentication with TOTP authenticator apps (RFC 6238). Each user's factor is stored in
+// the KV store as mfa:{user_id}. Passing the second factor issues a short-lived MFA token; its hash
+// is stored as mfa_session:{hash} and the client sends the token in the X-MFA-Token header.
+import { ROLES } from './permissions.tsx'
+
+export const MFA_SETTINGS_KEY = 'settings:mfa'
+
+// The account name authenticator apps show next to the codes
+export const MFA_ISSUER = 'FuelTrakr'
+
+export const MFA_TOKEN_HEADER = 'X-MFA-Token'
+
+export interface MfaSettings {
+  // Users with these roles must enroll before they can use admin routes
+  required_roles: string[]
+}
+
+export const DEFAULT_MFA_SETTINGS: MfaSettings = {
+  required_roles: ['admin']
+}
+
+export const normalizeMfaSettings = (input: Partial<Record<keyof MfaSettings, unknown>> | null | undefined): MfaSettings => {
+  const settings = { ...DEFAULT_MFA_SETTINGS }
+  const requiredRoles = input?.required_roles
+  if (Array.isArray(requiredRoles)) {
+    settings.required_roles = ROLES.filter(role => requiredRoles.includes(role))
+  }
+  return settings
+}
+
+export const TOTP_DIGITS = 6
+export const TOTP_STEP_SECONDS = 30
+// Codes from the neighbouring time steps are accepted too, to allow for clock drift
+const TOTP_WINDOW_STEPS = 1
+
+export const RECOVERY_CODE_COUNT = 10
+
+// Wrong codes in a row before verification is locked, and for how long
+export const MAX_FAILED_ATTEMPTS = 5
+export const LOCKOUT_MINUTES = 15
+
+export interface MfaFactor {
+  user_id: string
+  // Base32, as shown to the user at setup
+  secret: string
+  // Pending until a code from the app is confirmed
+  status: 'pending' | 'active'
+  // Hashes of the unused recovery codes
+  recovery_codes: string[]
+  failed_attempts: number
+  locked_until?: string
+  // The last time step a code was accepted for, so codes can't be replayed
+  last_used_step: number | null
+  created_at: string
+  enabled_at?: string
+}
+
+export interface MfaSession {
+  token_hash: string
+  user_id: string
+  created_at: string
+  expires_at: string
+}
+
+// How long a verified second factor lasts before the user is asked again
+export const MFA_SESSION_HOURS = Number(Deno.env.get('MFA_SESSION_HOURS') ?? '12')
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+      value &= (1 << bits) - 1
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+export const base32Decode = (input: string) => {
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of input.toUpperCase().replace(/[\s=]/g, '')) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`)
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+      value &= (1 << bits) - 1
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+// 160 bits, the size RFC 4226 recommends for HMAC-SHA1
+export const generateTotpSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(20)))
+
+export const totpStep = (now: Date) => Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS)
+
+// HOTP (RFC 4226) for the given counter, which for TOTP is the time step
+export const totpCode = async (secret: string, step: number) => {
+  const counter = new Uint8Array(8)
+  new DataView(counter.buffer).setBigUint64(0, BigInt(step))
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign'])
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter))
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary = new DataView(hmac.buffer).getUint32(offset) & 0x7fffffff
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+// The time step the code belongs to, or null when it doesn't match. Steps at or before
+// lastUsedStep are refused so a code can't be replayed.
+export const verifyTotp = async (secret: string, code: unknown, now: Date, lastUsedStep: number | null = null) => {
+  const digits = String(code ?? '').replace(/\s/g, '')
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(digits)) return null
+
+  const current = totpStep(now)
+  for (let step = current - TOTP_WINDOW_STEPS; step <= current + TOTP_WINDOW_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue
+    if (await totpCode(secret, step) === digits) return step
+  }
+  return null
+}
+
+// What authenticator apps scan from the QR code
+export const otpauthUrl = (issuer: string, account: string, secret: string) => {
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  })
+  return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}?${params}`
+}
+
+// Shown to the user once as xxxxx-xxxxx; only their hashes are kept
+export const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase()
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+
+// Users may type recovery codes without the dash or in capitals
+export const normalizeRecoveryCode = (code: unknown) => String(code ?? '').toLowerCase().replace(/[^a-z2-7]/g, '').replace(/^(.{5})/, '$1-')
+
+export const isMfaLocked = (factor: MfaFactor | null | undefined, now: Date) =>
+  !!factor?.locked_until && new Date(factor.locked_until).getTime() > now.getTime()
+
+// Count a wrong code, locking verification once there have been too many in a row
+export const withFailedAttempt = (factor: MfaFactor, now: Date): MfaFactor => {
+  const failedAttempts = (factor.failed_attempts ?? 0) + 1
+  if (failedAttempts < MAX_FAILED_ATTEMPTS) {
+    return { ...factor, failed_attempts: failedAttempts }
+  }
+  return { ...factor, failed_attempts: 0, locked_until: new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000).toISOString() }
+}
+
+export const mfaSessionExpiry = (now: Date) => new Date(now.getTime() + MFA_SESSION_HOURS * 60 * 60 * 1000).toISOString()
@@ -0,0 +1,48 @@
+import { assertEquals } from 'jsr:@std/assert@1'
+import { base32Decode, base32Encode, normalizeMfaSettings, normalizeRecoveryCode, otpauthUrl, totpCode, totpStep, verifyTotp } from './mfa.tsx'
+
+// The SHA-1 seed from RFC 6238 appendix B, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+Deno.test('base32 round-trips the RFC 6238 seed', () => {
+  const seed = new TextEncoder().encode('12345678901234567890')
+  assertEquals(base32Encode(seed), RFC_SECRET)
+  assertEquals(base32Decode(RFC_SECRET.toLowerCase()), seed)
+})
+
+Deno.test('totpCode matches the RFC 6238 test vectors', async () => {
+  // The RFC lists eight digits; authenticator apps show the last six
+  const vectors: [number, string][] = [
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130']
+  ]
+  for (const [seconds, code] of vectors) {
+    assertEquals(await totpCode(RFC_SECRET, totpStep(new Date(seconds * 1000))), code)
+  }
+})
+
+Deno.test('verifyTotp allows one step of drift and refuses replays', async () => {
+  const now = new Date(1111111111 * 1000)
+  const step = totpStep(now)
+
+  assertEquals(await verifyTotp(RFC_SECRET, '050471', now), step)
+  assertEquals(await verifyTotp(RFC_SECRET, '050 471', now), step)
+  assertEquals(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step - 1), now), step - 1)
+  assertEquals(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step - 2), now), null)
+  assertEquals(await verifyTotp(RFC_SECRET, '050471', now, step), null)
+  assertEquals(await verifyTotp(RFC_SECRET, 'abcdef', now), null)
+})
+
+Deno.test('otpauthUrl and recovery codes use the formats apps and users expect', () => {
+  assertEquals(
+    otpauthUrl('FuelTrakr', 'admin@napleton.com', RFC_SECRET),
+    `otpauth://totp/FuelTrakr:admin%40napleton.com?secret=${RFC_SECRET}&issuer=FuelTrakr&algorithm=SHA1&digits=6&period=30`
+  )
+  assertEquals(normalizeRecoveryCode(' ABCDE FGH23 '), 'abcde-fgh23')
+  assertEquals(normalizeMfaSettings(null).required_roles, ['admin'])
+  assertEquals(normalizeMfaSettings({ required_roles: ['porter', 'owner'] }).required_roles, ['porter'])
+})
@@ -0,0 +1,25 @@
+// Copy users, fuel entries, revisions, vehicles and photo records from the KV store into the
+// relational tables. Safe to run more than once.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... deno task migrate:kv
+//
+// Apply supabase/migrations/20261018000000_relational_storage.sql first, then switch the
+// edge function over with STORAGE_BACKEND=postgres once the copy has finished.
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createKvRepositories } from './kv_repositories.tsx'
+import { createPostgresRepositories } from './postgres_repositories.tsx'
+import { copyRepositories } from './repositories.tsx'
+import { createSupabaseKv } from './supabase_adapters.tsx'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+)
+
+try {
+  const counts = await copyRepositories(createKvRepositories(createSupabaseKv(supabase)), createPostgresRepositories(supabase))
+  console.log('KV migration complete:', counts)
+} catch (error) {
+  console.log('❌ KV migration failed:', error)
+  Deno.exit(1)
+}
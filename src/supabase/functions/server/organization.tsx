@@ -0,0 +1,107 @@
+// Organization settings: the group's name, branding, support contact and the email domains people
+// may sign up with. Stored in the KV store; anyone can read them, since the splash and login
+// screens show them before sign-in.
+
+export const ORGANIZATION_SETTINGS_KEY = 'settings:organization'
+
+export interface OrganizationSettings {
+  display_name: string
+  // Sign-ups and invites are limited to these, stored without the @
+  allowed_email_domains: string[]
+  // An https URL or the data: URL of an uploaded image. Null shows the bundled logo.
+  logo_url: string | null
+  // #rrggbb
+  primary_color: string
+  accent_color: string
+  support_email: string | null
+  support_phone: string | null
+}
+
+export const DEFAULT_ORGANIZATION_SETTINGS: OrganizationSettings = {
+  display_name: 'Napleton Automotive Group',
+  allowed_email_domains: ['napleton.com'],
+  logo_url: null,
+  primary_color: '#2563eb',
+  accent_color: '#60a5fa',
+  support_email: null,
+  support_phone: null
+}
+
+// Uploaded logos are stored inline with the settings, so they have to stay small
+export const MAX_LOGO_LENGTH = 350_000
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+const DOMAIN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/
+// The dot-atom addresses people actually have. No spaces, quotes, brackets or line breaks, so an
+// address is safe to put in an SMTP command or a mail header as is.
+const EMAIL = /^[a-z0-9.!#$%&'*+/=?^_`{|}~-]+@(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/i
+const PHONE = /^[0-9+().\-\s]{7,30}$/
+const LOGO_DATA_URL = /^data:image\/(?:png|jpeg|gif|webp|svg\+xml);base64,[a-z0-9+/]+=*$/i
+
+// Stored settings over the defaults, for settings saved before a field existed
+export const normalizeOrganizationSettings = (stored: Partial<OrganizationSettings> | null | undefined): OrganizationSettings => {
+  const known = Object.entries(stored ?? {})
+    .filter(([field, value]) => field in DEFAULT_ORGANIZATION_SETTINGS && value !== undefined)
+  return { ...DEFAULT_ORGANIZATION_SETTINGS, ...Object.fromEntries(known) }
+}
+
+// Domains may be sent as a list or as text separated by commas or spaces, with or without the @
+const parseDomains = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : String(value ?? '').split(/[\s,;]+/)
+  const domains = items.map(item => String(item).trim().toLowerCase().replace(/^@/, '')).filter(Boolean)
+  return [...new Set(domains)]
+}
+
+const optionalText = (value: unknown) => String(value ?? '').trim() || null
+
+// Apply an edit over the current settings. Returns an error message for invalid input.
+export const parseOrganizationSettings = (input: Record<string, unknown> | null, current: OrganizationSettings): OrganizationSettings | string => {
+  const merged = { ...current, ...input }
+
+  const displayName = String(merged.display_name ?? '').trim()
+  if (!displayName) return 'A display name is required'
+  if (displayName.length > 100) return 'The display name can be at most 100 characters'
+
+  const domains = parseDomains(merged.allowed_email_domains)
+  if (domains.length === 0) return 'Add at least one email domain, or nobody will be able to sign up'
+  const badDomain = domains.find(domain => !DOMAIN.test(domain))
+  if (badDomain) return `${badDomain} is not a valid email domain`
+
+  const logoUrl = optionalText(merged.logo_url)
+  if (logoUrl) {
+    if (logoUrl.length > MAX_LOGO_LENGTH) return 'The logo is too large. Use an image under 250 KB.'
+    if (!logoUrl.startsWith('https://') && !LOGO_DATA_URL.test(logoUrl)) {
+      return 'The logo must be an https link or an uploaded PNG, JPEG, GIF, WebP or SVG image'
+    }
+  }
+
+  for (const field of ['primary_color', 'accent_color'] as const) {
+    if (!HEX_COLOR.test(String(merged[field] ?? ''))) return 'Colors must be hex values like #2563eb'
+  }
+
+  const supportEmail = optionalText(merged.support_email)
+  if (supportEmail && !EMAIL.test(supportEmail)) return 'The support email is not a valid address'
+
+  const supportPhone = optionalText(merged.support_phone)
+  if (supportPhone && !PHONE.test(supportPhone)) return 'The support phone number is not valid'
+
+  return {
+    display_name: displayName,
+    allowed_email_domains: domains,
+    logo_url: logoUrl,
+    primary_color: String(merged.primary_color).toLowerCase(),
+    accent_color: String(merged.accent_color).toLowerCase(),
+    support_email: supportEmail,
+    support_phone: supportPhone
+  }
+}
+
+// Checks the address exactly as given, so callers trim it first and then store and mail that same string
+export const isAllowedEmail = (email: string, settings: OrganizationSettings) => {
+  if (typeof email !== 'string' || email.length > 254 || !EMAIL.test(email)) return false
+  const domain = email.slice(email.lastIndexOf('@') + 1).toLowerCase()
+  return settings.allowed_email_domains.includes(domain)
+}
+
+export const emailDomainError = (settings: OrganizationSettings) =>
+  `Only ${settings.allowed_email_domains.map(domain => `@${domain}`).join(' or ')} email addresses are allowed`
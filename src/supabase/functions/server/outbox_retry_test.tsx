@@ -0,0 +1,51 @@
+import { assertEquals } from 'jsr:@std/assert@1'
+import { afterFailedAttempt, isDueForRetry, MAX_ATTEMPTS, retryDelay } from '../../../utils/outboxRetry.ts'
+
+const NOW = Date.UTC(2025, 2, 1, 12)
+const MINUTE = 60 * 1000
+
+const sending = (attempts: number) => ({ id: 'local-1', status: 'syncing' as const, attempts, next_attempt_at: NOW })
+
+Deno.test('retryDelay doubles from 30 seconds up to half an hour', () => {
+  assertEquals([1, 2, 3, 4, 5, 6, 7, 20].map(retryDelay), [0.5, 1, 2, 4, 8, 16, 30, 30].map(minutes => minutes * MINUTE))
+})
+
+Deno.test('afterFailedAttempt queues network errors for a later retry', () => {
+  assertEquals(afterFailedAttempt(sending(0), 'Failed to fetch', true, NOW), {
+    id: 'local-1',
+    status: 'pending',
+    attempts: 1,
+    next_attempt_at: NOW + 30 * 1000,
+    last_error: 'Failed to fetch'
+  })
+  assertEquals(afterFailedAttempt(sending(3), 'Failed to fetch', true, NOW).next_attempt_at, NOW + 4 * MINUTE)
+})
+
+Deno.test('afterFailedAttempt gives up after the last attempt', () => {
+  const lastTry = afterFailedAttempt(sending(MAX_ATTEMPTS - 2), 'Failed to fetch', true, NOW)
+  assertEquals([lastTry.status, lastTry.attempts], ['pending', MAX_ATTEMPTS - 1])
+
+  const outOfRetries = afterFailedAttempt(lastTry, 'Failed to fetch', true, NOW)
+  assertEquals(outOfRetries, { ...lastTry, status: 'failed', attempts: MAX_ATTEMPTS })
+})
+
+Deno.test('afterFailedAttempt fails entries the server rejected right away', () => {
+  assertEquals(afterFailedAttempt(sending(0), 'Odometer is required', false, NOW), {
+    id: 'local-1',
+    status: 'failed',
+    attempts: 1,
+    next_attempt_at: NOW,
+    last_error: 'Odometer is required'
+  })
+})
+
+Deno.test('isDueForRetry only picks pending entries whose time has come', () => {
+  const pending = { status: 'pending' as const, attempts: 1, next_attempt_at: NOW + MINUTE }
+  assertEquals(isDueForRetry(pending, NOW), false)
+  assertEquals(isDueForRetry(pending, NOW + MINUTE), true)
+  assertEquals(isDueForRetry(pending, NOW, true), true)
+
+  for (const status of ['guest', 'syncing', 'failed'] as const) {
+    assertEquals(isDueForRetry({ ...pending, status, next_attempt_at: NOW }, NOW, true), false)
+  }
+})
@@ -0,0 +1,63 @@
+// WebAuthn passkeys. Credentials are stored in the KV store as passkey:{credential_id}, and each
+// registration or sign-in ceremony gets a single-use challenge at passkey_challenge:{id}.
+// Verification is done by @simplewebauthn/server; the relying party is the host in APP_URL.
+import type { AuthenticatorTransportFuture, CredentialDeviceType } from 'npm:@simplewebauthn/server'
+
+export const RP_NAME = 'FuelTrakr'
+
+export interface Passkey {
+  // The credential id, base64url
+  id: string
+  user_id: string
+  name: string
+  public_key: string
+  counter: number
+  transports: AuthenticatorTransportFuture[]
+  device_type: CredentialDeviceType
+  backed_up: boolean
+  created_at: string
+  last_used_at: string | null
+}
+
+export interface PasskeyChallenge {
+  id: string
+  challenge: string
+  type: 'registration' | 'authentication'
+  // Null for sign-in, where the user isn't known yet
+  user_id: string | null
+  created_at: string
+  expires_at: string
+}
+
+// How long the browser has to answer a challenge
+export const CHALLENGE_TTL_SECONDS = 300
+
+// The relying party ID is the bare host name; the origin includes scheme and port
+export const relyingParty = (appUrl: string) => {
+  const url = new URL(appUrl)
+  return { rpID: url.hostname, origin: url.origin }
+}
+
+export const challengeExpiry = (now: Date) => new Date(now.getTime() + CHALLENGE_TTL_SECONDS * 1000).toISOString()
+
+export const isChallengeExpired = (challenge: PasskeyChallenge, now: Date) => new Date(challenge.expires_at).getTime() <= now.getTime()
+
+// What the device list shows: everything but the key material
+export const toPublicPasskey = (passkey: Passkey) => {
+  const publicPasskey: Partial<Passkey> = { ...passkey }
+  delete publicPasskey.public_key
+  delete publicPasskey.counter
+  return publicPasskey as Omit<Passkey, 'public_key' | 'counter'>
+}
+
+// A readable default name for the device list, taken from the browser's user agent
+export const deviceName = (userAgent: string | undefined) => {
+  const agent = userAgent ?? ''
+  if (/iPhone/.test(agent)) return 'iPhone'
+  if (/iPad/.test(agent)) return 'iPad'
+  if (/Android/.test(agent)) return 'Android device'
+  if (/Macintosh|Mac OS X/.test(agent)) return 'Mac'
+  if (/Windows/.test(agent)) return 'Windows PC'
+  if (/CrOS/.test(agent)) return 'Chromebook'
+  return 'Passkey'
+}
@@ -0,0 +1,68 @@
+// Password resets. Stored in the KV store as password_reset:{id} and found from their link by
+// token hash (see tokens.tsx). Requesting a new link retires the user's older ones.
+
+export type ResetStatus = 'pending' | 'used' | 'superseded' | 'expired'
+
+// How long a reset link stays valid
+export const RESET_TTL_MINUTES = Number(Deno.env.get('PASSWORD_RESET_TTL_MINUTES') ?? '60')
+
+// Self-service requests for the same account within this window don't send another email
+export const RESET_REQUEST_COOLDOWN_SECONDS = 60
+
+export interface PasswordReset {
+  id: string
+  user_id: string
+  email: string
+  token_hash: string
+  // Set by an administrator rather than asked for by the user
+  forced: boolean
+  requested_by: string | null
+  created_at: string
+  expires_at: string
+  used_at?: string
+  superseded_at?: string
+}
+
+export const resetExpiry = (now: Date) => new Date(now.getTime() + RESET_TTL_MINUTES * 60 * 1000).toISOString()
+
+export const getResetStatus = (reset: PasswordReset, now: Date): ResetStatus => {
+  if (reset.used_at) return 'used'
+  if (reset.superseded_at) return 'superseded'
+  return new Date(reset.expires_at).getTime() <= now.getTime() ? 'expired' : 'pending'
+}
+
+// Why a reset link can't be used, or null when it can
+export const resetProblem = (reset: PasswordReset, now: Date): string | null => {
+  switch (getResetStatus(reset, now)) {
+    case 'used': return 'This reset link has already been used'
+    case 'superseded': return 'A newer reset link has been sent. Use the most recent email.'
+    case 'expired': return 'This reset link has expired. Request a new one.'
+    default: return null
+  }
+}
+
+// An administrator forced a reset and the user hasn't chosen a new password since. Expired and
+// superseded links still count: only completing a reset clears it.
+export const hasOutstandingForcedReset = (resets: PasswordReset[], userId: string) => {
+  const own = resets.filter(reset => reset.user_id === userId)
+  const forcedAt = own.filter(reset => reset.forced).map(reset => reset.created_at).sort().pop()
+  return !!forcedAt && !own.some(reset => reset.used_at && reset.used_at >= forcedAt)
+}
+
+export const resetEmail = (reset: PasswordReset, name: string, link: string) => ({
+  to: reset.email,
+  subject: 'Reset your FuelTrakr password',
+  text: [
+    `Hi ${name},`,
+    '',
+    reset.forced
+      ? 'An administrator has reset your FuelTrakr password. Your old password no longer works.'
+      : 'We received a request to reset your FuelTrakr password.',
+    'Open this link to choose a new one:',
+    '',
+    link,
+    '',
+    `The link works once and expires in ${RESET_TTL_MINUTES} minutes.`,
+    ...(reset.forced ? [] : ['If you didn\'t ask for this, you can ignore this email.'])
+  ].join('\n')
+})
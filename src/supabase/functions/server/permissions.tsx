@@ -0,0 +1,61 @@
+// Roles and what each one may do. Routes check permissions, never role names, so a new role
+// only needs a row here.
+import type { FuelEntry, UserProfile } from './repositories.tsx'
+
+export const ROLES = ['admin', 'manager', 'accountant', 'auditor', 'porter'] as const
+
+export type Role = typeof ROLES[number]
+
+export const PERMISSIONS = [
+  // See other users' fuel entries, their revisions and their vehicles' fuel history
+  'entries.view_all',
+  // Correct or void other users' entries, outside the porter edit window
+  'entries.edit_all',
+  // Approve, reject or ask for more information
+  'entries.review',
+  'users.view',
+  // Change roles, delete users, reset passwords and two-factor, send invites
+  'users.manage',
+  'data.export',
+  'vehicles.view',
+  'reconciliation.view',
+  // Import card statements, resolve rows and edit card mappings
+  'reconciliation.manage',
+  // Mark repair-order chargebacks billed or reopen them
+  'chargebacks.manage',
+  // Approval limits, two-factor requirements and index maintenance
+  'settings.manage'
+] as const
+
+export type Permission = typeof PERMISSIONS[number]
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  manager: ['entries.view_all', 'entries.edit_all', 'entries.review', 'users.view', 'vehicles.view', 'data.export', 'chargebacks.manage'],
+  accountant: ['entries.view_all', 'data.export', 'vehicles.view', 'reconciliation.view', 'reconciliation.manage', 'chargebacks.manage'],
+  auditor: ['entries.view_all', 'users.view', 'data.export', 'vehicles.view', 'reconciliation.view'],
+  porter: []
+}
+
+// Roles whose permissions only reach users and entries at their own rooftop, when they have one.
+// Everyone else works across the whole group.
+export const ROOFTOP_SCOPED_ROLES: readonly Role[] = ['manager']
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role)
+
+export const permissionsFor = (role: unknown): readonly Permission[] => isRole(role) ? ROLE_PERMISSIONS[role] : []
+
+export const hasPermission = (profile: UserProfile | null | undefined, permission: Permission) => permissionsFor(profile?.role).includes(permission)
+
+// The rooftop an entry counts towards. Entries from before rooftops existed fall back to their owner's.
+export const entryRooftopId = (entry: FuelEntry, owner: UserProfile | null | undefined): string | null => entry.rooftop_id ?? owner?.rooftop_id ?? null
+
+// The rooftop the profile's permissions are limited to, or null when they reach the whole group
+export const scopedRooftopId = (profile: UserProfile | null | undefined) =>
+  profile && ROOFTOP_SCOPED_ROLES.includes(profile.role) ? profile.rooftop_id ?? null : null
+
+// Whether the profile's permissions reach records at rooftopId
+export const coversRooftop = (profile: UserProfile | null | undefined, rooftopId: string | null) => {
+  const scope = scopedRooftopId(profile)
+  return !scope || rooftopId === scope
+}
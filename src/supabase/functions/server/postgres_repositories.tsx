@@ -0,0 +1,164 @@
+// Repositories on the relational tables created by supabase/migrations/20261018000000_relational_storage.sql.
+// The column lists match the Database type in src/utils/supabase/client.ts.
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { toEntryPage } from './entry_query.tsx'
+import { columnIndexReport, type EntryRevision, type FuelEntry, type Repositories } from './repositories.tsx'
+
+const ROOFTOP_COLUMNS = [
+  'id', 'name', 'street', 'city', 'state', 'postal_code', 'latitude', 'longitude', 'geofence_radius_km',
+  'timezone', 'stock_number_pattern', 'stock_number_example', 'new_stock_pattern', 'used_stock_pattern',
+  'loaner_stock_pattern', 'created_at', 'updated_at'
+]
+
+// rooftop is the free-text name from before rooftops were records, still read by the backfill in POST /admin/rooftops
+const USER_COLUMNS = ['id', 'email', 'name', 'role', 'rooftop_id', 'rooftop', 'created_at', 'updated_at']
+
+const ENTRY_COLUMNS = [
+  'id', 'user_id', 'rooftop_id', 'stock_number', 'vin', 'gallons', 'price_per_gallon', 'total_amount', 'odometer',
+  'fuel_type', 'station_name', 'location', 'latitude', 'longitude', 'receipt_photo', 'vin_photo', 'notes',
+  'timestamp', 'created_at', 'updated_at', 'vehicle_year', 'vehicle_make', 'vehicle_model', 'vehicle_trim',
+  'voided', 'voided_at', 'voided_by', 'void_reason', 'revision_count', 'flagged', 'flag_reasons',
+  'status', 'status_history', 'purpose', 'vehicle_category', 'ro_number', 'chargeback_billed_at', 'chargeback_billed_by',
+  'client_id'
+]
+
+const REVISION_COLUMNS = ['revision', 'action', 'reason', 'changes', 'user_id', 'user_name', 'created_at']
+
+const VEHICLE_COLUMNS = [
+  'vin', 'year', 'make', 'model', 'trim', 'engine', 'displacement', 'cylinders', 'fuel_type', 'vehicle_type',
+  'body_class', 'drive_type', 'transmission', 'manufacturer', 'plant_city', 'plant_state',
+  'tank_capacity_gallons', 'premium_required', 'valid', 'error', 'cached_at'
+]
+
+const PHOTO_COLUMNS = ['path', 'user_id', 'file_name', 'content_type', 'size', 'created_at']
+
+// The column lists above are what keeps rows and records in step
+type Row = Record<string, unknown>
+
+// Keep only the columns a table has, so stray request fields don't break the insert
+const toRow = (record: object, columns: string[]): Row => {
+  const fields = record as Row
+  return Object.fromEntries(columns.filter(column => fields[column] !== undefined).map(column => [column, fields[column]]))
+}
+
+// Empty columns come back as null; the KV records simply didn't have those fields
+const fromRow = <T,>(row: Row) =>
+  Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null)) as T
+
+const check = <T,>({ data, error }: { data: T; error: { message: string } | null }) => {
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data
+}
+
+// PostgREST returns at most max-rows rows per request (1000 unless the project lowers it)
+export const PAGE_SIZE = 1000
+
+// Read a query a page at a time until a short page comes back. The query has to be ordered on a
+// unique column so rows can't shift between pages.
+export const readAllPages = async (
+  page: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>
+) => {
+  const rows: Row[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const data = (check(await page(from, from + PAGE_SIZE - 1)) ?? []) as Row[]
+    rows.push(...data)
+    if (data.length < PAGE_SIZE) return rows
+  }
+}
+
+export const createPostgresRepositories = (supabase: SupabaseClient): Repositories => {
+  // key is the table's primary key, which keeps the pages in a stable order
+  const select = async <T,>(table: string, key: string, filters: Record<string, string> = {}) => {
+    const rows = await readAllPages((from, to) => {
+      let query = supabase.from(table).select('*')
+      for (const [column, value] of Object.entries(filters)) {
+        query = query.eq(column, value)
+      }
+      return query.order(key).range(from, to)
+    })
+    return rows.map(row => fromRow<T>(row))
+  }
+
+  const selectOne = async <T,>(table: string, column: string, value: string) => {
+    const row: Row | null = check(await supabase.from(table).select('*').eq(column, value).maybeSingle())
+    return row ? fromRow<T>(row) : null
+  }
+
+  const upsert = async (table: string, row: Row, onConflict: string) => {
+    check(await supabase.from(table).upsert(row, { onConflict }))
+  }
+
+  const remove = async (table: string, column: string, value: string) => {
+    check(await supabase.from(table).delete().eq(column, value))
+  }
+
+  return {
+    rooftops: {
+      get: (id) => selectOne('rooftops', 'id', id),
+      list: () => select('rooftops', 'id'),
+      save: (rooftop) => upsert('rooftops', toRow(rooftop, ROOFTOP_COLUMNS), 'id'),
+      delete: (id) => remove('rooftops', 'id', id)
+    },
+    users: {
+      get: (id) => selectOne('users', 'id', id),
+      list: () => select('users', 'id'),
+      // Profiles moved to a rooftop drop the old free-text name, which has to be cleared explicitly
+      save: (user) => upsert('users', toRow({ rooftop: null, ...user }, USER_COLUMNS), 'id'),
+      delete: (id) => remove('users', 'id', id)
+    },
+    entries: {
+      get: (id) => selectOne('fuel_entries', 'id', id),
+      list: () => select('fuel_entries', 'id'),
+      listByUser: (userId) => select('fuel_entries', 'id', { user_id: userId }),
+      // Compares upper-cased columns in SQL, see 20261024000000_entries_by_vehicle.sql
+      listByVehicle: async (vehicleId) =>
+        (await readAllPages((from, to) => supabase.rpc('fuel_entries_for_vehicle', { vehicle_id: vehicleId }).order('id').range(from, to)))
+          .map(row => fromRow<FuelEntry>(row)),
+      // Filtered, sorted and limited in SQL, see 20261025000000_entry_query.sql. One extra row tells
+      // whether there is another page.
+      query: async (query) => {
+        const { cursor, from, to, ...filters } = query
+        const rows = check(await supabase.rpc('fuel_entries_page', {
+          q: {
+            ...filters,
+            from: from === null ? null : new Date(from).toISOString(),
+            to: to === null ? null : new Date(to).toISOString(),
+            cursor_timestamp: cursor ? new Date(cursor.timestamp).toISOString() : null,
+            cursor_id: cursor?.id ?? null,
+            limit: query.limit + 1
+          }
+        })) as Row[]
+        return toEntryPage(rows.map(row => fromRow<FuelEntry>(row)), query.limit)
+      },
+      save: (entry) => upsert('fuel_entries', toRow(entry, ENTRY_COLUMNS), 'id'),
+      // Revisions go with the entry (on delete cascade)
+      delete: (id) => remove('fuel_entries', 'id', id),
+      listRevisions: async (entryId) => {
+        const rows = check(await supabase
+          .from('fuel_entry_revisions')
+          .select(REVISION_COLUMNS.join(','))
+          .eq('entry_id', entryId)
+          .order('revision')) as unknown as Row[]
+        return rows.map(row => fromRow<EntryRevision>(row))
+      },
+      saveRevision: (entryId, revision) =>
+        upsert('fuel_entry_revisions', { entry_id: entryId, ...toRow(revision, REVISION_COLUMNS) }, 'entry_id,revision'),
+      rebuildIndex: async ({ dryRun }) =>
+        columnIndexReport(await readAllPages((from, to) => supabase.from('fuel_entries').select('id').order('id').range(from, to)), dryRun)
+    },
+    vehicles: {
+      get: (vin) => selectOne('vehicles', 'vin', vin.toUpperCase()),
+      list: () => select('vehicles', 'vin'),
+      save: (vehicle) => upsert('vehicles', toRow({ ...vehicle, vin: vehicle.vin.toUpperCase() }, VEHICLE_COLUMNS), 'vin')
+    },
+    photos: {
+      get: (path) => selectOne('photos', 'path', path),
+      list: () => select('photos', 'path'),
+      listByUser: (userId) => select('photos', 'path', { user_id: userId }),
+      save: (photo) => upsert('photos', toRow(photo, PHOTO_COLUMNS), 'path'),
+      delete: (path) => remove('photos', 'path', path)
+    }
+  }
+}
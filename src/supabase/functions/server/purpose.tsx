@@ -0,0 +1,83 @@
+// Why a vehicle was fueled and what kind of unit it is, so fuel spend can be broken down by
+// purpose and by new, used, loaner and service-customer vehicles
+import type { Rooftop } from './repositories.tsx'
+export type FuelPurpose = 'delivery' | 'demo' | 'loaner' | 'service' | 'dealer_trade' | 'transport' | 'other'
+
+export const FUEL_PURPOSES: FuelPurpose[] = ['delivery', 'demo', 'loaner', 'service', 'dealer_trade', 'transport', 'other']
+
+export const PURPOSE_LABELS: Record<FuelPurpose, string> = {
+  delivery: 'Customer delivery',
+  demo: 'Demo / test drive',
+  loaner: 'Loaner fleet',
+  service: 'Service customer',
+  dealer_trade: 'Dealer trade',
+  transport: 'Transport / auction',
+  other: 'Other'
+}
+
+export type VehicleCategory = 'new' | 'used' | 'loaner' | 'service_customer'
+
+export const VEHICLE_CATEGORIES: VehicleCategory[] = ['new', 'used', 'loaner', 'service_customer']
+
+export const VEHICLE_CATEGORY_LABELS: Record<VehicleCategory, string> = {
+  new: 'New',
+  used: 'Used',
+  loaner: 'Loaner',
+  service_customer: 'Service customer'
+}
+
+// The rooftop fields holding the stock-number pattern for each inventory category. Service
+// customer vehicles aren't in inventory, so they have no stock numbers to match.
+export const CATEGORY_PATTERN_FIELDS = {
+  new: 'new_stock_pattern',
+  used: 'used_stock_pattern',
+  loaner: 'loaner_stock_pattern'
+} as const
+
+// The common N/U/L prefix convention, for rooftops that haven't set any patterns of their own
+export const DEFAULT_CATEGORY_PATTERNS: Record<keyof typeof CATEGORY_PATTERN_FIELDS, string> = {
+  new: 'N.*',
+  used: 'U.*',
+  loaner: 'L.*'
+}
+
+// The category a stock number points to, checking new, used and loaner patterns in that order.
+// Null when there's no stock number or nothing matches.
+export const suggestVehicleCategory = (rooftop: Rooftop | null, stockNumber: string | null | undefined): VehicleCategory | null => {
+  const stock = String(stockNumber ?? '').trim()
+  if (!stock) return null
+
+  const categories = Object.keys(CATEGORY_PATTERN_FIELDS) as (keyof typeof CATEGORY_PATTERN_FIELDS)[]
+  const configured = categories.some(category => rooftop?.[CATEGORY_PATTERN_FIELDS[category]])
+
+  for (const category of categories) {
+    const pattern = configured ? rooftop?.[CATEGORY_PATTERN_FIELDS[category]] : DEFAULT_CATEGORY_PATTERNS[category]
+    if (!pattern) continue
+    try {
+      if (new RegExp(`^(?:${pattern})$`, 'i').test(stock)) return category
+    } catch {
+      // Patterns are checked when the rooftop is saved; an older bad one just never matches
+    }
+  }
+  return null
+}
+
+// Purpose and category from an entry body. Empty values become null; anything not in the lists is
+// an error. Fields the body doesn't mention are left out, so edits only touch what was sent.
+export const parsePurposeFields = (input: Record<string, unknown> | null): { purpose?: FuelPurpose | null; vehicle_category?: VehicleCategory | null } | string => {
+  const fields: { purpose?: FuelPurpose | null; vehicle_category?: VehicleCategory | null } = {}
+
+  if (input && 'purpose' in input) {
+    const purpose = String(input.purpose ?? '').trim().toLowerCase()
+    if (purpose && !FUEL_PURPOSES.includes(purpose as FuelPurpose)) return `Unknown purpose ${input.purpose}`
+    fields.purpose = (purpose || null) as FuelPurpose | null
+  }
+
+  if (input && 'vehicle_category' in input) {
+    const category = String(input.vehicle_category ?? '').trim().toLowerCase()
+    if (category && !VEHICLE_CATEGORIES.includes(category as VehicleCategory)) return `Unknown vehicle category ${input.vehicle_category}`
+    fields.vehicle_category = (category || null) as VehicleCategory | null
+  }
+
+  return fields
+}
@@ -0,0 +1,69 @@
+import { assert, assertEquals } from 'jsr:@std/assert@1'
+import { getConfidenceLevel, parseReceipt } from '../../../utils/receiptParser.ts'
+
+const ocr = (confidence: number, ...texts: string[]) => texts.map(text => ({ text, confidence }))
+
+Deno.test('parseReceipt reads a labelled receipt', () => {
+  const receipt = parseReceipt(ocr(90,
+    'SHELL',
+    '123 MAIN ST',
+    '03/14/2025 02:35 PM',
+    'PUMP 4 REGULAR',
+    'GALLONS 12.345',
+    'PRICE/GAL $3.499',
+    'FUEL SALE $43.20'
+  ))
+
+  assertEquals(receipt.gallons, { value: 12.345, confidence: 0.9 })
+  assertEquals(receipt.pricePerGallon, { value: 3.499, confidence: 0.9 })
+  assertEquals(receipt.total, { value: 43.2, confidence: 0.9 })
+  assertEquals(receipt.stationName, { value: 'SHELL', confidence: 0.9 })
+  assertEquals(receipt.transactionTime, { value: new Date(2025, 2, 14, 14, 35), confidence: 0.9 })
+  assertEquals(receipt.totalMismatch, false)
+})
+
+Deno.test('parseReceipt trusts values that agree with each other', () => {
+  const receipt = parseReceipt(ocr(60, 'GALLONS 10.000', 'PRICE $3.250', 'TOTAL $32.50'))
+  assertEquals([receipt.gallons?.confidence, receipt.pricePerGallon?.confidence, receipt.total?.confidence], [0.85, 0.85, 0.85])
+})
+
+Deno.test('parseReceipt flags a total that does not match gallons times price', () => {
+  const receipt = parseReceipt(ocr(70, 'GALLONS 10.000', 'PRICE $3.000', 'TOTAL $35.00'))
+  assertEquals(receipt.totalMismatch, true)
+  assertEquals([receipt.gallons?.confidence, receipt.pricePerGallon?.confidence, receipt.total?.confidence], [0.7, 0.7, 0.7])
+})
+
+Deno.test('parseReceipt derives the missing value at low confidence', () => {
+  assertEquals(parseReceipt(ocr(100, 'GALLONS 10.500', 'PRICE 3.200')).total, { value: 33.6, confidence: 0.5 })
+  assertEquals(parseReceipt(ocr(100, 'GALLONS 8.000', 'TOTAL $30.00')).pricePerGallon, { value: 3.75, confidence: 0.5 })
+  assertEquals(parseReceipt(ocr(100, 'PRICE $4.000', 'TOTAL $30.00')).gallons, { value: 7.5, confidence: 0.5 })
+})
+
+Deno.test('parseReceipt corrects common OCR misreads inside numbers', () => {
+  const receipt = parseReceipt(ocr(100, 'GALLONS 10.5O0', 'PRICE $3 . 2S9'))
+  assertEquals(receipt.gallons?.value, 10.5)
+  assertEquals(receipt.pricePerGallon?.value, 3.259)
+})
+
+Deno.test('parseReceipt falls back to values found by shape alone', () => {
+  const receipt = parseReceipt(ocr(100, 'QUICK FUEL', '9.876 G @ $3.100', '$30.62'))
+  assertEquals(receipt.gallons, { value: 9.876, confidence: 0.85 })
+  assertEquals(receipt.pricePerGallon, { value: 3.1, confidence: 0.85 })
+  assertEquals(receipt.total, { value: 30.62, confidence: 0.85 })
+  assertEquals(receipt.stationName, { value: 'QUICK FUEL', confidence: 0.7 })
+})
+
+Deno.test('parseReceipt reads the time from the line after the date', () => {
+  assertEquals(parseReceipt(ocr(100, 'DATE 1-5-25', 'TIME 12:05 AM')).transactionTime?.value, new Date(2025, 0, 5, 0, 5))
+  assertEquals(parseReceipt(ocr(100, '13/05/2025')).transactionTime, undefined)
+})
+
+Deno.test('parseReceipt finds nothing on an empty scan', () => {
+  const receipt = parseReceipt(ocr(100, '', '   '))
+  assert(!receipt.gallons && !receipt.pricePerGallon && !receipt.total && !receipt.stationName && !receipt.transactionTime)
+  assertEquals(receipt.totalMismatch, false)
+})
+
+Deno.test('getConfidenceLevel buckets confidences', () => {
+  assertEquals([0.9, 0.85, 0.7, 0.6, 0.59, 0].map(getConfidenceLevel), ['high', 'high', 'medium', 'medium', 'low', 'low'])
+})
@@ -0,0 +1,446 @@
+// Fleet-card statement reconciliation: parse a statement with a column mapping
+// and match each card transaction to a fuel entry.
+import type { FuelEntry } from './repositories.tsx'
+
+export type DateFormat = 'MDY' | 'DMY' | 'YMD'
+
+export interface ColumnMapping {
+  id: string
+  name: string
+  built_in?: boolean
+  date_format: DateFormat
+  // Statement header for each field, matched case-insensitively
+  columns: {
+    date: string
+    time?: string
+    amount: string
+    gallons?: string
+    price_per_gallon?: string
+    merchant?: string
+    city?: string
+    state?: string
+    latitude?: string
+    longitude?: string
+    card_number?: string
+    transaction_id?: string
+  }
+}
+
+export interface CardTransaction {
+  row: number
+  transaction_id: string | null
+  timestamp: string
+  amount: number
+  gallons: number | null
+  price_per_gallon: number | null
+  merchant: string | null
+  city: string | null
+  state: string | null
+  latitude: number | null
+  longitude: number | null
+  card_last4: string | null
+}
+
+export type ReconciliationRowType = 'matched' | 'unmatched_card' | 'unmatched_entry'
+
+export type ResolutionAction = 'confirmed' | 'disputed' | 'ignored' | 'linked'
+
+export interface MatchDetails {
+  time_diff_minutes: number
+  amount_diff: number
+  gallons_diff: number | null
+  distance_km: number | null
+}
+
+// The parts of an entry the report needs; entries can change after the report is made
+export interface EntrySnapshot {
+  id: string
+  user_id: string
+  stock_number: string | null
+  vin: string | null
+  timestamp: string
+  total_amount: number
+  gallons: number
+  location: string | null
+}
+
+export interface ReconciliationRow {
+  id: string
+  type: ReconciliationRowType
+  transaction: CardTransaction | null
+  entry: EntrySnapshot | null
+  match: MatchDetails | null
+  resolution: {
+    action: ResolutionAction
+    note: string | null
+    user_id: string
+    user_name: string
+    resolved_at: string
+  } | null
+}
+
+export interface StatementError {
+  row: number
+  error: string
+}
+
+export interface ReconciliationReport {
+  id: string
+  file_name: string
+  mapping_id: string
+  mapping_name: string
+  period_start: string
+  period_end: string
+  created_by: string
+  created_by_name: string
+  created_at: string
+  updated_at?: string
+  errors: StatementError[]
+  rows: ReconciliationRow[]
+  summary: ReturnType<typeof summarizeRows>
+}
+
+// What the list of reports shows
+export type ReportSummary = Omit<ReconciliationReport, 'rows' | 'errors'>
+
+export const MAPPINGS_KEY = 'settings:card_mappings'
+
+// How far apart a card transaction and a fuel entry can be and still match
+export const MATCH_WINDOW_MINUTES = Number(Deno.env.get('RECONCILE_MATCH_WINDOW_MINUTES') ?? '120')
+export const AMOUNT_TOLERANCE = Number(Deno.env.get('RECONCILE_AMOUNT_TOLERANCE') ?? '1.00')
+export const GALLONS_TOLERANCE = Number(Deno.env.get('RECONCILE_GALLONS_TOLERANCE') ?? '0.5')
+export const MAX_DISTANCE_KM = Number(Deno.env.get('RECONCILE_MAX_DISTANCE_KM') ?? '16')
+
+// Column layouts of the statement exports we've been sent
+export const BUILT_IN_MAPPINGS: ColumnMapping[] = [
+  {
+    id: 'wex',
+    name: 'WEX',
+    built_in: true,
+    date_format: 'MDY',
+    columns: {
+      date: 'Transaction Date',
+      time: 'Transaction Time',
+      amount: 'Net Cost',
+      gallons: 'Units',
+      price_per_gallon: 'Unit Cost',
+      merchant: 'Merchant Name',
+      city: 'Merchant City',
+      state: 'Merchant State',
+      card_number: 'Card Number',
+      transaction_id: 'Transaction Number'
+    }
+  },
+  {
+    id: 'fuelman',
+    name: 'Fuelman / FleetCor',
+    built_in: true,
+    date_format: 'MDY',
+    columns: {
+      date: 'Tran Date',
+      time: 'Tran Time',
+      amount: 'Total Amount',
+      gallons: 'Quantity',
+      price_per_gallon: 'Unit Price',
+      merchant: 'Site Name',
+      city: 'Site City',
+      state: 'Site State',
+      card_number: 'Card Number',
+      transaction_id: 'Reference Number'
+    }
+  },
+  {
+    id: 'comdata',
+    name: 'Comdata',
+    built_in: true,
+    date_format: 'MDY',
+    columns: {
+      date: 'Transaction Date',
+      time: 'Transaction Time',
+      amount: 'Total Amount Due',
+      gallons: 'Number of Tractor Gallons',
+      price_per_gallon: 'Tractor Fuel Price Per Gallon',
+      merchant: 'Truck Stop Name',
+      city: 'Truck Stop City',
+      state: 'Truck Stop State',
+      card_number: 'Card Number',
+      transaction_id: 'Transaction ID'
+    }
+  },
+  {
+    id: 'generic',
+    name: 'Generic CSV',
+    built_in: true,
+    date_format: 'YMD',
+    columns: {
+      date: 'date',
+      time: 'time',
+      amount: 'amount',
+      gallons: 'gallons',
+      price_per_gallon: 'price_per_gallon',
+      merchant: 'merchant',
+      city: 'city',
+      state: 'state',
+      latitude: 'latitude',
+      longitude: 'longitude',
+      card_number: 'card_number',
+      transaction_id: 'transaction_id'
+    }
+  }
+]
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits))
+
+// "$1,234.56" -> 1234.56, "(12.00)" -> -12
+const parseAmount = (value: string | undefined): number | null => {
+  if (!value || !value.trim()) return null
+  const negative = /^\s*\(.*\)\s*$/.test(value) || value.trim().startsWith('-')
+  const number = Number(value.replace(/[^0-9.]/g, ''))
+  if (!Number.isFinite(number)) return null
+  return negative ? -number : number
+}
+
+// Statement times are local to the dealership; `timezoneOffsetMinutes` is Date#getTimezoneOffset() there
+const parseTimestamp = (date: string, time: string | undefined, format: DateFormat, timezoneOffsetMinutes: number): Date | null => {
+  const dateMatch = date.trim().match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[ T](.+))?$/)
+  if (!dateMatch) return null
+
+  const [a, b, c] = [Number(dateMatch[1]), Number(dateMatch[2]), Number(dateMatch[3])]
+  let year: number, month: number, day: number
+  if (format === 'YMD') [year, month, day] = [a, b, c]
+  else if (format === 'DMY') [day, month, year] = [a, b, c]
+  else [month, day, year] = [a, b, c]
+  if (year < 100) year += 2000
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+
+  // Some exports put the time in the date column
+  const timeText = (time || dateMatch[4] || '').trim().toUpperCase()
+  const timeMatch = timeText.match(/^(\d{1,2}):?(\d{2})(?::(\d{2}))?\s*(AM|PM)?/)
+  let hours = timeMatch ? Number(timeMatch[1]) : 12
+  if (timeMatch?.[4] === 'PM' && hours < 12) hours += 12
+  if (timeMatch?.[4] === 'AM' && hours === 12) hours = 0
+  const minutes = timeMatch ? Number(timeMatch[2]) : 0
+  const seconds = timeMatch?.[3] ? Number(timeMatch[3]) : 0
+
+  const utc = Date.UTC(year, month - 1, day, hours, minutes, seconds) + timezoneOffsetMinutes * 60 * 1000
+  const timestamp = new Date(utc)
+  return isNaN(timestamp.getTime()) ? null : timestamp
+}
+
+// Turn statement rows into card transactions. The first row must be the header.
+export const parseStatement = (rows: string[][], mapping: ColumnMapping, timezoneOffsetMinutes = 0) => {
+  const transactions: CardTransaction[] = []
+  const errors: StatementError[] = []
+
+  const header = (rows[0] || []).map(cell => cell.trim().toLowerCase())
+  const columnIndex: Record<string, number> = {}
+  for (const [field, column] of Object.entries(mapping.columns)) {
+    if (!column) continue
+    columnIndex[field] = header.indexOf(column.trim().toLowerCase())
+  }
+
+  const missing = (['date', 'amount'] as const).filter(field => columnIndex[field] === -1)
+  if (missing.length > 0) {
+    return {
+      transactions,
+      errors: [{ row: 1, error: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.map(field => mapping.columns[field]).join(', ')}` }]
+    }
+  }
+
+  const cell = (row: string[], field: string) => {
+    const index = columnIndex[field]
+    return index === undefined || index === -1 ? undefined : row[index]?.trim()
+  }
+
+  rows.slice(1).forEach((row, index) => {
+    const rowNumber = index + 2
+    const timestamp = parseTimestamp(cell(row, 'date') || '', cell(row, 'time'), mapping.date_format, timezoneOffsetMinutes)
+    if (!timestamp) {
+      errors.push({ row: rowNumber, error: `Unreadable date "${cell(row, 'date') || ''}"` })
+      return
+    }
+
+    const amount = parseAmount(cell(row, 'amount'))
+    if (amount === null) {
+      errors.push({ row: rowNumber, error: `Unreadable amount "${cell(row, 'amount') || ''}"` })
+      return
+    }
+    // Credits and adjustments never correspond to a fill
+    if (amount <= 0) {
+      errors.push({ row: rowNumber, error: 'Credit or zero amount skipped' })
+      return
+    }
+
+    const cardNumber = (cell(row, 'card_number') || '').replace(/\D/g, '')
+    const latitude = parseAmount(cell(row, 'latitude'))
+    const longitude = parseAmount(cell(row, 'longitude'))
+
+    transactions.push({
+      row: rowNumber,
+      transaction_id: cell(row, 'transaction_id') || null,
+      timestamp: timestamp.toISOString(),
+      amount,
+      gallons: parseAmount(cell(row, 'gallons')),
+      price_per_gallon: parseAmount(cell(row, 'price_per_gallon')),
+      merchant: cell(row, 'merchant') || null,
+      city: cell(row, 'city') || null,
+      state: cell(row, 'state') || null,
+      latitude: cell(row, 'latitude') ? latitude : null,
+      longitude: cell(row, 'longitude') ? longitude : null,
+      card_last4: cardNumber ? cardNumber.slice(-4) : null
+    })
+  })
+
+  return { transactions, errors }
+}
+
+// Great-circle distance in kilometres
+export const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const dLat = toRadians(lat2 - lat1)
+  const dLon = toRadians(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+// How well a transaction and an entry agree, lower scores first, or null when they can't be the same fill
+const compare = (transaction: CardTransaction, entry: FuelEntry): { details: MatchDetails; score: number } | null => {
+  const timeDiff = Math.abs(new Date(transaction.timestamp).getTime() - new Date(entry.timestamp).getTime()) / 60000
+  if (timeDiff > MATCH_WINDOW_MINUTES) return null
+
+  const amountDiff = Math.abs(transaction.amount - Number(entry.total_amount))
+  if (amountDiff > AMOUNT_TOLERANCE) return null
+
+  let gallonsDiff: number | null = null
+  if (transaction.gallons !== null && Number(entry.gallons) > 0) {
+    gallonsDiff = Math.abs(transaction.gallons - Number(entry.gallons))
+    if (gallonsDiff > GALLONS_TOLERANCE) return null
+  }
+
+  let distance: number | null = null
+  if (transaction.latitude !== null && transaction.longitude !== null &&
+      typeof entry.latitude === 'number' && typeof entry.longitude === 'number' &&
+      Number.isFinite(entry.latitude) && Number.isFinite(entry.longitude)) {
+    distance = distanceKm(transaction.latitude, transaction.longitude, entry.latitude, entry.longitude)
+    if (distance > MAX_DISTANCE_KM) return null
+  }
+
+  // Statements rarely carry coordinates, so fall back to the merchant city appearing in the entry's address
+  const cityBonus = distance === null && transaction.city &&
+    String(entry.location || '').toLowerCase().includes(transaction.city.toLowerCase()) ? -0.25 : 0
+
+  const score = timeDiff / MATCH_WINDOW_MINUTES +
+    amountDiff / AMOUNT_TOLERANCE +
+    (gallonsDiff !== null ? gallonsDiff / GALLONS_TOLERANCE : 0.5) +
+    (distance !== null ? distance / MAX_DISTANCE_KM : 0.5) +
+    cityBonus
+
+  return {
+    details: {
+      time_diff_minutes: Math.round(timeDiff),
+      amount_diff: round(amountDiff, 2),
+      gallons_diff: gallonsDiff !== null ? round(gallonsDiff, 3) : null,
+      distance_km: distance !== null ? round(distance, 1) : null
+    },
+    score
+  }
+}
+
+export const toEntrySnapshot = (entry: FuelEntry): EntrySnapshot => ({
+  id: entry.id,
+  user_id: entry.user_id,
+  stock_number: entry.stock_number || null,
+  vin: entry.vin || null,
+  timestamp: entry.timestamp,
+  total_amount: Number(entry.total_amount),
+  gallons: Number(entry.gallons),
+  location: entry.location || null
+})
+
+// Pair every transaction with its best entry, best overall matches first
+export const reconcile = (transactions: CardTransaction[], entries: FuelEntry[]): ReconciliationRow[] => {
+  const candidates: { transaction: CardTransaction; entry: FuelEntry; match: { details: MatchDetails; score: number } }[] = []
+  for (const transaction of transactions) {
+    for (const entry of entries) {
+      const match = compare(transaction, entry)
+      if (match) candidates.push({ transaction, entry, match })
+    }
+  }
+  candidates.sort((a, b) => a.match.score - b.match.score)
+
+  const matchedTransactions = new Set<CardTransaction>()
+  const matchedEntryIds = new Set<string>()
+  const rows: ReconciliationRow[] = []
+
+  for (const { transaction, entry, match } of candidates) {
+    if (matchedTransactions.has(transaction) || matchedEntryIds.has(entry.id)) continue
+    matchedTransactions.add(transaction)
+    matchedEntryIds.add(entry.id)
+
+    rows.push({ id: crypto.randomUUID(), type: 'matched', transaction, entry: toEntrySnapshot(entry), match: match.details, resolution: null })
+  }
+
+  for (const transaction of transactions) {
+    if (matchedTransactions.has(transaction)) continue
+    rows.push({ id: crypto.randomUUID(), type: 'unmatched_card', transaction, entry: null, match: null, resolution: null })
+  }
+
+  for (const entry of entries) {
+    if (matchedEntryIds.has(entry.id)) continue
+    rows.push({ id: crypto.randomUUID(), type: 'unmatched_entry', transaction: null, entry: toEntrySnapshot(entry), match: null, resolution: null })
+  }
+
+  return rows
+}
+
+export const summarizeRows = (rows: ReconciliationRow[]) => ({
+  matched: rows.filter(row => row.type === 'matched').length,
+  unmatched_card: rows.filter(row => row.type === 'unmatched_card').length,
+  unmatched_entry: rows.filter(row => row.type === 'unmatched_entry').length,
+  unresolved: rows.filter(row => row.type !== 'matched' && !row.resolution).length,
+  card_total: round(rows.reduce((sum, row) => sum + (row.transaction?.amount || 0), 0), 2),
+  matched_total: round(rows.filter(row => row.type === 'matched').reduce((sum, row) => sum + (row.transaction?.amount || 0), 0), 2)
+})
+
+// A report for the list of reports, without its rows and the statement's parse errors
+export const toReportSummary = (report: ReconciliationReport): ReportSummary => {
+  const summary: ReportSummary & Partial<ReconciliationReport> = { ...report }
+  delete summary.rows
+  delete summary.errors
+  return summary
+}
+
+// Join an unmatched card transaction and an unmatched entry by hand
+export const linkRows = (rows: ReconciliationRow[], cardRowId: string, entryRowId: string, resolution: ReconciliationRow['resolution']) => {
+  const cardRow = rows.find(row => row.id === cardRowId && row.type === 'unmatched_card')
+  const entryRow = rows.find(row => row.id === entryRowId && row.type === 'unmatched_entry')
+  if (!cardRow || !entryRow) return null
+
+  const timeDiff = Math.abs(new Date(cardRow.transaction!.timestamp).getTime() - new Date(entryRow.entry!.timestamp).getTime()) / 60000
+  const linked: ReconciliationRow = {
+    id: cardRow.id,
+    type: 'matched',
+    transaction: cardRow.transaction,
+    entry: entryRow.entry,
+    match: {
+      time_diff_minutes: Math.round(timeDiff),
+      amount_diff: round(Math.abs(cardRow.transaction!.amount - entryRow.entry!.total_amount), 2),
+      gallons_diff: cardRow.transaction!.gallons !== null ? round(Math.abs(cardRow.transaction!.gallons - entryRow.entry!.gallons), 3) : null,
+      distance_km: null
+    },
+    resolution
+  }
+
+  return rows.filter(row => row.id !== entryRowId).map(row => row.id === cardRowId ? linked : row)
+}
+
+// Split a wrong match back into an unmatched transaction and an unmatched entry
+export const unlinkRow = (rows: ReconciliationRow[], rowId: string) => {
+  const row = rows.find(candidate => candidate.id === rowId && candidate.type === 'matched')
+  if (!row) return null
+
+  return rows.flatMap(candidate => candidate.id !== rowId ? [candidate] : [
+    { id: row.id, type: 'unmatched_card' as const, transaction: row.transaction, entry: null, match: null, resolution: null },
+    { id: crypto.randomUUID(), type: 'unmatched_entry' as const, transaction: null, entry: row.entry, match: null, resolution: null }
+  ])
+}
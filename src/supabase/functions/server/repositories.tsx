@@ -0,0 +1,339 @@
+// Storage for rooftops, users, fuel entries, vehicles and photos. Records are the same plain objects
+// the API returns; each backend decides how they are laid out. Settings, card mappings and
+// reconciliation reports stay in the KV store.
+import type { EntryStatus, StatusChange } from './approval.tsx'
+import { queryEntries, type EntryPage, type EntryQuery } from './entry_query.tsx'
+import type { FlagReason } from './entry_rules.tsx'
+import type { Role } from './permissions.tsx'
+import type { FuelPurpose, VehicleCategory } from './purpose.tsx'
+
+// The records, as they come out of storage. Optional fields are ones KV records saved by older
+// versions may lack, or empty columns, which the postgres backend leaves out.
+
+export interface Rooftop {
+  id: string
+  name: string
+  street?: string | null
+  city?: string | null
+  state?: string | null
+  postal_code?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  geofence_radius_km?: number
+  timezone?: string
+  stock_number_pattern?: string | null
+  stock_number_example?: string | null
+  new_stock_pattern?: string | null
+  used_stock_pattern?: string | null
+  loaner_stock_pattern?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface UserProfile {
+  id: string
+  email: string
+  name: string
+  role: Role
+  rooftop_id?: string | null
+  // The free-text rooftop name from before rooftops were records, see assignRooftop
+  rooftop?: string
+  created_at?: string
+  updated_at?: string
+}
+
+export interface FuelEntry {
+  id: string
+  user_id: string
+  // The offline outbox's id for the entry, see POST /fuel-entries
+  client_id?: string | null
+  rooftop_id?: string | null
+  stock_number: string
+  vin?: string | null
+  gallons: number
+  price_per_gallon: number
+  total_amount: number
+  odometer: number
+  fuel_type: string
+  station_name?: string | null
+  location: string
+  latitude?: number | null
+  longitude?: number | null
+  receipt_photo?: string | null
+  vin_photo?: string | null
+  notes?: string | null
+  timestamp: string
+  created_at: string
+  updated_at?: string | null
+  vehicle_year?: string | null
+  vehicle_make?: string | null
+  vehicle_model?: string | null
+  vehicle_trim?: string | null
+  voided?: boolean
+  voided_at?: string | null
+  voided_by?: string | null
+  void_reason?: string | null
+  revision_count?: number
+  flagged?: boolean
+  flag_reasons?: FlagReason[]
+  status?: EntryStatus | null
+  status_history?: StatusChange[]
+  purpose?: FuelPurpose | null
+  vehicle_category?: VehicleCategory | null
+  ro_number?: string | null
+  chargeback_billed_at?: string | null
+  chargeback_billed_by?: string | null
+}
+
+export interface FieldChange {
+  from: unknown
+  to: unknown
+}
+
+export interface EntryRevision {
+  // Numbered from 1 per entry
+  revision: number
+  action: 'edit' | 'void'
+  reason: string
+  changes: Record<string, FieldChange>
+  user_id: string
+  user_name: string
+  created_at: string
+}
+
+// Decoded by NHTSA and cached by VIN. Failed lookups are cached too, with valid false.
+export interface Vehicle {
+  vin: string
+  year?: string
+  make?: string
+  model?: string
+  trim?: string
+  engine?: string
+  displacement?: string
+  cylinders?: string
+  fuel_type?: string
+  vehicle_type?: string
+  body_class?: string
+  drive_type?: string
+  transmission?: string
+  manufacturer?: string
+  plant_city?: string
+  plant_state?: string
+  tank_capacity_gallons?: number | null
+  premium_required?: boolean | null
+  valid?: boolean
+  error?: string | null
+  cached_at?: string
+}
+
+export interface Photo {
+  path: string
+  user_id: string
+  file_name?: string
+  content_type?: string | null
+  size?: number
+  created_at?: string
+}
+
+// Rooftops are the dealerships in the group (see rooftops.tsx)
+export interface RooftopRepository {
+  get(id: string): Promise<Rooftop | null>
+  list(): Promise<Rooftop[]>
+  save(rooftop: Rooftop): Promise<void>
+  delete(id: string): Promise<void>
+}
+
+export interface UserRepository {
+  get(id: string): Promise<UserProfile | null>
+  list(): Promise<UserProfile[]>
+  save(user: UserProfile): Promise<void>
+  delete(id: string): Promise<void>
+}
+
+export interface FuelEntryRepository {
+  get(id: string): Promise<FuelEntry | null>
+  list(): Promise<FuelEntry[]>
+  listByUser(userId: string): Promise<FuelEntry[]>
+  // Entries whose stock number or VIN is vehicleId, in any case
+  listByVehicle(vehicleId: string): Promise<FuelEntry[]>
+  // One page of the entries matching the query, newest first. Entries keep their stored rooftop_id.
+  query(query: EntryQuery): Promise<EntryPage>
+  save(entry: FuelEntry): Promise<void>
+  // Also removes the entry's revisions
+  delete(id: string): Promise<void>
+  listRevisions(entryId: string): Promise<EntryRevision[]>
+  saveRevision(entryId: string, revision: EntryRevision): Promise<void>
+  // Rescan every entry and repair the per-user and per-vehicle indexes. With dryRun nothing is written.
+  rebuildIndex(options: { dryRun: boolean }): Promise<IndexRebuildReport>
+}
+
+export interface IndexReference {
+  user_id: string
+  entry_id: string
+}
+
+export interface IndexRebuildReport {
+  dry_run: boolean
+  entries_scanned: number
+  index_keys_scanned: number
+  // Entries missing from their owner's index; the rebuild adds them
+  unindexed_entries: IndexReference[]
+  // Index keys for entries that no longer exist or belong to someone else; the rebuild removes them
+  dangling_index_keys: IndexReference[]
+  // Old single-key lists converted to per-entry index keys
+  legacy_lists_converted: number
+  // Per-vehicle index keys missing for an entry's stock number or VIN; the rebuild adds them
+  unindexed_vehicle_keys: number
+  // Per-vehicle index keys for entries that no longer exist or have another stock number and VIN
+  dangling_vehicle_keys: number
+}
+
+// The IDs an entry is listed under by vehicle: its stock number and VIN, trimmed and upper-cased
+export const entryVehicleIds = (entry: Pick<FuelEntry, 'stock_number' | 'vin'>): string[] => [...new Set(
+  [entry.stock_number, entry.vin].map(id => String(id || '').trim().toUpperCase()).filter(Boolean)
+)]
+
+// Backends that look entries up by user_id, stock_number and vin columns have no separate index to repair
+export const columnIndexReport = (entries: unknown[], dryRun: boolean): IndexRebuildReport => ({
+  dry_run: dryRun,
+  entries_scanned: entries.length,
+  index_keys_scanned: 0,
+  unindexed_entries: [],
+  dangling_index_keys: [],
+  legacy_lists_converted: 0,
+  unindexed_vehicle_keys: 0,
+  dangling_vehicle_keys: 0
+})
+
+// Vehicles are keyed by their upper-case VIN
+export interface VehicleRepository {
+  get(vin: string): Promise<Vehicle | null>
+  list(): Promise<Vehicle[]>
+  save(vehicle: Vehicle): Promise<void>
+}
+
+// Metadata for uploaded receipt and VIN photos. The files themselves live in PhotoStorage.
+export interface PhotoRepository {
+  get(path: string): Promise<Photo | null>
+  list(): Promise<Photo[]>
+  listByUser(userId: string): Promise<Photo[]>
+  save(photo: Photo): Promise<void>
+  delete(path: string): Promise<void>
+}
+
+export interface Repositories {
+  rooftops: RooftopRepository
+  users: UserRepository
+  entries: FuelEntryRepository
+  vehicles: VehicleRepository
+  photos: PhotoRepository
+}
+
+// Maps-backed repositories for tests. Records are cloned on the way in and out.
+export const createMemoryRepositories = (): Repositories => {
+  const rooftops = new Map<string, Rooftop>()
+  const users = new Map<string, UserProfile>()
+  const entries = new Map<string, FuelEntry>()
+  const revisions = new Map<string, EntryRevision[]>()
+  const vehicles = new Map<string, Vehicle>()
+  const photos = new Map<string, Photo>()
+
+  const read = <T,>(map: Map<string, T>, key: string) => map.has(key) ? structuredClone(map.get(key)!) : null
+  const all = <T,>(map: Map<string, T>) => [...map.values()].map(value => structuredClone(value))
+
+  return {
+    rooftops: {
+      get: async (id) => read(rooftops, id),
+      list: async () => all(rooftops),
+      save: async (rooftop) => { rooftops.set(rooftop.id, structuredClone(rooftop)) },
+      delete: async (id) => { rooftops.delete(id) }
+    },
+    users: {
+      get: async (id) => read(users, id),
+      list: async () => all(users),
+      save: async (user) => { users.set(user.id, structuredClone(user)) },
+      delete: async (id) => { users.delete(id) }
+    },
+    entries: {
+      get: async (id) => read(entries, id),
+      list: async () => all(entries),
+      listByUser: async (userId) => all(entries).filter(entry => entry.user_id === userId),
+      listByVehicle: async (vehicleId) =>
+        all(entries).filter(entry => entryVehicleIds(entry).includes(vehicleId.trim().toUpperCase())),
+      query: async (query) => queryEntries(all(entries), all(users), query),
+      save: async (entry) => { entries.set(entry.id, structuredClone(entry)) },
+      delete: async (id) => {
+        entries.delete(id)
+        revisions.delete(id)
+      },
+      listRevisions: async (entryId) => structuredClone(revisions.get(entryId) ?? []),
+      saveRevision: async (entryId, revision) => {
+        revisions.set(entryId, [...(revisions.get(entryId) ?? []), structuredClone(revision)])
+      },
+      rebuildIndex: async ({ dryRun }) => columnIndexReport([...entries.values()], dryRun)
+    },
+    vehicles: {
+      get: async (vin) => read(vehicles, vin.toUpperCase()),
+      list: async () => all(vehicles),
+      save: async (vehicle) => { vehicles.set(vehicle.vin.toUpperCase(), structuredClone(vehicle)) }
+    },
+    photos: {
+      get: async (path) => read(photos, path),
+      list: async () => all(photos),
+      listByUser: async (userId) => all(photos).filter(photo => photo.user_id === userId),
+      save: async (photo) => { photos.set(photo.path, structuredClone(photo)) },
+      delete: async (path) => { photos.delete(path) }
+    }
+  }
+}
+
+// Copy every record from one backend into another. Saves are upserts, so running it again
+// after a partial failure picks up where it left off.
+export const copyRepositories = async (
+  from: Repositories,
+  to: Repositories,
+  log: (message: string) => void = console.log
+) => {
+  const counts = { rooftops: 0, users: 0, vehicles: 0, entries: 0, revisions: 0, photos: 0 }
+
+  // Users and entries refer to rooftops, so they go first
+  for (const rooftop of await from.rooftops.list()) {
+    await to.rooftops.save(rooftop)
+    counts.rooftops++
+  }
+  log(`Copied ${counts.rooftops} rooftops`)
+
+  for (const user of await from.users.list()) {
+    await to.users.save(user)
+    counts.users++
+  }
+  log(`Copied ${counts.users} users`)
+
+  for (const vehicle of await from.vehicles.list()) {
+    await to.vehicles.save(vehicle)
+    counts.vehicles++
+  }
+  log(`Copied ${counts.vehicles} vehicles`)
+
+  // Revisions are numbered per entry, so skip the ones the target already has
+  for (const entry of await from.entries.list()) {
+    await to.entries.save(entry)
+    counts.entries++
+
+    const copied = new Set((await to.entries.listRevisions(entry.id)).map(revision => revision.revision))
+    for (const revision of await from.entries.listRevisions(entry.id)) {
+      if (copied.has(revision.revision)) continue
+      await to.entries.saveRevision(entry.id, revision)
+      counts.revisions++
+    }
+  }
+  log(`Copied ${counts.entries} fuel entries and ${counts.revisions} revisions`)
+
+  for (const photo of await from.photos.list()) {
+    await to.photos.save(photo)
+    counts.photos++
+  }
+  log(`Copied ${counts.photos} photos`)
+
+  return counts
+}
@@ -0,0 +1,210 @@
+import { assertEquals } from 'jsr:@std/assert@1'
+import {
+  copyRepositories, createMemoryRepositories, type EntryRevision, type FuelEntry, type Repositories, type UserProfile
+} from './repositories.tsx'
+import { parseEntryQuery, type EntryQuery } from './entry_query.tsx'
+import { createKvRepositories } from './kv_repositories.tsx'
+import { createMemoryKv } from './memory_kv.tsx'
+import { PAGE_SIZE, readAllPages } from './postgres_repositories.tsx'
+
+const rooftop = { id: 'rooftop-1', name: 'Napleton Chevrolet', timezone: 'America/Chicago' }
+const user: UserProfile = { id: 'porter-1', email: 'porter@napleton.com', name: 'John Porter', role: 'porter' }
+const entry = (id: string, userId = user.id): FuelEntry => ({
+  id, user_id: userId, stock_number: 'A1234', gallons: 10, price_per_gallon: 3.5, total_amount: 35, odometer: 12000,
+  fuel_type: 'regular', location: 'Oak Lawn, IL', timestamp: '2025-03-10T14:00:00.000Z', created_at: '2025-03-10T14:00:00.000Z'
+})
+const revision = (number: number): EntryRevision => ({ revision: number, action: 'edit', reason: 'Typo', changes: {}, user_id: user.id, user_name: user.name, created_at: '2025-03-10T15:00:00.000Z' })
+const byId = <T extends { id: string }>(records: T[]) => [...records].sort((a, b) => a.id < b.id ? -1 : 1)
+
+const backends: [string, () => Repositories][] = [
+  ['memory', createMemoryRepositories],
+  ['kv', () => createKvRepositories(createMemoryKv())]
+]
+
+for (const [name, create] of backends) {
+  Deno.test(`${name} repositories store and delete users`, async () => {
+    const { users } = create()
+    assertEquals(await users.get(user.id), null)
+
+    await users.save(user)
+    await users.save({ ...user, role: 'admin' })
+    assertEquals(await users.get(user.id), { ...user, role: 'admin' })
+    assertEquals(await users.list(), [{ ...user, role: 'admin' }])
+
+    await users.delete(user.id)
+    assertEquals(await users.list(), [])
+  })
+
+  Deno.test(`${name} repositories store and delete rooftops`, async () => {
+    const { rooftops } = create()
+    await rooftops.save(rooftop)
+    await rooftops.save({ ...rooftop, timezone: 'America/New_York' })
+    assertEquals(await rooftops.get(rooftop.id), { ...rooftop, timezone: 'America/New_York' })
+
+    await rooftops.delete(rooftop.id)
+    assertEquals(await rooftops.list(), [])
+  })
+
+  Deno.test(`${name} repositories keep entries per user with their revisions`, async () => {
+    const { entries } = create()
+    await entries.save(entry('e1'))
+    await entries.save(entry('e2'))
+    await entries.save({ ...entry('e1'), gallons: 12 })
+    await entries.save(entry('e3', 'porter-2'))
+
+    assertEquals(await entries.get('e1'), { ...entry('e1'), gallons: 12 })
+    assertEquals(byId(await entries.listByUser(user.id)).map(saved => saved.id), ['e1', 'e2'])
+    assertEquals((await entries.list()).length, 3)
+
+    await entries.saveRevision('e1', revision(1))
+    await entries.saveRevision('e1', revision(2))
+    assertEquals(await entries.listRevisions('e1'), [revision(1), revision(2)])
+
+    await entries.delete('e1')
+    assertEquals(await entries.get('e1'), null)
+    assertEquals(await entries.listRevisions('e1'), [])
+    assertEquals((await entries.listByUser(user.id)).map(saved => saved.id), ['e2'])
+  })
+
+  Deno.test(`${name} repositories list a vehicle's entries by stock number or VIN`, async () => {
+    const { entries } = create()
+    await entries.save({ ...entry('e1'), vin: '1HGCM82633A004352' })
+    await entries.save({ ...entry('e2', 'porter-2'), stock_number: ' a1234 ' })
+    await entries.save({ ...entry('e3'), stock_number: 'B5678' })
+
+    assertEquals(byId(await entries.listByVehicle('A1234')).map(saved => saved.id), ['e1', 'e2'])
+    assertEquals((await entries.listByVehicle('1hgcm82633a004352')).map(saved => saved.id), ['e1'])
+    assertEquals(await entries.listByVehicle('A12'), [])
+    assertEquals(await entries.listByVehicle(' '), [])
+
+    // Changing the stock number moves the entry to the other vehicle
+    await entries.save({ ...entry('e1'), stock_number: 'B5678' })
+    assertEquals((await entries.listByVehicle('A1234')).map(saved => saved.id), ['e2'])
+    assertEquals(await entries.listByVehicle('1HGCM82633A004352'), [])
+    assertEquals(byId(await entries.listByVehicle('B5678')).map(saved => saved.id), ['e1', 'e3'])
+
+    await entries.delete('e3')
+    assertEquals((await entries.listByVehicle('B5678')).map(saved => saved.id), ['e1'])
+  })
+
+  Deno.test(`${name} repositories query a page of entries, scoped to a rooftop or a user`, async () => {
+    const { entries, users } = create()
+    const query = (params: Record<string, string>, scope: Partial<EntryQuery> = {}) =>
+      ({ ...parseEntryQuery(params) as EntryQuery, ...scope })
+    await users.save({ ...user, rooftop_id: rooftop.id })
+    await entries.save({ ...entry('e1'), timestamp: '2025-03-10T14:00:00.000Z', rooftop_id: rooftop.id })
+    // From before rooftops existed, so it counts at its owner's
+    await entries.save({ ...entry('e2'), timestamp: '2025-03-11T14:00:00.000Z' })
+    await entries.save({ ...entry('e3', 'porter-2'), timestamp: '2025-03-12T14:00:00.000Z', rooftop_id: 'rooftop-2', flagged: true })
+
+    const first = await entries.query(query({ limit: '2' }))
+    assertEquals(first.entries.map(saved => saved.id), ['e3', 'e2'])
+    const second = await entries.query(query({ limit: '2', cursor: first.next_cursor! }))
+    assertEquals(second.entries.map(saved => saved.id), ['e1'])
+    assertEquals(second.next_cursor, null)
+
+    assertEquals((await entries.query(query({ rooftop_id: rooftop.id }))).entries.map(saved => saved.id), ['e2', 'e1'])
+    assertEquals((await entries.query(query({ flagged: 'true' }))).entries.map(saved => saved.id), ['e3'])
+    assertEquals((await entries.query(query({}, { user_id: 'porter-2' }))).entries.map(saved => saved.id), ['e3'])
+    // A manager at rooftop-1 sees its entries and their own
+    const managed = await entries.query(query({}, { visible_rooftop_id: rooftop.id, viewer_id: 'porter-2' }))
+    assertEquals(managed.entries.map(saved => saved.id), ['e3', 'e2', 'e1'])
+    assertEquals((await entries.query(query({}, { visible_rooftop_id: 'rooftop-2', viewer_id: 'manager-1' }))).entries.map(saved => saved.id), ['e3'])
+    // Entries come back as stored
+    assertEquals(first.entries[1].rooftop_id, undefined)
+  })
+
+  Deno.test(`${name} repositories look vehicles up by VIN in any case`, async () => {
+    const { vehicles } = create()
+    await vehicles.save({ vin: '1hgcm82633a004352', make: 'HONDA' })
+    assertEquals(await vehicles.get('1HGCM82633A004352'), { vin: '1hgcm82633a004352', make: 'HONDA' })
+    assertEquals((await vehicles.list()).length, 1)
+  })
+
+  Deno.test(`${name} repositories list photos by uploader`, async () => {
+    const { photos } = create()
+    await photos.save({ path: 'porter-1/a.jpg', user_id: 'porter-1' })
+    await photos.save({ path: 'porter-2/b.jpg', user_id: 'porter-2' })
+
+    assertEquals(await photos.listByUser('porter-1'), [{ path: 'porter-1/a.jpg', user_id: 'porter-1' }])
+    await photos.delete('porter-1/a.jpg')
+    assertEquals(await photos.get('porter-1/a.jpg'), null)
+    assertEquals((await photos.list()).length, 1)
+  })
+}
+
+Deno.test('copyRepositories copies everything once, even when run twice', async () => {
+  const kv = createMemoryKv()
+  const from = createKvRepositories(kv)
+  await from.rooftops.save(rooftop)
+  await from.users.save(user)
+  await from.vehicles.save({ vin: '1HGCM82633A004352', make: 'HONDA' })
+  await from.entries.save(entry('e1'))
+  await from.entries.saveRevision('e1', revision(1))
+  await from.photos.save({ path: 'porter-1/a.jpg', user_id: 'porter-1' })
+
+  const to = createMemoryRepositories()
+  const log = () => {}
+  assertEquals(await copyRepositories(from, to, log), { rooftops: 1, users: 1, vehicles: 1, entries: 1, revisions: 1, photos: 1 })
+  assertEquals(await copyRepositories(from, to, log), { rooftops: 1, users: 1, vehicles: 1, entries: 1, revisions: 0, photos: 1 })
+
+  assertEquals(await to.rooftops.get(rooftop.id), rooftop)
+  assertEquals(await to.users.get(user.id), user)
+  assertEquals(await to.entries.listRevisions('e1'), [revision(1)])
+  assertEquals(await to.photos.listByUser('porter-1'), [{ path: 'porter-1/a.jpg', user_id: 'porter-1' }])
+})
+
+Deno.test('kv entry index keeps concurrent submissions from the same user', async () => {
+  const { entries } = createKvRepositories(createMemoryKv())
+  await Promise.all(['e1', 'e2', 'e3', 'e4'].map(id => entries.save(entry(id))))
+  assertEquals(byId(await entries.listByUser(user.id)).map(saved => saved.id), ['e1', 'e2', 'e3', 'e4'])
+})
+
+Deno.test('kv rebuildIndex reports orphans both ways and converts legacy lists', async () => {
+  const kv = createMemoryKv({
+    'user:porter-1': user,
+    'fuel_entry:e1': entry('e1'),
+    'fuel_entry:e2': entry('e2'),
+    'fuel_entry:e3': entry('e3'),
+    // Old array index that lost e2 and still lists a deleted entry
+    'user_fuel_entries:porter-1': ['e1', 'gone'],
+    'user_fuel_entries:porter-2:e3': { user_id: 'porter-2', entry_id: 'e3' }
+  })
+  const { entries } = createKvRepositories(kv)
+
+  const dryRun = await entries.rebuildIndex({ dryRun: true })
+  assertEquals(dryRun, {
+    dry_run: true,
+    entries_scanned: 3,
+    index_keys_scanned: 3,
+    unindexed_entries: [{ user_id: 'porter-1', entry_id: 'e2' }, { user_id: 'porter-1', entry_id: 'e3' }],
+    dangling_index_keys: [{ user_id: 'porter-2', entry_id: 'e3' }, { user_id: 'porter-1', entry_id: 'gone' }],
+    legacy_lists_converted: 1,
+    // The entries were written before there was a vehicle index
+    unindexed_vehicle_keys: 3,
+    dangling_vehicle_keys: 0
+  })
+  assertEquals((await entries.listByUser('porter-1')).length, 1)
+
+  const rebuilt = await entries.rebuildIndex({ dryRun: false })
+  assertEquals(rebuilt.unindexed_entries.length, 2)
+  assertEquals(byId(await entries.listByUser('porter-1')).map(saved => saved.id), ['e1', 'e2', 'e3'])
+  assertEquals(await entries.listByUser('porter-2'), [])
+  assertEquals(await kv.get('user_fuel_entries:porter-1'), undefined)
+  assertEquals(byId(await entries.listByVehicle('a1234')).map(saved => saved.id), ['e1', 'e2', 'e3'])
+
+  const again = await entries.rebuildIndex({ dryRun: false })
+  assertEquals([again.unindexed_entries, again.dangling_index_keys, again.legacy_lists_converted], [[], [], 0])
+  assertEquals([again.unindexed_vehicle_keys, again.dangling_vehicle_keys], [0, 0])
+})
+
+Deno.test('readAllPages keeps reading until a short page comes back', async () => {
+  const rows = Array.from({ length: 2 * PAGE_SIZE + 5 }, (_, i) => ({ id: i }))
+  const ranges: [number, number][] = []
+  const read = await readAllPages(async (from, to) => {
+    ranges.push([from, to])
+    return { data: rows.slice(from, to + 1), error: null }
+  })
+  assertEquals(read, rows)
+  assertEquals(ranges, [[0, PAGE_SIZE - 1], [PAGE_SIZE, 2 * PAGE_SIZE - 1], [2 * PAGE_SIZE, 3 * PAGE_SIZE - 1]])
+})
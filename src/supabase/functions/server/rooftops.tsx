@@ -0,0 +1,165 @@
+// Rooftops: the individual dealerships in the group. Users and fuel entries belong to one, and
+// each has its own address, geofence, timezone and stock-number format.
+import { getEntryStatus } from './approval.tsx'
+import { CATEGORY_PATTERN_FIELDS, VEHICLE_CATEGORY_LABELS } from './purpose.tsx'
+import { distanceKm } from './reconciliation.tsx'
+import type { FuelEntry, Rooftop, UserProfile } from './repositories.tsx'
+
+// Used for rooftops created without a timezone and for entries that have no rooftop
+export const DEFAULT_TIMEZONE = 'America/Chicago'
+
+// Fuel runs go to stations near the dealership; fills further out than this are flagged
+export const DEFAULT_GEOFENCE_RADIUS_KM = 15
+
+const ADDRESS_FIELDS = ['street', 'city', 'state', 'postal_code'] as const
+
+export type RooftopFields = Omit<Rooftop, 'id' | 'created_at' | 'updated_at'>
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const toCoordinate = (value: unknown, limit: number) => {
+  if (value === null || value === undefined || value === '') return null
+  const number = Number(value)
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : undefined
+}
+
+// Build a rooftop's editable fields from a request body, over the existing record when editing.
+// Returns an error message for invalid input.
+export const parseRooftop = (input: Record<string, unknown>, existing: Partial<Rooftop> = {}): RooftopFields | string => {
+  const merged: Record<string, unknown> = { ...existing, ...input }
+
+  const name = String(merged.name || '').trim()
+  if (!name) return 'A name is required'
+
+  const latitude = toCoordinate(merged.latitude, 90)
+  const longitude = toCoordinate(merged.longitude, 180)
+  if (latitude === undefined || longitude === undefined || (latitude === null) !== (longitude === null)) {
+    return 'Enter both a latitude and a longitude, or neither'
+  }
+
+  const radius = Number(merged.geofence_radius_km ?? DEFAULT_GEOFENCE_RADIUS_KM)
+  if (!Number.isFinite(radius) || radius <= 0) return 'The geofence radius must be more than 0 km'
+
+  const timezone = String(merged.timezone || DEFAULT_TIMEZONE).trim()
+  if (!isValidTimezone(timezone)) return `Unknown timezone ${timezone}`
+
+  const pattern = String(merged.stock_number_pattern || '').trim()
+  if (pattern && !isValidPattern(pattern)) return 'The stock number format is not a valid pattern'
+
+  const categoryPatterns: Record<string, string | null> = {}
+  for (const [category, field] of Object.entries(CATEGORY_PATTERN_FIELDS)) {
+    const categoryPattern = String(merged[field] || '').trim()
+    if (categoryPattern && !isValidPattern(categoryPattern)) {
+      return `The ${VEHICLE_CATEGORY_LABELS[category as keyof typeof CATEGORY_PATTERN_FIELDS].toLowerCase()} stock number pattern is not valid`
+    }
+    categoryPatterns[field] = categoryPattern || null
+  }
+
+  const rooftop: RooftopFields = {
+    name,
+    latitude,
+    longitude,
+    geofence_radius_km: radius,
+    timezone,
+    stock_number_pattern: pattern || null,
+    stock_number_example: String(merged.stock_number_example || '').trim() || null,
+    ...categoryPatterns
+  }
+  for (const field of ADDRESS_FIELDS) {
+    rooftop[field] = String(merged[field] || '').trim() || null
+  }
+  return rooftop
+}
+
+// Stock numbers are checked against the whole pattern, ignoring case. Rooftops without a
+// format accept anything.
+export const matchesStockNumberFormat = (rooftop: Rooftop | null, stockNumber: string) => {
+  if (!rooftop?.stock_number_pattern || !stockNumber) return true
+  return new RegExp(`^(?:${rooftop.stock_number_pattern})$`, 'i').test(stockNumber.trim())
+}
+
+// A profile moved to a rooftop, or to none. The free-text rooftop name users had before
+// rooftops were records is dropped.
+export const assignRooftop = (profile: UserProfile, rooftopId: string | null, now: string) => {
+  const updated: UserProfile = { ...profile, rooftop_id: rooftopId, updated_at: now }
+  delete updated.rooftop
+  return updated
+}
+
+const hasEntryPosition = (entry: FuelEntry) =>
+  entry.latitude != null && entry.longitude != null && Number.isFinite(Number(entry.latitude)) && Number.isFinite(Number(entry.longitude))
+
+export const isOutsideGeofence = (rooftop: Rooftop | null, entry: FuelEntry) => {
+  if (rooftop?.latitude == null || rooftop?.longitude == null || !hasEntryPosition(entry)) return false
+  return distanceKm(rooftop.latitude, rooftop.longitude, Number(entry.latitude), Number(entry.longitude)) >
+    Number(rooftop.geofence_radius_km || DEFAULT_GEOFENCE_RADIUS_KM)
+}
+
+// Entries sent without a device position can't be checked against the rooftop's geofence
+export const isMissingLocation = (rooftop: Rooftop | null, entry: FuelEntry) =>
+  rooftop?.latitude != null && rooftop?.longitude != null && !hasEntryPosition(entry)
+
+// The calendar date (YYYY-MM-DD) of a moment at the rooftop, so "today" and "this month"
+// follow the dealership's clock rather than UTC
+export const localDate = (timestamp: string | Date, timezone: string = DEFAULT_TIMEZONE) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(timestamp))
+
+export interface RooftopSummary {
+  rooftop_id: string | null
+  name: string
+  users: number
+  entries: number
+  gallons: number
+  total_amount: number
+  // In the rooftop's own calendar month
+  month_entries: number
+  month_amount: number
+  awaiting_review: number
+  flagged: number
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Per-rooftop totals for group roll-ups. Voided entries are left out. Entries and users without a
+// rooftop are grouped under "Unassigned", which is only listed when it has something in it.
+export const summarizeRooftops = (entries: FuelEntry[], rooftops: Rooftop[], profiles: UserProfile[], now: Date): RooftopSummary[] => {
+  const groups = [...rooftops.map(rooftop => ({ id: rooftop.id, name: rooftop.name, timezone: rooftop.timezone })), { id: null, name: 'Unassigned', timezone: DEFAULT_TIMEZONE }]
+
+  return groups
+    .map(group => {
+      const groupEntries = entries.filter(entry => !entry.voided && (entry.rooftop_id ?? null) === group.id)
+      const month = localDate(now, group.timezone).slice(0, 7)
+      const monthEntries = groupEntries.filter(entry => localDate(entry.timestamp, group.timezone).startsWith(month))
+
+      return {
+        rooftop_id: group.id,
+        name: group.name,
+        users: profiles.filter(profile => (profile.rooftop_id ?? null) === group.id).length,
+        entries: groupEntries.length,
+        gallons: round(groupEntries.reduce((sum, entry) => sum + Number(entry.gallons || 0), 0)),
+        total_amount: round(groupEntries.reduce((sum, entry) => sum + Number(entry.total_amount || 0), 0)),
+        month_entries: monthEntries.length,
+        month_amount: round(monthEntries.reduce((sum, entry) => sum + Number(entry.total_amount || 0), 0)),
+        awaiting_review: groupEntries.filter(entry => getEntryStatus(entry) === 'submitted').length,
+        flagged: groupEntries.filter(entry => entry.flagged).length
+      }
+    })
+    .filter(summary => summary.rooftop_id !== null || summary.entries > 0 || summary.users > 0)
+}
@@ -0,0 +1,2664 @@
+// The FuelTrakr API as a Hono router. Storage, auth and the clock are passed in so the
+// same routes can be mounted by every deploy target and exercised in tests.
+import { Hono, type Context, type MiddlewareHandler } from 'npm:hono'
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse
+} from 'npm:@simplewebauthn/server'
+import { isoBase64URL } from 'npm:@simplewebauthn/server/helpers'
+import { VIN_PATTERN, hasValidVinCheckDigit } from './vin_check.tsx'
+import { buildFuelHistory, matchesVehicle, FREQUENT_FILL_WINDOW_HOURS, FREQUENT_FILL_MIN_MILES } from './fuel_history.tsx'
+import { evaluateEntryRules } from './entry_rules.tsx'
+import { csvStream, parseCsv } from './csv.tsx'
+import { parseEntryQuery, matchesEntryQuery, type EntryQuery } from './entry_query.tsx'
+import { EXPORT_PHOTO_LINK_SECONDS, entriesSheet, exportFileName, exportRows, parseExportRequest, summarySheet, type ExportContext } from './export.tsx'
+import { XLSX_CONTENT_TYPE, buildWorkbook } from './xlsx.tsx'
+import { GL_MAPPING_KEY, JOURNAL_FORMATS, assignGlAccount, buildJournal, formatIif, glCsvRows, journalFileName, normalizeGlMapping, parseGlMapping, type GlMapping, type JournalFormat } from './journal.tsx'
+import {
+  BUILT_IN_MAPPINGS, MAPPINGS_KEY, MATCH_WINDOW_MINUTES, linkRows, parseStatement, reconcile, summarizeRows, toReportSummary, unlinkRow,
+  type ColumnMapping, type ReconciliationReport, type ReconciliationRow
+} from './reconciliation.tsx'
+import {
+  APPROVAL_SETTINGS_KEY, REVIEW_DECISIONS, canAutoApprove, getEntryStatus, normalizeApprovalSettings, withStatusChange, type ApprovalSettings
+} from './approval.tsx'
+import { inviteEmail, inviteExpiry, inviteProblem, toPublicInvite, type Invite } from './invites.tsx'
+import { RESET_REQUEST_COOLDOWN_SECONDS, getResetStatus, hasOutstandingForcedReset, resetEmail, resetExpiry, resetProblem, type PasswordReset } from './password_reset.tsx'
+import { MIN_PASSWORD_LENGTH, generateToken, hashToken } from './tokens.tsx'
+import { RP_NAME, challengeExpiry, deviceName, isChallengeExpired, relyingParty, toPublicPasskey, type Passkey, type PasskeyChallenge } from './passkeys.tsx'
+import {
+  MAX_FAILED_ATTEMPTS,
+  MFA_ISSUER,
+  MFA_SETTINGS_KEY,
+  MFA_TOKEN_HEADER,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  isMfaLocked,
+  mfaSessionExpiry,
+  normalizeMfaSettings,
+  normalizeRecoveryCode,
+  otpauthUrl,
+  verifyTotp,
+  withFailedAttempt,
+  type MfaFactor,
+  type MfaSession,
+  type MfaSettings
+} from './mfa.tsx'
+import {
+  ORGANIZATION_SETTINGS_KEY,
+  emailDomainError,
+  isAllowedEmail,
+  normalizeOrganizationSettings,
+  parseOrganizationSettings,
+  type OrganizationSettings
+} from './organization.tsx'
+import { coversRooftop, entryRooftopId, hasPermission, isRole, scopedRooftopId, type Permission } from './permissions.tsx'
+import { assignRooftop, parseRooftop, summarizeRooftops } from './rooftops.tsx'
+import { parsePurposeFields, suggestVehicleCategory } from './purpose.tsx'
+import { defaultFuelType, parseFuelType } from './fuel_type.tsx'
+import {
+  CHARGEBACK_SETTINGS_KEY, CHARGEBACK_STATUSES, billingRows, chargebackFileName, chargebackStatus, groupChargebacks,
+  isChargeback, normalizeChargebackSettings, normalizeRoNumber, parseChargebackSettings, roNumberProblem, type ChargebackSettings,
+  type ChargebackStatus
+} from './chargebacks.tsx'
+import type { MailMessage, MailTransport } from './mail.tsx'
+import type { EntryRevision, FieldChange, FuelEntry, Repositories, UserProfile } from './repositories.tsx'
+
+// Same operations as kv_store.tsx. Holds settings, card mappings and reconciliation reports.
+// Values aren't checked on the way out; T is what the caller stored under the key.
+export interface KvStore {
+  // Undefined when the key isn't set
+  get<T = unknown>(key: string): Promise<T | undefined>
+  set(key: string, value: unknown): Promise<void>
+  del(key: string): Promise<void>
+  mset(keys: string[], values: unknown[]): Promise<void>
+  mget<T = unknown>(keys: string[]): Promise<T[]>
+  mdel(keys: string[]): Promise<void>
+  getByPrefix<T = unknown>(prefix: string): Promise<T[]>
+}
+
+export interface AuthUser {
+  id: string
+  email?: string
+  user_metadata?: Record<string, unknown>
+}
+
+// What the auth middleware leaves on the context. The profile is only set by requirePermission.
+type RouterEnv = { Variables: { user: AuthUser; profile: UserProfile | null } }
+
+export interface AuthProvider {
+  // The user an access token belongs to, or null when it is invalid or expired
+  getUser(accessToken: string): Promise<AuthUser | null>
+  createUser(params: { email: string; password: string; name: string }): Promise<{ user: AuthUser } | { error: string }>
+  // Null on success
+  updatePassword(userId: string, password: string): Promise<{ error: string } | null>
+  // A one-time token the client exchanges for a session, for sign-ins verified by the server (passkeys)
+  createLoginToken(email: string): Promise<{ token_hash: string } | { error: string }>
+  // Ends every session the user has, on all devices. Null on success.
+  revokeSessions(email: string): Promise<{ error: string } | null>
+}
+
+export interface PhotoStorage {
+  upload(path: string, file: File): Promise<{ path: string } | { error: string }>
+  createSignedUrl(path: string, expiresInSeconds: number): Promise<string | null>
+}
+
+export interface Clock {
+  now(): Date
+}
+
+export interface RouterDependencies {
+  kv: KvStore
+  repositories: Repositories
+  auth: AuthProvider
+  storage: PhotoStorage
+  clock: Clock
+  mail: MailTransport
+  // Where the web app is served; links in emails point here
+  appUrl: string
+  // Used to reach the NHTSA VIN decoder
+  fetch?: typeof fetch
+}
+
+const DEMO_USERS = [
+  { key: 'admin', email: 'admin@napleton.com', password: 'admin123', name: 'Admin User', role: 'admin' },
+  { key: 'porter', email: 'porter@napleton.com', password: 'porter123', name: 'John Porter', role: 'porter' }
+] as const
+
+// Create the demo admin and porter accounts. Existing accounts are reported, not overwritten.
+export const seedDemoUsers = async ({ repositories, auth, clock }: Pick<RouterDependencies, 'repositories' | 'auth' | 'clock'>) => {
+  const results: Record<string, { success: boolean; message: string; id: string | null }> = {}
+
+  for (const demoUser of DEMO_USERS) {
+    try {
+      const created = await auth.createUser({ email: demoUser.email, password: demoUser.password, name: demoUser.name })
+
+      if ('error' in created) {
+        results[demoUser.key] = { success: false, message: created.error, id: null }
+        continue
+      }
+
+      await repositories.users.save({
+        id: created.user.id,
+        email: demoUser.email,
+        name: demoUser.name,
+        role: demoUser.role,
+        created_at: clock.now().toISOString(),
+        updated_at: clock.now().toISOString()
+      })
+      results[demoUser.key] = { success: true, message: 'Created successfully', id: created.user.id }
+    } catch (error) {
+      results[demoUser.key] = { success: false, message: error instanceof Error ? error.message : 'User may already exist', id: null }
+    }
+  }
+
+  return results
+}
+
+// Porters can correct their own entries for this many hours after submitting them
+const ENTRY_EDIT_WINDOW_HOURS = Number(Deno.env.get('ENTRY_EDIT_WINDOW_HOURS') ?? '24')
+
+const EDITABLE_ENTRY_FIELDS: (keyof FuelEntry)[] = [
+  'stock_number', 'vin', 'gallons', 'price_per_gallon', 'total_amount',
+  'odometer', 'fuel_type', 'location', 'notes', 'timestamp', 'purpose', 'vehicle_category', 'ro_number'
+]
+
+// What a client may send when creating an entry. Ids, ownership, review state and the audit
+// fields are always set by the server.
+const CREATABLE_ENTRY_FIELDS: (keyof FuelEntry)[] = [
+  ...EDITABLE_ENTRY_FIELDS, 'station_name', 'latitude', 'longitude', 'receipt_photo', 'vin_photo'
+]
+
+const NUMERIC_ENTRY_FIELDS: (keyof FuelEntry)[] = ['gallons', 'price_per_gallon', 'total_amount', 'odometer']
+
+// Gallons, prices and odometer readings are positive numbers. Null when the value isn't one.
+const parseEntryNumber = (value: unknown) => {
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? number : null
+}
+
+// Who to name on audit trails. Accounts without a profile name go by their email.
+const auditName = (profile: UserProfile | null, user: AuthUser) => profile?.name || user.email || user.id
+
+// Check whether a user may edit or void an entry owned by owner
+const checkEntryAccess = (entry: FuelEntry, userId: string, userProfile: UserProfile | null, owner: UserProfile | null, now: Date): string | null => {
+  if (hasPermission(userProfile, 'entries.edit_all') && coversRooftop(userProfile, entryRooftopId(entry, owner))) {
+    return null
+  }
+
+  if (entry.user_id !== userId) {
+    return 'You can only change your own fuel entries'
+  }
+
+  const ageHours = (now.getTime() - new Date(entry.created_at).getTime()) / (60 * 60 * 1000)
+  if (ageHours > ENTRY_EDIT_WINDOW_HOURS) {
+    return `Entries can only be changed within ${ENTRY_EDIT_WINDOW_HOURS} hours of submission`
+  }
+
+  return null
+}
+
+export const createRouter = ({ kv, repositories, auth, storage, clock, mail, appUrl, fetch: fetchFn = fetch }: RouterDependencies) => {
+  const { rooftops, users, entries: fuelEntries, vehicles, photos } = repositories
+  const app = new Hono<RouterEnv>()
+
+  // Authentication middleware for protected routes
+  const requireAuth: MiddlewareHandler<RouterEnv> = async (c, next) => {
+    // Admin routes are authenticated once by the /admin/* middleware
+    if (c.get('user')) {
+      return next()
+    }
+
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.json({ error: 'Unauthorized - No token provided' }, 401)
+    }
+
+    const user = await auth.getUser(accessToken)
+    if (!user) {
+      return c.json({ error: 'Unauthorized - Invalid token' }, 401)
+    }
+
+    c.set('user', user)
+    await next()
+  }
+
+  // Runs after requireAuth and leaves the caller's profile in c.get('profile'). See permissions.tsx for who has what.
+  const requirePermission = (permission: Permission): MiddlewareHandler<RouterEnv> => async (c, next) => {
+    const profile = await users.get(c.get('user').id)
+    if (!hasPermission(profile, permission)) {
+      return c.json({ error: 'You don\'t have permission to do that' }, 403)
+    }
+
+    c.set('profile', profile)
+    await next()
+  }
+
+  // The caller's own entries, or every entry their role lets them see. Entries from before rooftops
+  // existed are given their owner's rooftop, so they filter and roll up like newer ones.
+  const listVisibleEntries = async (userProfile: UserProfile | null, userId: string) => {
+    if (!hasPermission(userProfile, 'entries.view_all')) {
+      return await fuelEntries.listByUser(userId)
+    }
+
+    const [entries, profiles] = await Promise.all([fuelEntries.list(), users.list()])
+    const owners = new Map(profiles.map(profile => [profile.id, profile]))
+    return entries
+      .map(entry => ({ ...entry, rooftop_id: entryRooftopId(entry, owners.get(entry.user_id)) }))
+      .filter(entry => entry.user_id === userId || coversRooftop(userProfile, entry.rooftop_id))
+  }
+
+  // The same rooftop fallback for a page of entries, looking up only the owners it needs
+  const withOwnerRooftops = async (entries: FuelEntry[]) => {
+    const ownerIds = [...new Set(entries.filter(entry => !entry.rooftop_id).map(entry => entry.user_id))]
+    const owners = new Map(await Promise.all(ownerIds.map(async id => [id, await users.get(id)] as const)))
+    return entries.map(entry => ({ ...entry, rooftop_id: entryRooftopId(entry, owners.get(entry.user_id)) }))
+  }
+
+  // The name of a rooftop for emails and exports, or null
+  const rooftopName = async (rooftopId: string | null | undefined) =>
+    rooftopId ? (await rooftops.get(rooftopId))?.name ?? null : null
+
+  // Append a revision to an entry's history and return it
+  const addEntryRevision = async (entryId: string, revision: Omit<EntryRevision, 'revision'>) => {
+    const existingRevisions = await fuelEntries.listRevisions(entryId)
+    const storedRevision: EntryRevision = { revision: existingRevisions.length + 1, ...revision }
+    await fuelEntries.saveRevision(entryId, storedRevision)
+    return storedRevision
+  }
+
+  // Run the fraud checks against the other fills of the same vehicle and record the result
+  const applyEntryRules = async (entry: FuelEntry) => {
+    // Placeholder VINs (e.g. VIN_FROM_PHOTO) would lump unrelated vehicles together
+    const enteredVin = String(entry.vin || '').toUpperCase()
+    const vin = VIN_PATTERN.test(enteredVin) ? enteredVin : null
+
+    const vehicleIds = [entry.stock_number, vin].filter((id): id is string => !!id)
+    const matches = await Promise.all(vehicleIds.map(id => fuelEntries.listByVehicle(id)))
+    // Fills recorded with both the stock number and the VIN are found twice
+    const vehicleEntries = [...new Map(matches.flat().map(other => [other.id, other])).values()]
+
+    const vehicleVin = vin || vehicleEntries.find(other => VIN_PATTERN.test(String(other.vin || '').toUpperCase()))?.vin?.toUpperCase()
+    const vehicle = vehicleVin ? await vehicles.get(vehicleVin) : null
+    const rooftop = entry.rooftop_id ? await rooftops.get(entry.rooftop_id) : null
+
+    const flagReasons = evaluateEntryRules(entry, vehicleEntries, vehicle, rooftop)
+    if (flagReasons.length > 0) {
+      console.log(`Fuel entry ${entry.id} flagged: ${flagReasons.join(', ')}`)
+    }
+
+    return { ...entry, flagged: flagReasons.length > 0, flag_reasons: flagReasons }
+  }
+
+  const getApprovalSettings = async () => normalizeApprovalSettings(await kv.get<Partial<ApprovalSettings>>(APPROVAL_SETTINGS_KEY))
+
+  const getChargebackSettings = async () => normalizeChargebackSettings(await kv.get<Partial<ChargebackSettings>>(CHARGEBACK_SETTINGS_KEY))
+
+  // Put an entry (back) into the approval queue, approving it straight away when it is within the auto-approve limits
+  const submitForApproval = async (entry: FuelEntry, submitter: { user_id: string; user_name: string; note?: string }) => {
+    const now = clock.now().toISOString()
+    const submitted = withStatusChange(entry, 'submitted', { ...submitter, at: now })
+
+    const settings = await getApprovalSettings()
+    if (!canAutoApprove(submitted, settings)) {
+      return submitted
+    }
+
+    return withStatusChange(submitted, 'approved', {
+      user_id: null,
+      user_name: 'Auto-approval',
+      note: 'Within auto-approve limits',
+      automatic: true,
+      at: now
+    })
+  }
+
+  // Invites and password resets are looked up by the hash of the token from the link
+  const findByToken = async <T extends { token_hash: string }>(prefix: string, token: unknown) => {
+    if (typeof token !== 'string' || !token) return null
+    const tokenHash = await hashToken(token)
+    const records = await kv.getByPrefix<T>(prefix)
+    return records.find(record => record.token_hash === tokenHash) ?? null
+  }
+
+  // Links in emails open the web app with the token in the query string
+  const appLink = (param: string, token: string) => `${appUrl}?${param}=${encodeURIComponent(token)}`
+
+  // Delivery problems are logged and reported back rather than failing the request
+  const sendMail = async (message: MailMessage) => {
+    try {
+      await mail.send(message)
+      return true
+    } catch (error) {
+      console.log('Send mail error:', error)
+      return false
+    }
+  }
+
+  // Challenges are single use: taking one deletes it, so a replayed response finds nothing
+  const takePasskeyChallenge = async (challengeId: unknown, type: 'registration' | 'authentication') => {
+    if (typeof challengeId !== 'string' || !challengeId) return null
+    const challenge = await kv.get<PasskeyChallenge>(`passkey_challenge:${challengeId}`)
+    if (!challenge) return null
+    await kv.del(`passkey_challenge:${challengeId}`)
+    return challenge.type === type && !isChallengeExpired(challenge, clock.now()) ? challenge : null
+  }
+
+  const savePasskeyChallenge = async (challenge: string, type: 'registration' | 'authentication', userId: string | null) => {
+    const now = clock.now()
+    const id = crypto.randomUUID()
+    await kv.set(`passkey_challenge:${id}`, { id, challenge, type, user_id: userId, created_at: now.toISOString(), expires_at: challengeExpiry(now) })
+    return id
+  }
+
+  const listPasskeys = async (userId: string) =>
+    (await kv.getByPrefix<Passkey>('passkey:')).filter(passkey => passkey.user_id === userId)
+
+  // Retire the user's outstanding reset links, then store and email a new one
+  const issuePasswordReset = async (profile: UserProfile, options: { forced: boolean; requested_by: string | null }) => {
+    const now = clock.now()
+    const outstanding = (await kv.getByPrefix<PasswordReset>('password_reset:'))
+      .filter(reset => reset.user_id === profile.id && getResetStatus(reset, now) === 'pending')
+    for (const reset of outstanding) {
+      await kv.set(`password_reset:${reset.id}`, { ...reset, superseded_at: now.toISOString() })
+    }
+
+    const token = generateToken()
+    const reset = {
+      id: crypto.randomUUID(),
+      user_id: profile.id,
+      email: profile.email,
+      token_hash: await hashToken(token),
+      forced: options.forced,
+      requested_by: options.requested_by,
+      created_at: now.toISOString(),
+      expires_at: resetExpiry(now)
+    }
+    await kv.set(`password_reset:${reset.id}`, reset)
+
+    const emailSent = await sendMail(resetEmail(reset, profile.name, appLink('reset', token)))
+    return { reset, emailSent }
+  }
+
+  const getMfaSettings = async () => normalizeMfaSettings(await kv.get<Partial<MfaSettings>>(MFA_SETTINGS_KEY))
+
+  const getOrganizationSettings = async () => normalizeOrganizationSettings(await kv.get<Partial<OrganizationSettings>>(ORGANIZATION_SETTINGS_KEY))
+
+  // The session from the request's MFA token, if it is the user's and still valid
+  const findMfaSession = async (c: Context<RouterEnv>, userId: string) => {
+    const token = c.req.header(MFA_TOKEN_HEADER)
+    if (!token) return null
+    const session = await kv.get<MfaSession>(`mfa_session:${await hashToken(token)}`)
+    if (!session || session.user_id !== userId) return null
+    return new Date(session.expires_at).getTime() > clock.now().getTime() ? session : null
+  }
+
+  const startMfaSession = async (userId: string) => {
+    const now = clock.now()
+    const token = generateToken()
+    const session = { token_hash: await hashToken(token), user_id: userId, created_at: now.toISOString(), expires_at: mfaSessionExpiry(now) }
+    await kv.set(`mfa_session:${session.token_hash}`, session)
+    return { mfa_token: token, expires_at: session.expires_at }
+  }
+
+  // Removing a factor also ends the sessions it verified
+  const clearMfa = async (userId: string) => {
+    const sessions = (await kv.getByPrefix<MfaSession>('mfa_session:')).filter(session => session.user_id === userId)
+    for (const session of sessions) {
+      await kv.del(`mfa_session:${session.token_hash}`)
+    }
+    await kv.del(`mfa:${userId}`)
+  }
+
+  const getMfaStatus = async (c: Context<RouterEnv>, userId: string) => {
+    const [profile, factor, settings] = await Promise.all([users.get(userId), kv.get<MfaFactor>(`mfa:${userId}`), getMfaSettings()])
+    const enabled = factor?.status === 'active'
+    return {
+      enabled,
+      required: !!profile && settings.required_roles.includes(profile.role),
+      verified: enabled && !!(await findMfaSession(c, userId)),
+      enabled_at: enabled ? factor.enabled_at : null,
+      recovery_codes_remaining: enabled ? factor.recovery_codes.length : 0,
+      locked_until: isMfaLocked(factor, clock.now()) ? factor?.locked_until : null
+    }
+  }
+
+  // Second factor for admin routes: needed when the user's role requires it or they have turned it on.
+  // mfa_required tells the client whether to start enrollment or ask for a code.
+  const requireMfa: MiddlewareHandler<RouterEnv> = async (c, next) => {
+    const status = await getMfaStatus(c, c.get('user').id)
+    if (!status.required && !status.enabled) {
+      return next()
+    }
+
+    if (!status.enabled) {
+      return c.json({ error: 'Set up two-factor authentication to use admin features', mfa_required: 'enroll' }, 403)
+    }
+
+    if (!status.verified) {
+      return c.json({ error: 'Enter a code from your authenticator app to continue', mfa_required: 'verify' }, 403)
+    }
+
+    await next()
+  }
+
+  app.use('/admin/*', requireAuth, requireMfa)
+
+  // Routes
+  app.get('/health', (c) => {
+    return c.json({ status: 'healthy', timestamp: clock.now().toISOString() })
+  })
+
+  // Setup demo users (can be called manually)
+  app.post('/setup-demo-users', async (c) => {
+    try {
+      console.log('Manual demo user setup requested...')
+
+      const results = await seedDemoUsers({ repositories, auth, clock })
+
+      return c.json({
+        message: 'Demo user setup completed',
+        results
+      })
+    } catch (error) {
+      console.log('Setup demo users error:', error)
+      return c.json({ error: 'Failed to setup demo users' }, 500)
+    }
+  })
+
+  // User signup
+  app.post('/signup', async (c) => {
+    try {
+      const body = await c.req.json()
+      const email = String(body.email || '').trim().toLowerCase()
+      const { password, name } = body
+
+      const organization = await getOrganizationSettings()
+      if (!isAllowedEmail(email, organization)) {
+        return c.json({ error: emailDomainError(organization) }, 400)
+      }
+
+      const created = await auth.createUser({ email, password, name })
+
+      if ('error' in created) {
+        console.log('Signup error:', created.error)
+        return c.json({ error: created.error }, 400)
+      }
+
+      // Store user profile in KV store
+      await users.save({
+        id: created.user.id,
+        email,
+        name,
+        role: 'porter', // Default role
+        created_at: clock.now().toISOString(),
+        updated_at: clock.now().toISOString()
+      })
+
+      return c.json({ 
+        message: 'User created successfully',
+        user: {
+          id: created.user.id,
+          email,
+          name,
+          role: 'porter'
+        }
+      })
+    } catch (error) {
+      console.log('Signup error:', error)
+      return c.json({ error: 'Failed to create user' }, 500)
+    }
+  })
+
+  // Look up an invite from its link so the invitee can see who they'll be signed up as.
+  // The token travels in the body rather than the path to keep it out of request logs.
+  app.post('/invites/lookup', async (c) => {
+    try {
+      const { token } = await c.req.json()
+      const invite = await findByToken<Invite>('invite:', token)
+      if (!invite) {
+        return c.json({ error: 'This invite link is not valid' }, 404)
+      }
+
+      const problem = inviteProblem(invite, clock.now())
+      if (problem) {
+        return c.json({ error: problem }, 410)
+      }
+
+      const { email, name, role, expires_at } = invite
+      return c.json({ email, name, role, rooftop: await rooftopName(invite.rooftop_id), expires_at })
+    } catch (error) {
+      console.log('Lookup invite error:', error)
+      return c.json({ error: 'Failed to look up invite' }, 500)
+    }
+  })
+
+  // Accept an invite: create the account with the invited role and use up the token
+  app.post('/invites/accept', async (c) => {
+    try {
+      const { token, password } = await c.req.json()
+      const invite = await findByToken<Invite>('invite:', token)
+      if (!invite) {
+        return c.json({ error: 'This invite link is not valid' }, 404)
+      }
+
+      const problem = inviteProblem(invite, clock.now())
+      if (problem) {
+        return c.json({ error: problem }, 410)
+      }
+
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return c.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400)
+      }
+
+      // Marking the invite first means a second request with the same link can't also get through
+      const now = clock.now().toISOString()
+      await kv.set(`invite:${invite.id}`, { ...invite, status: 'accepted', accepted_at: now })
+
+      const created = await auth.createUser({ email: invite.email, password, name: invite.name })
+      if ('error' in created) {
+        console.log('Accept invite error:', created.error)
+        await kv.set(`invite:${invite.id}`, invite)
+        return c.json({ error: created.error }, 400)
+      }
+
+      const profile = {
+        id: created.user.id,
+        email: invite.email,
+        name: invite.name,
+        role: invite.role,
+        rooftop_id: invite.rooftop_id ?? null,
+        created_at: now,
+        updated_at: now
+      }
+      await users.save(profile)
+      await kv.set(`invite:${invite.id}`, { ...invite, status: 'accepted', accepted_at: now, accepted_user_id: created.user.id })
+
+      return c.json({ message: 'Account created successfully', user: profile })
+    } catch (error) {
+      console.log('Accept invite error:', error)
+      return c.json({ error: 'Failed to accept invite' }, 500)
+    }
+  })
+
+  // Ask for a password reset link. The response is the same whether or not the account exists.
+  app.post('/password-reset/request', async (c) => {
+    try {
+      const { email } = await c.req.json()
+      const normalizedEmail = String(email || '').trim().toLowerCase()
+      const profile = normalizedEmail
+        ? (await users.list()).find(existing => existing.email?.toLowerCase() === normalizedEmail)
+        : null
+
+      if (profile) {
+        const now = clock.now()
+        const resets = await kv.getByPrefix<PasswordReset>('password_reset:')
+        const recentlySent = resets.some(reset =>
+          reset.user_id === profile.id &&
+          getResetStatus(reset, now) === 'pending' &&
+          now.getTime() - new Date(reset.created_at).getTime() < RESET_REQUEST_COOLDOWN_SECONDS * 1000
+        )
+
+        if (!recentlySent) {
+          await issuePasswordReset(profile, { forced: false, requested_by: null })
+        }
+      }
+
+      return c.json({ message: 'If an account exists for that email, a reset link is on its way' })
+    } catch (error) {
+      console.log('Request password reset error:', error)
+      return c.json({ error: 'Failed to request password reset' }, 500)
+    }
+  })
+
+  // Check a reset link before showing the new-password form
+  app.post('/password-reset/lookup', async (c) => {
+    try {
+      const { token } = await c.req.json()
+      const reset = await findByToken<PasswordReset>('password_reset:', token)
+      if (!reset) {
+        return c.json({ error: 'This reset link is not valid' }, 404)
+      }
+
+      const problem = resetProblem(reset, clock.now())
+      if (problem) {
+        return c.json({ error: problem }, 410)
+      }
+
+      return c.json({ email: reset.email, forced: reset.forced, expires_at: reset.expires_at })
+    } catch (error) {
+      console.log('Lookup password reset error:', error)
+      return c.json({ error: 'Failed to look up reset link' }, 500)
+    }
+  })
+
+  // Set a new password from a reset link. Each link works once.
+  app.post('/password-reset/complete', async (c) => {
+    try {
+      const { token, password } = await c.req.json()
+      const reset = await findByToken<PasswordReset>('password_reset:', token)
+      if (!reset) {
+        return c.json({ error: 'This reset link is not valid' }, 404)
+      }
+
+      const problem = resetProblem(reset, clock.now())
+      if (problem) {
+        return c.json({ error: problem }, 410)
+      }
+
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return c.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400)
+      }
+
+      await kv.set(`password_reset:${reset.id}`, { ...reset, used_at: clock.now().toISOString() })
+
+      const updated = await auth.updatePassword(reset.user_id, password)
+      if (updated) {
+        console.log('Complete password reset error:', updated.error)
+        await kv.set(`password_reset:${reset.id}`, reset)
+        return c.json({ error: updated.error }, 400)
+      }
+
+      return c.json({ message: 'Password updated successfully', email: reset.email })
+    } catch (error) {
+      console.log('Complete password reset error:', error)
+      return c.json({ error: 'Failed to reset password' }, 500)
+    }
+  })
+
+  // Start passkey sign-in. With an email only that account's passkeys are offered; without one the
+  // browser lists whatever passkeys it holds for this site.
+  app.post('/passkeys/login/options', async (c) => {
+    try {
+      const { email } = await c.req.json().catch(() => ({}))
+      const normalizedEmail = String(email || '').trim().toLowerCase()
+      const profile = normalizedEmail
+        ? (await users.list()).find(existing => existing.email?.toLowerCase() === normalizedEmail)
+        : null
+      const passkeys = profile ? await listPasskeys(profile.id) : []
+
+      const options = await generateAuthenticationOptions({
+        rpID: relyingParty(appUrl).rpID,
+        allowCredentials: passkeys.map(passkey => ({ id: passkey.id, transports: passkey.transports })),
+        userVerification: 'preferred'
+      })
+      const challengeId = await savePasskeyChallenge(options.challenge, 'authentication', null)
+
+      return c.json({ challenge_id: challengeId, options })
+    } catch (error) {
+      console.log('Passkey login options error:', error)
+      return c.json({ error: 'Failed to start passkey sign-in' }, 500)
+    }
+  })
+
+  // Finish passkey sign-in. Returns a one-time token the client exchanges for a session.
+  app.post('/passkeys/login/verify', async (c) => {
+    try {
+      const { challenge_id, response } = await c.req.json()
+      const challenge = await takePasskeyChallenge(challenge_id, 'authentication')
+      if (!challenge) {
+        return c.json({ error: 'Passkey sign-in timed out. Please try again.' }, 400)
+      }
+
+      const passkey = response?.id ? await kv.get<Passkey>(`passkey:${response.id}`) : null
+      const profile = passkey ? await users.get(passkey.user_id) : null
+      if (!passkey || !profile) {
+        return c.json({ error: 'This passkey is not registered. Sign in with your password.' }, 401)
+      }
+
+      const { rpID, origin } = relyingParty(appUrl)
+      let verification
+      try {
+        verification = await verifyAuthenticationResponse({
+          response,
+          expectedChallenge: challenge.challenge,
+          expectedOrigin: origin,
+          expectedRPID: rpID,
+          credential: {
+            id: passkey.id,
+            publicKey: isoBase64URL.toBuffer(passkey.public_key),
+            counter: passkey.counter,
+            transports: passkey.transports
+          }
+        })
+      } catch (error) {
+        console.log('Passkey login verification error:', error)
+        return c.json({ error: 'Passkey could not be verified' }, 401)
+      }
+
+      if (!verification.verified) {
+        return c.json({ error: 'Passkey could not be verified' }, 401)
+      }
+
+      // A passkey would skip the password an administrator just reset
+      if (hasOutstandingForcedReset(await kv.getByPrefix<PasswordReset>('password_reset:'), profile.id)) {
+        return c.json({ error: 'An administrator reset your password. Use the link in your email to choose a new one, then sign in.' }, 403)
+      }
+
+      await kv.set(`passkey:${passkey.id}`, {
+        ...passkey,
+        counter: verification.authenticationInfo.newCounter,
+        last_used_at: clock.now().toISOString()
+      })
+
+      const login = await auth.createLoginToken(profile.email)
+      if ('error' in login) {
+        console.log('Passkey login token error:', login.error)
+        return c.json({ error: 'Failed to sign in' }, 500)
+      }
+
+      return c.json({ email: profile.email, token_hash: login.token_hash })
+    } catch (error) {
+      console.log('Passkey login error:', error)
+      return c.json({ error: 'Failed to sign in with passkey' }, 500)
+    }
+  })
+
+  // Start registering a passkey for the signed-in user
+  app.post('/passkeys/register/options', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const userProfile = await users.get(user.id)
+      if (!userProfile) {
+        return c.json({ error: 'User profile not found' }, 404)
+      }
+
+      const passkeys = await listPasskeys(user.id)
+      const options = await generateRegistrationOptions({
+        rpName: RP_NAME,
+        rpID: relyingParty(appUrl).rpID,
+        userID: new TextEncoder().encode(user.id),
+        userName: userProfile.email,
+        userDisplayName: userProfile.name,
+        attestationType: 'none',
+        // Don't register the same authenticator twice
+        excludeCredentials: passkeys.map(passkey => ({ id: passkey.id, transports: passkey.transports })),
+        authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' }
+      })
+      const challengeId = await savePasskeyChallenge(options.challenge, 'registration', user.id)
+
+      return c.json({ challenge_id: challengeId, options })
+    } catch (error) {
+      console.log('Passkey registration options error:', error)
+      return c.json({ error: 'Failed to start passkey registration' }, 500)
+    }
+  })
+
+  // Finish registering a passkey and store its public key
+  app.post('/passkeys/register/verify', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const { challenge_id, response, name } = await c.req.json()
+      const challenge = await takePasskeyChallenge(challenge_id, 'registration')
+      if (!challenge || challenge.user_id !== user.id) {
+        return c.json({ error: 'Passkey registration timed out. Please try again.' }, 400)
+      }
+
+      const { rpID, origin } = relyingParty(appUrl)
+      let verification
+      try {
+        verification = await verifyRegistrationResponse({
+          response,
+          expectedChallenge: challenge.challenge,
+          expectedOrigin: origin,
+          expectedRPID: rpID
+        })
+      } catch (error) {
+        console.log('Passkey registration verification error:', error)
+        return c.json({ error: 'Passkey could not be verified' }, 400)
+      }
+
+      if (!verification.verified) {
+        return c.json({ error: 'Passkey could not be verified' }, 400)
+      }
+
+      const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo
+      if (await kv.get<Passkey>(`passkey:${credential.id}`)) {
+        return c.json({ error: 'This passkey is already registered' }, 400)
+      }
+
+      const passkey = {
+        id: credential.id,
+        user_id: user.id,
+        name: String(name || '').trim() || deviceName(c.req.header('User-Agent')),
+        public_key: isoBase64URL.fromBuffer(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports ?? [],
+        device_type: credentialDeviceType,
+        backed_up: credentialBackedUp,
+        created_at: clock.now().toISOString(),
+        last_used_at: null
+      }
+      await kv.set(`passkey:${passkey.id}`, passkey)
+
+      return c.json(toPublicPasskey(passkey))
+    } catch (error) {
+      console.log('Passkey registration error:', error)
+      return c.json({ error: 'Failed to register passkey' }, 500)
+    }
+  })
+
+  // The signed-in user's passkeys, newest first
+  app.get('/passkeys', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const passkeys = await listPasskeys(user.id)
+      return c.json(passkeys
+        .map(toPublicPasskey)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()))
+    } catch (error) {
+      console.log('Get passkeys error:', error)
+      return c.json({ error: 'Failed to fetch passkeys' }, 500)
+    }
+  })
+
+  // Revoke one of the signed-in user's passkeys, e.g. for a lost phone
+  app.delete('/passkeys/:id', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const passkey = await kv.get<Passkey>(`passkey:${c.req.param('id')}`)
+      if (!passkey || passkey.user_id !== user.id) {
+        return c.json({ error: 'Passkey not found' }, 404)
+      }
+
+      await kv.del(`passkey:${passkey.id}`)
+      return c.json({ message: 'Passkey removed' })
+    } catch (error) {
+      console.log('Delete passkey error:', error)
+      return c.json({ error: 'Failed to remove passkey' }, 500)
+    }
+  })
+
+  // The signed-in user's two-factor status, and whether this request carries a verified MFA token
+  app.get('/mfa/status', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      return c.json(await getMfaStatus(c, user.id))
+    } catch (error) {
+      console.log('Get MFA status error:', error)
+      return c.json({ error: 'Failed to fetch two-factor status' }, 500)
+    }
+  })
+
+  // Start authenticator app setup. The factor stays pending until a code from the app is confirmed.
+  app.post('/mfa/enroll', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const existing = await kv.get<MfaFactor>(`mfa:${user.id}`)
+      if (existing?.status === 'active') {
+        return c.json({ error: 'Two-factor authentication is already on' }, 400)
+      }
+
+      const userProfile = await users.get(user.id)
+      const secret = generateTotpSecret()
+      await kv.set(`mfa:${user.id}`, {
+        user_id: user.id,
+        secret,
+        status: 'pending',
+        recovery_codes: [],
+        failed_attempts: 0,
+        last_used_step: null,
+        created_at: clock.now().toISOString()
+      })
+
+      return c.json({ secret, otpauth_url: otpauthUrl(MFA_ISSUER, userProfile?.email ?? user.email ?? user.id, secret) })
+    } catch (error) {
+      console.log('Start MFA enrollment error:', error)
+      return c.json({ error: 'Failed to start two-factor setup' }, 500)
+    }
+  })
+
+  // Finish setup with a code from the app. Returns the recovery codes, which are shown once, and an MFA token.
+  app.post('/mfa/enroll/confirm', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const { code } = await c.req.json()
+      const factor = await kv.get<MfaFactor>(`mfa:${user.id}`)
+      if (factor?.status !== 'pending') {
+        return c.json({ error: 'Start two-factor setup first' }, 400)
+      }
+
+      const now = clock.now()
+      const step = await verifyTotp(factor.secret, code, now)
+      if (step === null) {
+        return c.json({ error: 'That code is not right. Check the time on your phone and try again.' }, 400)
+      }
+
+      const recoveryCodes = generateRecoveryCodes()
+      await kv.set(`mfa:${user.id}`, {
+        ...factor,
+        status: 'active',
+        last_used_step: step,
+        recovery_codes: await Promise.all(recoveryCodes.map(hashToken)),
+        enabled_at: now.toISOString()
+      })
+
+      return c.json({ recovery_codes: recoveryCodes, ...(await startMfaSession(user.id)) })
+    } catch (error) {
+      console.log('Confirm MFA enrollment error:', error)
+      return c.json({ error: 'Failed to finish two-factor setup' }, 500)
+    }
+  })
+
+  // Second step of sign-in: a code from the app or an unused recovery code in exchange for an MFA token
+  app.post('/mfa/verify', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const { code, recovery_code } = await c.req.json()
+      const factor = await kv.get<MfaFactor>(`mfa:${user.id}`)
+      if (factor?.status !== 'active') {
+        return c.json({ error: 'Two-factor authentication is not set up' }, 400)
+      }
+
+      const now = clock.now()
+      if (isMfaLocked(factor, now)) {
+        return c.json({ error: 'Too many wrong codes. Try again later.', locked_until: factor.locked_until }, 429)
+      }
+
+      if (recovery_code !== undefined) {
+        const codeHash = await hashToken(normalizeRecoveryCode(recovery_code))
+        if (factor.recovery_codes.includes(codeHash)) {
+          const remaining = factor.recovery_codes.filter((hash: string) => hash !== codeHash)
+          await kv.set(`mfa:${user.id}`, { ...factor, recovery_codes: remaining, failed_attempts: 0 })
+          return c.json({ ...(await startMfaSession(user.id)), recovery_codes_remaining: remaining.length })
+        }
+      } else {
+        const step = await verifyTotp(factor.secret, code, now, factor.last_used_step)
+        if (step !== null) {
+          await kv.set(`mfa:${user.id}`, { ...factor, last_used_step: step, failed_attempts: 0 })
+          return c.json({ ...(await startMfaSession(user.id)), recovery_codes_remaining: factor.recovery_codes.length })
+        }
+      }
+
+      const failed = withFailedAttempt(factor, now)
+      await kv.set(`mfa:${user.id}`, failed)
+      if (isMfaLocked(failed, now)) {
+        return c.json({ error: 'Too many wrong codes. Try again later.', locked_until: failed.locked_until }, 429)
+      }
+
+      return c.json({ error: 'That code is not right', attempts_remaining: MAX_FAILED_ATTEMPTS - failed.failed_attempts }, 400)
+    } catch (error) {
+      console.log('Verify MFA error:', error)
+      return c.json({ error: 'Failed to verify code' }, 500)
+    }
+  })
+
+  // Replace the recovery codes, e.g. when they have run low. Needs a verified MFA token.
+  app.post('/mfa/recovery-codes', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const factor = await kv.get<MfaFactor>(`mfa:${user.id}`)
+      if (factor?.status !== 'active') {
+        return c.json({ error: 'Two-factor authentication is not set up' }, 400)
+      }
+
+      if (!(await findMfaSession(c, user.id))) {
+        return c.json({ error: 'Enter a code from your authenticator app to continue', mfa_required: 'verify' }, 403)
+      }
+
+      const recoveryCodes = generateRecoveryCodes()
+      await kv.set(`mfa:${user.id}`, { ...factor, recovery_codes: await Promise.all(recoveryCodes.map(hashToken)) })
+
+      return c.json({ recovery_codes: recoveryCodes })
+    } catch (error) {
+      console.log('Regenerate recovery codes error:', error)
+      return c.json({ error: 'Failed to create recovery codes' }, 500)
+    }
+  })
+
+  // Turn two-factor authentication off, unless the user's role requires it
+  app.delete('/mfa', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const status = await getMfaStatus(c, user.id)
+
+      if (status.enabled && status.required) {
+        return c.json({ error: 'Your role requires two-factor authentication' }, 400)
+      }
+
+      if (status.enabled && !status.verified) {
+        return c.json({ error: 'Enter a code from your authenticator app to continue', mfa_required: 'verify' }, 403)
+      }
+
+      await clearMfa(user.id)
+      return c.json({ message: 'Two-factor authentication turned off' })
+    } catch (error) {
+      console.log('Disable MFA error:', error)
+      return c.json({ error: 'Failed to turn off two-factor authentication' }, 500)
+    }
+  })
+
+  // Get user profile
+  app.get('/profile', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const profile = await users.get(user.id)
+
+      if (!profile) {
+        return c.json({ error: 'Profile not found' }, 404)
+      }
+
+      return c.json(profile)
+    } catch (error) {
+      console.log('Profile fetch error:', error)
+      return c.json({ error: 'Failed to fetch profile' }, 500)
+    }
+  })
+
+  // The group's rooftops, by name. Everyone can read them: the entry form uses the user's rooftop
+  // for its stock number format.
+  app.get('/rooftops', requireAuth, async (c) => {
+    try {
+      return c.json((await rooftops.list()).sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.log('Get rooftops error:', error)
+      return c.json({ error: 'Failed to fetch rooftops' }, 500)
+    }
+  })
+
+  // Create fuel entry
+  app.post('/fuel-entries', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const entryData = await c.req.json()
+      const userProfile = await users.get(user.id)
+
+      // The offline outbox resends an entry when a response is lost; answer with the one already saved
+      const clientId = entryData.client_id ? String(entryData.client_id).slice(0, 100) : null
+      if (clientId) {
+        const saved = (await fuelEntries.listByUser(user.id)).find(entry => entry.client_id === clientId)
+        if (saved) return c.json(saved)
+      }
+
+      const purposeFields = parsePurposeFields(entryData)
+      if (typeof purposeFields === 'string') {
+        return c.json({ error: purposeFields }, 400)
+      }
+
+      // Without a category from the porter, go by the rooftop's stock number patterns
+      if (!purposeFields.vehicle_category) {
+        const rooftop = userProfile?.rooftop_id ? await rooftops.get(userProfile.rooftop_id) : null
+        purposeFields.vehicle_category = suggestVehicleCategory(rooftop, entryData.stock_number)
+      }
+
+      const roNumber = normalizeRoNumber(entryData.ro_number)
+      const roProblem = roNumber && roNumberProblem(await getChargebackSettings(), roNumber)
+      if (roProblem) {
+        return c.json({ error: roProblem }, 400)
+      }
+
+      const fuelType = parseFuelType(entryData.fuel_type)
+      if (fuelType === undefined) {
+        return c.json({ error: `Unknown fuel type ${entryData.fuel_type}` }, 400)
+      }
+
+      // Checked as on an edit
+      const numbers: Record<string, number> = {}
+      for (const field of NUMERIC_ENTRY_FIELDS) {
+        const value = parseEntryNumber(entryData[field])
+        if (value === null) {
+          return c.json({ error: `Invalid value for ${field}` }, 400)
+        }
+        numbers[field] = value
+      }
+
+      if (entryData.vin != null && typeof entryData.vin !== 'string') {
+        return c.json({ error: 'Invalid value for vin' }, 400)
+      }
+
+      // If VIN is provided, get vehicle data
+      let vehicleData = null
+      if (entryData.vin) {
+        const normalizedVin = entryData.vin.toUpperCase()
+        vehicleData = await vehicles.get(normalizedVin)
+
+        // If not cached, this will be decoded separately via /decode-vin endpoint
+        console.log(`Fuel entry for VIN ${normalizedVin}, cached vehicle data: ${vehicleData ? 'found' : 'not found'}`)
+      }
+
+      const checkedEntry = await applyEntryRules({
+        ...Object.fromEntries(CREATABLE_ENTRY_FIELDS.filter(field => field in entryData).map(field => [field, entryData[field]])),
+        ...numbers,
+        id: crypto.randomUUID(),
+        user_id: user.id,
+        client_id: clientId,
+        voided: false,
+        revision_count: 0,
+        purpose: purposeFields.purpose ?? null,
+        vehicle_category: purposeFields.vehicle_category,
+        ro_number: roNumber,
+        // Older clients don't send one; go by what the vehicle runs on
+        fuel_type: fuelType ?? defaultFuelType(vehicleData),
+        // Only accounting marks chargebacks billed
+        chargeback_billed_at: null,
+        chargeback_billed_by: null,
+        // Entries stay with the rooftop they were recorded at, even if the user moves later
+        rooftop_id: userProfile?.rooftop_id ?? null,
+        // Include vehicle data if available
+        vehicle_year: vehicleData?.year || null,
+        vehicle_make: vehicleData?.make || null,
+        vehicle_model: vehicleData?.model || null,
+        vehicle_trim: vehicleData?.trim || null,
+        created_at: clock.now().toISOString()
+      } as FuelEntry)
+
+      const fuelEntry = await submitForApproval(checkedEntry, {
+        user_id: user.id,
+        user_name: auditName(userProfile, user)
+      })
+
+      await fuelEntries.save(fuelEntry)
+
+      return c.json(fuelEntry)
+    } catch (error) {
+      console.log('Create fuel entry error:', error)
+      return c.json({ error: 'Failed to create fuel entry' }, 500)
+    }
+  })
+
+  // Get fuel entries for user, newest first. Supports filters and cursor pagination:
+  // ?from&to&user_id&rooftop_id&stock_number&vin&search&min_amount&max_amount&status&flagged&include_voided&limit&cursor
+  app.get('/fuel-entries', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const userProfile = await users.get(user.id)
+
+      const query = parseEntryQuery(c.req.query())
+      if (typeof query === 'string') {
+        return c.json({ error: query }, 400)
+      }
+
+      // Users without entries.view_all only ever see their own entries, and managers their rooftop's
+      // and their own, as in listVisibleEntries
+      if (!hasPermission(userProfile, 'entries.view_all')) {
+        query.user_id = user.id
+      } else {
+        query.visible_rooftop_id = scopedRooftopId(userProfile)
+        query.viewer_id = user.id
+      }
+
+      const page = await fuelEntries.query(query)
+      return c.json({ ...page, entries: await withOwnerRooftops(page.entries) })
+    } catch (error) {
+      console.log('Get fuel entries error:', error)
+      return c.json({ error: 'Failed to fetch fuel entries' }, 500)
+    }
+  })
+
+  // Edit fuel entry
+  app.put('/fuel-entries/:id', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const entryId = c.req.param('id')
+      const { changes, reason } = await c.req.json()
+
+      if (!reason || !String(reason).trim()) {
+        return c.json({ error: 'A reason is required to edit an entry' }, 400)
+      }
+
+      const entry = await fuelEntries.get(entryId)
+      if (!entry) {
+        return c.json({ error: 'Fuel entry not found' }, 404)
+      }
+
+      if (entry.voided) {
+        return c.json({ error: 'Voided entries cannot be edited' }, 400)
+      }
+
+      const [userProfile, owner] = await Promise.all([users.get(user.id), users.get(entry.user_id)])
+      const accessError = checkEntryAccess(entry, user.id, userProfile, owner, clock.now())
+      if (accessError) {
+        return c.json({ error: accessError }, 403)
+      }
+
+      const purposeFields = parsePurposeFields(changes)
+      if (typeof purposeFields === 'string') {
+        return c.json({ error: purposeFields }, 400)
+      }
+      const parsedChanges: Record<string, unknown> = { ...purposeFields }
+
+      if (changes && 'ro_number' in changes) {
+        const roNumber = normalizeRoNumber(changes.ro_number)
+        if (roNumber !== (entry.ro_number ?? null)) {
+          if (entry.chargeback_billed_at) {
+            return c.json({ error: `This entry has already been billed to RO ${entry.ro_number}` }, 400)
+          }
+          const roProblem = roNumber && roNumberProblem(await getChargebackSettings(), roNumber)
+          if (roProblem) {
+            return c.json({ error: roProblem }, 400)
+          }
+        }
+        parsedChanges.ro_number = roNumber
+      }
+
+      if (changes && 'fuel_type' in changes) {
+        const fuelType = parseFuelType(changes.fuel_type)
+        if (!fuelType) {
+          return c.json({ error: `Unknown fuel type ${changes.fuel_type}` }, 400)
+        }
+        parsedChanges.fuel_type = fuelType
+      }
+
+      // Only keep whitelisted fields that actually changed
+      const diff: Record<string, FieldChange> = {}
+      for (const field of EDITABLE_ENTRY_FIELDS) {
+        if (!changes || !(field in changes)) continue
+
+        let value = field in parsedChanges ? parsedChanges[field] : changes[field]
+        if (NUMERIC_ENTRY_FIELDS.includes(field)) {
+          value = parseEntryNumber(value)
+          if (value === null) {
+            return c.json({ error: `Invalid value for ${field}` }, 400)
+          }
+        }
+
+        if (value !== (entry[field] ?? null)) {
+          diff[field] = { from: entry[field] ?? null, to: value }
+        }
+      }
+
+      // Keep price per gallon consistent when the amounts change
+      if ((diff.gallons || diff.total_amount) && !diff.price_per_gallon) {
+        const gallons = Number(diff.gallons?.to ?? entry.gallons)
+        const totalAmount = Number(diff.total_amount?.to ?? entry.total_amount)
+        const pricePerGallon = Math.round((totalAmount / gallons) * 1000) / 1000
+        if (pricePerGallon !== entry.price_per_gallon) {
+          diff.price_per_gallon = { from: entry.price_per_gallon, to: pricePerGallon }
+        }
+      }
+
+      if (Object.keys(diff).length === 0) {
+        return c.json({ error: 'No changes to save' }, 400)
+      }
+
+      const now = clock.now().toISOString()
+      const updatedEntry = { ...entry, updated_at: now }
+      for (const [field, { to }] of Object.entries(diff)) {
+        (updatedEntry as Record<string, unknown>)[field] = to
+      }
+
+      const revision = await addEntryRevision(entryId, {
+        action: 'edit',
+        reason: String(reason).trim(),
+        changes: diff,
+        user_id: user.id,
+        user_name: auditName(userProfile, user),
+        created_at: now
+      })
+      updatedEntry.revision_count = revision.revision
+
+      // Corrections can clear a flag or raise a new one
+      let checkedEntry: FuelEntry = await applyEntryRules(updatedEntry)
+
+      // A porter's correction has to be approved again; corrections by managers and admins keep the current status
+      if (!hasPermission(userProfile, 'entries.edit_all')) {
+        checkedEntry = await submitForApproval(checkedEntry, {
+          user_id: user.id,
+          user_name: auditName(userProfile, user),
+          note: `Edited: ${revision.reason}`
+        })
+      }
+
+      await fuelEntries.save(checkedEntry)
+
+      return c.json({ entry: checkedEntry, revision })
+    } catch (error) {
+      console.log('Edit fuel entry error:', error)
+      return c.json({ error: 'Failed to edit fuel entry' }, 500)
+    }
+  })
+
+  // Void fuel entry
+  app.post('/fuel-entries/:id/void', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const entryId = c.req.param('id')
+      const { reason } = await c.req.json()
+
+      if (!reason || !String(reason).trim()) {
+        return c.json({ error: 'A reason is required to void an entry' }, 400)
+      }
+
+      const entry = await fuelEntries.get(entryId)
+      if (!entry) {
+        return c.json({ error: 'Fuel entry not found' }, 404)
+      }
+
+      if (entry.voided) {
+        return c.json({ error: 'Fuel entry is already voided' }, 400)
+      }
+
+      const [userProfile, owner] = await Promise.all([users.get(user.id), users.get(entry.user_id)])
+      const accessError = checkEntryAccess(entry, user.id, userProfile, owner, clock.now())
+      if (accessError) {
+        return c.json({ error: accessError }, 403)
+      }
+
+      const now = clock.now().toISOString()
+      const revision = await addEntryRevision(entryId, {
+        action: 'void',
+        reason: String(reason).trim(),
+        changes: { voided: { from: false, to: true } },
+        user_id: user.id,
+        user_name: auditName(userProfile, user),
+        created_at: now
+      })
+
+      const voidedEntry = {
+        ...entry,
+        voided: true,
+        voided_at: now,
+        voided_by: user.id,
+        void_reason: revision.reason,
+        revision_count: revision.revision,
+        updated_at: now
+      }
+
+      await fuelEntries.save(voidedEntry)
+
+      return c.json({ entry: voidedEntry, revision })
+    } catch (error) {
+      console.log('Void fuel entry error:', error)
+      return c.json({ error: 'Failed to void fuel entry' }, 500)
+    }
+  })
+
+  // Get revision history for an entry
+  app.get('/fuel-entries/:id/revisions', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const entryId = c.req.param('id')
+
+      const entry = await fuelEntries.get(entryId)
+      if (!entry) {
+        return c.json({ error: 'Fuel entry not found' }, 404)
+      }
+
+      const [userProfile, owner] = await Promise.all([users.get(user.id), users.get(entry.user_id)])
+      const canViewAll = hasPermission(userProfile, 'entries.view_all') && coversRooftop(userProfile, entryRooftopId(entry, owner))
+      if (!canViewAll && entry.user_id !== user.id) {
+        return c.json({ error: 'Access denied' }, 403)
+      }
+
+      const revisions = await fuelEntries.listRevisions(entryId)
+      return c.json(revisions)
+    } catch (error) {
+      console.log('Get entry revisions error:', error)
+      return c.json({ error: 'Failed to fetch entry revisions' }, 500)
+    }
+  })
+
+  // Approve, reject or ask for more information about an entry. Managers only review their rooftop's entries.
+  app.post('/fuel-entries/:id/review', requireAuth, requirePermission('entries.review'), async (c) => {
+    try {
+      const user = c.get('user')
+      const entryId = c.req.param('id')
+      const userProfile = c.get('profile')
+
+      const { decision, note } = await c.req.json()
+      if (!REVIEW_DECISIONS.includes(decision)) {
+        return c.json({ error: 'Invalid review decision' }, 400)
+      }
+
+      if (decision !== 'approved' && (!note || !String(note).trim())) {
+        return c.json({ error: decision === 'rejected' ? 'A reason is required to reject an entry' : 'Say what information is needed' }, 400)
+      }
+
+      const entry = await fuelEntries.get(entryId)
+      if (!entry) {
+        return c.json({ error: 'Fuel entry not found' }, 404)
+      }
+
+      if (!coversRooftop(userProfile, entryRooftopId(entry, await users.get(entry.user_id)))) {
+        return c.json({ error: 'This entry belongs to another rooftop' }, 403)
+      }
+
+      // Review is a second pair of eyes, so nobody approves or rejects their own fills
+      if (entry.user_id === user.id) {
+        return c.json({ error: 'You cannot review your own entries' }, 403)
+      }
+
+      if (entry.voided) {
+        return c.json({ error: 'Voided entries cannot be reviewed' }, 400)
+      }
+
+      if (decision !== 'needs_info' && getEntryStatus(entry) === decision) {
+        return c.json({ error: `Fuel entry is already ${decision}` }, 400)
+      }
+
+      const reviewedEntry = withStatusChange(entry, decision, {
+        user_id: user.id,
+        user_name: auditName(userProfile, user),
+        note: note ? String(note).trim() : undefined,
+        at: clock.now().toISOString()
+      })
+
+      await fuelEntries.save(reviewedEntry)
+
+      return c.json({ entry: reviewedEntry })
+    } catch (error) {
+      console.log('Review fuel entry error:', error)
+      return c.json({ error: 'Failed to review fuel entry' }, 500)
+    }
+  })
+
+  // Answer a manager's request for more information; the entry goes back into the queue
+  app.post('/fuel-entries/:id/respond', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const entryId = c.req.param('id')
+      const { response } = await c.req.json()
+
+      if (!response || !String(response).trim()) {
+        return c.json({ error: 'A response is required' }, 400)
+      }
+
+      const entry = await fuelEntries.get(entryId)
+      if (!entry) {
+        return c.json({ error: 'Fuel entry not found' }, 404)
+      }
+
+      if (entry.user_id !== user.id) {
+        return c.json({ error: 'You can only respond about your own fuel entries' }, 403)
+      }
+
+      if (getEntryStatus(entry) !== 'needs_info') {
+        return c.json({ error: 'No information was requested for this entry' }, 400)
+      }
+
+      const userProfile = await users.get(user.id)
+      const respondedEntry = withStatusChange(entry, 'submitted', {
+        user_id: user.id,
+        user_name: auditName(userProfile, user),
+        note: String(response).trim(),
+        at: clock.now().toISOString()
+      })
+
+      await fuelEntries.save(respondedEntry)
+
+      return c.json({ entry: respondedEntry })
+    } catch (error) {
+      console.log('Respond to info request error:', error)
+      return c.json({ error: 'Failed to send response' }, 500)
+    }
+  })
+
+  // Upload photo
+  app.post('/upload-photo', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const formData = await c.req.formData()
+      const file = formData.get('photo') as File
+
+      if (!file) {
+        return c.json({ error: 'No photo provided' }, 400)
+      }
+
+      const fileExt = file.name.split('.').pop()
+      const fileName = `${user.id}/${crypto.randomUUID()}.${fileExt}`
+
+      const uploaded = await storage.upload(fileName, file)
+
+      if ('error' in uploaded) {
+        console.log('Upload error:', uploaded.error)
+        return c.json({ error: 'Failed to upload photo' }, 500)
+      }
+
+      await photos.save({
+        path: uploaded.path,
+        user_id: user.id,
+        file_name: file.name,
+        content_type: file.type || null,
+        size: file.size,
+        created_at: clock.now().toISOString()
+      })
+
+      // Create signed URL for frontend access
+      const signedUrl = await storage.createSignedUrl(fileName, 60 * 60 * 24 * 7) // 7 days
+
+      return c.json({ 
+        path: uploaded.path,
+        url: signedUrl
+      })
+    } catch (error) {
+      console.log('Upload photo error:', error)
+      return c.json({ error: 'Failed to upload photo' }, 500)
+    }
+  })
+
+  // Admin: Get auto-approval settings
+  app.get('/admin/approval-settings', requireAuth, requirePermission('entries.review'), async (c) => {
+    try {
+      return c.json(await getApprovalSettings())
+    } catch (error) {
+      console.log('Get approval settings error:', error)
+      return c.json({ error: 'Failed to fetch approval settings' }, 500)
+    }
+  })
+
+  // Admin: Update auto-approval settings
+  app.put('/admin/approval-settings', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const current = await getApprovalSettings()
+      const settings = normalizeApprovalSettings({ ...current, ...(await c.req.json()) })
+      await kv.set(APPROVAL_SETTINGS_KEY, settings)
+
+      return c.json(settings)
+    } catch (error) {
+      console.log('Update approval settings error:', error)
+      return c.json({ error: 'Failed to update approval settings' }, 500)
+    }
+  })
+
+  // Admin: Get which roles must use two-factor authentication
+  app.get('/admin/mfa-settings', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      return c.json(await getMfaSettings())
+    } catch (error) {
+      console.log('Get MFA settings error:', error)
+      return c.json({ error: 'Failed to fetch two-factor settings' }, 500)
+    }
+  })
+
+  // Admin: Update which roles must use two-factor authentication
+  app.put('/admin/mfa-settings', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const settings = normalizeMfaSettings(await c.req.json())
+      await kv.set(MFA_SETTINGS_KEY, settings)
+
+      return c.json(settings)
+    } catch (error) {
+      console.log('Update MFA settings error:', error)
+      return c.json({ error: 'Failed to update two-factor settings' }, 500)
+    }
+  })
+
+  // Branding, support contact and allowed email domains. Public, because the splash and login screens show them.
+  app.get('/organization', async (c) => {
+    try {
+      return c.json(await getOrganizationSettings())
+    } catch (error) {
+      console.log('Get organization settings error:', error)
+      return c.json({ error: 'Failed to fetch organization settings' }, 500)
+    }
+  })
+
+  // Admin: Update the organization's branding, support contact and allowed email domains
+  app.put('/admin/organization', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const settings = parseOrganizationSettings(await c.req.json(), await getOrganizationSettings())
+      if (typeof settings === 'string') {
+        return c.json({ error: settings }, 400)
+      }
+
+      await kv.set(ORGANIZATION_SETTINGS_KEY, settings)
+      return c.json(settings)
+    } catch (error) {
+      console.log('Update organization settings error:', error)
+      return c.json({ error: 'Failed to update organization settings' }, 500)
+    }
+  })
+
+  // Admin: Add a rooftop. Users whose old free-text rooftop has the same name are moved onto it.
+  app.post('/admin/rooftops', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const fields = parseRooftop(await c.req.json())
+      if (typeof fields === 'string') {
+        return c.json({ error: fields }, 400)
+      }
+
+      const existing = await rooftops.list()
+      if (existing.some(rooftop => rooftop.name.toLowerCase() === fields.name.toLowerCase())) {
+        return c.json({ error: 'A rooftop with this name already exists' }, 400)
+      }
+
+      const now = clock.now().toISOString()
+      const rooftop = { id: crypto.randomUUID(), ...fields, created_at: now, updated_at: now }
+      await rooftops.save(rooftop)
+
+      const legacyUsers = (await users.list()).filter(profile =>
+        !profile.rooftop_id && String(profile.rooftop || '').trim().toLowerCase() === fields.name.toLowerCase())
+      for (const profile of legacyUsers) {
+        await users.save(assignRooftop(profile, rooftop.id, now))
+      }
+
+      return c.json({ rooftop, users_assigned: legacyUsers.length })
+    } catch (error) {
+      console.log('Create rooftop error:', error)
+      return c.json({ error: 'Failed to create rooftop' }, 500)
+    }
+  })
+
+  // Admin: Edit a rooftop. Changes to the geofence or stock number format apply to entries saved from now on.
+  app.put('/admin/rooftops/:id', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const rooftop = await rooftops.get(c.req.param('id'))
+      if (!rooftop) {
+        return c.json({ error: 'Rooftop not found' }, 404)
+      }
+
+      const fields = parseRooftop(await c.req.json(), rooftop)
+      if (typeof fields === 'string') {
+        return c.json({ error: fields }, 400)
+      }
+
+      const existing = await rooftops.list()
+      if (existing.some(other => other.id !== rooftop.id && other.name.toLowerCase() === fields.name.toLowerCase())) {
+        return c.json({ error: 'A rooftop with this name already exists' }, 400)
+      }
+
+      const updated = { ...rooftop, ...fields, updated_at: clock.now().toISOString() }
+      await rooftops.save(updated)
+      return c.json(updated)
+    } catch (error) {
+      console.log('Update rooftop error:', error)
+      return c.json({ error: 'Failed to update rooftop' }, 500)
+    }
+  })
+
+  // Admin: Remove a rooftop nobody is assigned to. Its entries keep the id and show as unassigned.
+  app.delete('/admin/rooftops/:id', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const rooftopId = c.req.param('id')
+      if (!(await rooftops.get(rooftopId))) {
+        return c.json({ error: 'Rooftop not found' }, 404)
+      }
+
+      if ((await users.list()).some(profile => profile.rooftop_id === rooftopId)) {
+        return c.json({ error: 'Move this rooftop\'s users to another rooftop first' }, 409)
+      }
+
+      await rooftops.delete(rooftopId)
+      return c.json({ success: true })
+    } catch (error) {
+      console.log('Delete rooftop error:', error)
+      return c.json({ error: 'Failed to delete rooftop' }, 500)
+    }
+  })
+
+  // Admin: Entry, spend and review totals per rooftop, within the caller's scope
+  app.get('/admin/rooftop-summary', requireAuth, requirePermission('entries.view_all'), async (c) => {
+    try {
+      const userProfile = c.get('profile')
+      const [entries, allRooftops, profiles] = await Promise.all([
+        listVisibleEntries(userProfile, c.get('user').id),
+        rooftops.list(),
+        users.list()
+      ])
+
+      const visibleRooftops = allRooftops
+        .filter(rooftop => coversRooftop(userProfile, rooftop.id))
+        .sort((a, b) => a.name.localeCompare(b.name))
+      const visibleProfiles = profiles.filter(profile => coversRooftop(userProfile, profile.rooftop_id ?? null))
+
+      return c.json(summarizeRooftops(entries, visibleRooftops, visibleProfiles, clock.now()))
+    } catch (error) {
+      console.log('Rooftop summary error:', error)
+      return c.json({ error: 'Failed to summarize rooftops' }, 500)
+    }
+  })
+
+  // Admin: Get all users, or a manager's own rooftop
+  app.get('/admin/users', requireAuth, requirePermission('users.view'), async (c) => {
+    try {
+      const userProfile = c.get('profile')
+      const enabledIds = new Set((await kv.getByPrefix<MfaFactor>('mfa:'))
+        .filter(factor => factor.status === 'active')
+        .map(factor => factor.user_id))
+
+      return c.json((await users.list())
+        .filter(profile => coversRooftop(userProfile, profile.rooftop_id ?? null))
+        .map(profile => ({ ...profile, mfa_enabled: enabledIds.has(profile.id) })))
+    } catch (error) {
+      console.log('Get users error:', error)
+      return c.json({ error: 'Failed to fetch users' }, 500)
+    }
+  })
+
+  // Admin: Update user role
+  app.put('/admin/users/:userId/role', requireAuth, requirePermission('users.manage'), async (c) => {
+    try {
+      const userId = c.req.param('userId')
+      const { role } = await c.req.json()
+      if (!isRole(role)) {
+        return c.json({ error: 'Invalid role' }, 400)
+      }
+
+      const targetUser = await users.get(userId)
+      if (!targetUser) {
+        return c.json({ error: 'User not found' }, 404)
+      }
+
+      const updatedUser = {
+        ...targetUser,
+        role,
+        updated_at: clock.now().toISOString()
+      }
+
+      await users.save(updatedUser)
+      return c.json(updatedUser)
+    } catch (error) {
+      console.log('Update user role error:', error)
+      return c.json({ error: 'Failed to update user role' }, 500)
+    }
+  })
+
+  // Admin: Move a user to another rooftop, or to none. Their existing entries stay where they were recorded.
+  app.put('/admin/users/:userId/rooftop', requireAuth, requirePermission('users.manage'), async (c) => {
+    try {
+      const { rooftop_id: rooftopId } = await c.req.json()
+      if (rooftopId !== null && !(typeof rooftopId === 'string' && await rooftops.get(rooftopId))) {
+        return c.json({ error: 'Unknown rooftop' }, 400)
+      }
+
+      const targetUser = await users.get(c.req.param('userId'))
+      if (!targetUser) {
+        return c.json({ error: 'User not found' }, 404)
+      }
+
+      const updatedUser = assignRooftop(targetUser, rooftopId, clock.now().toISOString())
+      await users.save(updatedUser)
+      return c.json(updatedUser)
+    } catch (error) {
+      console.log('Update user rooftop error:', error)
+      return c.json({ error: 'Failed to update user rooftop' }, 500)
+    }
+  })
+
+  // Admin: Force a password reset. The current password and sessions stop working, passkeys are refused until the
+  // reset is done, and the user is emailed a link to pick a new password.
+  app.post('/admin/users/:userId/reset-password', requireAuth, requirePermission('users.manage'), async (c) => {
+    try {
+      const user = c.get('user')
+
+      const targetUser = await users.get(c.req.param('userId'))
+      if (!targetUser) {
+        return c.json({ error: 'User not found' }, 404)
+      }
+
+      // Nobody knows the random password, so the old one is locked out until the link is used
+      const locked = await auth.updatePassword(targetUser.id, generateToken())
+      if (locked) {
+        console.log('Force password reset error:', locked.error)
+        return c.json({ error: locked.error }, 400)
+      }
+
+      // Signed-in devices would otherwise carry on as if nothing happened
+      const revoked = await auth.revokeSessions(targetUser.email)
+      if (revoked) {
+        console.log('Force password reset error:', revoked.error)
+        return c.json({ error: revoked.error }, 400)
+      }
+
+      const { reset, emailSent } = await issuePasswordReset(targetUser, { forced: true, requested_by: user.id })
+
+      return c.json({ email: targetUser.email, expires_at: reset.expires_at, email_sent: emailSent })
+    } catch (error) {
+      console.log('Force password reset error:', error)
+      return c.json({ error: 'Failed to reset password' }, 500)
+    }
+  })
+
+  // Admin: Clear a user's authenticator, e.g. after a lost phone. They set it up again at next sign-in if their role requires it.
+  app.post('/admin/users/:userId/mfa/reset', requireAuth, requirePermission('users.manage'), async (c) => {
+    try {
+      const targetUser = await users.get(c.req.param('userId'))
+      if (!targetUser) {
+        return c.json({ error: 'User not found' }, 404)
+      }
+
+      await clearMfa(targetUser.id)
+      return c.json({ message: 'Two-factor authentication reset' })
+    } catch (error) {
+      console.log('Reset MFA error:', error)
+      return c.json({ error: 'Failed to reset two-factor authentication' }, 500)
+    }
+  })
+
+  // Admin: Delete user
+  app.delete('/admin/users/:userId', requireAuth, requirePermission('users.manage'), async (c) => {
+    try {
+      const userId = c.req.param('userId')
+
+      // Delete user profile and second factor
+      await users.delete(userId)
+      await clearMfa(userId)
+
+      // Delete user's fuel entries and their revisions
+      for (const entry of await fuelEntries.listByUser(userId)) {
+        await fuelEntries.delete(entry.id)
+      }
+
+      return c.json({ message: 'User deleted successfully' })
+    } catch (error) {
+      console.log('Delete user error:', error)
+      return c.json({ error: 'Failed to delete user' }, 500)
+    }
+  })
+
+  // Admin: Invite a new user with a role and rooftop. The link is emailed, and the token is returned once so it can be shared directly too.
+  app.post('/admin/invites', requireAuth, requirePermission('users.manage'), async (c) => {
+    try {
+      const user = c.get('user')
+      const userProfile = c.get('profile')
+
+      const body = await c.req.json()
+      const email = String(body.email || '').trim().toLowerCase()
+      const name = String(body.name || '').trim()
+      const rooftopId = body.rooftop_id || null
+
+      const organization = await getOrganizationSettings()
+      if (!isAllowedEmail(email, organization)) {
+        return c.json({ error: emailDomainError(organization) }, 400)
+      }
+
+      if (!name) {
+        return c.json({ error: 'A name is required' }, 400)
+      }
+
+      if (!isRole(body.role)) {
+        return c.json({ error: 'Invalid role' }, 400)
+      }
+
+      if (rooftopId && !(await rooftops.get(rooftopId))) {
+        return c.json({ error: 'Unknown rooftop' }, 400)
+      }
+
+      const existingUsers = await users.list()
+      if (existingUsers.some(existing => existing.email?.toLowerCase() === email)) {
+        return c.json({ error: 'A user with this email already exists' }, 400)
+      }
+
+      const now = clock.now()
+      const invites = await kv.getByPrefix<Invite>('invite:')
+      if (invites.some(invite => invite.email === email && !inviteProblem(invite, now))) {
+        return c.json({ error: 'This email already has a pending invite. Resend it instead.' }, 400)
+      }
+
+      const token = generateToken()
+      const invite: Invite = {
+        id: crypto.randomUUID(),
+        email,
+        name,
+        role: body.role,
+        rooftop_id: rooftopId,
+        token_hash: await hashToken(token),
+        status: 'pending',
+        created_by: user.id,
+        created_by_name: auditName(userProfile, user),
+        created_at: now.toISOString(),
+        expires_at: inviteExpiry(now),
+        send_count: 1
+      }
+      await kv.set(`invite:${invite.id}`, invite)
+      const emailSent = await sendMail(inviteEmail(invite, await rooftopName(rooftopId), appLink('invite', token)))
+
+      return c.json({ invite: toPublicInvite(invite, now), token, email_sent: emailSent })
+    } catch (error) {
+      console.log('Create invite error:', error)
+      return c.json({ error: 'Failed to create invite' }, 500)
+    }
+  })
+
+  // Admin: List invites, newest first
+  app.get('/admin/invites', requireAuth, requirePermission('users.manage'), async (c) => {
+    try {
+      const now = clock.now()
+      const invites = await kv.getByPrefix<Invite>('invite:')
+      return c.json(invites
+        .map(invite => toPublicInvite(invite, now))
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()))
+    } catch (error) {
+      console.log('Get invites error:', error)
+      return c.json({ error: 'Failed to fetch invites' }, 500)
+    }
+  })
+
+  // Admin: Resend a pending or expired invite. The old link stops working.
+  app.post('/admin/invites/:id/resend', requireAuth, requirePermission('users.manage'), async (c) => {
+    try {
+      const invite = await kv.get<Invite>(`invite:${c.req.param('id')}`)
+      if (!invite) {
+        return c.json({ error: 'Invite not found' }, 404)
+      }
+
+      if (invite.status !== 'pending') {
+        return c.json({ error: `This invite has been ${invite.status}` }, 400)
+      }
+
+      const now = clock.now()
+      const token = generateToken()
+      const resent = {
+        ...invite,
+        token_hash: await hashToken(token),
+        expires_at: inviteExpiry(now),
+        resent_at: now.toISOString(),
+        send_count: (invite.send_count || 1) + 1
+      }
+      await kv.set(`invite:${invite.id}`, resent)
+      const emailSent = await sendMail(inviteEmail(resent, await rooftopName(resent.rooftop_id), appLink('invite', token)))
+
+      return c.json({ invite: toPublicInvite(resent, now), token, email_sent: emailSent })
+    } catch (error) {
+      console.log('Resend invite error:', error)
+      return c.json({ error: 'Failed to resend invite' }, 500)
+    }
+  })
+
+  // Admin: Revoke a pending invite. The record is kept so the list shows what happened.
+  app.post('/admin/invites/:id/revoke', requireAuth, requirePermission('users.manage'), async (c) => {
+    try {
+      const user = c.get('user')
+
+      const invite = await kv.get<Invite>(`invite:${c.req.param('id')}`)
+      if (!invite) {
+        return c.json({ error: 'Invite not found' }, 404)
+      }
+
+      if (invite.status !== 'pending') {
+        return c.json({ error: `This invite has been ${invite.status}` }, 400)
+      }
+
+      const now = clock.now()
+      const revoked: Invite = { ...invite, status: 'revoked', revoked_at: now.toISOString(), revoked_by: user.id }
+      await kv.set(`invite:${invite.id}`, revoked)
+
+      return c.json({ invite: toPublicInvite(revoked, now) })
+    } catch (error) {
+      console.log('Revoke invite error:', error)
+      return c.json({ error: 'Failed to revoke invite' }, 500)
+    }
+  })
+
+  // Admin: Rescan all fuel entries and repair the per-user and per-vehicle entry indexes. { dry_run: true } only reports.
+  app.post('/admin/rebuild-indexes', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const { dry_run } = await c.req.json()
+      const report = await fuelEntries.rebuildIndex({ dryRun: dry_run === true })
+
+      console.log(`Index rebuild${report.dry_run ? ' (dry run)' : ''}: ${report.unindexed_entries.length} unindexed entries, ${report.dangling_index_keys.length} dangling index keys, ${report.unindexed_vehicle_keys + report.dangling_vehicle_keys} vehicle index problems`)
+      return c.json(report)
+    } catch (error) {
+      console.log('Rebuild indexes error:', error)
+      return c.json({ error: 'Failed to rebuild indexes' }, 500)
+    }
+  })
+
+  // VIN Decoder with NHTSA API and caching
+  app.post('/decode-vin', requireAuth, async (c) => {
+    try {
+      const { vin } = await c.req.json()
+
+      if (!vin) {
+        return c.json({ error: 'VIN is required' }, 400)
+      }
+
+      // Validate VIN format
+      if (!VIN_PATTERN.test(vin.toUpperCase())) {
+        return c.json({ 
+          error: 'Invalid VIN format. VIN must be 17 characters.',
+          valid: false 
+        }, 400)
+      }
+
+      // Reject typos before they reach NHTSA and get cached as failed lookups
+      if (!hasValidVinCheckDigit(vin)) {
+        return c.json({
+          error: 'Invalid VIN. The check digit does not match.',
+          valid: false
+        }, 400)
+      }
+
+      const normalizedVin = vin.toUpperCase()
+
+      // Check cache first
+      const cachedVehicle = await vehicles.get(normalizedVin)
+      if (cachedVehicle) {
+        console.log(`VIN ${normalizedVin} found in cache`)
+        return c.json(cachedVehicle)
+      }
+
+      console.log(`Decoding VIN ${normalizedVin} via NHTSA API...`)
+
+      try {
+        // Call NHTSA VIN Decoder API
+        const response = await fetchFn(
+          `https://vpic.nhtsa.dot.gov/api/vehicles/decodevin/${normalizedVin}?format=json`
+        )
+
+        if (!response.ok) {
+          throw new Error(`NHTSA API returned ${response.status}`)
+        }
+
+        const data: { Results?: { Variable: string; Value: string | null }[] } = await response.json()
+        const results = data.Results || []
+
+        // Extract vehicle information
+        const findResult = (variableName: string): string => {
+          const result = results.find(r => r.Variable === variableName)
+          return result?.Value || ''
+        }
+
+        const vehicleData = {
+          vin: normalizedVin,
+          year: findResult('Model Year'),
+          make: findResult('Make'),
+          model: findResult('Model'),
+          trim: findResult('Trim'),
+          engine: findResult('Engine Model'),
+          displacement: findResult('Displacement (L)'),
+          cylinders: findResult('Engine Number of Cylinders'),
+          fuel_type: findResult('Fuel Type - Primary'),
+          vehicle_type: findResult('Vehicle Type'),
+          body_class: findResult('Body Class'),
+          drive_type: findResult('Drive Type'),
+          transmission: findResult('Transmission Style'),
+          manufacturer: findResult('Manufacturer Name'),
+          plant_city: findResult('Plant City'),
+          plant_state: findResult('Plant State'),
+          valid: false,
+          cached_at: clock.now().toISOString(),
+          error: null as string | null
+        }
+
+        // Determine if VIN decode was successful
+        const hasRequiredData = vehicleData.year && vehicleData.make && vehicleData.model
+        vehicleData.valid = !!hasRequiredData
+
+        if (!hasRequiredData) {
+          vehicleData.error = 'Vehicle information not found for this VIN'
+          console.log(`VIN ${normalizedVin} decode failed - insufficient data`)
+        } else {
+          console.log(`VIN ${normalizedVin} decoded successfully: ${vehicleData.year} ${vehicleData.make} ${vehicleData.model}`)
+        }
+
+        // Cache the result (cache both successful and failed lookups)
+        await vehicles.save(vehicleData)
+
+        return c.json(vehicleData)
+
+      } catch (apiError) {
+        console.error('NHTSA API error:', apiError)
+
+        const errorResponse = {
+          vin: normalizedVin,
+          year: '',
+          make: '',
+          model: '',
+          valid: false,
+          error: 'Failed to decode VIN via NHTSA API',
+          cached_at: clock.now().toISOString()
+        }
+
+        // Cache error result for 30 minutes to avoid repeated failed API calls
+        await vehicles.save(errorResponse)
+
+        return c.json(errorResponse, 500)
+      }
+    } catch (error) {
+      console.error('VIN decode error:', error)
+      return c.json({ error: 'Failed to decode VIN' }, 500)
+    }
+  })
+
+  // Get vehicle by VIN (cached lookup only)
+  app.get('/vehicles/:vin', requireAuth, async (c) => {
+    try {
+      const vin = c.req.param('vin').toUpperCase()
+
+      const vehicle = await vehicles.get(vin)
+      if (!vehicle) {
+        return c.json({ error: 'Vehicle not found in cache' }, 404)
+      }
+
+      return c.json(vehicle)
+    } catch (error) {
+      console.error('Get vehicle error:', error)
+      return c.json({ error: 'Failed to fetch vehicle' }, 500)
+    }
+  })
+
+  // Admin: Classify a cached vehicle as needing premium (true), running on regular (false) or not
+  // yet known (null). Only vehicles marked false have premium fills flagged.
+  app.put('/admin/vehicles/:vin', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const vehicle = await vehicles.get(c.req.param('vin').toUpperCase())
+      if (!vehicle) {
+        return c.json({ error: 'Vehicle not found in cache' }, 404)
+      }
+
+      const { premium_required } = await c.req.json()
+      if (premium_required !== true && premium_required !== false && premium_required !== null) {
+        return c.json({ error: 'premium_required must be true, false or null' }, 400)
+      }
+
+      const updated = { ...vehicle, premium_required }
+      await vehicles.save(updated)
+      return c.json(updated)
+    } catch (error) {
+      console.log('Update vehicle error:', error)
+      return c.json({ error: 'Failed to update vehicle' }, 500)
+    }
+  })
+
+  // Get fuel history for a vehicle by stock number or VIN
+  app.get('/vehicles/:id/fuel-history', requireAuth, async (c) => {
+    try {
+      const user = c.get('user')
+      const vehicleId = decodeURIComponent(c.req.param('id'))
+      const userProfile = await users.get(user.id)
+
+      // Porters only see their own fills for the vehicle
+      const entries = await listVisibleEntries(userProfile, user.id)
+
+      const vehicleEntries = entries.filter(entry => matchesVehicle(entry, vehicleId))
+      const vin = vehicleEntries.find(entry => entry.vin)?.vin?.toUpperCase()
+      const vehicle = vin ? await vehicles.get(vin) : null
+
+      return c.json({
+        vehicle_id: vehicleId,
+        stock_number: vehicleEntries.find(entry => entry.stock_number)?.stock_number || null,
+        vin: vin || null,
+        vehicle,
+        frequent_fill_window_hours: FREQUENT_FILL_WINDOW_HOURS,
+        frequent_fill_min_miles: FREQUENT_FILL_MIN_MILES,
+        ...buildFuelHistory(vehicleEntries)
+      })
+    } catch (error) {
+      console.log('Get vehicle fuel history error:', error)
+      return c.json({ error: 'Failed to fetch vehicle fuel history' }, 500)
+    }
+  })
+
+  // Admin: Get all cached vehicles
+  app.get('/admin/vehicles', requireAuth, requirePermission('vehicles.view'), async (c) => {
+    try {
+      return c.json(await vehicles.list())
+    } catch (error) {
+      console.error('Get vehicles error:', error)
+      return c.json({ error: 'Failed to fetch vehicles' }, 500)
+    }
+  })
+
+  const getGlMapping = async () => normalizeGlMapping(await kv.get<Partial<GlMapping>>(GL_MAPPING_KEY))
+
+  // The entries an export covers, oldest first, with what each row needs beyond the entry.
+  // Scoped like the entry list, so managers export their own rooftop.
+  const loadExport = async (userProfile: UserProfile | null, userId: string, query: EntryQuery, photoLinks: { receipt: boolean; vin: boolean }) => {
+    const entries = (await listVisibleEntries(userProfile, userId))
+      .filter(entry => matchesEntryQuery(entry, query))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    const [profiles, allRooftops, allVehicles, mapping] = await Promise.all([users.list(), rooftops.list(), vehicles.list(), getGlMapping()])
+    const profilesById = new Map(profiles.map(profile => [profile.id, profile]))
+    const rooftopsById = new Map(allRooftops.map(rooftop => [rooftop.id, rooftop]))
+    const vehiclesByVin = new Map(allVehicles.map(vehicle => [vehicle.vin, vehicle]))
+
+    // Photos are stored as paths in the private bucket. Older entries may hold a full link,
+    // which is kept, or an inline image, which can't be linked to.
+    const photoLink = async (photo: string | null | undefined, wanted: boolean) => {
+      if (!wanted || !photo || photo.startsWith('data:')) return null
+      if (/^https?:\/\//.test(photo)) return photo
+      return await storage.createSignedUrl(photo, EXPORT_PHOTO_LINK_SECONDS)
+    }
+    const contexts: ExportContext[] = await Promise.all(entries.map(async entry => ({
+      user: profilesById.get(entry.user_id) ?? null,
+      rooftop: rooftopsById.get(entry.rooftop_id ?? '') ?? null,
+      gl: assignGlAccount(entry, vehiclesByVin.get(String(entry.vin || '').toUpperCase()) ?? null, mapping),
+      receiptPhotoUrl: await photoLink(entry.receipt_photo, photoLinks.receipt),
+      vinPhotoUrl: await photoLink(entry.vin_photo, photoLinks.vin)
+    })))
+
+    return { entries, contexts, profilesById, rooftopsById, mapping }
+  }
+
+  // Admin: Export entries as CSV or XLSX, filtered like the entry list, with a choice of columns
+  app.get('/admin/export', requireAuth, requirePermission('data.export'), async (c) => {
+    try {
+      const params = c.req.query()
+      const query = parseEntryQuery(params)
+      if (typeof query === 'string') {
+        return c.json({ error: query }, 400)
+      }
+      const request = parseExportRequest(params)
+      if (typeof request === 'string') {
+        return c.json({ error: request }, 400)
+      }
+
+      const wantsColumn = (key: string) => request.columns.some(column => column.key === key)
+      const { entries, contexts, profilesById, rooftopsById } = await loadExport(c.get('profile'), c.get('user').id, query, {
+        receipt: wantsColumn('receipt_photo'),
+        vin: wantsColumn('vin_photo')
+      })
+
+      const rows = exportRows(entries, contexts, request.columns)
+      const now = clock.now()
+      const disposition = `attachment; filename="${exportFileName(request.format, now)}"`
+
+      if (request.format === 'csv') {
+        return new Response(csvStream(rows), {
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': disposition
+          }
+        })
+      }
+
+      const organization = await getOrganizationSettings()
+      const workbook = buildWorkbook([
+        entriesSheet(rows, request.columns),
+        summarySheet(entries, contexts, {
+          title: `${organization.display_name} Fuel Entries`,
+          generatedAt: now,
+          query,
+          rooftopName: query.rooftop_id ? rooftopsById.get(query.rooftop_id)?.name ?? null : null,
+          userName: query.user_id ? profilesById.get(query.user_id)?.name ?? null : null
+        })
+      ])
+
+      return new Response(workbook, {
+        headers: {
+          'Content-Type': XLSX_CONTENT_TYPE,
+          'Content-Disposition': disposition
+        }
+      })
+    } catch (error) {
+      console.log('Export data error:', error)
+      return c.json({ error: 'Failed to export data' }, 500)
+    }
+  })
+
+  // Admin: GL account mapping for journal exports
+  app.get('/admin/gl-mapping', requireAuth, requirePermission('data.export'), async (c) => {
+    try {
+      return c.json(await getGlMapping())
+    } catch (error) {
+      console.log('Get GL mapping error:', error)
+      return c.json({ error: 'Failed to fetch GL mapping' }, 500)
+    }
+  })
+
+  app.put('/admin/gl-mapping', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const allRooftops = await rooftops.list()
+      const mapping = parseGlMapping(await c.req.json(), allRooftops.map(rooftop => rooftop.id))
+      if (typeof mapping === 'string') {
+        return c.json({ error: mapping }, 400)
+      }
+
+      await kv.set(GL_MAPPING_KEY, mapping)
+      return c.json(mapping)
+    } catch (error) {
+      console.log('Update GL mapping error:', error)
+      return c.json({ error: 'Failed to update GL mapping' }, 500)
+    }
+  })
+
+  // Admin: Journal entries for the GL, as generic CSV or QuickBooks IIF. Takes the same filters as
+  // /admin/export; voided entries are never posted and only approved ones are unless ?status says otherwise.
+  app.get('/admin/journal-export', requireAuth, requirePermission('data.export'), async (c) => {
+    try {
+      const params = c.req.query()
+      const query = parseEntryQuery({ status: 'approved', ...params, include_voided: 'false' })
+      if (typeof query === 'string') {
+        return c.json({ error: query }, 400)
+      }
+      const format = (params.format || 'gl_csv') as JournalFormat
+      if (!JOURNAL_FORMATS.includes(format)) {
+        return c.json({ error: `Unknown journal format ${params.format}` }, 400)
+      }
+
+      const { entries, contexts, mapping } = await loadExport(c.get('profile'), c.get('user').id, query, { receipt: false, vin: false })
+      const journal = buildJournal(entries, contexts.map(context => ({
+        assignment: context.gl,
+        userName: context.user?.name ?? null,
+        timezone: context.rooftop?.timezone
+      })), mapping)
+      const disposition = `attachment; filename="${journalFileName(format, clock.now())}"`
+
+      if (format === 'iif') {
+        return new Response(formatIif(journal), {
+          headers: {
+            'Content-Type': 'application/x-iif; charset=utf-8',
+            'Content-Disposition': disposition
+          }
+        })
+      }
+
+      return new Response(csvStream(glCsvRows(journal)), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': disposition
+        }
+      })
+    } catch (error) {
+      console.log('Journal export error:', error)
+      return c.json({ error: 'Failed to export journal' }, 500)
+    }
+  })
+
+  // The RO number format, so the entry form can check it before submitting
+  app.get('/chargeback-settings', requireAuth, async (c) => {
+    try {
+      return c.json(await getChargebackSettings())
+    } catch (error) {
+      console.log('Get chargeback settings error:', error)
+      return c.json({ error: 'Failed to fetch chargeback settings' }, 500)
+    }
+  })
+
+  app.put('/admin/chargeback-settings', requireAuth, requirePermission('settings.manage'), async (c) => {
+    try {
+      const settings = parseChargebackSettings(await c.req.json(), await getChargebackSettings())
+      if (typeof settings === 'string') {
+        return c.json({ error: settings }, 400)
+      }
+
+      await kv.set(CHARGEBACK_SETTINGS_KEY, settings)
+      return c.json(settings)
+    } catch (error) {
+      console.log('Update chargeback settings error:', error)
+      return c.json({ error: 'Failed to update chargeback settings' }, 500)
+    }
+  })
+
+  // Fuel billed to repair orders, grouped by RO. ?billing=open|billed (open by default) plus the
+  // date, rooftop and user filters of the entry list. Scoped like the entry list.
+  const loadChargebacks = async (userProfile: UserProfile | null, userId: string, params: Record<string, string>) => {
+    const billing = (params.billing || 'open') as ChargebackStatus
+    if (!CHARGEBACK_STATUSES.includes(billing)) return `Unknown billing status ${params.billing}`
+    const query = parseEntryQuery({ ...params, status: '', include_voided: 'false' })
+    if (typeof query === 'string') return query
+
+    const entries = (await listVisibleEntries(userProfile, userId))
+      .filter(entry => isChargeback(entry) && chargebackStatus(entry) === billing && matchesEntryQuery(entry, query))
+    const [profiles, allRooftops] = await Promise.all([users.list(), rooftops.list()])
+    const profilesById = new Map(profiles.map(profile => [profile.id, profile]))
+    const rooftopsById = new Map(allRooftops.map(rooftop => [rooftop.id, rooftop]))
+
+    return groupChargebacks(entries, entries.map(entry => ({
+      userName: profilesById.get(entry.user_id)?.name ?? null,
+      rooftop: rooftopsById.get(entry.rooftop_id ?? '') ?? null
+    })))
+  }
+
+  app.get('/admin/chargebacks', requireAuth, requirePermission('data.export'), async (c) => {
+    try {
+      const chargebacks = await loadChargebacks(c.get('profile'), c.get('user').id, c.req.query())
+      if (typeof chargebacks === 'string') {
+        return c.json({ error: chargebacks }, 400)
+      }
+
+      return c.json(chargebacks)
+    } catch (error) {
+      console.log('Get chargebacks error:', error)
+      return c.json({ error: 'Failed to fetch chargebacks' }, 500)
+    }
+  })
+
+  // The same chargebacks as CSV for the service department's billing import, one line per fill
+  app.get('/admin/chargebacks/export', requireAuth, requirePermission('data.export'), async (c) => {
+    try {
+      const chargebacks = await loadChargebacks(c.get('profile'), c.get('user').id, c.req.query())
+      if (typeof chargebacks === 'string') {
+        return c.json({ error: chargebacks }, 400)
+      }
+
+      return new Response(csvStream(billingRows(chargebacks, await getChargebackSettings())), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${chargebackFileName(clock.now())}"`
+        }
+      })
+    } catch (error) {
+      console.log('Export chargebacks error:', error)
+      return c.json({ error: 'Failed to export chargebacks' }, 500)
+    }
+  })
+
+  // Mark fills billed once they're on the RO, or reopen them: { entry_ids, billed }
+  app.post('/admin/chargebacks/billing', requireAuth, requirePermission('chargebacks.manage'), async (c) => {
+    try {
+      const { entry_ids: entryIds, billed } = await c.req.json()
+      if (!Array.isArray(entryIds) || entryIds.length === 0 || typeof billed !== 'boolean') {
+        return c.json({ error: 'Choose the entries and whether they are billed' }, 400)
+      }
+
+      const user = c.get('user')
+      const visible = new Map((await listVisibleEntries(c.get('profile'), user.id)).map(entry => [entry.id, entry]))
+      const entries = entryIds
+        .map((id: unknown) => visible.get(String(id)))
+        .filter((entry): entry is FuelEntry => !!entry && isChargeback(entry))
+      if (entries.length !== entryIds.length) {
+        return c.json({ error: 'Only open or billed chargebacks you can see can be changed' }, 400)
+      }
+
+      const now = clock.now().toISOString()
+      const updated = []
+      for (const entry of entries) {
+        if ((chargebackStatus(entry) === 'billed') === billed) continue
+        const stored = await fuelEntries.get(entry.id) ?? entry
+        const change = billed
+          ? { chargeback_billed_at: now, chargeback_billed_by: user.id }
+          : { chargeback_billed_at: null, chargeback_billed_by: null }
+        await fuelEntries.save({ ...stored, ...change, updated_at: now })
+        updated.push(entry.id)
+      }
+
+      return c.json({ updated })
+    } catch (error) {
+      console.log('Update chargeback billing error:', error)
+      return c.json({ error: 'Failed to update chargeback billing' }, 500)
+    }
+  })
+
+  // Admin: Statement column mappings, built-in and saved
+  app.get('/admin/card-mappings', requireAuth, requirePermission('reconciliation.view'), async (c) => {
+    try {
+      const customMappings = await kv.get<ColumnMapping[]>(MAPPINGS_KEY) || []
+      return c.json([...BUILT_IN_MAPPINGS, ...customMappings])
+    } catch (error) {
+      console.log('Get card mappings error:', error)
+      return c.json({ error: 'Failed to fetch column mappings' }, 500)
+    }
+  })
+
+  // Admin: Save a custom column mapping
+  app.put('/admin/card-mappings/:id', requireAuth, requirePermission('reconciliation.manage'), async (c) => {
+    try {
+      const mappingId = c.req.param('id')
+
+      if (BUILT_IN_MAPPINGS.some(mapping => mapping.id === mappingId)) {
+        return c.json({ error: 'Built-in mappings cannot be changed' }, 400)
+      }
+
+      const { name, date_format, columns } = await c.req.json()
+      if (!name || !String(name).trim()) {
+        return c.json({ error: 'A mapping name is required' }, 400)
+      }
+
+      if (!['MDY', 'DMY', 'YMD'].includes(date_format)) {
+        return c.json({ error: 'Invalid date format' }, 400)
+      }
+
+      if (!columns?.date || !columns?.amount) {
+        return c.json({ error: 'Date and amount columns are required' }, 400)
+      }
+
+      const mapping = { id: mappingId, name: String(name).trim(), date_format, columns }
+      const customMappings = await kv.get<ColumnMapping[]>(MAPPINGS_KEY) || []
+      await kv.set(MAPPINGS_KEY, [...customMappings.filter(existing => existing.id !== mappingId), mapping])
+
+      return c.json(mapping)
+    } catch (error) {
+      console.log('Save card mapping error:', error)
+      return c.json({ error: 'Failed to save column mapping' }, 500)
+    }
+  })
+
+  // Admin: Delete a custom column mapping
+  app.delete('/admin/card-mappings/:id', requireAuth, requirePermission('reconciliation.manage'), async (c) => {
+    try {
+      const mappingId = c.req.param('id')
+
+      const customMappings = await kv.get<ColumnMapping[]>(MAPPINGS_KEY) || []
+      await kv.set(MAPPINGS_KEY, customMappings.filter(mapping => mapping.id !== mappingId))
+
+      return c.json({ success: true })
+    } catch (error) {
+      console.log('Delete card mapping error:', error)
+      return c.json({ error: 'Failed to delete column mapping' }, 500)
+    }
+  })
+
+  // Admin: Import a fleet-card statement and reconcile it against fuel entries
+  app.post('/admin/reconciliations', requireAuth, requirePermission('reconciliation.manage'), async (c) => {
+    try {
+      const user = c.get('user')
+      const userProfile = c.get('profile')
+
+      const { file_name, csv, mapping_id, timezone_offset_minutes } = await c.req.json()
+      if (!csv || !String(csv).trim()) {
+        return c.json({ error: 'The statement file is empty' }, 400)
+      }
+
+      const customMappings = await kv.get<ColumnMapping[]>(MAPPINGS_KEY) || []
+      const mapping = [...BUILT_IN_MAPPINGS, ...customMappings].find(candidate => candidate.id === mapping_id)
+      if (!mapping) {
+        return c.json({ error: 'Unknown column mapping' }, 400)
+      }
+
+      const { transactions, errors } = parseStatement(parseCsv(String(csv)), mapping, Number(timezone_offset_minutes) || 0)
+      if (transactions.length === 0) {
+        return c.json({ error: errors[0]?.error || 'No transactions found in the statement', errors }, 400)
+      }
+
+      // Only entries from the statement period (plus the match window) can appear on it
+      const times = transactions.map(transaction => new Date(transaction.timestamp).getTime())
+      const windowMs = MATCH_WINDOW_MINUTES * 60 * 1000
+      const periodStart = Math.min(...times) - windowMs
+      const periodEnd = Math.max(...times) + windowMs
+
+      // Scoped like every other entry listing, so a rooftop-scoped role only reconciles its own fills
+      const visibleEntries = await listVisibleEntries(userProfile, user.id)
+      const periodEntries = visibleEntries.filter(entry => {
+        const time = new Date(entry.timestamp).getTime()
+        return !entry.voided && time >= periodStart && time <= periodEnd
+      })
+
+      const rows = reconcile(transactions, periodEntries)
+      const report = {
+        id: crypto.randomUUID(),
+        file_name: file_name || 'statement.csv',
+        mapping_id: mapping.id,
+        mapping_name: mapping.name,
+        period_start: new Date(Math.min(...times)).toISOString(),
+        period_end: new Date(Math.max(...times)).toISOString(),
+        created_by: user.id,
+        created_by_name: auditName(userProfile, user),
+        created_at: clock.now().toISOString(),
+        errors,
+        rows,
+        summary: summarizeRows(rows)
+      }
+
+      await kv.set(`reconciliation:${report.id}`, report)
+
+      return c.json(report)
+    } catch (error) {
+      console.log('Create reconciliation error:', error)
+      return c.json({ error: 'Failed to reconcile statement' }, 500)
+    }
+  })
+
+  // Admin: List reconciliation reports, newest first
+  app.get('/admin/reconciliations', requireAuth, requirePermission('reconciliation.view'), async (c) => {
+    try {
+      const reports = await kv.getByPrefix<ReconciliationReport>('reconciliation:')
+      return c.json(reports
+        .map(toReportSummary)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()))
+    } catch (error) {
+      console.log('Get reconciliations error:', error)
+      return c.json({ error: 'Failed to fetch reconciliation reports' }, 500)
+    }
+  })
+
+  // Admin: Get a reconciliation report with its rows
+  app.get('/admin/reconciliations/:id', requireAuth, requirePermission('reconciliation.view'), async (c) => {
+    try {
+      const report = await kv.get<ReconciliationReport>(`reconciliation:${c.req.param('id')}`)
+      if (!report) {
+        return c.json({ error: 'Reconciliation report not found' }, 404)
+      }
+
+      return c.json(report)
+    } catch (error) {
+      console.log('Get reconciliation error:', error)
+      return c.json({ error: 'Failed to fetch reconciliation report' }, 500)
+    }
+  })
+
+  // Admin: Resolve a report row - confirm, dispute or ignore it, or fix a match by hand
+  app.post('/admin/reconciliations/:id/resolve', requireAuth, requirePermission('reconciliation.manage'), async (c) => {
+    try {
+      const user = c.get('user')
+      const reportId = c.req.param('id')
+      const userProfile = c.get('profile')
+
+      const { row_id, action, note, link_row_id } = await c.req.json()
+      if (!['confirmed', 'disputed', 'ignored', 'link', 'unlink'].includes(action)) {
+        return c.json({ error: 'Invalid resolution' }, 400)
+      }
+
+      const report = await kv.get<ReconciliationReport>(`reconciliation:${reportId}`)
+      if (!report) {
+        return c.json({ error: 'Reconciliation report not found' }, 404)
+      }
+
+      const row = report.rows.find(candidate => candidate.id === row_id)
+      if (!row) {
+        return c.json({ error: 'Report row not found' }, 404)
+      }
+
+      const resolution: NonNullable<ReconciliationRow['resolution']> = {
+        action: action === 'link' ? 'linked' : action,
+        note: note ? String(note).trim() : null,
+        user_id: user.id,
+        user_name: auditName(userProfile, user),
+        resolved_at: clock.now().toISOString()
+      }
+
+      let rows: ReconciliationRow[] | null
+      if (action === 'link') {
+        // Either side of the pair can be the row the admin started from
+        rows = row.type === 'unmatched_card'
+          ? linkRows(report.rows, row_id, link_row_id, resolution)
+          : linkRows(report.rows, link_row_id, row_id, resolution)
+        if (!rows) {
+          return c.json({ error: 'Only an unmatched transaction and an unmatched entry can be linked' }, 400)
+        }
+      } else if (action === 'unlink') {
+        rows = unlinkRow(report.rows, row_id)
+        if (!rows) {
+          return c.json({ error: 'Only matched rows can be unlinked' }, 400)
+        }
+      } else {
+        if (action === 'disputed' && !resolution.note) {
+          return c.json({ error: 'Add a note explaining the dispute' }, 400)
+        }
+        rows = report.rows.map(candidate => candidate.id === row_id ? { ...candidate, resolution } : candidate)
+      }
+
+      const updatedReport = { ...report, rows, summary: summarizeRows(rows), updated_at: resolution.resolved_at }
+      await kv.set(`reconciliation:${reportId}`, updatedReport)
+
+      return c.json(updatedReport)
+    } catch (error) {
+      console.log('Resolve reconciliation row error:', error)
+      return c.json({ error: 'Failed to resolve reconciliation row' }, 500)
+    }
+  })
+
+  return app
+}
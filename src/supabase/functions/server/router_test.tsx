@@ -0,0 +1,1597 @@
+import { assert, assertEquals, assertExists } from 'jsr:@std/assert@1'
+import { isoBase64URL, isoCBOR } from 'npm:@simplewebauthn/server/helpers'
+import { createRouter, seedDemoUsers, type AuthProvider, type AuthUser, type PhotoStorage } from './router.tsx'
+import { createMemoryKv } from './memory_kv.tsx'
+import {
+  createMemoryRepositories, type EntryRevision, type FuelEntry, type IndexRebuildReport, type Rooftop, type UserProfile, type Vehicle
+} from './repositories.tsx'
+import { MFA_SETTINGS_KEY, totpCode, totpStep, type MfaSettings } from './mfa.tsx'
+import { formatCsvField, parseCsv } from './csv.tsx'
+import type { ChargebackLine, RoChargeback } from './chargebacks.tsx'
+import type { ColumnMapping, ReconciliationReport, ReconciliationRow } from './reconciliation.tsx'
+import type { RooftopSummary } from './rooftops.tsx'
+import type { MailMessage, MailTransport } from './mail.tsx'
+import type { ApprovalSettings } from './approval.tsx'
+import type { FuelHistoryFill } from './fuel_history.tsx'
+import type { GlMapping } from './journal.tsx'
+import type { Invite } from './invites.tsx'
+import type { OrganizationSettings } from './organization.tsx'
+import type { Passkey } from './passkeys.tsx'
+
+const NOW = new Date('2025-03-10T15:00:00.000Z')
+const VIN = '1HGCM82633A004352'
+
+// Stock numbers at Chevrolet are a C and five digits; the lot is in Oak Lawn
+const CHEVROLET = {
+  id: 'rooftop-chevrolet', name: 'Napleton Chevrolet', latitude: 41.7203, longitude: -87.7523, geofence_radius_km: 15,
+  timezone: 'America/Chicago', stock_number_pattern: 'C\\d{5}', stock_number_example: 'C12345'
+}
+const KIA = { id: 'rooftop-kia', name: 'Napleton Kia', latitude: null, longitude: null, geofence_radius_km: 15, timezone: 'America/New_York', stock_number_pattern: null }
+
+const ADMIN: UserProfile = { id: 'admin-1', email: 'admin@napleton.com', name: 'Admin User', role: 'admin' }
+const PORTER: UserProfile = { id: 'porter-1', email: 'porter@napleton.com', name: 'John Porter', role: 'porter' }
+const OTHER_PORTER: UserProfile = { id: 'porter-2', email: 'jane@napleton.com', name: 'Jane Porter', role: 'porter' }
+const MANAGER: UserProfile = { id: 'manager-1', email: 'manager@napleton.com', name: 'Mary Manager', role: 'manager', rooftop_id: CHEVROLET.id }
+const ACCOUNTANT: UserProfile = { id: 'accountant-1', email: 'accounts@napleton.com', name: 'Alan Accountant', role: 'accountant' }
+const AUDITOR: UserProfile = { id: 'auditor-1', email: 'audit@napleton.com', name: 'Ada Auditor', role: 'auditor' }
+
+// Access tokens are just keys into a map of users. Revoking a user's sessions stops their token working.
+const createFakeAuth = (users: AuthUser[]) => {
+  const tokens = new Map<string, AuthUser>(users.map(user => [`token-${user.id}`, user]))
+  const emails = new Set(users.map(user => user.email))
+  const passwords = new Map<string, string>()
+  const revoked = new Set<string>()
+
+  const auth: AuthProvider = {
+    getUser: async (accessToken) => {
+      const user = tokens.get(accessToken)
+      return user && !revoked.has(user.email ?? '') ? user : null
+    },
+    createUser: async ({ email, password, name }) => {
+      if (emails.has(email)) return { error: 'A user with this email address has already been registered' }
+      emails.add(email)
+      const user = { id: `user-${emails.size}`, email, user_metadata: { name } }
+      tokens.set(`token-${user.id}`, user)
+      passwords.set(user.id, password)
+      return { user }
+    },
+    updatePassword: async (userId, password) => {
+      if (!tokens.has(`token-${userId}`)) return { error: 'User not found' }
+      passwords.set(userId, password)
+      return null
+    },
+    createLoginToken: async (email) => ({ token_hash: `login-${email}` }),
+    revokeSessions: async (email) => {
+      revoked.add(email)
+      return null
+    }
+  }
+  return { auth, passwords }
+}
+
+const createFakeMail = () => {
+  const sent: MailMessage[] = []
+  const mail: MailTransport = {
+    send: async (message) => {
+      sent.push(message)
+    }
+  }
+  return { mail, sent }
+}
+
+// The token from the last link emailed to an address
+const tokenFromMail = (sent: MailMessage[], to: string, param: string) => {
+  const link = sent.filter(message => message.to === to).pop()?.text.match(new RegExp(`\\?${param}=([\\w-]+)`))
+  if (!link) throw new Error(`No ${param} link was emailed to ${to}`)
+  return link[1]
+}
+
+const concatBytes = (...parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
+const sha256 = async (data: Uint8Array<ArrayBuffer>) => new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+
+// WebCrypto signs P-256 as r||s; WebAuthn signatures are DER sequences of two integers
+const derSignature = (raw: Uint8Array) => {
+  const integer = (bytes: Uint8Array) => {
+    let start = 0
+    while (start < bytes.length - 1 && bytes[start] === 0) start++
+    const value = bytes[start] & 0x80 ? concatBytes(Uint8Array.of(0), bytes.slice(start)) : bytes.slice(start)
+    return concatBytes(Uint8Array.of(0x02, value.length), value)
+  }
+  const r = integer(raw.slice(0, 32))
+  const s = integer(raw.slice(32))
+  return concatBytes(Uint8Array.of(0x30, r.length + s.length), r, s)
+}
+
+// A software authenticator holding one P-256 passkey for APP_URL
+const createTestAuthenticator = async (origin = 'https://fueltrakr.test') => {
+  const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+  const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey)
+  const credentialId = crypto.getRandomValues(new Uint8Array(16))
+  const id = isoBase64URL.fromBuffer(credentialId)
+  let counter = 0
+
+  const clientData = (type: string, challenge: string) =>
+    new TextEncoder().encode(JSON.stringify({ type, challenge, origin }))
+
+  // Flags: user present (0x01), user verified (0x04), attested credential data (0x40)
+  const authenticatorData = async (flags: number, attested = new Uint8Array()) => {
+    const signCount = new Uint8Array(4)
+    new DataView(signCount.buffer).setUint32(0, counter)
+    return concatBytes(await sha256(new TextEncoder().encode(new URL(origin).hostname)), Uint8Array.of(flags), signCount, attested)
+  }
+
+  return {
+    id,
+    register: async (options: { challenge: string }) => {
+      const publicKey = isoCBOR.encode(new Map<number, number | Uint8Array>([
+        [1, 2], [3, -7], [-1, 1], [-2, isoBase64URL.toBuffer(jwk.x!)], [-3, isoBase64URL.toBuffer(jwk.y!)]
+      ]))
+      const attested = concatBytes(new Uint8Array(16), Uint8Array.of(0, credentialId.length), credentialId, publicKey)
+      const attestationObject = isoCBOR.encode(new Map<string, string | Uint8Array | Map<string, never>>([
+        ['fmt', 'none'], ['attStmt', new Map<string, never>()], ['authData', await authenticatorData(0x45, attested)]
+      ]))
+      return {
+        id,
+        rawId: id,
+        type: 'public-key',
+        response: {
+          clientDataJSON: isoBase64URL.fromBuffer(clientData('webauthn.create', options.challenge)),
+          attestationObject: isoBase64URL.fromBuffer(attestationObject),
+          transports: ['internal']
+        },
+        clientExtensionResults: {}
+      }
+    },
+    authenticate: async (options: { challenge: string }) => {
+      counter++
+      const data = await authenticatorData(0x05)
+      const client = clientData('webauthn.get', options.challenge)
+      const signed = concatBytes(data, await sha256(client))
+      const raw = new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keys.privateKey, signed))
+      return {
+        id,
+        rawId: id,
+        type: 'public-key',
+        response: {
+          clientDataJSON: isoBase64URL.fromBuffer(client),
+          authenticatorData: isoBase64URL.fromBuffer(data),
+          signature: isoBase64URL.fromBuffer(derSignature(raw))
+        },
+        clientExtensionResults: {}
+      }
+    }
+  }
+}
+
+const createFakeStorage = () => {
+  const files = new Map<string, File>()
+  const storage: PhotoStorage = {
+    upload: async (path, file) => {
+      files.set(path, file)
+      return { path }
+    },
+    createSignedUrl: async (path, expiresInSeconds) => `https://storage.test/${path}?expires=${expiresInSeconds}`
+  }
+  return { storage, files }
+}
+
+const nhtsaResponse = (values: Record<string, string>) =>
+  new Response(JSON.stringify({ Results: Object.entries(values).map(([Variable, Value]) => ({ Variable, Value })) }))
+
+const setup = (options: { fetch?: typeof fetch } = {}) => {
+  const profiles = [ADMIN, PORTER, OTHER_PORTER, MANAGER, ACCOUNTANT, AUDITOR]
+  const kv = createMemoryKv()
+  const repositories = createMemoryRepositories()
+  for (const profile of profiles) repositories.users.save(profile)
+  for (const rooftop of [CHEVROLET, KIA]) repositories.rooftops.save(rooftop)
+  // Admins need a second factor by default; the MFA tests turn that back on
+  kv.set(MFA_SETTINGS_KEY, { required_roles: [] })
+  const { auth, passwords } = createFakeAuth(profiles.map(({ id, email }) => ({ id, email })))
+  const { mail, sent } = createFakeMail()
+  const { storage, files } = createFakeStorage()
+  const clock = { current: NOW, now: () => clock.current }
+  const fetchCalls: string[] = []
+  const fakeFetch = options.fetch ?? (async (input: string | URL | Request) => {
+    fetchCalls.push(String(input))
+    return nhtsaResponse({ 'Model Year': '2003', 'Make': 'HONDA', 'Model': 'Accord', 'Fuel Type - Primary': 'Gasoline' })
+  }) as typeof fetch
+
+  const app = createRouter({ kv, repositories, auth, storage, clock, mail, appUrl: 'https://fueltrakr.test/', fetch: fakeFetch })
+
+  // T is the response body the test expects. It is only checked by the assertions on it.
+  const request = async <T = unknown,>(method: string, path: string, user?: { id: string } | null, body?: unknown, extraHeaders: Record<string, string> = {}) => {
+    const headers: Record<string, string> = { ...extraHeaders }
+    if (user) headers['Authorization'] = `Bearer token-${user.id}`
+    if (body !== undefined) headers['Content-Type'] = 'application/json'
+
+    const response = await app.request(path, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) })
+    const text = await response.text()
+    let data: unknown = text
+    try {
+      data = JSON.parse(text)
+    } catch {
+      // CSV and other plain responses
+    }
+    return { status: response.status, data: data as T, headers: response.headers }
+  }
+
+  return { app, kv, repositories, clock, files, fetchCalls, passwords, sent, request }
+}
+
+const entryData = (overrides: Record<string, unknown> = {}) => ({
+  stock_number: 'A1234',
+  vin: VIN,
+  gallons: 10,
+  price_per_gallon: 3.5,
+  total_amount: 35,
+  odometer: 12000,
+  fuel_type: 'Regular',
+  location: 'Main lot',
+  timestamp: '2025-03-10T14:00:00.000Z',
+  ...overrides
+})
+
+const createEntry = async (ctx: ReturnType<typeof setup>, user = PORTER, overrides: Record<string, unknown> = {}) => {
+  const { status, data } = await ctx.request<FuelEntry>('POST', '/fuel-entries', user, entryData(overrides))
+  assertEquals(status, 200)
+  return data
+}
+
+// Response bodies several routes share
+type ErrorBody = { error: string }
+type EntryList = { entries: FuelEntry[]; next_cursor: string | null }
+type EntryUpdate = { entry: FuelEntry; revision: EntryRevision }
+type InviteSent = { invite: Invite; token: string; email_sent: boolean }
+type VehicleHistory = { stock_number: string | null; vin: string | null; fills: FuelHistoryFill[] }
+type PasskeyOptions = { challenge_id: string; options: { challenge: string; allowCredentials: { id: string }[]; excludeCredentials: { id: string }[] } }
+type MfaToken = { mfa_token: string; expires_at: string }
+type MfaRequired = ErrorBody & { mfa_required?: 'enroll' | 'verify' }
+type MfaStatus = { enabled: boolean; required: boolean; verified: boolean; recovery_codes_remaining: number; locked_until: string | null }
+
+Deno.test('GET /health reports the injected clock', async () => {
+  const ctx = setup()
+  const { status, data } = await ctx.request('GET', '/health')
+  assertEquals(status, 200)
+  assertEquals(data, { status: 'healthy', timestamp: NOW.toISOString() })
+})
+
+Deno.test('protected routes reject missing and unknown tokens', async () => {
+  const ctx = setup()
+  assertEquals((await ctx.request('GET', '/profile')).status, 401)
+  assertEquals((await ctx.request('GET', '/profile', { id: 'nobody' })).status, 401)
+})
+
+Deno.test('POST /setup-demo-users creates both accounts once', async () => {
+  const ctx = setup()
+
+  const first = await ctx.request<{ results: Awaited<ReturnType<typeof seedDemoUsers>> }>('POST', '/setup-demo-users')
+  assertEquals(first.status, 200)
+  // The fake auth provider already knows both demo emails
+  assertEquals(first.data.results.admin.success, false)
+
+  const repositories = createMemoryRepositories()
+  const results = await seedDemoUsers({ repositories, auth: createFakeAuth([]).auth, clock: { now: () => NOW } })
+  assertEquals(results.admin.success, true)
+  assertEquals(results.porter.success, true)
+  assertEquals((await repositories.users.get(results.admin.id!))?.role, 'admin')
+  assertEquals((await repositories.users.get(results.porter.id!))?.role, 'porter')
+})
+
+Deno.test('POST /signup only accepts Napleton addresses and stores a porter profile', async () => {
+  const ctx = setup()
+
+  const rejected = await ctx.request('POST', '/signup', null, { email: 'someone@example.com', password: 'secret1', name: 'Someone' })
+  assertEquals(rejected.status, 400)
+  // The domain is right, but the rest would end up in SMTP commands and mail headers
+  for (const email of ['a\r\nRCPT TO:<victim@example.com>@napleton.com', 'a>,<victim@example.com@napleton.com', 'a b@napleton.com']) {
+    assertEquals((await ctx.request('POST', '/signup', null, { email, password: 'secret1', name: 'Someone' })).status, 400, email)
+  }
+
+  const { status, data } = await ctx.request<{ user: UserProfile }>('POST', '/signup', null, { email: ' New@Napleton.com ', password: 'secret1', name: 'New Porter' })
+  assertEquals(status, 200)
+  assertEquals(data.user.role, 'porter')
+  assertEquals(data.user.email, 'new@napleton.com')
+  assertEquals((await ctx.repositories.users.get(data.user.id))?.created_at, NOW.toISOString())
+
+  const duplicate = await ctx.request('POST', '/signup', null, { email: 'new@napleton.com', password: 'secret1', name: 'New Porter' })
+  assertEquals(duplicate.status, 400)
+})
+
+Deno.test('GET /profile returns the caller profile', async () => {
+  const ctx = setup()
+  const { status, data } = await ctx.request<UserProfile>('GET', '/profile', PORTER)
+  assertEquals(status, 200)
+  assertEquals(data.name, PORTER.name)
+
+  await ctx.repositories.users.delete(PORTER.id)
+  assertEquals((await ctx.request('GET', '/profile', PORTER)).status, 404)
+})
+
+Deno.test('POST /fuel-entries stores the entry, attaches cached vehicle data and auto-approves it', async () => {
+  const ctx = setup()
+  await ctx.repositories.vehicles.save({ vin: VIN, year: '2003', make: 'HONDA', model: 'Accord', trim: 'EX' })
+
+  const entry = await createEntry(ctx)
+  assertEquals(entry.user_id, PORTER.id)
+  assertEquals(entry.vehicle_make, 'HONDA')
+  assertEquals(entry.created_at, NOW.toISOString())
+  assertEquals(entry.flagged, false)
+  assertEquals(entry.status, 'approved')
+  assertEquals(entry.status_history!.map((change: { status: string }) => change.status), ['submitted', 'approved'])
+
+  assertEquals(await ctx.repositories.entries.get(entry.id), entry)
+  assertEquals(await ctx.repositories.entries.listByUser(PORTER.id), [entry])
+})
+
+Deno.test('POST /fuel-entries ignores ids, ownership and review state sent by the client', async () => {
+  const ctx = setup()
+  const existing = await createEntry(ctx, OTHER_PORTER, { timestamp: '2025-03-01T14:00:00.000Z' })
+
+  const forged = await createEntry(ctx, PORTER, {
+    id: existing.id,
+    user_id: OTHER_PORTER.id,
+    voided: true,
+    revision_count: 7,
+    status: 'approved',
+    status_history: [{ status: 'approved', user_id: ADMIN.id, user_name: 'Admin', automatic: false }]
+  })
+  assert(forged.id !== existing.id)
+  assertEquals([forged.user_id, forged.voided, forged.revision_count], [PORTER.id, false, 0])
+  assertEquals(forged.status_history!.map((change: { user_name: string }) => change.user_name), ['John Porter', 'Auto-approval'])
+
+  assertEquals(await ctx.repositories.entries.get(existing.id), existing)
+  assertEquals((await ctx.repositories.entries.listByUser(OTHER_PORTER.id)).map(entry => entry.id), [existing.id])
+})
+
+Deno.test('POST /fuel-entries returns the saved entry when the outbox resends it', async () => {
+  const ctx = setup()
+  const first = await createEntry(ctx, PORTER, { client_id: 'local-1' })
+  assertEquals(first.client_id, 'local-1')
+
+  const resent = await createEntry(ctx, PORTER, { client_id: 'local-1' })
+  assertEquals(resent.id, first.id)
+  assertEquals((await ctx.repositories.entries.listByUser(PORTER.id)).length, 1)
+
+  // Outbox ids are only unique on one device
+  const other = await createEntry(ctx, OTHER_PORTER, { client_id: 'local-1' })
+  assert(other.id !== first.id)
+})
+
+Deno.test('POST /fuel-entries rejects a malformed VIN, amounts or odometer', async () => {
+  const ctx = setup()
+  for (const overrides of [
+    { vin: 12345 }, { vin: ['1HGCM82633A004352'] }, { gallons: 'lots' }, { gallons: 0 }, { price_per_gallon: -3 },
+    { total_amount: null }, { odometer: undefined }, { odometer: 'Infinity' }
+  ]) {
+    const { status, data } = await ctx.request<ErrorBody>('POST', '/fuel-entries', PORTER, entryData(overrides))
+    assertEquals(status, 400, JSON.stringify(overrides))
+    assert(data.error.startsWith('Invalid value for'))
+  }
+  assertEquals(await ctx.repositories.entries.list(), [])
+
+  // Numbers sent as text are stored as numbers
+  const entry = await createEntry(ctx, PORTER, { gallons: '12.5', odometer: '12000' })
+  assertEquals([entry.gallons, entry.odometer], [12.5, 12000])
+})
+
+Deno.test('POST /fuel-entries flags suspicious fills and holds them for review', async () => {
+  const ctx = setup()
+  await createEntry(ctx)
+
+  const entry = await createEntry(ctx, PORTER, { odometer: 11000, total_amount: 50, timestamp: '2025-03-10T14:30:00.000Z' })
+  assertEquals(entry.flagged, true)
+  assertEquals(entry.flag_reasons, ['odometer_regression', 'frequent_fill', 'amount_mismatch'])
+  assertEquals(entry.status, 'submitted')
+})
+
+Deno.test('POST /fuel-entries records the purpose and suggests a vehicle category from the stock number', async () => {
+  const ctx = setup()
+  assertEquals((await ctx.request('POST', '/fuel-entries', PORTER, entryData({ purpose: 'joyride' }))).status, 400)
+  assertEquals((await ctx.request('POST', '/fuel-entries', PORTER, entryData({ vehicle_category: 'fleet' }))).status, 400)
+
+  // Without rooftop patterns, the usual N/U/L prefixes apply
+  const used = await createEntry(ctx, PORTER, { stock_number: 'u2001', purpose: 'delivery', timestamp: '2025-03-01T14:00:00.000Z' })
+  assertEquals([used.purpose, used.vehicle_category], ['delivery', 'used'])
+  const chosen = await createEntry(ctx, PORTER, { stock_number: 'U2002', vehicle_category: 'loaner', timestamp: '2025-03-03T14:00:00.000Z' })
+  assertEquals([chosen.purpose, chosen.vehicle_category], [null, 'loaner'])
+  assertEquals((await createEntry(ctx, PORTER, { timestamp: '2025-03-05T14:00:00.000Z' })).vehicle_category, null)
+
+  assertEquals((await ctx.request('PUT', `/admin/rooftops/${CHEVROLET.id}`, ADMIN, { used_stock_pattern: 'C(' })).status, 400)
+  await ctx.request('PUT', `/admin/rooftops/${CHEVROLET.id}`, ADMIN, { new_stock_pattern: 'C\\d{5}', loaner_stock_pattern: 'CL\\d{4}' })
+  await ctx.repositories.users.save({ ...OTHER_PORTER, rooftop_id: CHEVROLET.id })
+  assertEquals((await createEntry(ctx, OTHER_PORTER, { stock_number: 'C12345' })).vehicle_category, 'new')
+  // Once a rooftop sets its own patterns the default prefixes no longer apply
+  assertEquals((await createEntry(ctx, OTHER_PORTER, { stock_number: 'U2003', timestamp: '2025-03-07T14:00:00.000Z' })).vehicle_category, null)
+
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${used.id}`, PORTER, { changes: { purpose: 'joyride' }, reason: 'Wrong purpose' })).status, 400)
+  const edited = await ctx.request<EntryUpdate>('PUT', `/fuel-entries/${chosen.id}`, PORTER, { changes: { purpose: 'service', vehicle_category: 'service_customer' }, reason: 'Customer car' })
+  assertEquals(edited.status, 200)
+  assertEquals(edited.data.revision.changes, {
+    purpose: { from: null, to: 'service' },
+    vehicle_category: { from: 'loaner', to: 'service_customer' }
+  })
+})
+
+Deno.test('POST /fuel-entries records the fuel type and flags wrong fuel and unneeded premium', async () => {
+  const ctx = setup()
+  const DIESEL_VIN = '1FTFW1ET5DFC10312'
+  await ctx.repositories.vehicles.save({ vin: VIN, make: 'HONDA', fuel_type: 'Gasoline' })
+  await ctx.repositories.vehicles.save({ vin: DIESEL_VIN, make: 'FORD', fuel_type: 'Diesel' })
+  assertEquals((await ctx.request('POST', '/fuel-entries', PORTER, entryData({ fuel_type: 'kerosene' }))).status, 400)
+
+  // Older clients sent the label
+  const regular = await createEntry(ctx, PORTER, { timestamp: '2025-03-01T14:00:00.000Z' })
+  assertEquals([regular.fuel_type, regular.flag_reasons], ['regular', []])
+
+  // Nobody has said whether the Honda needs premium yet
+  const unclassified = await createEntry(ctx, PORTER, { fuel_type: 'premium', timestamp: '2025-03-02T14:00:00.000Z' })
+  assertEquals(unclassified.flag_reasons, [])
+
+  assertEquals((await ctx.request('PUT', `/admin/vehicles/${VIN}`, MANAGER, { premium_required: false })).status, 403)
+  assertEquals((await ctx.request('PUT', '/admin/vehicles/1HGCM82633A000000', ADMIN, { premium_required: false })).status, 404)
+  assertEquals((await ctx.request('PUT', `/admin/vehicles/${VIN}`, ADMIN, { premium_required: 'no' })).status, 400)
+  const regularOnly = await ctx.request<Vehicle>('PUT', `/admin/vehicles/${VIN.toLowerCase()}`, ADMIN, { premium_required: false })
+  assertEquals([regularOnly.status, regularOnly.data.premium_required], [200, false])
+
+  const premium = await createEntry(ctx, PORTER, { fuel_type: 'premium', timestamp: '2025-03-04T14:00:00.000Z' })
+  assertEquals([premium.flag_reasons, premium.status], [['premium_fuel'], 'submitted'])
+
+  const gasInDiesel = await createEntry(ctx, PORTER, { stock_number: 'T100', vin: DIESEL_VIN, fuel_type: 'regular' })
+  assertEquals(gasInDiesel.flag_reasons, ['fuel_type_mismatch'])
+  // Without a fuel type, a diesel gets diesel
+  const defaulted = await createEntry(ctx, PORTER, { stock_number: 'T100', vin: DIESEL_VIN, fuel_type: undefined, timestamp: '2025-03-12T14:00:00.000Z' })
+  assertEquals([defaulted.fuel_type, defaulted.flag_reasons], ['diesel', []])
+
+  // Vehicles marked as needing premium aren't flagged for it, and default to it
+  await ctx.request('PUT', `/admin/vehicles/${VIN}`, ADMIN, { premium_required: true })
+  assertEquals((await createEntry(ctx, PORTER, { fuel_type: 'Premium', timestamp: '2025-03-06T14:00:00.000Z' })).flag_reasons, [])
+  assertEquals((await createEntry(ctx, PORTER, { fuel_type: undefined, timestamp: '2025-03-08T14:00:00.000Z' })).fuel_type, 'premium')
+
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${gasInDiesel.id}`, PORTER, { changes: { fuel_type: '' }, reason: 'Pump' })).status, 400)
+  const corrected = await ctx.request<EntryUpdate>('PUT', `/fuel-entries/${gasInDiesel.id}`, PORTER, { changes: { fuel_type: 'Diesel' }, reason: 'Wrong pump on the form' })
+  assertEquals(corrected.status, 200)
+  assertEquals(corrected.data.revision.changes.fuel_type, { from: 'regular', to: 'diesel' })
+  assertEquals(corrected.data.entry.flag_reasons, [])
+})
+
+Deno.test('GET /fuel-entries scopes porters to their own entries and pages newest first', async () => {
+  const ctx = setup()
+  const first = await createEntry(ctx, PORTER, { timestamp: '2025-03-08T10:00:00.000Z', stock_number: 'A1', vin: null })
+  const second = await createEntry(ctx, PORTER, { timestamp: '2025-03-09T10:00:00.000Z', stock_number: 'A2', vin: null })
+  const other = await createEntry(ctx, OTHER_PORTER, { timestamp: '2025-03-10T10:00:00.000Z', stock_number: 'B1', vin: null })
+
+  const own = await ctx.request<EntryList>('GET', '/fuel-entries?user_id=porter-2', PORTER)
+  assertEquals(own.data.entries.map((entry: { id: string }) => entry.id), [second.id, first.id])
+
+  const page = await ctx.request<EntryList>('GET', '/fuel-entries?limit=2', ADMIN)
+  assertEquals(page.data.entries.map((entry: { id: string }) => entry.id), [other.id, second.id])
+  assertExists(page.data.next_cursor)
+
+  const next = await ctx.request<EntryList>('GET', `/fuel-entries?limit=2&cursor=${encodeURIComponent(page.data.next_cursor)}`, ADMIN)
+  assertEquals(next.data.entries.map((entry: { id: string }) => entry.id), [first.id])
+  assertEquals(next.data.next_cursor, null)
+
+  const filtered = await ctx.request<EntryList>('GET', '/fuel-entries?stock_number=a2', ADMIN)
+  assertEquals(filtered.data.entries.map((entry: { id: string }) => entry.id), [second.id])
+
+  // RO numbers saved before they were upper-cased are still found
+  await ctx.repositories.entries.save({ ...first, ro_number: 'ro-778' })
+  const byRo = await ctx.request<EntryList>('GET', '/fuel-entries?search=RO-778', ADMIN)
+  assertEquals(byRo.data.entries.map((entry: { id: string }) => entry.id), [first.id])
+
+  assertEquals((await ctx.request('GET', '/fuel-entries?cursor=not-a-cursor', ADMIN)).status, 400)
+})
+
+Deno.test('PUT /fuel-entries/:id records a revision and resubmits porter corrections', async () => {
+  const ctx = setup()
+  const entry = await createEntry(ctx)
+
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${entry.id}`, PORTER, { changes: { gallons: 12 } })).status, 400)
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${entry.id}`, PORTER, { changes: { gallons: -1 }, reason: 'Typo' })).status, 400)
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${entry.id}`, PORTER, { changes: { gallons: 10 }, reason: 'Typo' })).status, 400)
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${entry.id}`, OTHER_PORTER, { changes: { gallons: 12 }, reason: 'Typo' })).status, 403)
+  assertEquals((await ctx.request('PUT', '/fuel-entries/missing', PORTER, { changes: { gallons: 12 }, reason: 'Typo' })).status, 404)
+
+  const { status, data } = await ctx.request<EntryUpdate>('PUT', `/fuel-entries/${entry.id}`, PORTER, { changes: { gallons: 12, total_amount: 42 }, reason: 'Typo' })
+  assertEquals(status, 200)
+  assertEquals(data.entry.gallons, 12)
+  assertEquals(data.entry.price_per_gallon, 3.5)
+  assertEquals(data.entry.revision_count, 1)
+  assertEquals(data.revision.changes.gallons, { from: 10, to: 12 })
+  assertEquals(data.entry.status_history!.at(-2)!.note, 'Edited: Typo')
+})
+
+Deno.test('PUT /fuel-entries/:id closes the porter edit window but not the admin one', async () => {
+  const ctx = setup()
+  const entry = await createEntry(ctx)
+  ctx.clock.current = new Date(NOW.getTime() + 25 * 60 * 60 * 1000)
+
+  const late = await ctx.request('PUT', `/fuel-entries/${entry.id}`, PORTER, { changes: { odometer: 12500 }, reason: 'Misread' })
+  assertEquals(late.status, 403)
+
+  const admin = await ctx.request<EntryUpdate>('PUT', `/fuel-entries/${entry.id}`, ADMIN, { changes: { odometer: 12500 }, reason: 'Misread' })
+  assertEquals(admin.status, 200)
+  assertEquals(admin.data.entry.status, 'approved')
+  assertEquals(admin.data.entry.updated_at, ctx.clock.current.toISOString())
+})
+
+Deno.test('POST /fuel-entries/:id/void voids once and blocks later edits', async () => {
+  const ctx = setup()
+  const entry = await createEntry(ctx)
+
+  assertEquals((await ctx.request('POST', `/fuel-entries/${entry.id}/void`, PORTER, {})).status, 400)
+
+  const { status, data } = await ctx.request<EntryUpdate>('POST', `/fuel-entries/${entry.id}/void`, PORTER, { reason: 'Duplicate' })
+  assertEquals(status, 200)
+  assertEquals(data.entry.voided, true)
+  assertEquals(data.entry.void_reason, 'Duplicate')
+
+  assertEquals((await ctx.request('POST', `/fuel-entries/${entry.id}/void`, PORTER, { reason: 'Again' })).status, 400)
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${entry.id}`, PORTER, { changes: { gallons: 12 }, reason: 'Typo' })).status, 400)
+})
+
+Deno.test('GET /fuel-entries/:id/revisions is limited to the owner and admins', async () => {
+  const ctx = setup()
+  const entry = await createEntry(ctx)
+  await ctx.request('PUT', `/fuel-entries/${entry.id}`, PORTER, { changes: { odometer: 12100 }, reason: 'Misread' })
+
+  const { status, data } = await ctx.request<EntryRevision[]>('GET', `/fuel-entries/${entry.id}/revisions`, ADMIN)
+  assertEquals(status, 200)
+  assertEquals(data.length, 1)
+  assertEquals(data[0].reason, 'Misread')
+
+  assertEquals((await ctx.request('GET', `/fuel-entries/${entry.id}/revisions`, PORTER)).status, 200)
+  assertEquals((await ctx.request('GET', `/fuel-entries/${entry.id}/revisions`, OTHER_PORTER)).status, 403)
+  assertEquals((await ctx.request('GET', '/fuel-entries/missing/revisions', ADMIN)).status, 404)
+})
+
+Deno.test('POST /fuel-entries/:id/review and /respond move an entry through the approval workflow', async () => {
+  const ctx = setup()
+  const entry = await createEntry(ctx, PORTER, { total_amount: 500, gallons: 100, price_per_gallon: 5 })
+  assertEquals(entry.status, 'submitted')
+
+  assertEquals((await ctx.request('POST', `/fuel-entries/${entry.id}/review`, PORTER, { decision: 'approved' })).status, 403)
+  assertEquals((await ctx.request('POST', `/fuel-entries/${entry.id}/review`, ADMIN, { decision: 'maybe' })).status, 400)
+  assertEquals((await ctx.request('POST', `/fuel-entries/${entry.id}/review`, ADMIN, { decision: 'rejected' })).status, 400)
+  assertEquals((await ctx.request('POST', `/fuel-entries/${entry.id}/respond`, PORTER, { response: 'Receipt attached' })).status, 400)
+
+  const asked = await ctx.request<{ entry: FuelEntry }>('POST', `/fuel-entries/${entry.id}/review`, ADMIN, { decision: 'needs_info', note: 'Which truck?' })
+  assertEquals(asked.status, 200)
+  assertEquals(asked.data.entry.status, 'needs_info')
+
+  assertEquals((await ctx.request('POST', `/fuel-entries/${entry.id}/respond`, OTHER_PORTER, { response: 'No idea' })).status, 403)
+  const answered = await ctx.request<{ entry: FuelEntry }>('POST', `/fuel-entries/${entry.id}/respond`, PORTER, { response: 'The box truck' })
+  assertEquals(answered.status, 200)
+  assertEquals(answered.data.entry.status, 'submitted')
+
+  const approved = await ctx.request<{ entry: FuelEntry }>('POST', `/fuel-entries/${entry.id}/review`, ADMIN, { decision: 'approved' })
+  assertEquals(approved.data.entry.status, 'approved')
+  assertEquals((await ctx.request('POST', `/fuel-entries/${entry.id}/review`, ADMIN, { decision: 'approved' })).status, 400)
+})
+
+Deno.test('POST /fuel-entries/:id/review refuses reviewers deciding on their own entries', async () => {
+  const ctx = setup()
+  await ctx.request('PUT', '/admin/approval-settings', ADMIN, { auto_approve_enabled: false })
+  const own = await createEntry(ctx, MANAGER)
+  assertEquals(own.status, 'submitted')
+
+  assertEquals((await ctx.request('POST', `/fuel-entries/${own.id}/review`, MANAGER, { decision: 'approved' })).status, 403)
+  assertEquals((await ctx.request('POST', `/fuel-entries/${own.id}/review`, MANAGER, { decision: 'rejected', note: 'Mine' })).status, 403)
+  assertEquals((await ctx.repositories.entries.get(own.id))?.status, 'submitted')
+
+  const reviewed = await ctx.request<{ entry: FuelEntry }>('POST', `/fuel-entries/${own.id}/review`, ADMIN, { decision: 'approved' })
+  assertEquals(reviewed.status, 200)
+  assertEquals(reviewed.data.entry.status, 'approved')
+})
+
+Deno.test('GET and PUT /admin/approval-settings change the auto-approve limits', async () => {
+  const ctx = setup()
+  assertEquals((await ctx.request('GET', '/admin/approval-settings', PORTER)).status, 403)
+
+  const current = await ctx.request<ApprovalSettings>('GET', '/admin/approval-settings', ADMIN)
+  assertEquals(current.data.auto_approve_enabled, true)
+
+  const updated = await ctx.request<ApprovalSettings>('PUT', '/admin/approval-settings', ADMIN, { auto_approve_enabled: false })
+  assertEquals(updated.data.auto_approve_enabled, false)
+  assertEquals(updated.data.max_auto_approve_amount, current.data.max_auto_approve_amount)
+
+  const entry = await createEntry(ctx)
+  assertEquals(entry.status, 'submitted')
+})
+
+Deno.test('GET /organization is public and PUT /admin/organization changes branding and email domains', async () => {
+  const ctx = setup()
+
+  const current = await ctx.request<OrganizationSettings>('GET', '/organization', null)
+  assertEquals(current.status, 200)
+  assertEquals(current.data.allowed_email_domains, ['napleton.com'])
+  assertEquals(current.data.logo_url, null)
+
+  assertEquals((await ctx.request('PUT', '/admin/organization', MANAGER, { display_name: 'Other' })).status, 403)
+  assertEquals((await ctx.request('PUT', '/admin/organization', ADMIN, { allowed_email_domains: [] })).status, 400)
+  assertEquals((await ctx.request('PUT', '/admin/organization', ADMIN, { allowed_email_domains: 'not a domain' })).status, 400)
+  assertEquals((await ctx.request('PUT', '/admin/organization', ADMIN, { primary_color: 'blue' })).status, 400)
+  assertEquals((await ctx.request('PUT', '/admin/organization', ADMIN, { logo_url: 'http://example.com/logo.png' })).status, 400)
+
+  const updated = await ctx.request<OrganizationSettings>('PUT', '/admin/organization', ADMIN, {
+    display_name: ' Lakeside Auto Group ',
+    allowed_email_domains: '@LakesideAuto.com, napleton.com',
+    logo_url: 'data:image/png;base64,iVBORw0KGgo=',
+    primary_color: '#AA3300',
+    support_email: 'help@lakesideauto.com'
+  })
+  assertEquals(updated.status, 200)
+  assertEquals(updated.data.display_name, 'Lakeside Auto Group')
+  assertEquals(updated.data.allowed_email_domains, ['lakesideauto.com', 'napleton.com'])
+  assertEquals(updated.data.primary_color, '#aa3300')
+  assertEquals(updated.data.accent_color, current.data.accent_color)
+  assertEquals((await ctx.request<OrganizationSettings>('GET', '/organization', null)).data.support_email, 'help@lakesideauto.com')
+
+  const signup = await ctx.request('POST', '/signup', null, { email: 'new@lakesideauto.com', password: 'secret1', name: 'New Porter' })
+  assertEquals(signup.status, 200)
+
+  await ctx.request('PUT', '/admin/organization', ADMIN, { allowed_email_domains: ['lakesideauto.com'] })
+  const rejected = await ctx.request<ErrorBody>('POST', '/admin/invites', ADMIN, { email: 'someone@napleton.com', name: 'Someone', role: 'porter' })
+  assertEquals(rejected.status, 400)
+  assertEquals(rejected.data.error, 'Only @lakesideauto.com email addresses are allowed')
+})
+
+Deno.test('POST /upload-photo stores the file under the caller and returns a signed URL', async () => {
+  const ctx = setup()
+  const form = new FormData()
+  form.append('photo', new File(['receipt'], 'receipt.jpg', { type: 'image/jpeg' }))
+
+  const response = await ctx.app.request('/upload-photo', { method: 'POST', headers: { 'Authorization': `Bearer token-${PORTER.id}` }, body: form })
+  assertEquals(response.status, 200)
+  const data = await response.json()
+  assert(data.path.startsWith(`${PORTER.id}/`))
+  assert(data.path.endsWith('.jpg'))
+  assertEquals(data.url, `https://storage.test/${data.path}?expires=604800`)
+  assert(ctx.files.has(data.path))
+  assertEquals(await ctx.repositories.photos.get(data.path), {
+    path: data.path,
+    user_id: PORTER.id,
+    file_name: 'receipt.jpg',
+    content_type: 'image/jpeg',
+    size: 7,
+    created_at: NOW.toISOString()
+  })
+
+  const empty = await ctx.app.request('/upload-photo', { method: 'POST', headers: { 'Authorization': `Bearer token-${PORTER.id}` }, body: new FormData() })
+  assertEquals(empty.status, 400)
+})
+
+Deno.test('admin user routes list, update and delete users', async () => {
+  const ctx = setup()
+  const entry = await createEntry(ctx, OTHER_PORTER)
+
+  assertEquals((await ctx.request('GET', '/admin/users', PORTER)).status, 403)
+  assertEquals((await ctx.request<UserProfile[]>('GET', '/admin/users', ADMIN)).data.length, 6)
+
+  const promoted = await ctx.request<UserProfile>('PUT', `/admin/users/${OTHER_PORTER.id}/role`, ADMIN, { role: 'admin' })
+  assertEquals(promoted.data.role, 'admin')
+  assertEquals((await ctx.request('PUT', '/admin/users/missing/role', ADMIN, { role: 'admin' })).status, 404)
+  assertEquals((await ctx.request('PUT', `/admin/users/${OTHER_PORTER.id}/role`, ADMIN, { role: 'owner' })).status, 400)
+
+  assertEquals((await ctx.request('DELETE', `/admin/users/${OTHER_PORTER.id}`, PORTER)).status, 403)
+  assertEquals((await ctx.request('DELETE', `/admin/users/${OTHER_PORTER.id}`, ADMIN)).status, 200)
+  assertEquals(await ctx.repositories.users.get(OTHER_PORTER.id), null)
+  assertEquals(await ctx.repositories.entries.get(entry.id), null)
+})
+
+Deno.test('POST /admin/rebuild-indexes reports and repairs the entry index', async () => {
+  const ctx = setup()
+  await createEntry(ctx)
+
+  assertEquals((await ctx.request('POST', '/admin/rebuild-indexes', PORTER, {})).status, 403)
+
+  const { status, data } = await ctx.request<IndexRebuildReport>('POST', '/admin/rebuild-indexes', ADMIN, { dry_run: true })
+  assertEquals(status, 200)
+  assertEquals(data.dry_run, true)
+  assertEquals(data.entries_scanned, 1)
+  assertEquals(data.unindexed_entries, [])
+  assertEquals(data.dangling_index_keys, [])
+  assertEquals([data.unindexed_vehicle_keys, data.dangling_vehicle_keys], [0, 0])
+})
+
+Deno.test('POST /decode-vin validates, decodes through NHTSA and caches the result', async () => {
+  const ctx = setup()
+
+  assertEquals((await ctx.request('POST', '/decode-vin', PORTER, {})).status, 400)
+  assertEquals((await ctx.request('POST', '/decode-vin', PORTER, { vin: 'SHORT' })).status, 400)
+  assertEquals((await ctx.request('POST', '/decode-vin', PORTER, { vin: '1HGCM82633A004353' })).status, 400)
+
+  const decoded = await ctx.request<Vehicle>('POST', '/decode-vin', PORTER, { vin: VIN.toLowerCase() })
+  assertEquals(decoded.status, 200)
+  assertEquals(decoded.data.valid, true)
+  assertEquals(decoded.data.make, 'HONDA')
+  assertEquals(decoded.data.cached_at, NOW.toISOString())
+
+  await ctx.request('POST', '/decode-vin', PORTER, { vin: VIN })
+  assertEquals(ctx.fetchCalls.length, 1)
+})
+
+Deno.test('POST /decode-vin caches NHTSA failures', async () => {
+  const ctx = setup({ fetch: (async () => new Response('down', { status: 503 })) as typeof fetch })
+
+  const { status, data } = await ctx.request<Vehicle>('POST', '/decode-vin', PORTER, { vin: VIN })
+  assertEquals(status, 500)
+  assertEquals(data.valid, false)
+  assertEquals((await ctx.repositories.vehicles.get(VIN))?.error, 'Failed to decode VIN via NHTSA API')
+})
+
+Deno.test('GET /vehicles/:vin and /admin/vehicles read the vehicle cache', async () => {
+  const ctx = setup()
+  await ctx.repositories.vehicles.save({ vin: VIN, make: 'HONDA' })
+
+  assertEquals((await ctx.request<Vehicle>('GET', `/vehicles/${VIN.toLowerCase()}`, PORTER)).data.make, 'HONDA')
+  assertEquals((await ctx.request('GET', '/vehicles/1FTFW1ET5DFC10312', PORTER)).status, 404)
+
+  assertEquals((await ctx.request('GET', '/admin/vehicles', PORTER)).status, 403)
+  assertEquals((await ctx.request('GET', '/admin/vehicles', ADMIN)).data, [{ vin: VIN, make: 'HONDA' }])
+})
+
+Deno.test('GET /vehicles/:id/fuel-history returns fills by stock number', async () => {
+  const ctx = setup()
+  await createEntry(ctx, PORTER, { timestamp: '2025-03-01T10:00:00.000Z', odometer: 11000 })
+  await createEntry(ctx, PORTER, { timestamp: '2025-03-05T10:00:00.000Z', odometer: 11300 })
+  await createEntry(ctx, OTHER_PORTER, { timestamp: '2025-03-09T10:00:00.000Z', odometer: 11600 })
+
+  const porterView = await ctx.request<VehicleHistory>('GET', '/vehicles/A1234/fuel-history', PORTER)
+  assertEquals(porterView.status, 200)
+  assertEquals(porterView.data.stock_number, 'A1234')
+  assertEquals(porterView.data.vin, VIN)
+  assertEquals(porterView.data.fills.length, 2)
+
+  const adminView = await ctx.request<VehicleHistory>('GET', '/vehicles/A1234/fuel-history', ADMIN)
+  assertEquals(adminView.data.fills.length, 3)
+})
+
+Deno.test('GET /admin/export returns every entry as RFC 4180 CSV', async () => {
+  const ctx = setup()
+  await createEntry(ctx, PORTER, { notes: 'Said "full", then\nleft, quickly' })
+
+  assertEquals((await ctx.request('GET', '/admin/export', PORTER)).status, 403)
+
+  const { status, data, headers } = await ctx.request<string>('GET', '/admin/export', ADMIN)
+  assertEquals(status, 200)
+  assertEquals(headers.get('Content-Type'), 'text/csv; charset=utf-8')
+  assertEquals(headers.get('Content-Disposition'), 'attachment; filename="fueltrakr-export-2025-03-10.csv"')
+  assert(data.startsWith('Entry ID,Date/Time,Rooftop,'))
+  assert(data.includes('"Said ""full"", then\nleft, quickly"'))
+  assert(data.endsWith('\r\n'))
+
+  const rows = parseCsv(data)
+  assertEquals(rows.length, 2)
+  const row = Object.fromEntries(rows[0].map((label, i) => [label, rows[1][i]]))
+  assertEquals(row['User Name'], 'John Porter')
+  // Entries without a rooftop are shown on Chicago time
+  assertEquals(row['Date/Time'], '2025-03-10 09:00:00')
+  assertEquals(row['Status'], 'Approved')
+  assertEquals(row['Notes'], 'Said "full", then\nleft, quickly')
+
+  // Reading the body as text drops the BOM that tells Excel the file is UTF-8
+  const raw = await ctx.app.request('/admin/export', { headers: { Authorization: `Bearer token-${ADMIN.id}` } })
+  assertEquals([...new Uint8Array(await raw.arrayBuffer()).slice(0, 3)], [0xef, 0xbb, 0xbf])
+})
+
+Deno.test('GET /admin/export keeps text that looks like a formula from running in a spreadsheet', async () => {
+  const ctx = setup()
+  await createEntry(ctx, PORTER, { notes: '=HYPERLINK("http://evil.test","Click")', stock_number: '@SUM(A1)' })
+
+  const rows = parseCsv((await ctx.request<string>('GET', '/admin/export?columns=stock_number,notes,total_amount', ADMIN)).data)
+  assertEquals(rows[1], ["'@SUM(A1)", '35', `'=HYPERLINK("http://evil.test","Click")`])
+
+  assertEquals(formatCsvField('+1 555 0100'), "'+1 555 0100")
+  assertEquals(formatCsvField('-cmd'), "'-cmd")
+  // Amounts are left as numbers, negative or not
+  assertEquals(formatCsvField('-12.50'), '-12.50')
+  assertEquals(formatCsvField(-12.5), '-12.5')
+})
+
+Deno.test('GET /admin/export filters entries and limits columns', async () => {
+  const ctx = setup()
+  const early = await createEntry(ctx, PORTER, { timestamp: '2025-03-01T14:00:00.000Z', receipt_photo: 'porter-1/receipt.jpg' })
+  await createEntry(ctx, PORTER, { timestamp: '2025-03-09T14:00:00.000Z', odometer: 12500 })
+  await createEntry(ctx, OTHER_PORTER, { timestamp: '2025-03-02T14:00:00.000Z', receipt_photo: 'data:image/jpeg;base64,abc' })
+
+  const { status, data } = await ctx.request<string>('GET', `/admin/export?from=2025-03-01&to=2025-03-05&user_id=${PORTER.id}&columns=total_amount,id,receipt_photo`, ADMIN)
+  assertEquals(status, 200)
+  const rows = parseCsv(data)
+  // Columns keep their usual order
+  assertEquals(rows, [
+    ['Entry ID', 'Total Amount', 'Receipt Photo'],
+    [early.id, '35', 'https://storage.test/porter-1/receipt.jpg?expires=604800']
+  ])
+
+  // Inline images can't be linked to
+  const inlinePhoto = await ctx.request('GET', `/admin/export?user_id=${OTHER_PORTER.id}&columns=receipt_photo`, ADMIN)
+  assertEquals(inlinePhoto.data, 'Receipt Photo\r\n\r\n')
+
+  const byStatus = parseCsv((await ctx.request<string>('GET', '/admin/export?status=submitted', ADMIN)).data)
+  assertEquals(byStatus.length, 1)
+
+  assertEquals((await ctx.request('GET', '/admin/export?columns=id,secret', ADMIN)).status, 400)
+  assertEquals((await ctx.request('GET', '/admin/export?format=pdf', ADMIN)).status, 400)
+})
+
+Deno.test('GET /admin/export builds an XLSX workbook with a summary sheet', async () => {
+  const ctx = setup()
+  await createEntry(ctx)
+  await createEntry(ctx, OTHER_PORTER, { total_amount: 50, gallons: 12.5 })
+
+  const response = await ctx.app.request('/admin/export?format=xlsx', { headers: { Authorization: `Bearer token-${ADMIN.id}` } })
+  assertEquals(response.status, 200)
+  assertEquals(response.headers.get('Content-Type'), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+  assertEquals(response.headers.get('Content-Disposition'), 'attachment; filename="fueltrakr-export-2025-03-10.xlsx"')
+
+  const bytes = new Uint8Array(await response.arrayBuffer())
+  // A ZIP archive; its parts are stored uncompressed, so the XML can be read straight out of it
+  assertEquals([...bytes.slice(0, 4)], [0x50, 0x4b, 0x03, 0x04])
+  const text = new TextDecoder().decode(bytes)
+  assert(text.includes('<sheet name="Entries" sheetId="1" r:id="rId1"/><sheet name="Summary" sheetId="2" r:id="rId2"/>'))
+  assert(text.includes('<t>Jane Porter</t>'))
+  assert(text.includes('<t>Napleton Automotive Group Fuel Entries</t>'))
+  // Two entries totalling $85
+  assert(text.includes('<t>Total Amount</t></is></c><c r="B13" s="3"><v>85</v>'))
+})
+
+Deno.test('GET /admin/export breaks spend down by purpose and vehicle category', async () => {
+  const ctx = setup()
+  await ctx.request('PUT', '/admin/gl-mapping', ADMIN, {
+    default_account: 'Fuel Expense',
+    credit_account: 'Fuel Card Payable',
+    rules: [{ vehicle_category: 'loaner', account: 'Loaner Fleet' }]
+  })
+  await createEntry(ctx, PORTER, { stock_number: 'N1001', purpose: 'delivery', timestamp: '2025-03-01T14:00:00.000Z' })
+  await createEntry(ctx, PORTER, { stock_number: 'L1001', purpose: 'loaner', total_amount: 52.5, gallons: 15, timestamp: '2025-03-03T14:00:00.000Z' })
+  await createEntry(ctx, OTHER_PORTER)
+
+  const { data } = await ctx.request<string>('GET', '/admin/export?columns=stock_number,vehicle_category,purpose,gl_account', ADMIN)
+  assertEquals(parseCsv(data), [
+    ['Stock Number', 'Vehicle Category', 'Purpose', 'GL Account'],
+    ['N1001', 'New', 'Customer delivery', 'Fuel Expense'],
+    ['L1001', 'Loaner', 'Loaner fleet', 'Loaner Fleet'],
+    ['A1234', '', '', 'Fuel Expense']
+  ])
+
+  const response = await ctx.app.request('/admin/export?format=xlsx', { headers: { Authorization: `Bearer token-${ADMIN.id}` } })
+  const text = new TextDecoder().decode(new Uint8Array(await response.arrayBuffer()))
+  assert(text.includes('<t>Vehicle Category</t>'))
+  assert(text.includes('<t>Loaner fleet</t></is></c><c r="B'))
+  assert(text.includes('<t>Not recorded</t>'))
+})
+
+Deno.test('PUT /admin/gl-mapping validates rules and assigns ids', async () => {
+  const ctx = setup()
+  assertEquals((await ctx.request<GlMapping>('GET', '/admin/gl-mapping', ACCOUNTANT)).data.default_account, 'Fuel Expense')
+
+  const mapping = {
+    default_account: '6400 Fuel Expense',
+    credit_account: '2150 Fuel Card Payable',
+    rules: [{ stock_number_prefix: 'n', account: '1400 New Inventory', department: 'New', label: 'New inventory' }]
+  }
+  assertEquals((await ctx.request('PUT', '/admin/gl-mapping', ACCOUNTANT, mapping)).status, 403)
+
+  const saved = await ctx.request<GlMapping>('PUT', '/admin/gl-mapping', ADMIN, mapping)
+  assertEquals(saved.status, 200)
+  assertEquals(saved.data.rules[0].stock_number_prefix, 'N')
+  assertExists(saved.data.rules[0].id)
+  assertEquals((await ctx.request('GET', '/admin/gl-mapping', ACCOUNTANT)).data, saved.data)
+
+  for (const rules of [
+    [{ stock_number_prefix: 'U' }],
+    [{ account: 'Everything' }],
+    [{ rooftop_id: 'rooftop-nowhere', account: 'Elsewhere' }],
+    [{ vehicle_category: 'fleet', account: 'Fleet' }]
+  ]) {
+    assertEquals((await ctx.request('PUT', '/admin/gl-mapping', ADMIN, { ...mapping, rules })).status, 400)
+  }
+  assertEquals((await ctx.request('PUT', '/admin/gl-mapping', ADMIN, { ...mapping, credit_account: ' ' })).status, 400)
+})
+
+Deno.test('GET /admin/journal-export posts approved entries to mapped accounts', async () => {
+  const ctx = setup()
+  await ctx.request('PUT', '/admin/gl-mapping', ADMIN, {
+    default_account: 'Fuel Expense',
+    default_department: 'Lot',
+    credit_account: 'Fuel Card Payable',
+    rules: [
+      { stock_number_prefix: 'U', account: 'Used Inventory', department: 'Used' },
+      { vehicle_type: 'truck', rooftop_id: KIA.id, account: 'Kia Trucks' },
+      { stock_number_prefix: 'N', account: 'New Inventory', department: 'New' }
+    ]
+  })
+  await ctx.repositories.users.save({ ...OTHER_PORTER, rooftop_id: KIA.id })
+  await ctx.repositories.vehicles.save({ vin: VIN, vehicle_type: 'TRUCK' })
+
+  // Days apart, so none of them is flagged as a frequent fill and held for review
+  const used = await createEntry(ctx, PORTER, { stock_number: 'U2001', price_per_gallon: 4.05, total_amount: 40.5, timestamp: '2025-03-01T14:00:00.000Z', odometer: 11000 })
+  const truck = await createEntry(ctx, OTHER_PORTER, { stock_number: 'N3001', timestamp: '2025-03-05T03:00:00.000Z', odometer: 11500 })
+  const voided = await createEntry(ctx, PORTER, { stock_number: 'N4001', timestamp: '2025-03-07T14:00:00.000Z', odometer: 11800 })
+  const plain = await createEntry(ctx, PORTER, { stock_number: 'A1234', vin: '' })
+  await ctx.request('POST', `/fuel-entries/${voided.id}/void`, ADMIN, { reason: 'Duplicate' })
+
+  const csv = await ctx.request<string>('GET', '/admin/journal-export', ACCOUNTANT)
+  assertEquals(csv.status, 200)
+  assertEquals(csv.headers.get('Content-Disposition'), 'attachment; filename="fueltrakr-journal-2025-03-10.csv"')
+  const rows = parseCsv(csv.data)
+  assertEquals(rows[0], ['Date', 'Reference', 'Account', 'Department', 'Debit', 'Credit', 'Memo'])
+  // Debit and credit rows for each of the three live entries; the voided one isn't posted
+  assertEquals(rows.length, 7)
+  const debits = rows.slice(1).filter(row => row[4])
+  assertEquals(debits.map(row => [row[1], row[2], row[3], row[4]]), [
+    [used.id, 'Used Inventory', 'Used', '40.50'],
+    // The rooftop rule comes before the N prefix rule, so the truck lands in its account
+    [truck.id, 'Kia Trucks', '', '35.00'],
+    [plain.id, 'Fuel Expense', 'Lot', '35.00']
+  ])
+  // Kia is on New York time, where 03:00 UTC is still the day before
+  assertEquals(debits[1][0], '2025-03-04')
+  assertEquals(rows.slice(1).filter(row => row[5]).map(row => row[2]), ['Fuel Card Payable', 'Fuel Card Payable', 'Fuel Card Payable'])
+
+  const iif = await ctx.request<string>('GET', `/admin/journal-export?format=iif&user_id=${PORTER.id}`, ACCOUNTANT)
+  assertEquals(iif.status, 200)
+  assertEquals(iif.headers.get('Content-Disposition'), 'attachment; filename="fueltrakr-journal-2025-03-10.iif"')
+  const lines = iif.data.split('\r\n')
+  assertEquals(lines.slice(0, 3), [
+    '!TRNS\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO',
+    '!SPL\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO',
+    '!ENDTRNS'
+  ])
+  assertEquals(lines.slice(3, 6), [
+    'TRNS\tGENERAL JOURNAL\t03/01/2025\tFuel Card Payable\t\t-40.50\tU2001\tFuel - stock U2001 - 10 gal - John Porter',
+    'SPL\tGENERAL JOURNAL\t03/01/2025\tUsed Inventory\tUsed\t40.50\tU2001\tFuel - stock U2001 - 10 gal - John Porter',
+    'ENDTRNS'
+  ])
+  assertEquals(lines.length, 10)
+
+  // Entries waiting for review are only posted when asked for
+  const pending = await createEntry(ctx, PORTER, { total_amount: 500 })
+  assertEquals(pending.status, 'submitted')
+  assert(!(await ctx.request<string>('GET', '/admin/journal-export', ACCOUNTANT)).data.includes(pending.id))
+  assert((await ctx.request<string>('GET', '/admin/journal-export?status=submitted', ACCOUNTANT)).data.includes(pending.id))
+
+  assertEquals((await ctx.request('GET', '/admin/journal-export?format=qbo', ACCOUNTANT)).status, 400)
+
+  // The same accounts appear in the regular export
+  const exported = parseCsv((await ctx.request<string>('GET', `/admin/export?columns=stock_number,gl_account,department&user_id=${PORTER.id}`, ADMIN)).data)
+  assertEquals(exported[1], ['U2001', 'Used Inventory', 'Used'])
+})
+
+Deno.test('RO numbers are checked against the configured format', async () => {
+  const ctx = setup()
+  assertEquals((await ctx.request('PUT', '/admin/chargeback-settings', ACCOUNTANT, { ro_number_pattern: '\\d{6}' })).status, 403)
+  assertEquals((await ctx.request('PUT', '/admin/chargeback-settings', ADMIN, { ro_number_pattern: '(\\d{6}' })).status, 400)
+  assertEquals((await ctx.request('PUT', '/admin/chargeback-settings', ADMIN, { op_code: ' ' })).status, 400)
+
+  const saved = await ctx.request('PUT', '/admin/chargeback-settings', ADMIN, { ro_number_pattern: '\\d{6}', ro_number_example: '123456', op_code: 'fuel1' })
+  assertEquals(saved.data, { ro_number_pattern: '\\d{6}', ro_number_example: '123456', op_code: 'FUEL1' })
+  assertEquals((await ctx.request('GET', '/chargeback-settings', PORTER)).data, saved.data)
+
+  const rejected = await ctx.request<ErrorBody>('POST', '/fuel-entries', PORTER, entryData({ ro_number: 'AB12' }))
+  assertEquals(rejected.status, 400)
+  assertEquals(rejected.data.error, "RO number AB12 doesn't match the RO format (like 123456)")
+
+  const entry = await createEntry(ctx, PORTER, { ro_number: ' 123456 ' })
+  assertEquals(entry.ro_number, '123456')
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${entry.id}`, PORTER, { changes: { ro_number: '12345' }, reason: 'Typo' })).status, 400)
+  const cleared = await ctx.request<EntryUpdate>('PUT', `/fuel-entries/${entry.id}`, PORTER, { changes: { ro_number: '' }, reason: 'Not a service car' })
+  assertEquals(cleared.data.entry.ro_number, null)
+})
+
+Deno.test('open chargebacks are grouped by RO, exported for billing and marked billed', async () => {
+  const ctx = setup()
+  await ctx.repositories.users.save({ ...PORTER, rooftop_id: KIA.id })
+
+  // Days apart, so none of them is flagged as a frequent fill
+  const first = await createEntry(ctx, PORTER, { ro_number: '5001', timestamp: '2025-03-01T14:00:00.000Z', odometer: 11000 })
+  const second = await createEntry(ctx, PORTER, { ro_number: '5001', gallons: 5, total_amount: 17.5, timestamp: '2025-03-04T14:00:00.000Z', odometer: 11100 })
+  const other = await createEntry(ctx, OTHER_PORTER, { ro_number: '5002', vin: '', stock_number: 'B1', timestamp: '2025-03-03T14:00:00.000Z' })
+  const voided = await createEntry(ctx, PORTER, { ro_number: '5003', timestamp: '2025-03-06T14:00:00.000Z', odometer: 11200 })
+  await ctx.request('POST', `/fuel-entries/${voided.id}/void`, ADMIN, { reason: 'Duplicate' })
+  const plain = await createEntry(ctx, PORTER, { timestamp: '2025-03-08T14:00:00.000Z', odometer: 11300 })
+
+  const open = await ctx.request<RoChargeback[]>('GET', '/admin/chargebacks', ACCOUNTANT)
+  assertEquals(open.status, 200)
+  assertEquals(open.data.map((group: RoChargeback) => [group.ro_number, group.rooftop_name, group.lines.length, group.gallons, group.total_amount]), [
+    ['5001', 'Napleton Kia', 2, 15, 52.5],
+    ['5002', null, 1, 10, 35]
+  ])
+  assertEquals(open.data[0].lines.map((line: ChargebackLine) => line.entry_id), [first.id, second.id])
+  assertEquals((await ctx.request<RoChargeback[]>('GET', `/admin/chargebacks?rooftop_id=${KIA.id}`, ACCOUNTANT)).data.length, 1)
+  assertEquals((await ctx.request('GET', '/admin/chargebacks?billing=paid', ACCOUNTANT)).status, 400)
+
+  const csv = await ctx.request<string>('GET', '/admin/chargebacks/export', ACCOUNTANT)
+  assertEquals(csv.headers.get('Content-Disposition'), 'attachment; filename="fueltrakr-chargebacks-2025-03-10.csv"')
+  assertEquals(parseCsv(csv.data), [
+    ['RO Number', 'Rooftop', 'Op Code', 'Date', 'Description', 'Quantity', 'Unit Price', 'Amount', 'VIN', 'Stock Number', 'Reference'],
+    ['5001', 'Napleton Kia', 'FUEL', '2025-03-01', 'Fuel - Regular - 10 gal', '10', '3.500', '35.00', VIN, 'A1234', first.id],
+    ['5001', 'Napleton Kia', 'FUEL', '2025-03-04', 'Fuel - Regular - 5 gal', '5', '3.500', '17.50', VIN, 'A1234', second.id],
+    ['5002', '', 'FUEL', '2025-03-03', 'Fuel - Regular - 10 gal', '10', '3.500', '35.00', '', 'B1', other.id]
+  ])
+
+  const billing = { entry_ids: [first.id, second.id], billed: true }
+  assertEquals((await ctx.request('POST', '/admin/chargebacks/billing', AUDITOR, billing)).status, 403)
+  assertEquals((await ctx.request('POST', '/admin/chargebacks/billing', ACCOUNTANT, { entry_ids: [plain.id], billed: true })).status, 400)
+  assertEquals((await ctx.request<{ updated: string[] }>('POST', '/admin/chargebacks/billing', ACCOUNTANT, billing)).data.updated, [first.id, second.id])
+  assertEquals((await ctx.repositories.entries.get(first.id))?.chargeback_billed_by, ACCOUNTANT.id)
+
+  assertEquals((await ctx.request<RoChargeback[]>('GET', '/admin/chargebacks', ACCOUNTANT)).data.map((group: RoChargeback) => group.ro_number), ['5002'])
+  assertEquals((await ctx.request<RoChargeback[]>('GET', '/admin/chargebacks?billing=billed', ACCOUNTANT)).data.map((group: RoChargeback) => group.ro_number), ['5001'])
+
+  // Billed fills stay on their RO
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${first.id}`, ADMIN, { changes: { ro_number: '5009' }, reason: 'Wrong RO' })).status, 400)
+
+  await ctx.request('POST', '/admin/chargebacks/billing', ACCOUNTANT, { entry_ids: [second.id], billed: false })
+  assertEquals((await ctx.request<RoChargeback[]>('GET', '/admin/chargebacks', ACCOUNTANT)).data.map((group: RoChargeback) => [group.ro_number, group.lines.length]), [['5002', 1], ['5001', 1]])
+})
+
+Deno.test('admin card mapping routes keep built-ins read-only', async () => {
+  const ctx = setup()
+  assertEquals((await ctx.request('GET', '/admin/card-mappings', PORTER)).status, 403)
+
+  const builtIn = await ctx.request<ColumnMapping[]>('GET', '/admin/card-mappings', ADMIN)
+  assert(builtIn.data.some((mapping: ColumnMapping) => mapping.id === 'generic'))
+
+  assertEquals((await ctx.request('PUT', '/admin/card-mappings/generic', ADMIN, { name: 'Mine' })).status, 400)
+  assertEquals((await ctx.request('PUT', '/admin/card-mappings/custom', ADMIN, { name: 'Mine', date_format: 'XYZ', columns: {} })).status, 400)
+  assertEquals((await ctx.request('PUT', '/admin/card-mappings/custom', ADMIN, { name: 'Mine', date_format: 'MDY', columns: { date: 'Date' } })).status, 400)
+
+  const mapping = { name: 'Mine', date_format: 'MDY', columns: { date: 'Date', amount: 'Total' } }
+  assertEquals((await ctx.request('PUT', '/admin/card-mappings/custom', ADMIN, mapping)).data, { id: 'custom', ...mapping })
+  assertEquals((await ctx.request<ColumnMapping[]>('GET', '/admin/card-mappings', ADMIN)).data.length, builtIn.data.length + 1)
+
+  assertEquals((await ctx.request('DELETE', '/admin/card-mappings/custom', ADMIN)).status, 200)
+  assertEquals((await ctx.request<ColumnMapping[]>('GET', '/admin/card-mappings', ADMIN)).data.length, builtIn.data.length)
+})
+
+Deno.test('reconciliation routes import a statement, list reports and resolve rows', async () => {
+  const ctx = setup()
+  const entry = await createEntry(ctx)
+  const unmatched = await createEntry(ctx, OTHER_PORTER, { stock_number: 'B9', vin: null, timestamp: '2025-03-10T13:00:00.000Z', total_amount: 70, gallons: 20 })
+
+  const csv = [
+    'date,time,amount,gallons',
+    '2025-03-10,14:05,35.00,10',
+    '2025-03-10,20:00,80.00,22'
+  ].join('\n')
+
+  assertEquals((await ctx.request('POST', '/admin/reconciliations', PORTER, { csv, mapping_id: 'generic' })).status, 403)
+  assertEquals((await ctx.request('POST', '/admin/reconciliations', ADMIN, { csv: '', mapping_id: 'generic' })).status, 400)
+  assertEquals((await ctx.request('POST', '/admin/reconciliations', ADMIN, { csv, mapping_id: 'unknown' })).status, 400)
+
+  const created = await ctx.request<ReconciliationReport>('POST', '/admin/reconciliations', ADMIN, { file_name: 'march.csv', csv, mapping_id: 'generic', timezone_offset_minutes: 0 })
+  assertEquals(created.status, 200)
+  assertEquals(created.data.summary.matched, 1)
+  assertEquals(created.data.summary.unmatched_card, 1)
+  assertEquals(created.data.summary.unmatched_entry, 1)
+  assertEquals(created.data.rows.find((row: ReconciliationRow) => row.type === 'matched')?.entry?.id, entry.id)
+
+  const reports = await ctx.request<ReconciliationReport[]>('GET', '/admin/reconciliations', ADMIN)
+  assertEquals(reports.data.length, 1)
+  assertEquals(reports.data[0].rows, undefined)
+
+  const reportId = created.data.id
+  assertEquals((await ctx.request<ReconciliationReport>('GET', `/admin/reconciliations/${reportId}`, ADMIN)).data.file_name, 'march.csv')
+  assertEquals((await ctx.request('GET', '/admin/reconciliations/missing', ADMIN)).status, 404)
+
+  const cardRow = created.data.rows.find((row: ReconciliationRow) => row.type === 'unmatched_card')
+  const entryRow = created.data.rows.find((row: ReconciliationRow) => row.type === 'unmatched_entry')
+  assertExists(cardRow)
+  assertExists(entryRow)
+  assertEquals(entryRow.entry?.id, unmatched.id)
+
+  assertEquals((await ctx.request('POST', `/admin/reconciliations/${reportId}/resolve`, ADMIN, { row_id: cardRow.id, action: 'disputed' })).status, 400)
+  assertEquals((await ctx.request('POST', `/admin/reconciliations/${reportId}/resolve`, ADMIN, { row_id: cardRow.id, action: 'maybe' })).status, 400)
+
+  const linked = await ctx.request<ReconciliationReport>('POST', `/admin/reconciliations/${reportId}/resolve`, ADMIN, { row_id: cardRow.id, action: 'link', link_row_id: entryRow.id })
+  assertEquals(linked.status, 200)
+  assertEquals(linked.data.summary.matched, 2)
+
+  const linkedRow = linked.data.rows.find((row: ReconciliationRow) => row.entry?.id === unmatched.id)
+  assertExists(linkedRow)
+  const unlinked = await ctx.request<ReconciliationReport>('POST', `/admin/reconciliations/${reportId}/resolve`, ADMIN, { row_id: linkedRow.id, action: 'unlink' })
+  assertEquals(unlinked.data.summary.matched, 1)
+
+  const matchedRow = unlinked.data.rows.find((row: ReconciliationRow) => row.type === 'matched')
+  assertExists(matchedRow)
+  const confirmed = await ctx.request<ReconciliationReport>('POST', `/admin/reconciliations/${reportId}/resolve`, ADMIN, { row_id: matchedRow.id, action: 'confirmed' })
+  assertEquals(confirmed.data.rows.find((row: ReconciliationRow) => row.id === matchedRow.id)?.resolution?.action, 'confirmed')
+  assertEquals(confirmed.data.updated_at, NOW.toISOString())
+})
+
+Deno.test('admins create, list, resend and revoke invites', async () => {
+  const ctx = setup()
+  const invite = { email: 'New.Manager@napleton.com', name: 'New Manager', role: 'admin', rooftop_id: CHEVROLET.id }
+
+  assertEquals((await ctx.request('POST', '/admin/invites', PORTER, invite)).status, 403)
+  assertEquals((await ctx.request('POST', '/admin/invites', ADMIN, { ...invite, rooftop_id: 'nowhere' })).status, 400)
+  assertEquals((await ctx.request('POST', '/admin/invites', ADMIN, { ...invite, email: 'someone@gmail.com' })).status, 400)
+  assertEquals((await ctx.request('POST', '/admin/invites', ADMIN, { ...invite, role: 'owner' })).status, 400)
+  assertEquals((await ctx.request('POST', '/admin/invites', ADMIN, { ...invite, email: PORTER.email })).status, 400)
+
+  const created = await ctx.request<InviteSent>('POST', '/admin/invites', ADMIN, invite)
+  assertEquals(created.status, 200)
+  assertExists(created.data.token)
+  assertEquals(created.data.invite.email, 'new.manager@napleton.com')
+  assertEquals(created.data.invite.status, 'pending')
+  assertEquals(created.data.invite.token_hash, undefined)
+  assertEquals((await ctx.request('POST', '/admin/invites', ADMIN, invite)).status, 400)
+
+  const listed = await ctx.request<Invite[]>('GET', '/admin/invites', ADMIN)
+  assertEquals(listed.data.length, 1)
+  assertEquals(listed.data[0].token_hash, undefined)
+
+  const inviteId = created.data.invite.id
+  const resent = await ctx.request<InviteSent>('POST', `/admin/invites/${inviteId}/resend`, ADMIN)
+  assertEquals(resent.status, 200)
+  assertEquals(resent.data.invite.send_count, 2)
+  assert(resent.data.token !== created.data.token)
+  assertEquals((await ctx.request('POST', '/invites/lookup', undefined, { token: created.data.token })).status, 404)
+  assertEquals((await ctx.request('POST', '/invites/lookup', undefined, { token: resent.data.token })).status, 200)
+
+  const revoked = await ctx.request<InviteSent>('POST', `/admin/invites/${inviteId}/revoke`, ADMIN)
+  assertEquals(revoked.data.invite.status, 'revoked')
+  assertEquals((await ctx.request('POST', '/invites/lookup', undefined, { token: resent.data.token })).status, 410)
+  assertEquals((await ctx.request('POST', `/admin/invites/${inviteId}/resend`, ADMIN)).status, 400)
+  assertEquals((await ctx.request('POST', '/admin/invites/missing/revoke', ADMIN)).status, 404)
+})
+
+Deno.test('accepting an invite creates the user with the invited role, once', async () => {
+  const ctx = setup()
+  const created = await ctx.request<InviteSent>('POST', '/admin/invites', ADMIN, { email: 'lot.lead@napleton.com', name: 'Lot Lead', role: 'admin', rooftop_id: KIA.id })
+  const { token } = created.data
+
+  const lookup = await ctx.request<{ email: string; role: string; rooftop: string | null }>('POST', '/invites/lookup', undefined, { token })
+  assertEquals(lookup.data.email, 'lot.lead@napleton.com')
+  assertEquals(lookup.data.role, 'admin')
+  assertEquals(lookup.data.rooftop, 'Napleton Kia')
+  assertEquals((await ctx.request('POST', '/invites/lookup', undefined, { token: 'not-a-token' })).status, 404)
+
+  assertEquals((await ctx.request('POST', '/invites/accept', undefined, { token, password: 'short' })).status, 400)
+
+  const accepted = await ctx.request<{ user: UserProfile }>('POST', '/invites/accept', undefined, { token, password: 'correct horse' })
+  assertEquals(accepted.status, 200)
+  const profile = await ctx.repositories.users.get(accepted.data.user.id)
+  assertEquals(profile?.role, 'admin')
+  assertEquals(profile?.rooftop_id, KIA.id)
+
+  assertEquals((await ctx.request('POST', '/invites/accept', undefined, { token, password: 'correct horse' })).status, 410)
+  const listed = await ctx.request<Invite[]>('GET', '/admin/invites', ADMIN)
+  assertEquals(listed.data[0].status, 'accepted')
+  assertEquals(listed.data[0].accepted_user_id, accepted.data.user.id)
+})
+
+Deno.test('invites expire and can be resent', async () => {
+  const ctx = setup()
+  const created = await ctx.request<InviteSent>('POST', '/admin/invites', ADMIN, { email: 'late@napleton.com', name: 'Late Porter', role: 'porter' })
+
+  ctx.clock.current = new Date(NOW.getTime() + 8 * 24 * 60 * 60 * 1000)
+  assertEquals((await ctx.request<Invite[]>('GET', '/admin/invites', ADMIN)).data[0].status, 'expired')
+  assertEquals((await ctx.request('POST', '/invites/accept', undefined, { token: created.data.token, password: 'long enough' })).status, 410)
+
+  const resent = await ctx.request<InviteSent>('POST', `/admin/invites/${created.data.invite.id}/resend`, ADMIN)
+  assertEquals(resent.data.invite.status, 'pending')
+  assertEquals((await ctx.request('POST', '/invites/accept', undefined, { token: resent.data.token, password: 'long enough' })).status, 200)
+})
+
+Deno.test('invites are emailed with a link to the app', async () => {
+  const ctx = setup()
+  const created = await ctx.request<InviteSent>('POST', '/admin/invites', ADMIN, { email: 'mailed@napleton.com', name: 'Mailed Porter', role: 'porter' })
+  assertEquals(created.data.email_sent, true)
+  assertEquals(tokenFromMail(ctx.sent, 'mailed@napleton.com', 'invite'), created.data.token)
+  assert(ctx.sent[0].text.includes('https://fueltrakr.test/?invite='))
+})
+
+Deno.test('password reset requests email a single-use link', async () => {
+  const ctx = setup()
+
+  const unknown = await ctx.request('POST', '/password-reset/request', undefined, { email: 'nobody@napleton.com' })
+  const known = await ctx.request('POST', '/password-reset/request', undefined, { email: 'Porter@Napleton.com' })
+  assertEquals(unknown.status, 200)
+  assertEquals(known.data, unknown.data)
+  assertEquals(ctx.sent.length, 1)
+
+  // A second request straight away doesn't send another email
+  await ctx.request('POST', '/password-reset/request', undefined, { email: PORTER.email })
+  assertEquals(ctx.sent.length, 1)
+
+  const token = tokenFromMail(ctx.sent, PORTER.email, 'reset')
+  const lookup = await ctx.request<{ email: string; forced: boolean }>('POST', '/password-reset/lookup', undefined, { token })
+  assertEquals(lookup.data.email, PORTER.email)
+  assertEquals(lookup.data.forced, false)
+
+  assertEquals((await ctx.request('POST', '/password-reset/complete', undefined, { token, password: 'short' })).status, 400)
+  assertEquals((await ctx.request('POST', '/password-reset/complete', undefined, { token, password: 'a new password' })).status, 200)
+  assertEquals(ctx.passwords.get(PORTER.id), 'a new password')
+  assertEquals((await ctx.request('POST', '/password-reset/complete', undefined, { token, password: 'another one' })).status, 410)
+})
+
+Deno.test('password reset links expire and are replaced by newer ones', async () => {
+  const ctx = setup()
+  await ctx.request('POST', '/password-reset/request', undefined, { email: PORTER.email })
+  const first = tokenFromMail(ctx.sent, PORTER.email, 'reset')
+
+  ctx.clock.current = new Date(NOW.getTime() + 5 * 60 * 1000)
+  await ctx.request('POST', '/password-reset/request', undefined, { email: PORTER.email })
+  const second = tokenFromMail(ctx.sent, PORTER.email, 'reset')
+  assert(first !== second)
+  assertEquals((await ctx.request('POST', '/password-reset/lookup', undefined, { token: first })).status, 410)
+  assertEquals((await ctx.request('POST', '/password-reset/lookup', undefined, { token: second })).status, 200)
+
+  ctx.clock.current = new Date(NOW.getTime() + 2 * 60 * 60 * 1000)
+  assertEquals((await ctx.request('POST', '/password-reset/complete', undefined, { token: second, password: 'too late now' })).status, 410)
+  assertEquals((await ctx.request('POST', '/password-reset/lookup', undefined, { token: 'not-a-token' })).status, 404)
+})
+
+Deno.test('admins can force a password reset', async () => {
+  const ctx = setup()
+  assertEquals((await ctx.request('POST', `/admin/users/${OTHER_PORTER.id}/reset-password`, PORTER)).status, 403)
+  assertEquals((await ctx.request('POST', '/admin/users/missing/reset-password', ADMIN)).status, 404)
+
+  assertEquals((await ctx.request('GET', '/fuel-entries', PORTER)).status, 200)
+  const forced = await ctx.request<{ email_sent: boolean }>('POST', `/admin/users/${PORTER.id}/reset-password`, ADMIN)
+  assertEquals(forced.status, 200)
+  assertEquals(forced.data.email_sent, true)
+  const lockedPassword = ctx.passwords.get(PORTER.id)
+  assertExists(lockedPassword)
+  // Signed-in devices are signed out
+  assertEquals((await ctx.request('GET', '/fuel-entries', PORTER)).status, 401)
+
+  const token = tokenFromMail(ctx.sent, PORTER.email, 'reset')
+  assertEquals((await ctx.request<{ forced: boolean }>('POST', '/password-reset/lookup', undefined, { token })).data.forced, true)
+  await ctx.request('POST', '/password-reset/complete', undefined, { token, password: 'chosen by porter' })
+  assertEquals(ctx.passwords.get(PORTER.id), 'chosen by porter')
+})
+
+const registerPasskey = async (ctx: ReturnType<typeof setup>, user: { id: string }, authenticator: Awaited<ReturnType<typeof createTestAuthenticator>>) => {
+  const started = await ctx.request<PasskeyOptions>('POST', '/passkeys/register/options', user)
+  assertEquals(started.status, 200)
+  const response = await authenticator.register(started.data.options)
+  return await ctx.request<Partial<Passkey>>('POST', '/passkeys/register/verify', user, { challenge_id: started.data.challenge_id, response, name: 'Work phone' })
+}
+
+Deno.test('passkeys register for the signed-in user and sign them in', async () => {
+  const ctx = setup()
+  const authenticator = await createTestAuthenticator()
+
+  assertEquals((await ctx.request('POST', '/passkeys/register/options')).status, 401)
+  const registered = await registerPasskey(ctx, PORTER, authenticator)
+  assertEquals(registered.status, 200)
+  assertEquals(registered.data.id, authenticator.id)
+  assertEquals(registered.data.name, 'Work phone')
+  assertEquals(registered.data.public_key, undefined)
+
+  // The same authenticator is excluded from a second registration
+  const again = await ctx.request<PasskeyOptions>('POST', '/passkeys/register/options', PORTER)
+  assertEquals(again.data.options.excludeCredentials.map((credential: { id: string }) => credential.id), [authenticator.id])
+
+  const started = await ctx.request<PasskeyOptions>('POST', '/passkeys/login/options', undefined, { email: PORTER.email })
+  assertEquals(started.data.options.allowCredentials.map((credential: { id: string }) => credential.id), [authenticator.id])
+  const assertion = await authenticator.authenticate(started.data.options)
+  const login = await ctx.request('POST', '/passkeys/login/verify', undefined, { challenge_id: started.data.challenge_id, response: assertion })
+  assertEquals(login.status, 200)
+  assertEquals(login.data, { email: PORTER.email, token_hash: `login-${PORTER.email}` })
+
+  // Challenges are single use
+  const replayed = await ctx.request('POST', '/passkeys/login/verify', undefined, { challenge_id: started.data.challenge_id, response: assertion })
+  assertEquals(replayed.status, 400)
+
+  const listed = await ctx.request<Partial<Passkey>[]>('GET', '/passkeys', PORTER)
+  assertEquals(listed.data.length, 1)
+  assertEquals(listed.data[0].last_used_at, NOW.toISOString())
+  assertEquals((await ctx.request('GET', '/passkeys', OTHER_PORTER)).data, [])
+})
+
+Deno.test('passkey sign-in rejects bad signatures, stale challenges and revoked passkeys', async () => {
+  const ctx = setup()
+  const authenticator = await createTestAuthenticator()
+  await registerPasskey(ctx, PORTER, authenticator)
+
+  // Signed for a different challenge
+  const first = await ctx.request<PasskeyOptions>('POST', '/passkeys/login/options', undefined, {})
+  const second = await ctx.request<PasskeyOptions>('POST', '/passkeys/login/options', undefined, {})
+  const wrong = await authenticator.authenticate(second.data.options)
+  assertEquals((await ctx.request('POST', '/passkeys/login/verify', undefined, { challenge_id: first.data.challenge_id, response: wrong })).status, 401)
+
+  const late = await ctx.request<PasskeyOptions>('POST', '/passkeys/login/options', undefined, {})
+  ctx.clock.current = new Date(NOW.getTime() + 10 * 60 * 1000)
+  const lateAssertion = await authenticator.authenticate(late.data.options)
+  assertEquals((await ctx.request('POST', '/passkeys/login/verify', undefined, { challenge_id: late.data.challenge_id, response: lateAssertion })).status, 400)
+
+  assertEquals((await ctx.request('DELETE', `/passkeys/${authenticator.id}`, OTHER_PORTER)).status, 404)
+  assertEquals((await ctx.request('DELETE', `/passkeys/${authenticator.id}`, PORTER)).status, 200)
+
+  const revoked = await ctx.request<PasskeyOptions>('POST', '/passkeys/login/options', undefined, { email: PORTER.email })
+  assertEquals(revoked.data.options.allowCredentials, [])
+  const assertion = await authenticator.authenticate(revoked.data.options)
+  assertEquals((await ctx.request('POST', '/passkeys/login/verify', undefined, { challenge_id: revoked.data.challenge_id, response: assertion })).status, 401)
+})
+
+Deno.test('passkey sign-in is refused until a forced password reset is done', async () => {
+  const ctx = setup()
+  const authenticator = await createTestAuthenticator()
+  await registerPasskey(ctx, PORTER, authenticator)
+  await ctx.request('POST', `/admin/users/${PORTER.id}/reset-password`, ADMIN)
+
+  const signIn = async () => {
+    const started = await ctx.request<PasskeyOptions>('POST', '/passkeys/login/options', undefined, { email: PORTER.email })
+    const assertion = await authenticator.authenticate(started.data.options)
+    return await ctx.request('POST', '/passkeys/login/verify', undefined, { challenge_id: started.data.challenge_id, response: assertion })
+  }
+  assertEquals((await signIn()).status, 403)
+
+  // A self-service link sent afterwards supersedes the forced one, and still has to be used
+  ctx.clock.current = new Date(NOW.getTime() + 2 * 60 * 1000)
+  await ctx.request('POST', '/password-reset/request', undefined, { email: PORTER.email })
+  assertEquals((await signIn()).status, 403)
+
+  const token = tokenFromMail(ctx.sent, PORTER.email, 'reset')
+  assertEquals((await ctx.request('POST', '/password-reset/complete', undefined, { token, password: 'chosen by porter' })).status, 200)
+  assertEquals((await signIn()).status, 200)
+})
+
+Deno.test('passkey registration is tied to the user who started it', async () => {
+  const ctx = setup()
+  const authenticator = await createTestAuthenticator('https://evil.test')
+  const started = await ctx.request<PasskeyOptions>('POST', '/passkeys/register/options', PORTER)
+  const response = await authenticator.register(started.data.options)
+
+  assertEquals((await ctx.request('POST', '/passkeys/register/verify', OTHER_PORTER, { challenge_id: started.data.challenge_id, response })).status, 400)
+
+  // A response from another origin fails verification
+  const retry = await ctx.request<PasskeyOptions>('POST', '/passkeys/register/options', PORTER)
+  const wrongOrigin = await authenticator.register(retry.data.options)
+  assertEquals((await ctx.request('POST', '/passkeys/register/verify', PORTER, { challenge_id: retry.data.challenge_id, response: wrongOrigin })).status, 400)
+})
+
+// Set up an authenticator for the user and return its secret and first MFA token
+const enrollMfa = async (ctx: ReturnType<typeof setup>, user: { id: string }) => {
+  const started = await ctx.request<{ secret: string }>('POST', '/mfa/enroll', user)
+  assertEquals(started.status, 200)
+  const code = await totpCode(started.data.secret, totpStep(ctx.clock.now()))
+  const confirmed = await ctx.request<MfaToken & { recovery_codes: string[] }>('POST', '/mfa/enroll/confirm', user, { code })
+  assertEquals(confirmed.status, 200)
+  return { secret: started.data.secret, ...confirmed.data }
+}
+
+Deno.test('admin routes require a second factor for roles that need one', async () => {
+  const ctx = setup()
+  await ctx.request('PUT', '/admin/mfa-settings', ADMIN, { required_roles: ['admin'] })
+
+  const blocked = await ctx.request<MfaRequired>('GET', '/admin/users', ADMIN)
+  assertEquals(blocked.status, 403)
+  assertEquals(blocked.data.mfa_required, 'enroll')
+  assertEquals((await ctx.request('GET', '/admin/users')).status, 401)
+
+  const started = await ctx.request<{ secret: string; otpauth_url: string }>('POST', '/mfa/enroll', ADMIN)
+  assert(started.data.otpauth_url.startsWith('otpauth://totp/FuelTrakr:admin%40napleton.com?'))
+  assertEquals((await ctx.request('POST', '/mfa/enroll/confirm', ADMIN, { code: '000000' })).status, 400)
+
+  const code = await totpCode(started.data.secret, totpStep(NOW))
+  const confirmed = await ctx.request<MfaToken & { recovery_codes: string[] }>('POST', '/mfa/enroll/confirm', ADMIN, { code })
+  assertEquals(confirmed.status, 200)
+  assertEquals(confirmed.data.recovery_codes.length, 10)
+
+  assertEquals((await ctx.request<MfaRequired>('GET', '/admin/users', ADMIN)).data.mfa_required, 'verify')
+  assertEquals((await ctx.request('GET', '/admin/users', ADMIN, undefined, { 'X-MFA-Token': 'made-up' })).status, 403)
+
+  const listed = await ctx.request<(UserProfile & { mfa_enabled: boolean })[]>('GET', '/admin/users', ADMIN, undefined, { 'X-MFA-Token': confirmed.data.mfa_token })
+  assertEquals(listed.status, 200)
+  assertEquals(listed.data.find((profile: { id: string }) => profile.id === ADMIN.id)?.mfa_enabled, true)
+
+  // The token is tied to the admin and expires
+  assertEquals((await ctx.request<MfaStatus>('GET', '/mfa/status', PORTER, undefined, { 'X-MFA-Token': confirmed.data.mfa_token })).data.verified, false)
+  ctx.clock.current = new Date(NOW.getTime() + 13 * 60 * 60 * 1000)
+  assertEquals((await ctx.request<MfaRequired>('GET', '/admin/users', ADMIN, undefined, { 'X-MFA-Token': confirmed.data.mfa_token })).data.mfa_required, 'verify')
+
+  // Porters aren't required to enroll, so they get the usual admin check
+  assertEquals((await ctx.request<ErrorBody>('GET', '/admin/users', PORTER)).data.error, 'You don\'t have permission to do that')
+})
+
+Deno.test('MFA verification accepts each code once and recovery codes once', async () => {
+  const ctx = setup()
+  const { secret, recovery_codes } = await enrollMfa(ctx, PORTER)
+
+  // The code used to confirm setup can't be replayed
+  const sameCode = await totpCode(secret, totpStep(NOW))
+  assertEquals((await ctx.request('POST', '/mfa/verify', PORTER, { code: sameCode })).status, 400)
+
+  ctx.clock.current = new Date(NOW.getTime() + 60 * 1000)
+  const verified = await ctx.request<MfaToken>('POST', '/mfa/verify', PORTER, { code: await totpCode(secret, totpStep(ctx.clock.current)) })
+  assertEquals(verified.status, 200)
+  assertExists(verified.data.mfa_token)
+
+  const recovered = await ctx.request<MfaToken & { recovery_codes_remaining: number }>('POST', '/mfa/verify', PORTER, { recovery_code: recovery_codes[0].toUpperCase() })
+  assertEquals(recovered.status, 200)
+  assertEquals(recovered.data.recovery_codes_remaining, 9)
+  assertEquals((await ctx.request('POST', '/mfa/verify', PORTER, { recovery_code: recovery_codes[0] })).status, 400)
+
+  // Enabling MFA voluntarily puts admin routes behind it too
+  assertEquals((await ctx.request<MfaRequired>('GET', '/admin/users', PORTER)).data.mfa_required, 'verify')
+})
+
+Deno.test('MFA verification locks after repeated wrong codes', async () => {
+  const ctx = setup()
+  const { secret } = await enrollMfa(ctx, PORTER)
+  ctx.clock.current = new Date(NOW.getTime() + 60 * 1000)
+
+  for (let attempt = 1; attempt < 5; attempt++) {
+    const wrong = await ctx.request<ErrorBody & { attempts_remaining: number }>('POST', '/mfa/verify', PORTER, { code: '000000' })
+    assertEquals(wrong.data.attempts_remaining, 5 - attempt)
+  }
+  assertEquals((await ctx.request('POST', '/mfa/verify', PORTER, { code: '000000' })).status, 429)
+
+  const correct = await totpCode(secret, totpStep(ctx.clock.current))
+  assertEquals((await ctx.request('POST', '/mfa/verify', PORTER, { code: correct })).status, 429)
+  assertExists((await ctx.request<MfaStatus>('GET', '/mfa/status', PORTER)).data.locked_until)
+
+  ctx.clock.current = new Date(NOW.getTime() + 20 * 60 * 1000)
+  const later = await totpCode(secret, totpStep(ctx.clock.current))
+  assertEquals((await ctx.request('POST', '/mfa/verify', PORTER, { code: later })).status, 200)
+})
+
+Deno.test('MFA can be turned off unless required, and admins can reset it', async () => {
+  const ctx = setup()
+  const porter = await enrollMfa(ctx, PORTER)
+
+  assertEquals((await ctx.request('DELETE', '/mfa', PORTER)).status, 403)
+  const regenerated = await ctx.request<{ recovery_codes: string[] }>('POST', '/mfa/recovery-codes', PORTER, undefined, { 'X-MFA-Token': porter.mfa_token })
+  assertEquals(regenerated.data.recovery_codes.length, 10)
+  assertEquals((await ctx.request('DELETE', '/mfa', PORTER, undefined, { 'X-MFA-Token': porter.mfa_token })).status, 200)
+  assertEquals((await ctx.request<MfaStatus>('GET', '/mfa/status', PORTER)).data.enabled, false)
+
+  await ctx.request('PUT', '/admin/mfa-settings', ADMIN, { required_roles: ['admin', 'porter'] })
+  const admin = await enrollMfa(ctx, ADMIN)
+  const headers = { 'X-MFA-Token': admin.mfa_token }
+  assertEquals((await ctx.request<MfaSettings>('GET', '/admin/mfa-settings', ADMIN, undefined, headers)).data.required_roles, ['admin', 'porter'])
+  assertEquals((await ctx.request('DELETE', '/mfa', ADMIN, undefined, headers)).status, 400)
+
+  const other = await enrollMfa(ctx, OTHER_PORTER)
+  assertEquals((await ctx.request('POST', `/admin/users/${OTHER_PORTER.id}/mfa/reset`, ADMIN, undefined, headers)).status, 200)
+  const status = await ctx.request<MfaStatus>('GET', '/mfa/status', OTHER_PORTER, undefined, { 'X-MFA-Token': other.mfa_token })
+  assertEquals(status.data.enabled, false)
+  assertEquals(status.data.required, true)
+})
+
+Deno.test('each role reaches only the admin routes its permissions allow', async () => {
+  const ctx = setup()
+  const cases: [string, string, Record<string, number>][] = [
+    ['GET', '/admin/users', { admin: 200, manager: 200, accountant: 403, auditor: 200, porter: 403 }],
+    ['GET', '/admin/invites', { admin: 200, manager: 403, accountant: 403, auditor: 403, porter: 403 }],
+    ['GET', '/admin/export', { admin: 200, manager: 200, accountant: 200, auditor: 200, porter: 403 }],
+    ['GET', '/admin/journal-export', { admin: 200, manager: 200, accountant: 200, auditor: 200, porter: 403 }],
+    ['GET', '/admin/chargebacks', { admin: 200, manager: 200, accountant: 200, auditor: 200, porter: 403 }],
+    ['GET', '/admin/reconciliations', { admin: 200, manager: 403, accountant: 200, auditor: 200, porter: 403 }],
+    ['GET', '/admin/approval-settings', { admin: 200, manager: 200, accountant: 403, auditor: 403, porter: 403 }],
+    ['PUT', '/admin/approval-settings', { admin: 200, manager: 403, accountant: 403, auditor: 403, porter: 403 }]
+  ]
+
+  for (const [method, path, expected] of cases) {
+    for (const user of [ADMIN, MANAGER, ACCOUNTANT, AUDITOR, PORTER]) {
+      const { status } = await ctx.request(method, path, user, method === 'PUT' ? {} : undefined)
+      assertEquals(status, expected[user.role], `${user.role} ${method} ${path}`)
+    }
+  }
+})
+
+Deno.test('managers see and review only their rooftop, auditors only read', async () => {
+  const ctx = setup()
+  await ctx.repositories.users.save({ ...PORTER, rooftop_id: CHEVROLET.id })
+  await ctx.repositories.users.save({ ...OTHER_PORTER, rooftop_id: KIA.id })
+  await ctx.request('PUT', '/admin/approval-settings', ADMIN, { auto_approve_enabled: false })
+  const ownRooftop = await createEntry(ctx, PORTER)
+  const otherRooftop = await createEntry(ctx, OTHER_PORTER)
+
+  const managerEntries = await ctx.request<EntryList>('GET', '/fuel-entries', MANAGER)
+  assertEquals(managerEntries.data.entries.map((entry: { id: string }) => entry.id), [ownRooftop.id])
+  assertEquals((await ctx.request<EntryList>('GET', '/fuel-entries', AUDITOR)).data.entries.length, 2)
+
+  assertEquals((await ctx.request('POST', `/fuel-entries/${ownRooftop.id}/review`, MANAGER, { decision: 'approved' })).status, 200)
+  assertEquals((await ctx.request('POST', `/fuel-entries/${otherRooftop.id}/review`, MANAGER, { decision: 'approved' })).status, 403)
+  assertEquals((await ctx.request('GET', `/fuel-entries/${otherRooftop.id}/revisions`, MANAGER)).status, 403)
+
+  // Managers correct entries without sending them back for approval; auditors can't change anything
+  const corrected = await ctx.request<EntryUpdate>('PUT', `/fuel-entries/${ownRooftop.id}`, MANAGER, { changes: { odometer: 12100 }, reason: 'Typo' })
+  assertEquals(corrected.status, 200)
+  assertEquals(corrected.data.entry.status, 'approved')
+  assertEquals((await ctx.request('PUT', `/fuel-entries/${ownRooftop.id}`, AUDITOR, { changes: { odometer: 12200 }, reason: 'Typo' })).status, 403)
+  assertEquals((await ctx.request('POST', `/fuel-entries/${ownRooftop.id}/review`, AUDITOR, { decision: 'rejected', note: 'No' })).status, 403)
+
+  const exported = await ctx.request<string>('GET', '/admin/export', MANAGER)
+  assert(exported.data.includes(ownRooftop.id))
+  assert(!exported.data.includes(otherRooftop.id))
+})
+
+Deno.test('admins manage rooftops and legacy rooftop names are linked', async () => {
+  const ctx = setup()
+  await ctx.repositories.users.save({ ...OTHER_PORTER, rooftop: 'napleton ford ' })
+  const ford = { name: 'Napleton Ford', city: 'Columbus', state: 'OH', latitude: 39.96, longitude: -82.99, timezone: 'America/New_York' }
+
+  assertEquals((await ctx.request('POST', '/admin/rooftops', MANAGER, ford)).status, 403)
+  assertEquals((await ctx.request('POST', '/admin/rooftops', ADMIN, { ...ford, timezone: 'Mars/Olympus' })).status, 400)
+  assertEquals((await ctx.request('POST', '/admin/rooftops', ADMIN, { ...ford, longitude: null })).status, 400)
+  assertEquals((await ctx.request('POST', '/admin/rooftops', ADMIN, { ...ford, stock_number_pattern: 'F(' })).status, 400)
+  assertEquals((await ctx.request('POST', '/admin/rooftops', ADMIN, { ...ford, name: 'napleton kia' })).status, 400)
+
+  const created = await ctx.request<{ rooftop: Rooftop; users_assigned: number }>('POST', '/admin/rooftops', ADMIN, ford)
+  assertEquals(created.status, 200)
+  assertEquals(created.data.users_assigned, 1)
+  assertEquals(created.data.rooftop.geofence_radius_km, 15)
+  const porter = await ctx.repositories.users.get(OTHER_PORTER.id)
+  assertEquals([porter?.rooftop_id, porter?.rooftop], [created.data.rooftop.id, undefined])
+
+  const listed = await ctx.request<Rooftop[]>('GET', '/rooftops', PORTER)
+  assertEquals(listed.data.map((rooftop: Rooftop) => rooftop.name), ['Napleton Chevrolet', 'Napleton Ford', 'Napleton Kia'])
+
+  const updated = await ctx.request<Rooftop>('PUT', `/admin/rooftops/${created.data.rooftop.id}`, ADMIN, { stock_number_pattern: 'F\\d{4}' })
+  assertEquals([updated.data.stock_number_pattern, updated.data.city], ['F\\d{4}', 'Columbus'])
+
+  assertEquals((await ctx.request('DELETE', `/admin/rooftops/${created.data.rooftop.id}`, ADMIN)).status, 409)
+  assertEquals((await ctx.request('PUT', `/admin/users/${OTHER_PORTER.id}/rooftop`, ADMIN, { rooftop_id: 'nowhere' })).status, 400)
+  assertEquals((await ctx.request<UserProfile>('PUT', `/admin/users/${OTHER_PORTER.id}/rooftop`, ADMIN, { rooftop_id: KIA.id })).data.rooftop_id, KIA.id)
+  assertEquals((await ctx.request('DELETE', `/admin/rooftops/${created.data.rooftop.id}`, ADMIN)).status, 200)
+})
+
+Deno.test('entries are recorded at the rooftop and checked against its format and geofence', async () => {
+  const ctx = setup()
+  await ctx.repositories.users.save({ ...PORTER, rooftop_id: CHEVROLET.id })
+  await ctx.repositories.users.save({ ...OTHER_PORTER, rooftop_id: KIA.id })
+
+  const nearby = await createEntry(ctx, PORTER, { stock_number: 'c12345', latitude: 41.73, longitude: -87.74 })
+  assertEquals([nearby.rooftop_id, nearby.flag_reasons], [CHEVROLET.id, []])
+
+  // Downtown Milwaukee is well outside the Oak Lawn geofence
+  const faraway = await createEntry(ctx, PORTER, { stock_number: 'A1234', latitude: 43.04, longitude: -87.91, timestamp: '2025-03-09T14:00:00.000Z' })
+  assertEquals(faraway.flag_reasons, ['stock_number_format', 'outside_geofence'])
+  assertEquals(faraway.status, 'submitted')
+
+  // Moving the porter doesn't move the entries they already recorded
+  await ctx.request('PUT', `/admin/users/${PORTER.id}/rooftop`, ADMIN, { rooftop_id: KIA.id })
+  const kiaEntry = await createEntry(ctx, PORTER, { stock_number: 'K1', timestamp: '2025-03-08T14:00:00.000Z' })
+  assertEquals([kiaEntry.rooftop_id, kiaEntry.flag_reasons], [KIA.id, []])
+  await createEntry(ctx, OTHER_PORTER, { stock_number: 'K2', timestamp: '2025-02-20T14:00:00.000Z' })
+
+  const filtered = await ctx.request<EntryList>('GET', `/fuel-entries?rooftop_id=${CHEVROLET.id}`, ADMIN)
+  assertEquals(filtered.data.entries.map((entry: { id: string }) => entry.id), [nearby.id, faraway.id])
+  assertEquals((await ctx.request<EntryList>('GET', '/fuel-entries', MANAGER)).data.entries.length, 2)
+
+  const summary = await ctx.request<RooftopSummary[]>('GET', '/admin/rooftop-summary', ADMIN)
+  assertEquals(summary.data.map((rooftop: RooftopSummary) => [rooftop.name, rooftop.entries, rooftop.month_entries, rooftop.awaiting_review, rooftop.users]), [
+    ['Napleton Chevrolet', 2, 2, 1, 1],
+    ['Napleton Kia', 2, 1, 0, 2],
+    // Group-level staff
+    ['Unassigned', 0, 0, 0, 3]
+  ])
+  assertEquals(summary.data[0].total_amount, 70)
+  assertEquals((await ctx.request<RooftopSummary[]>('GET', '/admin/rooftop-summary', MANAGER)).data.map((rooftop: RooftopSummary) => rooftop.name), ['Napleton Chevrolet'])
+  assertEquals((await ctx.request('GET', '/admin/rooftop-summary', PORTER)).status, 403)
+
+  const exported = await ctx.request<string>('GET', `/admin/export?rooftop_id=${KIA.id}`, ADMIN)
+  assert(exported.data.includes(kiaEntry.id))
+  assert(exported.data.includes(',Napleton Kia,'))
+  assert(!exported.data.includes(nearby.id))
+})
+
+Deno.test('entries without a device location are sent for review at rooftops with a geofence', async () => {
+  const ctx = setup()
+  await ctx.repositories.users.save({ ...PORTER, rooftop_id: CHEVROLET.id })
+  await ctx.repositories.users.save({ ...OTHER_PORTER, rooftop_id: KIA.id })
+
+  const unplaced = await createEntry(ctx, PORTER, { stock_number: 'C12345', location: 'Location unavailable' })
+  assertEquals([unplaced.latitude, unplaced.flag_reasons, unplaced.status], [undefined, ['no_location'], 'submitted'])
+
+  // Kia has no coordinates, so there is nothing to check against
+  const kiaEntry = await createEntry(ctx, OTHER_PORTER, { stock_number: 'K1', vin: null, location: 'Location unavailable' })
+  assertEquals(kiaEntry.flag_reasons, [])
+})
@@ -0,0 +1,42 @@
+// Starts the edge function. Both entry points, server/index.tsx and make-server-218dc5b7/index.ts, call this.
+import { Hono } from 'npm:hono'
+import { cors } from 'npm:hono/cors'
+import { logger } from 'npm:hono/logger'
+import { createRouter, seedDemoUsers } from './router.tsx'
+import { createSupabaseDependencies } from './supabase_adapters.tsx'
+
+export const serve = () => {
+  const app = new Hono()
+
+  app.use('*', cors({
+    origin: '*',
+    allowHeaders: ['*'],
+    allowMethods: ['*'],
+  }))
+
+  app.use('*', logger(console.log))
+
+  const { deps, initStorage } = createSupabaseDependencies()
+
+  // Initialize demo users
+  const initDemoUsers = async () => {
+    try {
+      console.log('Initializing demo users...')
+      const results = await seedDemoUsers(deps)
+      for (const [role, result] of Object.entries(results)) {
+        console.log(result.success ? `✅ Demo ${role} user created successfully` : `⚠️ ${role} user creation error: ${result.message}`)
+      }
+      console.log('Demo users initialization complete')
+    } catch (error) {
+      console.log('❌ Error initializing demo users:', error)
+    }
+  }
+
+  // Initialize on startup
+  initStorage()
+  initDemoUsers()
+
+  app.route('/make-server-218dc5b7', createRouter(deps))
+
+  Deno.serve(app.fetch)
+}
@@ -0,0 +1,120 @@
+// Production dependencies for createRouter: the kv_store table, Supabase Auth and Storage, and the mail transport
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import * as kvStore from './kv_store.tsx'
+import { createKvRepositories } from './kv_repositories.tsx'
+import { createPostgresRepositories, readAllPages } from './postgres_repositories.tsx'
+import { createConsoleTransport, createSmtpTransport } from './mail.tsx'
+import type { KvStore, RouterDependencies } from './router.tsx'
+
+export const PHOTO_BUCKET = 'make-218dc5b7-fueltrakr-photos'
+
+// 'kv' (default) or 'postgres'. Run `deno task migrate:kv` before switching to postgres.
+const STORAGE_BACKEND = Deno.env.get('STORAGE_BACKEND') ?? 'kv'
+
+// 'console' (default) or 'smtp'. The SMTP defaults match Mailpit and MailHog running locally.
+const MAIL_TRANSPORT = Deno.env.get('MAIL_TRANSPORT') ?? 'console'
+const SMTP_HOST = Deno.env.get('SMTP_HOST') ?? 'localhost'
+const SMTP_PORT = Number(Deno.env.get('SMTP_PORT') ?? '1025')
+
+const APP_URL = Deno.env.get('APP_URL') ?? 'http://localhost:5173'
+
+const KV_TABLE = 'kv_store_218dc5b7'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// kv_store.tsx, except that getByPrefix reads every page. The generated one stops at PostgREST's max-rows.
+export const createSupabaseKv = (supabase: SupabaseClient): KvStore => ({
+  ...kvStore,
+  getByPrefix: async <T,>(prefix: string) =>
+    (await readAllPages((from, to) => supabase.from(KV_TABLE).select('key, value').like('key', `${prefix}%`).order('key').range(from, to)))
+      .map(row => row.value as T)
+})
+
+export const createSupabaseDependencies = () => {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+  const kv = createSupabaseKv(supabase)
+
+  const deps: RouterDependencies = {
+    kv,
+    repositories: STORAGE_BACKEND === 'postgres' ? createPostgresRepositories(supabase) : createKvRepositories(kv),
+    auth: {
+      getUser: async (accessToken) => {
+        const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+        return error || !user ? null : user
+      },
+      createUser: async ({ email, password, name }) => {
+        const { data, error } = await supabase.auth.admin.createUser({
+          email,
+          password,
+          user_metadata: { name },
+          email_confirm: true // Auto-confirm since email server not configured
+        })
+        if (error || !data.user) return { error: error?.message || 'Failed to create user' }
+        return { user: data.user }
+      },
+      updatePassword: async (userId, password) => {
+        const { error } = await supabase.auth.admin.updateUserById(userId, { password })
+        return error ? { error: error.message } : null
+      },
+      // The hashed token of a magic link, which the client passes to supabase.auth.verifyOtp
+      createLoginToken: async (email) => {
+        const { data, error } = await supabase.auth.admin.generateLink({ type: 'magiclink', email })
+        if (error || !data.properties?.hashed_token) return { error: error?.message || 'Failed to create login token' }
+        return { token_hash: data.properties.hashed_token }
+      },
+      // admin.signOut takes one of the user's own access tokens, so open a session with a magic link
+      // first. The global scope then revokes all of their sessions, that one included.
+      revokeSessions: async (email) => {
+        const { data: link, error: linkError } = await supabase.auth.admin.generateLink({ type: 'magiclink', email })
+        if (linkError || !link.properties?.hashed_token) return { error: linkError?.message || 'Failed to revoke sessions' }
+
+        // A separate client, so the service client never picks up the user's session
+        const sessionClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+          auth: { persistSession: false, autoRefreshToken: false }
+        })
+        const { data: { session }, error: otpError } = await sessionClient.auth.verifyOtp({ token_hash: link.properties.hashed_token, type: 'magiclink' })
+        if (otpError || !session) return { error: otpError?.message || 'Failed to revoke sessions' }
+
+        const { error } = await supabase.auth.admin.signOut(session.access_token, 'global')
+        return error ? { error: error.message } : null
+      }
+    },
+    storage: {
+      upload: async (path, file) => {
+        const { data, error } = await supabase.storage.from(PHOTO_BUCKET).upload(path, file)
+        if (error) return { error: error.message }
+        return { path: data.path }
+      },
+      createSignedUrl: async (path, expiresInSeconds) => {
+        const { data } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrl(path, expiresInSeconds)
+        return data?.signedUrl ?? null
+      }
+    },
+    clock: { now: () => new Date() },
+    mail: MAIL_TRANSPORT === 'smtp'
+      ? createSmtpTransport({ hostname: SMTP_HOST, port: SMTP_PORT })
+      : createConsoleTransport(),
+    appUrl: APP_URL
+  }
+
+  // Create the private photo bucket if this project doesn't have it yet
+  const initStorage = async () => {
+    const { data: buckets } = await supabase.storage.listBuckets()
+    const bucketExists = buckets?.some((bucket: { name: string }) => bucket.name === PHOTO_BUCKET)
+
+    if (!bucketExists) {
+      const { error } = await supabase.storage.createBucket(PHOTO_BUCKET, {
+        public: false
+      })
+      if (error) {
+        console.log('Error creating bucket:', error)
+      } else {
+        console.log('Storage bucket created successfully')
+      }
+    }
+  }
+
+  return { deps, initStorage }
+}
@@ -0,0 +1,15 @@
+// Random tokens for links emailed to users (invites, password resets). The link carries the token;
+// only its SHA-256 hash is stored, so a leaked record can't be turned back into a working link.
+
+export const MIN_PASSWORD_LENGTH = 8
+
+const toHex = (bytes: ArrayBuffer) =>
+  [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('')
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+export const generateToken = () => toBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+
+export const hashToken = async (token: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)))
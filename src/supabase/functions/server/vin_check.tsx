@@ -0,0 +1,29 @@
+// VIN validation for the edge function. Mirrors src/utils/vin.ts on the client.
+
+// 17 characters, letters I, O and Q are never used
+export const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+}
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2]
+
+// Check digit (position 9) as defined by ISO 3779 / 49 CFR 565.15
+export const calculateVinCheckDigit = (vin: string): string => {
+  const sum = vin
+    .toUpperCase()
+    .split('')
+    .reduce((total, char, index) => {
+      const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char] ?? 0
+      return total + value * POSITION_WEIGHTS[index]
+    }, 0)
+
+  const remainder = sum % 11
+  return remainder === 10 ? 'X' : String(remainder)
+}
+
+export const hasValidVinCheckDigit = (vin: string): boolean =>
+  vin.toUpperCase()[8] === calculateVinCheckDigit(vin)
@@ -0,0 +1,45 @@
+import { assertEquals } from 'jsr:@std/assert@1'
+import { calculateVinCheckDigit, decodeModelYear, decodeVinOffline, extractVin, isValidVin, normalizeVin } from '../../../utils/vin.ts'
+
+Deno.test('calculateVinCheckDigit follows 49 CFR 565.15', () => {
+  assertEquals(calculateVinCheckDigit('1HGCM82633A004352'), '3')
+  assertEquals(calculateVinCheckDigit('11111111111111111'), '1')
+  assertEquals(calculateVinCheckDigit('1M8GDM9AXKP042788'), 'X')
+})
+
+Deno.test('isValidVin checks the pattern and the check digit', () => {
+  assertEquals(isValidVin('1HGCM82633A004352'), true)
+  assertEquals(isValidVin(' 1hgcm-82633 a004352 '), true)
+  assertEquals(isValidVin('1HGCM82643A004352'), false)
+  assertEquals(isValidVin('1HGCM82633A00435'), false)
+  assertEquals(isValidVin('1HGCM8263OA004352'), false)
+})
+
+Deno.test('normalizeVin drops spaces and dashes', () => {
+  assertEquals(normalizeVin(' 1hg-cm8 2633A004352\n'), '1HGCM82633A004352')
+})
+
+Deno.test('extractVin finds the VIN inside label text', () => {
+  assertEquals(extractVin('I1HGCM82633A004352'), '1HGCM82633A004352')
+  assertEquals(extractVin('VIN: 1HGCM82633A004352 MFD 03/03 GVWR 4500'), '1HGCM82633A004352')
+  assertEquals(extractVin('1HGCM82643A004352'), null)
+})
+
+Deno.test('decodeModelYear uses position 7 to pick the 30-year cycle', () => {
+  assertEquals(decodeModelYear('1HGCM82633A004352'), 2003)
+  assertEquals(decodeModelYear('5YJ3E1EA7KF317000'), 2019)
+  assertEquals(decodeModelYear('1HGCM8263UA004352'), undefined)
+})
+
+Deno.test('decodeVinOffline reads the make, country and plant', () => {
+  assertEquals(decodeVinOffline('1HGCM82633A004352'), {
+    wmi: '1HG',
+    make: 'Honda',
+    manufacturer: 'American Honda Motor Co.',
+    country: 'United States',
+    modelYear: 2003,
+    plantCode: 'A'
+  })
+  assertEquals(decodeVinOffline('XTA21099043576182').make, undefined)
+  assertEquals(decodeVinOffline('WBA3A5C51CF256551').country, 'Germany')
+})
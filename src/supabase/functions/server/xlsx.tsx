@@ -0,0 +1,209 @@
+// A small .xlsx (Office Open XML) writer: text, numbers, booleans and dates with a few number
+// formats, in an uncompressed ZIP. Enough for exports without pulling in a spreadsheet library.
+
+export type CellStyle = 'bold' | 'date' | 'currency' | 'decimal'
+
+export type CellValue = string | number | boolean | Date | null
+
+export type Cell = CellValue | { value: CellValue; style: CellStyle }
+
+export interface Sheet {
+  name: string
+  rows: Cell[][]
+  // In characters, by column
+  columnWidths?: number[]
+  // Keep the first row in view while scrolling
+  freezeHeader?: boolean
+}
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+// Index into cellXfs in styles.xml
+const STYLE_INDEX: Record<CellStyle, number> = { bold: 1, date: 2, currency: 3, decimal: 4 }
+
+// Excel keeps at most this many characters in a cell
+const MAX_CELL_LENGTH = 32767
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/><numFmt numFmtId="165" formatCode="&quot;$&quot;#,##0.00"/><numFmt numFmtId="166" formatCode="#,##0.00#"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`
+
+// XML 1.0 has no way to write most control characters or the U+FFFE and U+FFFF noncharacters
+const isXmlChar = (char: string) => {
+  const code = char.charCodeAt(0)
+  return code === 0x09 || code === 0x0a || code === 0x0d || (code >= 0x20 && code !== 0xfffe && code !== 0xffff)
+}
+
+// Characters XML can't carry are dropped
+const escapeXml = (text: string) => Array.from(text).filter(isXmlChar).join('')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export const columnName = (index: number): string => {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Excel counts days from 1899-12-30. Dates are written as they read in UTC, so pass wall-clock times.
+export const excelDate = (date: Date) => date.getTime() / 86_400_000 + 25569
+
+const cellXml = (cell: Cell, reference: string) => {
+  const { value, style } = cell !== null && typeof cell === 'object' && !(cell instanceof Date)
+    ? cell
+    : { value: cell, style: cell instanceof Date ? 'date' as const : undefined }
+  if (value === null || value === undefined || (typeof value === 'number' && !Number.isFinite(value))) return ''
+
+  const styleAttribute = style ? ` s="${STYLE_INDEX[style]}"` : ''
+  if (value instanceof Date) {
+    return `<c r="${reference}" s="${STYLE_INDEX[style ?? 'date']}"><v>${excelDate(value)}</v></c>`
+  }
+  if (typeof value === 'number') return `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`
+  if (typeof value === 'boolean') return `<c r="${reference}" t="b"${styleAttribute}><v>${value ? 1 : 0}</v></c>`
+
+  const text = escapeXml(value.slice(0, MAX_CELL_LENGTH))
+  const space = /^\s|\s$/.test(text) ? ' xml:space="preserve"' : ''
+  return `<c r="${reference}" t="inlineStr"${styleAttribute}><is><t${space}>${text}</t></is></c>`
+}
+
+const sheetXml = (sheet: Sheet) => {
+  const view = sheet.freezeHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : ''
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : ''
+  const rows = sheet.rows.map((row, r) =>
+    `<row r="${r + 1}">${row.map((cell, c) => cellXml(cell, `${columnName(c)}${r + 1}`)).join('')}</row>`
+  ).join('')
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${view}${cols}<sheetData>${rows}</sheetData></worksheet>`
+}
+
+// Sheet names are at most 31 characters and can't contain []:*?/\
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet'
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// A ZIP archive with every file stored uncompressed. Names are flagged as UTF-8.
+export const zipStored = (files: { name: string; data: Uint8Array }[]) => {
+  const encoder = new TextEncoder()
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const crc = crc32(file.data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, 0x0800, true)
+    local.setUint16(8, 0, true)
+    // Modified 1980-01-01 00:00, the earliest DOS date
+    local.setUint16(10, 0, true)
+    local.setUint16(12, 0x21, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, file.data.length, true)
+    local.setUint32(22, file.data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, 0, true)
+    central.setUint16(14, 0x21, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, file.data.length, true)
+    central.setUint32(24, file.data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    localParts.push(new Uint8Array(local.buffer), name, file.data)
+    centralParts.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + file.data.length
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    zip.set(part, position)
+    position += part.length
+  }
+  return zip
+}
+
+export const buildWorkbook = (sheets: Sheet[]) => {
+  const encoder = new TextEncoder()
+  const sheetEntries = sheets.map((sheet, i) => ({ ...sheet, id: i + 1 }))
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${
+  sheetEntries.map(sheet => `<Override PartName="/xl/worksheets/sheet${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+}</Types>`
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${
+  sheetEntries.map(sheet => `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`).join('')
+}</sheets></workbook>`
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+  sheetEntries.map(sheet => `<Relationship Id="rId${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheet.id}.xml"/>`).join('')
+}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+
+  return zipStored([
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+    { name: '_rels/.rels', data: encoder.encode(rootRels) },
+    { name: 'xl/workbook.xml', data: encoder.encode(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    ...sheetEntries.map(sheet => ({ name: `xl/worksheets/sheet${sheet.id}.xml`, data: encoder.encode(sheetXml(sheet)) }))
+  ])
+}
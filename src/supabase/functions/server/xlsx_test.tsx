@@ -0,0 +1,81 @@
+import { assert, assertEquals } from 'jsr:@std/assert@1'
+import { buildWorkbook, columnName, crc32, excelDate } from './xlsx.tsx'
+
+// Read the files back out of a stored (uncompressed) ZIP through its central directory
+const unzip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+  const decoder = new TextDecoder()
+  const end = zip.length - 22
+  assertEquals(view.getUint32(end, true), 0x06054b50)
+
+  const files = new Map<string, Uint8Array>()
+  let position = view.getUint32(end + 16, true)
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    assertEquals(view.getUint32(position, true), 0x02014b50)
+    const crc = view.getUint32(position + 16, true)
+    const size = view.getUint32(position + 24, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const offset = view.getUint32(position + 42, true)
+    const name = decoder.decode(zip.slice(position + 46, position + 46 + nameLength))
+
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true)
+    const data = zip.slice(dataStart, dataStart + size)
+    assertEquals(crc32(data), crc)
+    files.set(name, data)
+    position += 46 + nameLength
+  }
+  return files
+}
+
+Deno.test('crc32 matches the standard check value', () => {
+  assertEquals(crc32(new TextEncoder().encode('123456789')), 0xcbf43926)
+})
+
+Deno.test('columnName counts like spreadsheet columns', () => {
+  assertEquals([0, 25, 26, 51, 701, 702].map(columnName), ['A', 'Z', 'AA', 'AZ', 'ZZ', 'AAA'])
+})
+
+Deno.test('excelDate counts days from 1899-12-30', () => {
+  assertEquals(excelDate(new Date(Date.UTC(2025, 0, 1))), 45658)
+  assertEquals(excelDate(new Date(Date.UTC(2025, 0, 1, 18))), 45658.75)
+})
+
+Deno.test('buildWorkbook writes a valid package with typed, styled cells', () => {
+  const files = unzip(buildWorkbook([
+    {
+      name: 'Entries',
+      rows: [
+        [{ value: 'Notes', style: 'bold' }, 'Amount', 'When', 'Voided'],
+        ['Fish & <chips> "to go"\u0007', { value: 12.5, style: 'currency' }, new Date(Date.UTC(2025, 0, 1, 12)), false],
+        [' padded ', null, NaN]
+      ],
+      columnWidths: [30, 12],
+      freezeHeader: true
+    },
+    { name: 'Q1: [draft]', rows: [['Total', 12.5]] }
+  ]))
+
+  assertEquals([...files.keys()], [
+    '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/styles.xml',
+    'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml'
+  ])
+
+  const read = (name: string) => new TextDecoder().decode(files.get(name))
+  assert(read('[Content_Types].xml').includes('PartName="/xl/worksheets/sheet2.xml"'))
+  assert(read('xl/_rels/workbook.xml.rels').includes('Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles"'))
+  // Characters sheet names can't hold are replaced
+  assert(read('xl/workbook.xml').includes('<sheet name="Q1   draft " sheetId="2" r:id="rId2"/>'))
+
+  const sheet = read('xl/worksheets/sheet1.xml')
+  assert(sheet.includes('state="frozen"'))
+  assert(sheet.includes('<col min="1" max="1" width="30" customWidth="1"/>'))
+  assert(sheet.includes('<c r="A1" t="inlineStr" s="1"><is><t>Notes</t></is></c>'))
+  assert(sheet.includes('<c r="A2" t="inlineStr"><is><t>Fish &amp; &lt;chips&gt; &quot;to go&quot;</t></is></c>'))
+  assert(sheet.includes('<c r="B2" s="3"><v>12.5</v></c>'))
+  assert(sheet.includes('<c r="C2" s="2"><v>45658.5</v></c>'))
+  assert(sheet.includes('<c r="D2" t="b"><v>0</v></c>'))
+  assert(sheet.includes('<t xml:space="preserve"> padded </t>'))
+  // Empty and non-finite cells are left out
+  assert(!sheet.includes('r="B3"'))
+  assert(!sheet.includes('r="C3"'))
+})
@@ -0,0 +1,105 @@
+-- Relational tables for STORAGE_BACKEND=postgres. Existing KV data is copied in with
+-- `deno task migrate:kv` (supabase/functions/server/migrate_kv.tsx).
+-- Keep in sync with the Database type in src/utils/supabase/client.ts.
+
+create table if not exists public.users (
+  id text primary key,
+  email text not null,
+  name text not null,
+  role text not null default 'porter',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.vehicles (
+  vin text primary key,
+  year text,
+  make text,
+  model text,
+  trim text,
+  engine text,
+  displacement text,
+  cylinders text,
+  fuel_type text,
+  vehicle_type text,
+  body_class text,
+  drive_type text,
+  transmission text,
+  manufacturer text,
+  plant_city text,
+  plant_state text,
+  tank_capacity_gallons numeric,
+  valid boolean not null default false,
+  error text,
+  cached_at timestamptz not null default now()
+);
+
+create table if not exists public.fuel_entries (
+  id text primary key,
+  user_id text not null,
+  stock_number text not null default '',
+  vin text,
+  gallons numeric not null,
+  price_per_gallon numeric not null,
+  total_amount numeric not null,
+  odometer numeric not null,
+  fuel_type text not null,
+  station_name text,
+  location text not null default '',
+  latitude double precision,
+  longitude double precision,
+  receipt_photo text,
+  vin_photo text,
+  notes text,
+  timestamp timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  vehicle_year text,
+  vehicle_make text,
+  vehicle_model text,
+  vehicle_trim text,
+  voided boolean not null default false,
+  voided_at timestamptz,
+  voided_by text,
+  void_reason text,
+  revision_count integer not null default 0,
+  flagged boolean not null default false,
+  flag_reasons text[] not null default '{}',
+  status text,
+  status_history jsonb not null default '[]'
+);
+
+create index if not exists fuel_entries_user_id_idx on public.fuel_entries (user_id);
+create index if not exists fuel_entries_timestamp_idx on public.fuel_entries (timestamp desc, id desc);
+create index if not exists fuel_entries_stock_number_idx on public.fuel_entries (upper(stock_number));
+create index if not exists fuel_entries_vin_idx on public.fuel_entries (upper(vin));
+
+create table if not exists public.fuel_entry_revisions (
+  entry_id text not null references public.fuel_entries (id) on delete cascade,
+  revision integer not null,
+  action text not null,
+  reason text not null,
+  changes jsonb not null default '{}',
+  user_id text not null,
+  user_name text not null,
+  created_at timestamptz not null default now(),
+  primary key (entry_id, revision)
+);
+
+create table if not exists public.photos (
+  path text primary key,
+  user_id text not null,
+  file_name text,
+  content_type text,
+  size integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists photos_user_id_idx on public.photos (user_id);
+
+-- Only the edge function (service role) reads and writes these tables
+alter table public.users enable row level security;
+alter table public.vehicles enable row level security;
+alter table public.fuel_entries enable row level security;
+alter table public.fuel_entry_revisions enable row level security;
+alter table public.photos enable row level security;
@@ -0,0 +1,4 @@
+-- Invited users are assigned to a rooftop (dealership location).
+-- Keep in sync with the Database type in src/utils/supabase/client.ts.
+
+alter table public.users add column if not exists rooftop text;
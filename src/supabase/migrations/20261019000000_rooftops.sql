@@ -0,0 +1,44 @@
+-- Rooftops (dealerships) as their own table. Users and fuel entries point at one by id, replacing
+-- the free-text users.rooftop column; existing names become rooftops.
+-- Keep in sync with the Database type in src/utils/supabase/client.ts.
+
+create table if not exists public.rooftops (
+  id text primary key,
+  name text not null,
+  street text,
+  city text,
+  state text,
+  postal_code text,
+  latitude double precision,
+  longitude double precision,
+  geofence_radius_km numeric not null default 15,
+  timezone text not null default 'America/Chicago',
+  stock_number_pattern text,
+  stock_number_example text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.users add column if not exists rooftop_id text references public.rooftops (id) on delete set null;
+alter table public.fuel_entries add column if not exists rooftop_id text references public.rooftops (id) on delete set null;
+
+insert into public.rooftops (id, name)
+select gen_random_uuid()::text, names.rooftop
+from (select distinct trim(rooftop) as rooftop from public.users where trim(coalesce(rooftop, '')) <> '') as names
+where not exists (select 1 from public.rooftops where lower(rooftops.name) = lower(names.rooftop));
+
+update public.users
+set rooftop_id = rooftops.id
+from public.rooftops
+where users.rooftop_id is null and lower(trim(users.rooftop)) = lower(rooftops.name);
+
+-- Entries are recorded at their owner's rooftop
+update public.fuel_entries
+set rooftop_id = users.rooftop_id
+from public.users
+where fuel_entries.rooftop_id is null and fuel_entries.user_id = users.id;
+
+alter table public.users drop column if exists rooftop;
+
+create index if not exists users_rooftop_id_idx on public.users (rooftop_id);
+create index if not exists fuel_entries_rooftop_id_idx on public.fuel_entries (rooftop_id);
@@ -0,0 +1,15 @@
+-- Why each vehicle was fueled and whether it's a new, used, loaner or service customer vehicle,
+-- plus the per-rooftop stock number patterns the category is suggested from.
+-- Keep in sync with the Database type in src/utils/supabase/client.ts.
+
+alter table public.fuel_entries add column if not exists purpose text
+  check (purpose in ('delivery', 'demo', 'loaner', 'service', 'dealer_trade', 'transport', 'other'));
+alter table public.fuel_entries add column if not exists vehicle_category text
+  check (vehicle_category in ('new', 'used', 'loaner', 'service_customer'));
+
+alter table public.rooftops add column if not exists new_stock_pattern text;
+alter table public.rooftops add column if not exists used_stock_pattern text;
+alter table public.rooftops add column if not exists loaner_stock_pattern text;
+
+create index if not exists fuel_entries_purpose_idx on public.fuel_entries (purpose);
+create index if not exists fuel_entries_vehicle_category_idx on public.fuel_entries (vehicle_category);
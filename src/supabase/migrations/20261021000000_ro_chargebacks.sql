@@ -0,0 +1,9 @@
+-- Repair-order chargebacks: fuel put in service customers' vehicles is billed to their RO.
+-- Keep in sync with the Database type in src/utils/supabase/client.ts.
+
+alter table public.fuel_entries add column if not exists ro_number text;
+alter table public.fuel_entries add column if not exists chargeback_billed_at timestamptz;
+alter table public.fuel_entries add column if not exists chargeback_billed_by text;
+
+-- The open chargebacks report only reads entries with an RO number
+create index if not exists fuel_entries_ro_number_idx on public.fuel_entries (ro_number) where ro_number is not null;
@@ -0,0 +1,6 @@
+-- Whether each vehicle's engine needs premium. NHTSA doesn't decode it, so admins classify vehicles:
+-- null until they do, true for premium-required and false for regular-only. Premium fills are
+-- only flagged for regular-only vehicles.
+-- Keep in sync with the Database type in src/utils/supabase/client.ts.
+
+alter table public.vehicles add column if not exists premium_required boolean;
@@ -0,0 +1,6 @@
+-- The offline outbox's id for each entry, so a resend after a lost response doesn't save it twice.
+-- Keep in sync with the Database type in src/utils/supabase/client.ts.
+
+alter table public.fuel_entries add column if not exists client_id text;
+
+create unique index if not exists fuel_entries_client_id_idx on public.fuel_entries (user_id, client_id) where client_id is not null;
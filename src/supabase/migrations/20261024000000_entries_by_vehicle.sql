@@ -0,0 +1,12 @@
+-- A vehicle's fills by stock number or VIN in any case, for the fraud checks on each new entry.
+-- Uses the upper() indexes from 20261018000000_relational_storage.sql instead of scanning every entry.
+
+create or replace function public.fuel_entries_for_vehicle(vehicle_id text)
+returns setof public.fuel_entries
+language sql
+stable
+as $$
+  select * from public.fuel_entries
+  where upper(stock_number) = upper(btrim(vehicle_id))
+     or upper(vin) = upper(btrim(vehicle_id))
+$$;
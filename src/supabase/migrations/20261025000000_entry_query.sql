@@ -0,0 +1,39 @@
+-- One page of GET /fuel-entries, newest first, for FuelEntryRepository.query in
+-- supabase/functions/server/postgres_repositories.tsx. q is the EntryQuery with its times as ISO strings
+-- and the cursor split into cursor_timestamp and cursor_id; the filters match matchesEntryQuery in
+-- entry_query.tsx. Entries from before rooftops existed count at their owner's rooftop.
+-- Walks the (timestamp desc, id desc) index from 20261018000000_relational_storage.sql.
+
+create or replace function public.fuel_entries_page(q jsonb)
+returns setof public.fuel_entries
+language sql
+stable
+as $$
+  select e.* from public.fuel_entries e
+  left join public.users u on u.id = e.user_id
+  where (q->>'from' is null or e.timestamp >= (q->>'from')::timestamptz)
+    and (q->>'to' is null or e.timestamp <= (q->>'to')::timestamptz)
+    and (q->>'user_id' is null or e.user_id = q->>'user_id')
+    and (q->>'rooftop_id' is null or coalesce(e.rooftop_id, u.rooftop_id) = q->>'rooftop_id')
+    and (q->>'visible_rooftop_id' is null
+      or e.user_id = q->>'viewer_id'
+      or coalesce(e.rooftop_id, u.rooftop_id) = q->>'visible_rooftop_id')
+    and ((q->>'include_voided')::boolean or not e.voided)
+    and (q->>'stock_number' is null or upper(e.stock_number) = q->>'stock_number')
+    -- Partial VINs are common (last 6 or 8 characters)
+    and (q->>'vin' is null or strpos(upper(coalesce(e.vin, '')), q->>'vin') > 0)
+    and (q->>'search' is null
+      or strpos(upper(e.stock_number), q->>'search') > 0
+      or strpos(upper(coalesce(e.vin, '')), q->>'search') > 0
+      or strpos(upper(coalesce(e.ro_number, '')), q->>'search') > 0
+      or strpos(upper(coalesce(e.notes, '')), q->>'search') > 0)
+    and (q->>'min_amount' is null or e.total_amount >= (q->>'min_amount')::numeric)
+    and (q->>'max_amount' is null or e.total_amount <= (q->>'max_amount')::numeric)
+    -- Entries from before the approval workflow have no status and count as approved
+    and (q->>'status' is null or coalesce(e.status, 'approved') in (select jsonb_array_elements_text(q->'status')))
+    and (q->>'flagged' is null or e.flagged = (q->>'flagged')::boolean)
+    and (q->>'cursor_timestamp' is null
+      or (e.timestamp, e.id) < ((q->>'cursor_timestamp')::timestamptz, q->>'cursor_id'))
+  order by e.timestamp desc, e.id desc
+  limit (q->>'limit')::integer
+$$;
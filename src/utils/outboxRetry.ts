@@ -0,0 +1,43 @@
+// When the outbox tries an unsent entry again. Kept free of imports so
+// server/outbox_retry_test.tsx can run it under Deno.
+
+// guest: saved in guest mode, waits until claimed by a signed-in user
+// pending: waiting for connectivity or the next retry
+// syncing: currently being sent
+// failed: rejected by the server or out of retries, needs a manual retry
+export type OutboxStatus = 'guest' | 'pending' | 'syncing' | 'failed';
+
+export interface OutboxRetryState {
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_error?: string;
+}
+
+export const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+// Doubles with each failed attempt, up to half an hour
+export const retryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Network errors wait and go again until they run out of attempts. Anything
+// the server rejected won't succeed on its own, so it waits for a manual retry.
+export const afterFailedAttempt = <T extends OutboxRetryState>(
+  item: T,
+  error: string,
+  networkError: boolean,
+  now = Date.now()
+): T => {
+  const attempts = item.attempts + 1;
+
+  if (networkError && attempts < MAX_ATTEMPTS) {
+    return { ...item, status: 'pending', attempts, next_attempt_at: now + retryDelay(attempts), last_error: error };
+  }
+
+  return { ...item, status: 'failed', attempts, last_error: error };
+};
+
+export const isDueForRetry = (item: OutboxRetryState, now = Date.now(), force = false) =>
+  item.status === 'pending' && (force || item.next_attempt_at <= now);
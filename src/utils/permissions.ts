@@ -0,0 +1,56 @@
+// Roles and what each one may do. Keep in sync with permissions.tsx on the edge
+// function; the server enforces these, the UI only uses them to hide what would be refused.
+
+export const ROLES = ['admin', 'manager', 'accountant', 'auditor', 'porter'] as const;
+
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'entries.view_all'
+  | 'entries.edit_all'
+  | 'entries.review'
+  | 'users.view'
+  | 'users.manage'
+  | 'data.export'
+  | 'vehicles.view'
+  | 'reconciliation.view'
+  | 'reconciliation.manage'
+  | 'chargebacks.manage'
+  | 'settings.manage';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'entries.view_all', 'entries.edit_all', 'entries.review', 'users.view', 'users.manage',
+    'data.export', 'vehicles.view', 'reconciliation.view', 'reconciliation.manage', 'chargebacks.manage', 'settings.manage'
+  ],
+  manager: ['entries.view_all', 'entries.edit_all', 'entries.review', 'users.view', 'vehicles.view', 'data.export', 'chargebacks.manage'],
+  accountant: ['entries.view_all', 'data.export', 'vehicles.view', 'reconciliation.view', 'reconciliation.manage', 'chargebacks.manage'],
+  auditor: ['entries.view_all', 'users.view', 'data.export', 'vehicles.view', 'reconciliation.view'],
+  porter: []
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrator',
+  manager: 'Manager',
+  accountant: 'Accountant',
+  auditor: 'Auditor',
+  porter: 'Porter'
+};
+
+// Shown next to the role picker when inviting or changing a user
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  admin: 'Everything, including users and settings',
+  manager: 'Reviews and corrects entries for their rooftop',
+  accountant: 'Exports data and reconciles card statements',
+  auditor: 'Read-only access to entries, users and statements',
+  porter: 'Records their own fuel runs'
+};
+
+export const can = (user: { role?: string } | null | undefined, permission: Permission): boolean =>
+  !!user?.role && (ROLE_PERMISSIONS[user.role as Role] ?? []).includes(permission);
+
+// Anything the admin panel has a tab for
+const ADMIN_PANEL_PERMISSIONS: Permission[] = ['users.view', 'entries.review', 'data.export', 'reconciliation.view', 'settings.manage'];
+
+export const canOpenAdminPanel = (user: { role?: string } | null | undefined): boolean =>
+  ADMIN_PANEL_PERMISSIONS.some(permission => can(user, permission));
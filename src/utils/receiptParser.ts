@@ -0,0 +1,200 @@
+// Turns OCR output from a fuel receipt into form values.
+// Every field carries a 0-1 confidence so the form can highlight what the porter should double-check.
+
+export interface OcrLine {
+  text: string;
+  confidence: number; // 0-100, as reported by the OCR engine
+}
+
+export interface ParsedField<T> {
+  value: T;
+  confidence: number; // 0-1
+}
+
+export interface ParsedReceipt {
+  gallons?: ParsedField<number>;
+  pricePerGallon?: ParsedField<number>;
+  total?: ParsedField<number>;
+  stationName?: ParsedField<string>;
+  transactionTime?: ParsedField<Date>;
+  totalMismatch: boolean;
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+// Largest allowed difference between the printed total and gallons x price
+export const TOTAL_MISMATCH_TOLERANCE = 0.05;
+
+const HIGH_CONFIDENCE = 0.85;
+const MEDIUM_CONFIDENCE = 0.6;
+
+// Values found next to a label are trusted more than values found by shape alone
+const LABELLED_MATCH = 1;
+const UNLABELLED_MATCH = 0.7;
+const DERIVED_VALUE = 0.5;
+
+const KNOWN_STATIONS = [
+  '7-ELEVEN', 'ARCO', 'BP', 'BUC-EE\'S', 'CASEY\'S', 'CHEVRON', 'CIRCLE K', 'CITGO', 'COSTCO',
+  'EXXON', 'GULF', 'KWIK TRIP', 'MARATHON', 'MEIJER', 'MOBIL', 'PHILLIPS 66', 'QUIKTRIP',
+  'SAM\'S CLUB', 'SHEETZ', 'SHELL', 'SINCLAIR', 'SPEEDWAY', 'SUNOCO', 'TEXACO', 'THORNTONS',
+  'VALERO', 'WAWA'
+];
+
+const NUMBER = '(\\d{1,4}[.,]\\d{2,3})';
+const GALLONS_LABELLED = new RegExp(`(?<![/\\w])(?:GALLONS|GALS?|VOLUME|QTY)\\b[^\\d]*${NUMBER}`);
+const GALLONS_SUFFIXED = new RegExp(`${NUMBER}\\s*(?:GALLONS|GALS?|G)\\b`);
+const PRICE_LABELLED = new RegExp(`(?:PRICE|PPG|UNIT|\\/\\s*GAL)[^\\d]*\\$?\\s*${NUMBER}`);
+const PRICE_SUFFIXED = new RegExp(`@\\s*\\$?\\s*${NUMBER}|\\$?\\s*${NUMBER}\\s*\\/\\s*G(?:AL)?\\b`);
+const TOTAL_LABELLED = new RegExp(`(?:^|[^B])(?:TOTAL|AMOUNT|SALE|FUEL\\s+SALE|PURCHASE)\\b[^\\d]*\\$?\\s*${NUMBER}`);
+const DOLLAR_AMOUNT = new RegExp(`\\$\\s*${NUMBER}`, 'g');
+const DATE = /\b(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})\b/;
+const TIME = /\b(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?\b/;
+
+export const getConfidenceLevel = (confidence: number): ConfidenceLevel => {
+  if (confidence >= HIGH_CONFIDENCE) return 'high';
+  if (confidence >= MEDIUM_CONFIDENCE) return 'medium';
+  return 'low';
+};
+
+// OCR commonly reads 0 as O and 5 as S inside numbers
+const normalizeLine = (text: string) =>
+  text
+    .toUpperCase()
+    .replace(/(\d)[O](?=\d)/g, '$10')
+    .replace(/(\d)[S](?=\d)/g, '$15')
+    .replace(/(\d)\s+([.,])\s*(\d)/g, '$1$2$3')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const toNumber = (value: string) => Number(value.replace(',', '.'));
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+const lineConfidence = (line: OcrLine, matchWeight: number) =>
+  round(Math.min(Math.max(line.confidence, 0), 100) / 100 * matchWeight, 2);
+
+const findNumber = (
+  lines: OcrLine[],
+  patterns: { pattern: RegExp; weight: number }[],
+  isPlausible: (value: number) => boolean
+): ParsedField<number> | undefined => {
+  for (const { pattern, weight } of patterns) {
+    // Totals are usually printed last, so prefer the lowest matching line
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const match = normalizeLine(lines[i].text).match(pattern);
+      const raw = match?.slice(1).find(group => group !== undefined);
+      if (!raw) continue;
+
+      const value = toNumber(raw);
+      if (isPlausible(value)) {
+        return { value, confidence: lineConfidence(lines[i], weight) };
+      }
+    }
+  }
+  return undefined;
+};
+
+const findLargestDollarAmount = (lines: OcrLine[]): ParsedField<number> | undefined => {
+  let best: ParsedField<number> | undefined;
+  lines.forEach(line => {
+    for (const match of normalizeLine(line.text).matchAll(DOLLAR_AMOUNT)) {
+      const value = toNumber(match[1]);
+      if (!best || value > best.value) {
+        best = { value, confidence: lineConfidence(line, UNLABELLED_MATCH) };
+      }
+    }
+  });
+  return best;
+};
+
+const findStationName = (lines: OcrLine[]): ParsedField<string> | undefined => {
+  for (const line of lines) {
+    const text = normalizeLine(line.text);
+    const station = KNOWN_STATIONS.find(name => new RegExp(`\\b${name.replace(/[-']/g, '[-\']?')}\\b`).test(text));
+    if (station) {
+      return { value: station, confidence: lineConfidence(line, LABELLED_MATCH) };
+    }
+  }
+
+  // Otherwise the store name is normally the first line of mostly letters in the header
+  const header = lines.slice(0, 4).find(line => {
+    const letters = line.text.replace(/[^A-Za-z]/g, '').length;
+    return letters >= 3 && letters / line.text.replace(/\s/g, '').length > 0.7;
+  });
+  return header
+    ? { value: header.text.replace(/\s+/g, ' ').trim(), confidence: lineConfidence(header, UNLABELLED_MATCH) }
+    : undefined;
+};
+
+const findTransactionTime = (lines: OcrLine[]): ParsedField<Date> | undefined => {
+  for (let i = 0; i < lines.length; i++) {
+    const text = normalizeLine(lines[i].text);
+    const date = text.match(DATE);
+    if (!date) continue;
+
+    const month = Number(date[1]);
+    const day = Number(date[2]);
+    const year = date[3].length === 2 ? 2000 + Number(date[3]) : Number(date[3]);
+    if (month < 1 || month > 12 || day < 1 || day > 31) continue;
+
+    // The time is printed on the same line or the one right after it
+    const timeLine = TIME.test(text) ? lines[i] : lines[i + 1];
+    const time = timeLine ? normalizeLine(timeLine.text).match(TIME) : null;
+
+    let hours = time ? Number(time[1]) : 0;
+    if (time?.[4] === 'PM' && hours < 12) hours += 12;
+    if (time?.[4] === 'AM' && hours === 12) hours = 0;
+
+    const value = new Date(year, month - 1, day, hours, time ? Number(time[2]) : 0, time?.[3] ? Number(time[3]) : 0);
+    if (isNaN(value.getTime())) continue;
+
+    return { value, confidence: lineConfidence(lines[i], time ? LABELLED_MATCH : UNLABELLED_MATCH) };
+  }
+  return undefined;
+};
+
+export const parseReceipt = (lines: OcrLine[]): ParsedReceipt => {
+  const usefulLines = lines.filter(line => line.text.trim().length > 0);
+
+  let gallons = findNumber(usefulLines, [
+    { pattern: GALLONS_LABELLED, weight: LABELLED_MATCH },
+    { pattern: GALLONS_SUFFIXED, weight: UNLABELLED_MATCH }
+  ], value => value > 0 && value < 500);
+
+  let pricePerGallon = findNumber(usefulLines, [
+    { pattern: PRICE_LABELLED, weight: LABELLED_MATCH },
+    { pattern: PRICE_SUFFIXED, weight: UNLABELLED_MATCH }
+  ], value => value > 0.5 && value < 20);
+
+  let total = findNumber(usefulLines, [
+    { pattern: TOTAL_LABELLED, weight: LABELLED_MATCH }
+  ], value => value > 0 && value < 5000) ?? findLargestDollarAmount(usefulLines);
+
+  let totalMismatch = false;
+
+  if (gallons && pricePerGallon && total) {
+    totalMismatch = Math.abs(total.value - gallons.value * pricePerGallon.value) > TOTAL_MISMATCH_TOLERANCE;
+
+    // Three values that agree with each other are very unlikely to be misreads
+    if (!totalMismatch) {
+      gallons = { ...gallons, confidence: Math.max(gallons.confidence, HIGH_CONFIDENCE) };
+      pricePerGallon = { ...pricePerGallon, confidence: Math.max(pricePerGallon.confidence, HIGH_CONFIDENCE) };
+      total = { ...total, confidence: Math.max(total.confidence, HIGH_CONFIDENCE) };
+    }
+  } else if (gallons && pricePerGallon) {
+    total = { value: round(gallons.value * pricePerGallon.value, 2), confidence: DERIVED_VALUE };
+  } else if (gallons && total) {
+    pricePerGallon = { value: round(total.value / gallons.value, 3), confidence: DERIVED_VALUE };
+  } else if (pricePerGallon && total) {
+    gallons = { value: round(total.value / pricePerGallon.value, 3), confidence: DERIVED_VALUE };
+  }
+
+  return {
+    gallons,
+    pricePerGallon,
+    total,
+    stationName: findStationName(usefulLines),
+    transactionTime: findTransactionTime(usefulLines),
+    totalMismatch
+  };
+};
@@ -5,15 +5,78 @@ const supabaseUrl = `https://${projectId}.supabase.co`
 
 export const supabase = createClient(supabaseUrl, publicAnonKey)
 
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
+// Tables created by supabase/migrations/20261018000000_relational_storage.sql (and later migrations)
+// and used by the edge function when STORAGE_BACKEND=postgres
 export type Database = {
   public: {
     Tables: {
+      rooftops: {
+        Row: {
+          id: string
+          name: string
+          street: string | null
+          city: string | null
+          state: string | null
+          postal_code: string | null
+          latitude: number | null
+          longitude: number | null
+          geofence_radius_km: number
+          timezone: string
+          stock_number_pattern: string | null
+          stock_number_example: string | null
+          new_stock_pattern: string | null
+          used_stock_pattern: string | null
+          loaner_stock_pattern: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          name: string
+          street?: string | null
+          city?: string | null
+          state?: string | null
+          postal_code?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          geofence_radius_km?: number
+          timezone?: string
+          stock_number_pattern?: string | null
+          stock_number_example?: string | null
+          new_stock_pattern?: string | null
+          used_stock_pattern?: string | null
+          loaner_stock_pattern?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          street?: string | null
+          city?: string | null
+          state?: string | null
+          postal_code?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          geofence_radius_km?: number
+          timezone?: string
+          stock_number_pattern?: string | null
+          stock_number_example?: string | null
+          new_stock_pattern?: string | null
+          used_stock_pattern?: string | null
+          loaner_stock_pattern?: string | null
+          updated_at?: string
+        }
+      }
       users: {
         Row: {
           id: string
           email: string
           name: string
-          role: 'admin' | 'porter'
+          role: 'admin' | 'manager' | 'accountant' | 'auditor' | 'porter'
+          rooftop_id: string | null
+          rooftop: string | null
           created_at: string
           updated_at: string
         }
@@ -21,7 +84,9 @@ export type Database = {
           id?: string
           email: string
           name: string
-          role?: 'admin' | 'porter'
+          role?: 'admin' | 'manager' | 'accountant' | 'auditor' | 'porter'
+          rooftop_id?: string | null
+          rooftop?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -29,7 +94,9 @@ export type Database = {
           id?: string
           email?: string
           name?: string
-          role?: 'admin' | 'porter'
+          role?: 'admin' | 'manager' | 'accountant' | 'auditor' | 'porter'
+          rooftop_id?: string | null
+          rooftop?: string | null
           updated_at?: string
         }
       }
@@ -37,6 +104,7 @@ export type Database = {
         Row: {
           id: string
           user_id: string
+          rooftop_id: string | null
           stock_number: string
           vin: string | null
           gallons: number
@@ -44,6 +112,7 @@ export type Database = {
           total_amount: number
           odometer: number
           fuel_type: string
+          station_name: string | null
           location: string
           latitude: number | null
           longitude: number | null
@@ -52,10 +121,31 @@ export type Database = {
           notes: string | null
           timestamp: string
           created_at: string
+          updated_at: string | null
+          vehicle_year: string | null
+          vehicle_make: string | null
+          vehicle_model: string | null
+          vehicle_trim: string | null
+          voided: boolean
+          voided_at: string | null
+          voided_by: string | null
+          void_reason: string | null
+          revision_count: number
+          flagged: boolean
+          flag_reasons: string[]
+          status: 'submitted' | 'approved' | 'rejected' | 'needs_info' | null
+          status_history: Json
+          purpose: 'delivery' | 'demo' | 'loaner' | 'service' | 'dealer_trade' | 'transport' | 'other' | null
+          vehicle_category: 'new' | 'used' | 'loaner' | 'service_customer' | null
+          ro_number: string | null
+          chargeback_billed_at: string | null
+          chargeback_billed_by: string | null
+          client_id: string | null
         }
         Insert: {
           id?: string
           user_id: string
+          rooftop_id?: string | null
           stock_number: string
           vin?: string | null
           gallons: number
@@ -63,6 +153,7 @@ export type Database = {
           total_amount: number
           odometer: number
           fuel_type: string
+          station_name?: string | null
           location: string
           latitude?: number | null
           longitude?: number | null
@@ -71,10 +162,31 @@ export type Database = {
           notes?: string | null
           timestamp: string
           created_at?: string
+          updated_at?: string | null
+          vehicle_year?: string | null
+          vehicle_make?: string | null
+          vehicle_model?: string | null
+          vehicle_trim?: string | null
+          voided?: boolean
+          voided_at?: string | null
+          voided_by?: string | null
+          void_reason?: string | null
+          revision_count?: number
+          flagged?: boolean
+          flag_reasons?: string[]
+          status?: 'submitted' | 'approved' | 'rejected' | 'needs_info' | null
+          status_history?: Json
+          purpose?: 'delivery' | 'demo' | 'loaner' | 'service' | 'dealer_trade' | 'transport' | 'other' | null
+          vehicle_category?: 'new' | 'used' | 'loaner' | 'service_customer' | null
+          ro_number?: string | null
+          chargeback_billed_at?: string | null
+          chargeback_billed_by?: string | null
+          client_id?: string | null
         }
         Update: {
           id?: string
           user_id?: string
+          rooftop_id?: string | null
           stock_number?: string
           vin?: string | null
           gallons?: number
@@ -82,6 +194,7 @@ export type Database = {
           total_amount?: number
           odometer?: number
           fuel_type?: string
+          station_name?: string | null
           location?: string
           latitude?: number | null
           longitude?: number | null
@@ -89,6 +202,153 @@ export type Database = {
           vin_photo?: string | null
           notes?: string | null
           timestamp?: string
+          updated_at?: string | null
+          vehicle_year?: string | null
+          vehicle_make?: string | null
+          vehicle_model?: string | null
+          vehicle_trim?: string | null
+          voided?: boolean
+          voided_at?: string | null
+          voided_by?: string | null
+          void_reason?: string | null
+          revision_count?: number
+          flagged?: boolean
+          flag_reasons?: string[]
+          status?: 'submitted' | 'approved' | 'rejected' | 'needs_info' | null
+          status_history?: Json
+          purpose?: 'delivery' | 'demo' | 'loaner' | 'service' | 'dealer_trade' | 'transport' | 'other' | null
+          vehicle_category?: 'new' | 'used' | 'loaner' | 'service_customer' | null
+          ro_number?: string | null
+          chargeback_billed_at?: string | null
+          chargeback_billed_by?: string | null
+          client_id?: string | null
+        }
+      }
+      fuel_entry_revisions: {
+        Row: {
+          entry_id: string
+          revision: number
+          action: 'edit' | 'void'
+          reason: string
+          changes: Json
+          user_id: string
+          user_name: string
+          created_at: string
+        }
+        Insert: {
+          entry_id: string
+          revision: number
+          action: 'edit' | 'void'
+          reason: string
+          changes?: Json
+          user_id: string
+          user_name: string
+          created_at?: string
+        }
+        Update: {
+          entry_id?: string
+          revision?: number
+          action?: 'edit' | 'void'
+          reason?: string
+          changes?: Json
+          user_id?: string
+          user_name?: string
+        }
+      }
+      vehicles: {
+        Row: {
+          vin: string
+          year: string | null
+          make: string | null
+          model: string | null
+          trim: string | null
+          engine: string | null
+          displacement: string | null
+          cylinders: string | null
+          fuel_type: string | null
+          vehicle_type: string | null
+          body_class: string | null
+          drive_type: string | null
+          transmission: string | null
+          manufacturer: string | null
+          plant_city: string | null
+          plant_state: string | null
+          tank_capacity_gallons: number | null
+          premium_required: boolean | null
+          valid: boolean
+          error: string | null
+          cached_at: string
+        }
+        Insert: {
+          vin: string
+          year?: string | null
+          make?: string | null
+          model?: string | null
+          trim?: string | null
+          engine?: string | null
+          displacement?: string | null
+          cylinders?: string | null
+          fuel_type?: string | null
+          vehicle_type?: string | null
+          body_class?: string | null
+          drive_type?: string | null
+          transmission?: string | null
+          manufacturer?: string | null
+          plant_city?: string | null
+          plant_state?: string | null
+          tank_capacity_gallons?: number | null
+          premium_required?: boolean | null
+          valid?: boolean
+          error?: string | null
+          cached_at?: string
+        }
+        Update: {
+          vin?: string
+          year?: string | null
+          make?: string | null
+          model?: string | null
+          trim?: string | null
+          engine?: string | null
+          displacement?: string | null
+          cylinders?: string | null
+          fuel_type?: string | null
+          vehicle_type?: string | null
+          body_class?: string | null
+          drive_type?: string | null
+          transmission?: string | null
+          manufacturer?: string | null
+          plant_city?: string | null
+          plant_state?: string | null
+          tank_capacity_gallons?: number | null
+          premium_required?: boolean | null
+          valid?: boolean
+          error?: string | null
+          cached_at?: string
+        }
+      }
+      photos: {
+        Row: {
+          path: string
+          user_id: string
+          file_name: string | null
+          content_type: string | null
+          size: number | null
+          created_at: string
+        }
+        Insert: {
+          path: string
+          user_id: string
+          file_name?: string | null
+          content_type?: string | null
+          size?: number | null
+          created_at?: string
+        }
+        Update: {
+          path?: string
+          user_id?: string
+          file_name?: string | null
+          content_type?: string | null
+          size?: number | null
         }
       }
     }
@@ -0,0 +1,225 @@
+// VIN helpers shared by the scanner, manual entry and the VIN decoder
+
+// 17 characters, letters I, O and Q are never used
+export const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+export const normalizeVin = (vin: string) => vin.trim().toUpperCase().replace(/[\s-]/g, '');
+
+// Check digit (position 9) as defined by 49 CFR 565.15
+export const calculateVinCheckDigit = (vin: string): string => {
+  const sum = normalizeVin(vin)
+    .split('')
+    .reduce((total, char, index) => {
+      const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char] ?? 0;
+      return total + value * POSITION_WEIGHTS[index];
+    }, 0);
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+};
+
+export const hasValidVinCheckDigit = (vin: string): boolean => {
+  const normalized = normalizeVin(vin);
+  return normalized[8] === calculateVinCheckDigit(normalized);
+};
+
+export const isValidVin = (vin: string): boolean => {
+  const normalized = normalizeVin(vin);
+  return VIN_PATTERN.test(normalized) && hasValidVinCheckDigit(normalized);
+};
+
+// VIN labels print extra characters around the VIN itself: Code 39 labels on
+// imported vehicles prefix an "I", and Data Matrix labels may carry a whole
+// line of build data. Pull out the first 17 characters that form a valid VIN.
+export const extractVin = (text: string): string | null => {
+  const candidate = text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+  for (let start = 0; start + 17 <= candidate.length; start++) {
+    const vin = candidate.slice(start, start + 17);
+    if (isValidVin(vin)) return vin;
+  }
+
+  return null;
+};
+
+export interface OfflineVinInfo {
+  wmi: string;
+  make?: string;
+  manufacturer?: string;
+  country?: string;
+  modelYear?: number;
+  plantCode: string;
+}
+
+// World manufacturer identifiers (positions 1-3) for the makes we see on the lot
+const WMI_MAKES: Record<string, { make: string; manufacturer: string }> = {
+  '1C3': { make: 'Chrysler', manufacturer: 'FCA US LLC' },
+  '1C4': { make: 'Chrysler', manufacturer: 'FCA US LLC' },
+  '1C6': { make: 'Ram', manufacturer: 'FCA US LLC' },
+  '2C3': { make: 'Chrysler', manufacturer: 'FCA Canada' },
+  '3C4': { make: 'Chrysler', manufacturer: 'FCA Mexico' },
+  '3C6': { make: 'Ram', manufacturer: 'FCA Mexico' },
+  '3C7': { make: 'Ram', manufacturer: 'FCA Mexico' },
+  '1B3': { make: 'Dodge', manufacturer: 'FCA US LLC' },
+  '2B3': { make: 'Dodge', manufacturer: 'FCA Canada' },
+  '1D7': { make: 'Dodge', manufacturer: 'FCA US LLC' },
+  '1J4': { make: 'Jeep', manufacturer: 'FCA US LLC' },
+  '1J8': { make: 'Jeep', manufacturer: 'FCA US LLC' },
+  'ZAC': { make: 'Jeep', manufacturer: 'FCA Italy' },
+  'ZFA': { make: 'Fiat', manufacturer: 'FCA Italy' },
+  'ZAR': { make: 'Alfa Romeo', manufacturer: 'FCA Italy' },
+  'ZAM': { make: 'Maserati', manufacturer: 'Maserati' },
+  '1FA': { make: 'Ford', manufacturer: 'Ford Motor Company' },
+  '1FB': { make: 'Ford', manufacturer: 'Ford Motor Company' },
+  '1FD': { make: 'Ford', manufacturer: 'Ford Motor Company' },
+  '1FM': { make: 'Ford', manufacturer: 'Ford Motor Company' },
+  '1FT': { make: 'Ford', manufacturer: 'Ford Motor Company' },
+  '2FM': { make: 'Ford', manufacturer: 'Ford Motor Company of Canada' },
+  '3FA': { make: 'Ford', manufacturer: 'Ford Motor Company Mexico' },
+  '3FM': { make: 'Ford', manufacturer: 'Ford Motor Company Mexico' },
+  '5LM': { make: 'Lincoln', manufacturer: 'Ford Motor Company' },
+  '1LN': { make: 'Lincoln', manufacturer: 'Ford Motor Company' },
+  '1G1': { make: 'Chevrolet', manufacturer: 'General Motors' },
+  '1GC': { make: 'Chevrolet', manufacturer: 'General Motors' },
+  '1GN': { make: 'Chevrolet', manufacturer: 'General Motors' },
+  '2G1': { make: 'Chevrolet', manufacturer: 'General Motors of Canada' },
+  '3GC': { make: 'Chevrolet', manufacturer: 'General Motors de Mexico' },
+  '3GN': { make: 'Chevrolet', manufacturer: 'General Motors de Mexico' },
+  'KL7': { make: 'Chevrolet', manufacturer: 'GM Korea' },
+  '1GT': { make: 'GMC', manufacturer: 'General Motors' },
+  '1GK': { make: 'GMC', manufacturer: 'General Motors' },
+  '3GT': { make: 'GMC', manufacturer: 'General Motors de Mexico' },
+  '3GK': { make: 'GMC', manufacturer: 'General Motors de Mexico' },
+  '1G6': { make: 'Cadillac', manufacturer: 'General Motors' },
+  '1GY': { make: 'Cadillac', manufacturer: 'General Motors' },
+  '1G4': { make: 'Buick', manufacturer: 'General Motors' },
+  'KL4': { make: 'Buick', manufacturer: 'GM Korea' },
+  'LRB': { make: 'Buick', manufacturer: 'SAIC General Motors' },
+  '1HG': { make: 'Honda', manufacturer: 'American Honda Motor Co.' },
+  '2HG': { make: 'Honda', manufacturer: 'Honda of Canada Mfg.' },
+  '5FN': { make: 'Honda', manufacturer: 'American Honda Motor Co.' },
+  '5J6': { make: 'Honda', manufacturer: 'American Honda Motor Co.' },
+  '7FA': { make: 'Honda', manufacturer: 'American Honda Motor Co.' },
+  'JHM': { make: 'Honda', manufacturer: 'Honda Motor Co.' },
+  '19U': { make: 'Acura', manufacturer: 'American Honda Motor Co.' },
+  '5J8': { make: 'Acura', manufacturer: 'American Honda Motor Co.' },
+  'JH4': { make: 'Acura', manufacturer: 'Honda Motor Co.' },
+  '4T1': { make: 'Toyota', manufacturer: 'Toyota Motor Manufacturing' },
+  '4T3': { make: 'Toyota', manufacturer: 'Toyota Motor Manufacturing' },
+  '5TD': { make: 'Toyota', manufacturer: 'Toyota Motor Manufacturing' },
+  '5TF': { make: 'Toyota', manufacturer: 'Toyota Motor Manufacturing' },
+  '2T3': { make: 'Toyota', manufacturer: 'Toyota Motor Manufacturing Canada' },
+  'JTD': { make: 'Toyota', manufacturer: 'Toyota Motor Corporation' },
+  'JTE': { make: 'Toyota', manufacturer: 'Toyota Motor Corporation' },
+  'JTM': { make: 'Toyota', manufacturer: 'Toyota Motor Corporation' },
+  '2T2': { make: 'Lexus', manufacturer: 'Toyota Motor Manufacturing Canada' },
+  'JTH': { make: 'Lexus', manufacturer: 'Toyota Motor Corporation' },
+  'JTJ': { make: 'Lexus', manufacturer: 'Toyota Motor Corporation' },
+  '1N4': { make: 'Nissan', manufacturer: 'Nissan North America' },
+  '1N6': { make: 'Nissan', manufacturer: 'Nissan North America' },
+  '5N1': { make: 'Nissan', manufacturer: 'Nissan North America' },
+  '3N1': { make: 'Nissan', manufacturer: 'Nissan Mexicana' },
+  'JN1': { make: 'Nissan', manufacturer: 'Nissan Motor Co.' },
+  'JN8': { make: 'Nissan', manufacturer: 'Nissan Motor Co.' },
+  '5N3': { make: 'Infiniti', manufacturer: 'Nissan North America' },
+  'JNK': { make: 'Infiniti', manufacturer: 'Nissan Motor Co.' },
+  '5NP': { make: 'Hyundai', manufacturer: 'Hyundai Motor Manufacturing Alabama' },
+  '5NM': { make: 'Hyundai', manufacturer: 'Hyundai Motor Manufacturing Alabama' },
+  'KMH': { make: 'Hyundai', manufacturer: 'Hyundai Motor Company' },
+  'KM8': { make: 'Hyundai', manufacturer: 'Hyundai Motor Company' },
+  'KMU': { make: 'Genesis', manufacturer: 'Hyundai Motor Company' },
+  '5XY': { make: 'Kia', manufacturer: 'Kia Georgia' },
+  '5XX': { make: 'Kia', manufacturer: 'Kia Georgia' },
+  'KNA': { make: 'Kia', manufacturer: 'Kia Corporation' },
+  'KND': { make: 'Kia', manufacturer: 'Kia Corporation' },
+  '4S3': { make: 'Subaru', manufacturer: 'Subaru of Indiana Automotive' },
+  '4S4': { make: 'Subaru', manufacturer: 'Subaru of Indiana Automotive' },
+  'JF1': { make: 'Subaru', manufacturer: 'Subaru Corporation' },
+  'JF2': { make: 'Subaru', manufacturer: 'Subaru Corporation' },
+  '3MZ': { make: 'Mazda', manufacturer: 'Mazda de Mexico' },
+  'JM1': { make: 'Mazda', manufacturer: 'Mazda Motor Corporation' },
+  'JM3': { make: 'Mazda', manufacturer: 'Mazda Motor Corporation' },
+  '3VW': { make: 'Volkswagen', manufacturer: 'Volkswagen de Mexico' },
+  '1VW': { make: 'Volkswagen', manufacturer: 'Volkswagen of America' },
+  'WVW': { make: 'Volkswagen', manufacturer: 'Volkswagen AG' },
+  'WVG': { make: 'Volkswagen', manufacturer: 'Volkswagen AG' },
+  'WAU': { make: 'Audi', manufacturer: 'Audi AG' },
+  'WA1': { make: 'Audi', manufacturer: 'Audi AG' },
+  'WP0': { make: 'Porsche', manufacturer: 'Porsche AG' },
+  'WP1': { make: 'Porsche', manufacturer: 'Porsche AG' },
+  'WBA': { make: 'BMW', manufacturer: 'BMW AG' },
+  'WBS': { make: 'BMW', manufacturer: 'BMW M GmbH' },
+  '5UX': { make: 'BMW', manufacturer: 'BMW Manufacturing Co.' },
+  '5YM': { make: 'BMW', manufacturer: 'BMW Manufacturing Co.' },
+  'WMW': { make: 'MINI', manufacturer: 'BMW AG' },
+  'WDD': { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz AG' },
+  'WDC': { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz AG' },
+  'W1K': { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz AG' },
+  'W1N': { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz AG' },
+  '4JG': { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz U.S. International' },
+  '55S': { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz AG' },
+  'YV1': { make: 'Volvo', manufacturer: 'Volvo Car Corporation' },
+  'YV4': { make: 'Volvo', manufacturer: 'Volvo Car Corporation' },
+  '7JR': { make: 'Volvo', manufacturer: 'Volvo Car USA' },
+  'SAL': { make: 'Land Rover', manufacturer: 'Jaguar Land Rover' },
+  'SAJ': { make: 'Jaguar', manufacturer: 'Jaguar Land Rover' },
+  '5YJ': { make: 'Tesla', manufacturer: 'Tesla, Inc.' },
+  '7SA': { make: 'Tesla', manufacturer: 'Tesla, Inc.' },
+  'JA4': { make: 'Mitsubishi', manufacturer: 'Mitsubishi Motors' },
+  'ML3': { make: 'Mitsubishi', manufacturer: 'Mitsubishi Motors Thailand' }
+};
+
+// Country of manufacture from the first character of the WMI
+const WMI_REGIONS: [RegExp, string][] = [
+  [/^2/, 'Canada'],
+  [/^3/, 'Mexico'],
+  [/^[145]/, 'United States'],
+  [/^J/, 'Japan'],
+  [/^K/, 'South Korea'],
+  [/^L/, 'China'],
+  [/^S[A-M]/, 'United Kingdom'],
+  [/^V[F-R]/, 'France'],
+  [/^W/, 'Germany'],
+  [/^Y[S-W]/, 'Sweden'],
+  [/^Z/, 'Italy']
+];
+
+// Model year codes for position 10, skipping I, O, Q, U, Z and 0
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+const decodeCountry = (wmi: string) => WMI_REGIONS.find(([pattern]) => pattern.test(wmi))?.[1];
+
+// Position 10 repeats every 30 years. For North American light vehicles,
+// a letter in position 7 means 2010-2039 and a digit means 1980-2009.
+export const decodeModelYear = (vin: string): number | undefined => {
+  const normalized = normalizeVin(vin);
+  const index = MODEL_YEAR_CODES.indexOf(normalized[9]);
+  if (index === -1) return undefined;
+
+  const cycleStart = /[A-Z]/.test(normalized[6]) ? 2010 : 1980;
+  return cycleStart + index;
+};
+
+// Decode what the VIN itself tells us without calling NHTSA
+export const decodeVinOffline = (vin: string): OfflineVinInfo => {
+  const normalized = normalizeVin(vin);
+  const wmi = normalized.slice(0, 3);
+  const known = WMI_MAKES[wmi];
+
+  return {
+    wmi,
+    make: known?.make,
+    manufacturer: known?.manufacturer,
+    country: decodeCountry(wmi),
+    modelYear: decodeModelYear(normalized),
+    plantCode: normalized[10]
+  };
+};